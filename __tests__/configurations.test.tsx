@@ -44,7 +44,7 @@ const mockRaffleState = {
     remainingTeams: [],
     isDrawing: false,
     raffleStarted: false,
-    pendingWinner: undefined,
+    pendingWinners: [],
     withdrawnPlayers: []
   },
   actions: {
@@ -0,0 +1,56 @@
+/**
+ * Raffle CLI Tests
+ *
+ * Argument parsing and report formatting for `npm run raffle`. The commands
+ * themselves only wire these to the app's services, which have their own tests.
+ */
+
+import { getIntegerOption, getListOption, parseCliArgs } from '../scripts/raffle/args';
+import { renderHtmlReport, toCSV } from '../scripts/raffle/reports';
+import { withRaffleModel } from '@/services/modelComparison';
+
+describe('Raffle CLI', () => {
+  test('should parse the command, positionals and options', () => {
+    const args = parseCliArgs(['verify', 'draw-log.json', '--seed', 'abc', '--out=reports/x', 'audit.json', '--help']);
+
+    expect(args.command).toBe('verify');
+    expect(args.positionals).toEqual(['draw-log.json', 'audit.json']);
+    expect(args.options).toEqual({ seed: 'abc', out: 'reports/x', help: true });
+  });
+
+  test('should reject options without values and bad numbers', () => {
+    expect(() => parseCliArgs(['simulate', '--roster'])).toThrow('Option --roster needs a value');
+    expect(() => parseCliArgs(['simulate', '--roster', '--seed', 'x'])).toThrow('Option --roster needs a value');
+
+    const args = parseCliArgs(['simulate', '--iterations', '2.5', '--model', 'a, b,,c']);
+    expect(() => getIntegerOption(args, 'iterations', 1000)).toThrow('--iterations must be a whole number');
+    expect(getIntegerOption(args, 'rounds', 5)).toBe(5);
+    expect(getListOption(args, 'model')).toEqual(['a', 'b', 'c']);
+  });
+
+  test('should escape CSV and HTML report values', () => {
+    expect(toCSV(['team', 'points'], [['Smith, Jo', 100], ['The "A" Team', undefined]]))
+      .toBe('team,points\n"Smith, Jo",100\n"The ""A"" Team",');
+
+    const html = renderHtmlReport('Report <1>', 'subtitle', [{
+      heading: 'Winners',
+      facts: [['Seed', 'a&b']],
+      tables: [{ header: ['Player'], rows: [['<script>alert(1)</script>']] }]
+    }]);
+    expect(html).toContain('<title>Report &lt;1&gt;</title>');
+    expect(html).toContain('<dd>a&amp;b</dd>');
+    expect(html).not.toContain('<script>');
+  });
+
+  test('should drop formula and threshold overrides when switching models', () => {
+    const settings = withRaffleModel({
+      numberOfRounds: 3,
+      raffleModel: 'uniform_elimination',
+      ticketFormula: { type: 'flat', minimumPoints: 1 },
+      thresholdStrategy: { type: 'none' },
+      bonusRules: []
+    }, 'weighted_continuous');
+
+    expect(settings).toEqual({ numberOfRounds: 3, raffleModel: 'weighted_continuous', bonusRules: [] });
+  });
+});
@@ -6,7 +6,7 @@ export const generateMockTeam = (overrides: Partial<TeamData> = {}): TeamData =>
   Points: 1000,
   Submissions: 5,
   'Last Submission': '2024-01-01',
-  status: 'active',
+  status: 'eligible',
   ...overrides,
 });
 
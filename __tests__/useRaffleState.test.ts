@@ -1,5 +1,9 @@
 import { renderHook, act } from '@testing-library/react';
 import { useRaffleState } from '@/hooks/useRaffleState';
+import { diffRoster } from '@/services/rosterMerge';
+import { RAFFLE_MODELS } from '@/services/raffleModels';
+import { RaffleEngine } from '@/services/raffleEngine';
+import { RaffleModelType } from '@/types/raffleModels';
 import { generateMockTeams, defaultRounds } from './testUtils';
 
 describe('useRaffleState Hook', () => {
@@ -14,8 +18,12 @@ describe('useRaffleState Hook', () => {
       remainingTeams: [],
       isDrawing: false,
       raffleStarted: false,
-      pendingWinner: undefined,
-      withdrawnPlayers: []
+      pendingWinners: [],
+      withdrawnPlayers: [],
+      prizes: [],
+      drawLog: [],
+      auditLog: [],
+      rosterVersion: 0
     });
   });
 
@@ -103,7 +111,7 @@ describe('useRaffleState Hook', () => {
       result.current.actions.selectWinner(winnerTeam);
     });
 
-    expect(result.current.state.pendingWinner).toBe(winnerTeam);
+    expect(result.current.state.pendingWinners).toEqual([winnerTeam]);
 
     // Confirm winner
     act(() => {
@@ -113,7 +121,7 @@ describe('useRaffleState Hook', () => {
     expect(result.current.state.winners).toHaveLength(1);
     expect(result.current.state.winners[0].team).toBe(winnerTeam);
     expect(result.current.state.currentRound).toBe(1);
-    expect(result.current.state.pendingWinner).toBeUndefined();
+    expect(result.current.state.pendingWinners).toEqual([]);
     
     // Winner should still be in remaining teams but marked as winner
     const winnerInRemaining = result.current.state.remainingTeams.find(team => team.Team === winnerTeam);
@@ -148,7 +156,7 @@ describe('useRaffleState Hook', () => {
       result.current.actions.rejectWinner();
     });
 
-    expect(result.current.state.pendingWinner).toBeUndefined();
+    expect(result.current.state.pendingWinners).toEqual([]);
     expect(result.current.state.winners).toHaveLength(0);
     expect(result.current.state.currentRound).toBe(0);
     
@@ -185,7 +193,7 @@ describe('useRaffleState Hook', () => {
     expect(result.current.state.currentRound).toBe(0);
     expect(result.current.state.winners).toHaveLength(0);
     expect(result.current.state.raffleStarted).toBe(false);
-    expect(result.current.state.pendingWinner).toBeUndefined();
+    expect(result.current.state.pendingWinners).toEqual([]);
     expect(result.current.state.teams.every(team => team.status === 'eligible')).toBe(true);
     expect(result.current.state.remainingTeams).toHaveLength(mockTeams.length);
     expect(result.current.state.withdrawnPlayers).toHaveLength(0);
@@ -380,7 +388,7 @@ describe('useRaffleState Hook', () => {
       });
 
       expect(result.current.state.withdrawnPlayers).toContain(winnerTeam);
-      expect(result.current.state.pendingWinner).toBeUndefined();
+      expect(result.current.state.pendingWinners).toEqual([]);
     });
 
     it('should reset withdrawn players when resetting raffle', () => {
@@ -414,4 +422,639 @@ describe('useRaffleState Hook', () => {
       expect(result.current.state.withdrawnPlayers).toHaveLength(0);
     });
   });
+
+  describe('Prize Catalog', () => {
+    const prizes = [
+      { id: 'headphones', name: 'Headphones', sponsor: 'Contoso', quantity: 1 },
+      { id: 'gift-card', name: 'Gift Card', quantity: 1 }
+    ];
+
+    it('should award the next available catalog prize to confirmed winners', () => {
+      const { result } = renderHook(() => useRaffleState());
+      const mockTeams = generateMockTeams(5, [1000, 2000]);
+
+      act(() => {
+        result.current.actions.loadTeamData(mockTeams);
+        result.current.actions.updatePrizes(prizes);
+      });
+
+      act(() => {
+        result.current.actions.startRaffle();
+      });
+
+      expect(result.current.computed.currentPrize?.id).toBe('headphones');
+
+      act(() => {
+        result.current.actions.selectWinner(mockTeams[0].Team);
+      });
+
+      act(() => {
+        result.current.actions.confirmWinner();
+      });
+
+      expect(result.current.state.winners[0].prize).toBe('Headphones');
+      expect(result.current.state.winners[0].prizeId).toBe('headphones');
+      expect(result.current.computed.currentPrize?.id).toBe('gift-card');
+    });
+
+    it('should refuse to start a round that has no prize left', () => {
+      const { result } = renderHook(() => useRaffleState());
+      const mockTeams = generateMockTeams(5, [1000, 2000]);
+      const rounds = [
+        { id: 1, name: 'Round 1', pointThreshold: 0, description: 'Headphones only', prizeIds: ['headphones'] },
+        { id: 2, name: 'Round 2', pointThreshold: 0, description: 'Headphones again', prizeIds: ['headphones'] }
+      ];
+
+      act(() => {
+        result.current.actions.loadTeamData(mockTeams);
+        result.current.actions.updateRounds(rounds);
+        result.current.actions.updatePrizes(prizes);
+      });
+
+      act(() => {
+        result.current.actions.startRaffle();
+      });
+
+      act(() => {
+        result.current.actions.selectWinner(mockTeams[0].Team);
+      });
+
+      act(() => {
+        result.current.actions.confirmWinner();
+      });
+
+      expect(result.current.state.currentRound).toBe(1);
+      expect(result.current.computed.roundHasPrize).toBe(false);
+      expect(result.current.computed.canStartRound).toBe(false);
+    });
+
+    it('should not draw more winners at once than the round has prizes left', () => {
+      const { result } = renderHook(() => useRaffleState());
+      const mockTeams = generateMockTeams(5, [1000, 2000]);
+      const rounds = [
+        { id: 1, name: 'Round 1', pointThreshold: 0, description: 'Three winners, one prize', winnerCount: 3, prizeIds: ['headphones'] }
+      ];
+
+      act(() => {
+        result.current.actions.loadTeamData(mockTeams);
+        result.current.actions.updateRounds(rounds);
+        result.current.actions.updatePrizes(prizes);
+      });
+
+      act(() => {
+        result.current.actions.startRaffle();
+      });
+
+      expect(result.current.computed.openSlots).toBe(1);
+
+      act(() => {
+        result.current.actions.startDraw('test-seed', 3);
+      });
+
+      expect(result.current.state.batchDraws).toBeUndefined();
+
+      act(() => {
+        result.current.actions.selectWinner(result.current.state.currentDraw?.winner as string);
+      });
+
+      expect(result.current.state.pendingWinners).toHaveLength(1);
+
+      act(() => {
+        result.current.actions.confirmWinner();
+      });
+
+      expect(result.current.state.pendingWinners).toEqual([]);
+      expect(result.current.state.winners[0].prizeId).toBe('headphones');
+      expect(result.current.computed.openSlots).toBe(0);
+      expect(result.current.computed.canStartRound).toBe(false);
+    });
+
+    it('should complete a round with fewer prizes than winners and move on to the next', () => {
+      const { result } = renderHook(() => useRaffleState());
+      const mockTeams = generateMockTeams(6, [1000, 2000]);
+      const rounds = [
+        { id: 1, name: 'Round 1', pointThreshold: 0, description: 'Three winners, two prizes', winnerCount: 3, prizeIds: ['headphones', 'gift-card'] },
+        { id: 2, name: 'Round 2', pointThreshold: 0, description: 'Mug', prizeIds: ['mug'] }
+      ];
+
+      act(() => {
+        result.current.actions.loadTeamData(mockTeams);
+        result.current.actions.updateRounds(rounds);
+        result.current.actions.updatePrizes([...prizes, { id: 'mug', name: 'Mug', quantity: 1 }]);
+      });
+      act(() => {
+        result.current.actions.startRaffle();
+      });
+
+      for (let slot = 0; slot < 2; slot++) {
+        expect(result.current.state.currentRound).toBe(0);
+        act(() => {
+          result.current.actions.startDraw('test-seed');
+        });
+        act(() => {
+          result.current.actions.selectWinner(result.current.state.currentDraw?.winner as string);
+        });
+        act(() => {
+          result.current.actions.confirmWinner();
+        });
+      }
+
+      expect(result.current.state.winners.map(winner => winner.prizeId)).toEqual(['headphones', 'gift-card']);
+      expect(result.current.state.currentRound).toBe(1);
+      expect(result.current.computed.currentPrize?.id).toBe('mug');
+      expect(result.current.computed.canStartRound).toBe(true);
+    });
+  });
+
+  describe('Draw Service Integration', () => {
+    it('should choose the winner before the animation and log the draw', () => {
+      const { result } = renderHook(() => useRaffleState());
+      const mockTeams = [
+        { Team: 'Team1', Points: 1000, Submissions: 1, 'Last Submission': '2024-01-01', status: 'eligible' as const },
+        { Team: 'Team2', Points: 50, Submissions: 1, 'Last Submission': '2024-01-01', status: 'eligible' as const },
+        { Team: 'Team3', Points: 500, Submissions: 1, 'Last Submission': '2024-01-01', status: 'eligible' as const }
+      ];
+
+      act(() => {
+        result.current.actions.loadTeamData(mockTeams);
+      });
+
+      act(() => {
+        result.current.actions.startRaffle();
+      });
+
+      // Team2 has 0 tickets and can never be drawn
+      expect(result.current.computed.eligibleTeamsForCurrentRound.map(team => team.Team)).toEqual(['Team1', 'Team3']);
+
+      act(() => {
+        result.current.actions.startDraw('test-seed');
+      });
+
+      const draw = result.current.state.currentDraw;
+      expect(result.current.state.isDrawing).toBe(true);
+      expect(['Team1', 'Team3']).toContain(draw?.winner);
+
+      act(() => {
+        result.current.actions.selectWinner(draw?.winner as string);
+      });
+
+      expect(result.current.state.pendingWinners).toEqual([draw?.winner]);
+      expect(result.current.state.currentDraw).toBeUndefined();
+      expect(result.current.state.drawLog).toHaveLength(1);
+      expect(result.current.state.drawLog[0].winner).toBe(draw?.winner);
+    });
+  });
+
+  describe('Audit Log', () => {
+    it('should record every raffle action in order', () => {
+      const { result } = renderHook(() => useRaffleState());
+      const mockTeams = generateMockTeams(5, [1000, 2000]);
+
+      act(() => {
+        result.current.actions.loadTeamData(mockTeams);
+      });
+
+      act(() => {
+        result.current.actions.startRaffle();
+      });
+
+      act(() => {
+        result.current.actions.startDraw('test-seed');
+      });
+
+      const rejected = result.current.state.currentDraw?.winner as string;
+
+      act(() => {
+        result.current.actions.selectWinner(rejected);
+      });
+
+      act(() => {
+        result.current.actions.rejectWinner();
+      });
+
+      act(() => {
+        result.current.actions.resetRaffle();
+      });
+
+      const events = result.current.state.auditLog;
+      expect(events.map(event => event.type)).toEqual([
+        'raffle_started',
+        'draw_started',
+        'winner_selected',
+        'winner_rejected',
+        'raffle_reset'
+      ]);
+      expect(events[1].eligibleCount).toBe(5);
+      expect(events[3].team).toBe(rejected);
+      expect(events.every(event => event.rosterHash.length === 64)).toBe(true);
+    });
+  });
+
+  describe('Multi-winner Rounds', () => {
+    const twoWinnerRounds = defaultRounds.slice(0, 2).map(round => ({ ...round, pointThreshold: 0, winnerCount: 2 }));
+
+    it('should complete a round that runs out of players before its winner count', () => {
+      const { result } = renderHook(() => useRaffleState());
+
+      act(() => {
+        result.current.actions.loadTeamData(generateMockTeams(2, [1000, 2000]));
+      });
+      act(() => {
+        result.current.actions.updateRounds(twoWinnerRounds.map(round => ({ ...round, winnerCount: 3 })));
+      });
+      act(() => {
+        result.current.actions.startRaffle();
+      });
+      act(() => {
+        result.current.actions.startDraw('test-seed', 3);
+      });
+      act(() => {
+        result.current.actions.selectWinner(result.current.state.currentDraw?.winner as string);
+      });
+
+      expect(result.current.state.pendingWinners).toHaveLength(2);
+
+      act(() => {
+        result.current.actions.confirmWinner();
+      });
+      act(() => {
+        result.current.actions.confirmWinner();
+      });
+
+      expect(result.current.state.currentRound).toBe(1);
+    });
+
+    it('should only advance the round once every winner slot is confirmed', () => {
+      const { result } = renderHook(() => useRaffleState());
+
+      act(() => {
+        result.current.actions.loadTeamData(generateMockTeams(6, [1000, 2000]));
+      });
+      act(() => {
+        result.current.actions.updateRounds(twoWinnerRounds);
+      });
+      act(() => {
+        result.current.actions.startRaffle();
+      });
+
+      for (let slot = 0; slot < 2; slot++) {
+        expect(result.current.computed.openSlots).toBe(2 - slot);
+        act(() => {
+          result.current.actions.startDraw('test-seed');
+        });
+        act(() => {
+          result.current.actions.selectWinner(result.current.state.currentDraw?.winner as string);
+        });
+        act(() => {
+          result.current.actions.confirmWinner();
+        });
+        expect(result.current.state.currentRound).toBe(slot === 0 ? 0 : 1);
+      }
+
+      expect(result.current.state.winners.map(w => w.round)).toEqual([1, 1]);
+      expect(new Set(result.current.state.winners.map(w => w.team)).size).toBe(2);
+    });
+
+    it('should draw all open slots at once and confirm or reject each winner', () => {
+      const { result } = renderHook(() => useRaffleState());
+
+      act(() => {
+        result.current.actions.loadTeamData(generateMockTeams(6, [1000, 2000]));
+      });
+      act(() => {
+        result.current.actions.updateRounds(twoWinnerRounds.map(round => ({ ...round, winnerCount: 3 })));
+      });
+      act(() => {
+        result.current.actions.startRaffle();
+      });
+      act(() => {
+        result.current.actions.startDraw('test-seed', 5);
+      });
+
+      // Capped at the round's three slots, each with its own draw record
+      expect(result.current.state.batchDraws).toHaveLength(2);
+
+      act(() => {
+        result.current.actions.selectWinner(result.current.state.currentDraw?.winner as string);
+      });
+
+      const [first, second, third] = result.current.state.pendingWinners;
+      expect(new Set([first, second, third]).size).toBe(3);
+      expect(result.current.state.drawLog).toHaveLength(3);
+      expect(result.current.computed.canStartRound).toBe(false);
+
+      act(() => {
+        result.current.actions.rejectWinner(second);
+      });
+      act(() => {
+        result.current.actions.confirmWinner(first);
+      });
+      act(() => {
+        result.current.actions.confirmWinner(third);
+      });
+
+      expect(result.current.state.withdrawnPlayers).toEqual([second]);
+      expect(result.current.state.currentRound).toBe(0);
+      expect(result.current.computed.openSlots).toBe(1);
+
+      // Redrawing only fills the rejected slot and never picks a confirmed or rejected player
+      act(() => {
+        result.current.actions.startDraw('test-seed', 3);
+      });
+      expect(result.current.state.batchDraws).toBeUndefined();
+      expect([first, second, third]).not.toContain(result.current.state.currentDraw?.winner);
+    });
+  });
+
+  describe('Live Elimination', () => {
+    it("should apply the model's elimination rule when a round completes", () => {
+      const { result } = renderHook(() => useRaffleState());
+      const teams = [1000, 900, 800, 700, 600, 500].map((points, i) => ({
+        Team: `Player ${i + 1}`,
+        Points: points,
+        Submissions: 1,
+        'Last Submission': '2024-01-01'
+      }));
+      const rounds = defaultRounds.slice(0, 3).map(round => ({ ...round, pointThreshold: 0 }));
+
+      act(() => {
+        result.current.actions.loadTeamData(teams);
+      });
+      act(() => {
+        result.current.actions.updateRounds(rounds);
+        result.current.actions.setRaffleModel({
+          ...RAFFLE_MODELS[RaffleModelType.UNIFORM_ELIMINATION],
+          elimination: { type: 'lowest_points' }
+        });
+      });
+      act(() => {
+        result.current.actions.startRaffle();
+      });
+      act(() => {
+        result.current.actions.startDraw('test-seed');
+      });
+
+      const winner = result.current.state.currentDraw?.winner as string;
+      act(() => {
+        result.current.actions.selectWinner(winner);
+      });
+      act(() => {
+        result.current.actions.confirmWinner(undefined, 'test-seed');
+      });
+
+      // floor(6 players / 3 rounds) = 2 of the lowest-point players still in the pool
+      const expected = teams.filter(team => team.Team !== winner).slice(-2).reverse();
+      expect(result.current.state.currentRound).toBe(1);
+      expect(result.current.state.eliminatedPlayers).toEqual(expected.map(team => ({
+        team: team.Team,
+        round: 1,
+        reason: `Fewest points left (${team.Points})`
+      })));
+
+      const eligible = result.current.computed.eligibleTeamsForCurrentRound.map(team => team.Team);
+      expect(eligible).toHaveLength(3);
+      expected.forEach(team => expect(eligible).not.toContain(team.Team));
+
+      const events = result.current.state.auditLog.filter(event => event.type === 'player_eliminated');
+      expect(events.map(event => [event.team, event.details?.reason])).toEqual(
+        expected.map(team => [team.Team, `Fewest points left (${team.Points})`])
+      );
+    });
+
+    it('should drop the same players as RaffleEngine for a fixed seed', () => {
+      const { result } = renderHook(() => useRaffleState());
+      const model = RAFFLE_MODELS[RaffleModelType.UNIFORM_ELIMINATION];
+      // Only Alice holds a ticket, so both pick her and eliminate from the same pool
+      const teams = ['Alice', 'Bob', 'Carol', 'Dan', 'Erin', 'Frank', 'Grace'].map((name, i) => ({
+        Team: name,
+        Points: i === 0 ? 500 : 50,
+        Submissions: 1,
+        'Last Submission': '2024-01-01'
+      }));
+      const rounds = defaultRounds.slice(0, 3).map(round => ({ ...round, pointThreshold: 0, winnerCount: 1 }));
+
+      act(() => {
+        result.current.actions.loadTeamData(teams);
+      });
+      act(() => {
+        result.current.actions.updateRounds(rounds);
+        result.current.actions.setRaffleModel(model);
+      });
+      act(() => {
+        result.current.actions.startRaffle();
+      });
+      act(() => {
+        result.current.actions.startDraw('fixed-seed');
+      });
+      act(() => {
+        result.current.actions.selectWinner(result.current.state.currentDraw?.winner as string);
+      });
+      act(() => {
+        result.current.actions.confirmWinner(undefined, 'fixed-seed');
+      });
+
+      const participants = teams.map(team => ({
+        id: team.Team,
+        name: team.Team,
+        email: '',
+        points: team.Points,
+        tickets: 0,
+        isActive: true,
+        isWinner: false
+      }));
+      const engine = new RaffleEngine(participants, {
+        totalRounds: rounds.length,
+        winnersPerRound: 1,
+        model,
+        participants,
+        drawSeed: 'fixed-seed'
+      });
+      const engineRounds = rounds.map(() => engine.runRound());
+
+      // floor(7 players / 3 rounds) = 2 drawn at random from the six left
+      expect(engineRounds[0].winners).toEqual(['Alice']);
+      expect(result.current.state.winners.map(winner => winner.team)).toEqual(['Alice']);
+      expect(result.current.state.eliminatedPlayers).toHaveLength(2);
+      expect(result.current.state.eliminatedPlayers?.map(({ team, reason }) => ({ team, reason }))).toEqual(
+        engineRounds[0].eliminations.map(({ participantId, reason }) => ({ team: participantId, reason }))
+      );
+      // Neither drops anyone after the last round
+      expect(engineRounds[2].eliminations).toEqual([]);
+    });
+  });
+
+  describe('Undo / Redo', () => {
+    const drawPendingWinner = (result: { current: ReturnType<typeof useRaffleState> }) => {
+      act(() => {
+        result.current.actions.startDraw('test-seed');
+      });
+      const winner = result.current.state.currentDraw?.winner as string;
+      act(() => {
+        result.current.actions.selectWinner(winner);
+      });
+      return winner;
+    };
+
+    it('should undo and redo a confirmed winner', () => {
+      const { result } = renderHook(() => useRaffleState());
+
+      act(() => {
+        result.current.actions.loadTeamData(generateMockTeams(5, [1000, 2000]));
+      });
+      act(() => {
+        result.current.actions.startRaffle();
+      });
+      const winner = drawPendingWinner(result);
+
+      act(() => {
+        result.current.actions.confirmWinner();
+      });
+
+      expect(result.current.state.winners).toHaveLength(1);
+      expect(result.current.computed.canUndo).toBe(true);
+      expect(result.current.computed.lastAction?.label).toBe(`Confirmed ${winner} as winner`);
+
+      act(() => {
+        result.current.actions.undo();
+      });
+
+      expect(result.current.state.winners).toHaveLength(0);
+      expect(result.current.state.pendingWinners).toEqual([winner]);
+      expect(result.current.state.currentRound).toBe(0);
+      expect(result.current.computed.canRedo).toBe(true);
+      expect(result.current.computed.lastAction?.kind).toBe('undone');
+      // Undo is recorded, not erased from the audit log
+      expect(result.current.state.auditLog.map(event => event.type).slice(-2)).toEqual(['winner_confirmed', 'action_undone']);
+
+      act(() => {
+        result.current.actions.redo();
+      });
+
+      expect(result.current.state.winners.map(w => w.team)).toEqual([winner]);
+      expect(result.current.state.pendingWinners).toEqual([]);
+      expect(result.current.computed.canRedo).toBe(false);
+    });
+
+    it('should undo a raffle reset', () => {
+      const { result } = renderHook(() => useRaffleState());
+
+      act(() => {
+        result.current.actions.loadTeamData(generateMockTeams(5, [1000, 2000]));
+      });
+      act(() => {
+        result.current.actions.startRaffle();
+      });
+      drawPendingWinner(result);
+      act(() => {
+        result.current.actions.confirmWinner();
+      });
+      act(() => {
+        result.current.actions.resetRaffle();
+      });
+
+      expect(result.current.state.raffleStarted).toBe(false);
+
+      act(() => {
+        result.current.actions.undo();
+      });
+
+      expect(result.current.state.raffleStarted).toBe(true);
+      expect(result.current.state.winners).toHaveLength(1);
+      expect(result.current.state.currentRound).toBe(1);
+    });
+
+    it('should clear redo history on a new action and keep history bounded', () => {
+      const { result } = renderHook(() => useRaffleState());
+
+      act(() => {
+        result.current.actions.loadTeamData(generateMockTeams(30, [1000, 2000]));
+      });
+      act(() => {
+        result.current.actions.startRaffle();
+      });
+      for (let i = 0; i < 25; i++) {
+        drawPendingWinner(result);
+        act(() => {
+          result.current.actions.rejectWinner();
+        });
+      }
+
+      let undone = 0;
+      while (result.current.computed.canUndo) {
+        act(() => {
+          result.current.actions.undo();
+        });
+        undone++;
+      }
+      expect(undone).toBe(20);
+      expect(result.current.state.withdrawnPlayers).toHaveLength(5);
+      expect(result.current.state.pendingWinners).toHaveLength(1);
+
+      act(() => {
+        result.current.actions.rejectWinner();
+      });
+      expect(result.current.computed.canRedo).toBe(false);
+    });
+  });
+
+  describe('Roster Updates', () => {
+    it('should apply accepted roster changes mid-raffle and stamp the roster version on audit events', () => {
+      const { result } = renderHook(() => useRaffleState());
+      const roster = [
+        { Team: 'Alice', Points: 1500, Submissions: 5, 'Last Submission': '2024-01-01' },
+        { Team: 'Bob', Points: 900, Submissions: 3, 'Last Submission': '2024-01-01' },
+        { Team: 'Carol', Points: 400, Submissions: 2, 'Last Submission': '2024-01-01' }
+      ];
+
+      act(() => {
+        result.current.actions.loadTeamData(roster);
+      });
+      act(() => {
+        result.current.actions.startRaffle();
+      });
+      act(() => {
+        result.current.actions.startDraw('test-seed');
+      });
+      const winner = result.current.state.currentDraw?.winner as string;
+      act(() => {
+        result.current.actions.selectWinner(winner);
+      });
+      act(() => {
+        result.current.actions.confirmWinner();
+      });
+
+      const updatedExport = roster
+        .filter(team => team.Team !== 'Carol' || winner === 'Carol')
+        .map(team => ({ ...team, Points: team.Points + 100 }))
+        .concat([{ Team: 'Dave', Points: 1200, Submissions: 4, 'Last Submission': '2024-01-02' }]);
+      const diff = diffRoster(result.current.state.teams, updatedExport, {
+        winners: result.current.state.winners.map(w => w.team),
+        pendingWinners: [],
+        withdrawnPlayers: []
+      });
+
+      expect(diff.changes.find(change => change.team === winner)?.conflict).toBe('Already won a prize');
+
+      act(() => {
+        result.current.actions.applyRosterChanges(diff.changes);
+      });
+
+      const { state } = result.current;
+      expect(state.rosterVersion).toBe(2);
+      expect(state.teams.find(team => team.Team === winner)?.status).toBe('winner');
+      expect(state.remainingTeams.some(team => team.Team === 'Dave')).toBe(true);
+      expect(state.teams.map(team => team.playerNumber)).toEqual(state.teams.map((_, index) => index + 1));
+
+      const started = state.auditLog.find(event => event.type === 'raffle_started');
+      const updated = state.auditLog.find(event => event.type === 'roster_updated');
+      expect(started?.rosterVersion).toBe(1);
+      expect(updated?.rosterVersion).toBe(2);
+      expect(updated?.details?.added).toBe(1);
+
+      act(() => {
+        result.current.actions.startDraw('test-seed');
+      });
+      expect(result.current.state.auditLog[result.current.state.auditLog.length - 1].rosterVersion).toBe(2);
+    });
+  });
 });
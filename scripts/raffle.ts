@@ -0,0 +1,110 @@
+/**
+ * Raffle CLI
+ *
+ * One command line for everything the old one-off simulation scripts did,
+ * running on the app's own engine (RaffleEngine, ConfigurationManager and the
+ * draw service) against real rosters and saved configurations.
+ *
+ * Usage:
+ * - npm run raffle -- <command> [options]
+ * - npm run raffle -- help
+ */
+
+import { ParsedArgs, parseCliArgs } from './raffle/args';
+import { runAnalyze } from './raffle/analyze';
+import { runDraw } from './raffle/draw';
+import { runSimulate } from './raffle/simulate';
+import { runVerify } from './raffle/verify';
+
+interface Command {
+  summary: string;
+  usage: string;
+  run: (args: ParsedArgs) => Promise<boolean>; // false sets a failing exit code
+}
+
+const INPUT_OPTIONS = `
+  --roster <file>       Players as CSV, TSV or XLSX (Team and Points columns required)
+  --config <file>       Configuration JSON - one configuration or the saved list
+  --config-id <id>      Configuration id or name when the file holds several
+  --rounds <n>          Rounds when no configuration is given (default 5)
+  --model <id>          Use another raffle model on the same rounds
+  --out <dir>           Output directory (default raffle-reports/<command>-<timestamp>)`;
+
+const COMMANDS: Record<string, Command> = {
+  simulate: {
+    summary: 'Simulate many raffles and report each player\'s chance of winning',
+    usage: `raffle simulate [options]
+${INPUT_OPTIONS}
+  --model <ids>         Comma-separated models to compare, or "all"
+  --iterations <n>      Raffles per model (default 1000)
+  --seed <text>         Seed for reproducible runs`,
+    run: runSimulate
+  },
+  verify: {
+    summary: 'Check draw logs and audit reports, or audit a round\'s draw',
+    usage: `raffle verify <draw-log.json | fairness-audit.json>... [--seed <seed>]
+raffle verify [options]     (fairness audit of one round)
+${INPUT_OPTIONS}
+  --round <n>           Round to audit (default 1)
+  --iterations <n>      Draws to run (default 10000)
+  --seed <text>         Audit seed (default: new random seed)`,
+    run: runVerify
+  },
+  analyze: {
+    summary: 'Tickets, eligible rounds and win chances for a roster',
+    usage: `raffle analyze [options]
+${INPUT_OPTIONS}`,
+    run: runAnalyze
+  },
+  draw: {
+    summary: 'Run a verifiable draw and export its draw log',
+    usage: `raffle draw [options]
+${INPUT_OPTIONS}
+  --round <n>           Draw only this round (default: every round in order)
+  --seed <text>         Secret seed whose commitment was published (default: new seed)`,
+    run: runDraw
+  }
+};
+
+const printHelp = (commandName?: string): void => {
+  const command = commandName ? COMMANDS[commandName] : undefined;
+  if (command) {
+    console.log(`${command.summary}\n\nUsage: ${command.usage}`);
+    return;
+  }
+
+  console.log('Usage: raffle <command> [options]\n\nCommands:');
+  Object.entries(COMMANDS).forEach(([name, { summary }]) => console.log(`  ${name.padEnd(10)} ${summary}`));
+  console.log('\nRun "raffle help <command>" for the command\'s options.');
+};
+
+async function main(): Promise<void> {
+  const args = parseCliArgs(process.argv.slice(2));
+
+  if (!args.command || args.command === 'help') {
+    printHelp(args.positionals[0]);
+    return;
+  }
+
+  const command = COMMANDS[args.command];
+  if (!command) {
+    printHelp();
+    throw new Error(`Unknown command "${args.command}"`);
+  }
+  if (args.options.help) {
+    printHelp(args.command);
+    return;
+  }
+
+  const succeeded = await command.run(args);
+  if (!succeeded) {
+    process.exitCode = 1;
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  });
+}
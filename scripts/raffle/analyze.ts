@@ -0,0 +1,152 @@
+/**
+ * raffle analyze - how a roster plays under a configuration
+ *
+ * Reports each player's tickets (formula plus bonuses), the rounds they can be
+ * drawn in and their chance of winning from ticket odds, with per-round pool
+ * sizes and a points-decile breakdown. Nothing is simulated, so it runs
+ * instantly on large rosters.
+ */
+
+import { getTicketBreakdown } from '../../src/services/bonusTickets';
+import { getRoundWinnerCount } from '../../src/services/drawService';
+import { calculateGini } from '../../src/services/modelComparison';
+import { resolveRaffleModel, validateRaffleModel } from '../../src/services/raffleModels';
+import { getExpectedWinChances } from '../../src/services/simulationJob';
+import { describeTicketFormula } from '../../src/services/ticketFormula';
+import { ParsedArgs, getStringOption } from './args';
+import { buildRoundEntries, loadInputs } from './inputs';
+import { ReportCell, createOutputDirectory, formatPercent, renderHtmlReport, toCSV, writeReportFile } from './reports';
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+export const runAnalyze = async (args: ParsedArgs): Promise<boolean> => {
+  const inputs = await loadInputs(args);
+  const { teams, rounds, settings } = inputs;
+  const model = resolveRaffleModel(settings);
+  const expected = getExpectedWinChances(teams, settings);
+
+  const roundEntries = rounds.map(round => buildRoundEntries(inputs, round));
+  const roundPools = rounds.map((round, i) => {
+    const entries = roundEntries[i];
+    const totalTickets = entries.reduce((sum, entry) => sum + entry.tickets, 0);
+    return {
+      round: round.name,
+      pointThreshold: round.pointThreshold,
+      winners: getRoundWinnerCount(round),
+      players: entries.length,
+      totalTickets,
+      bestOdds: totalTickets > 0 ? Math.max(...entries.map(entry => entry.tickets)) / totalTickets : 0
+    };
+  });
+
+  const players = teams.map((team, index) => {
+    const breakdown = getTicketBreakdown(team, model.ticketFormula, model.bonusRules);
+    return {
+      team: team.Team,
+      points: team.Points,
+      submissions: team.Submissions,
+      baseTickets: breakdown.base,
+      bonusTickets: breakdown.bonus,
+      tickets: breakdown.total,
+      eligibleRounds: roundEntries.filter(entries => entries.some(entry => entry.team === team.Team)).length,
+      winChance: expected[index]
+    };
+  });
+
+  const ranked = [...players].sort((a, b) => a.points - b.points || a.team.localeCompare(b.team));
+  const deciles = Array.from({ length: 10 }, (_, i) => i + 1)
+    .map(decile => ({ decile, members: ranked.filter((_, rank) => Math.floor((rank * 10) / ranked.length) + 1 === decile) }))
+    .filter(({ members }) => members.length > 0)
+    .map(({ decile, members }) => ({
+      decile,
+      minPoints: members[0].points,
+      maxPoints: members[members.length - 1].points,
+      players: members.length,
+      averageTickets: members.reduce((sum, player) => sum + player.tickets, 0) / members.length,
+      averageWinChance: members.reduce((sum, player) => sum + player.winChance, 0) / members.length
+    }));
+
+  const points = teams.map(team => team.Points);
+  const withTickets = players.filter(player => player.tickets > 0).length;
+  const summary: [string, ReportCell][] = [
+    ['Model', model.name],
+    ['Ticket formula', describeTicketFormula(model.ticketFormula)],
+    ['Rounds', rounds.length],
+    ['Prizes', rounds.reduce((sum, round) => sum + getRoundWinnerCount(round), 0)],
+    ['Players', teams.length],
+    ['Players with tickets', withTickets],
+    ['Total tickets', players.reduce((sum, player) => sum + player.tickets, 0)],
+    ['Points (min / median / max)', teams.length > 0 ? `${Math.min(...points)} / ${median(points)} / ${Math.max(...points)}` : '-'],
+    ['Gini (tickets)', calculateGini(players.map(player => player.tickets)).toFixed(3)],
+    ['Gini (win chances)', calculateGini(expected).toFixed(3)]
+  ];
+
+  const warnings = [
+    ...validateRaffleModel(model).map(error => `Model: ${error}`),
+    ...roundPools.filter(pool => pool.players === 0).map(pool => `${pool.round} has no eligible players`),
+    ...(withTickets < teams.length ? [`${teams.length - withTickets} players hold no tickets and can never win`] : [])
+  ];
+
+  console.log(`\n📊 ${inputs.name}: ${teams.length} players, ${rounds.length} rounds under ${model.name}`);
+  summary.forEach(([label, value]) => console.log(`   ${label}: ${value}`));
+  warnings.forEach(warning => console.warn(`⚠️ ${warning}`));
+
+  const directory = createOutputDirectory('analyze', getStringOption(args, 'out'));
+  console.log('\n📝 Results saved:');
+  writeReportFile(directory, 'analysis.json', JSON.stringify({
+    generatedAt: new Date().toISOString(),
+    source: inputs.name,
+    summary: Object.fromEntries(summary),
+    warnings,
+    rounds: roundPools,
+    deciles,
+    players
+  }, null, 2));
+  writeReportFile(directory, 'players.csv', toCSV(
+    ['team', 'points', 'submissions', 'base_tickets', 'bonus_tickets', 'tickets', 'eligible_rounds', 'win_chance'],
+    players.map(player => [
+      player.team,
+      player.points,
+      player.submissions,
+      player.baseTickets,
+      player.bonusTickets,
+      player.tickets,
+      player.eligibleRounds,
+      player.winChance.toFixed(4)
+    ])
+  ));
+  writeReportFile(directory, 'report.html', renderHtmlReport(
+    `Raffle Analysis - ${inputs.name}`,
+    `${teams.length} players under ${model.name}`,
+    [
+      { heading: 'Summary', facts: summary, notes: warnings },
+      {
+        heading: 'Rounds',
+        tables: [{
+          header: ['Round', 'Min points', 'Winners', 'Eligible players', 'Tickets', 'Best odds'],
+          rows: roundPools.map(pool => [pool.round, pool.pointThreshold, pool.winners, pool.players, pool.totalTickets, formatPercent(pool.bestOdds * 100)])
+        }]
+      },
+      {
+        heading: 'Points deciles',
+        tables: [{
+          header: ['Decile', 'Points', 'Players', 'Average tickets', 'Average win chance'],
+          rows: deciles.map(decile => [
+            decile.decile,
+            `${decile.minPoints}–${decile.maxPoints}`,
+            decile.players,
+            decile.averageTickets.toFixed(1),
+            formatPercent(decile.averageWinChance)
+          ])
+        }]
+      }
+    ]
+  ));
+
+  return true;
+};
@@ -0,0 +1,84 @@
+/**
+ * Command-line argument parsing for the raffle CLI
+ *
+ * Supports `--name value`, `--name=value` and bare boolean flags. Anything
+ * that is not an option is a positional argument; the first one is the
+ * subcommand.
+ */
+
+export interface ParsedArgs {
+  command?: string;
+  positionals: string[];
+  options: Record<string, string | true>;
+}
+
+// Options that never take a value
+const BOOLEAN_OPTIONS = ['help'];
+
+export const parseCliArgs = (argv: string[]): ParsedArgs => {
+  const positionals: string[] = [];
+  const options: Record<string, string | true> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '-h') {
+      options.help = true;
+    } else if (arg.startsWith('--')) {
+      const body = arg.slice(2);
+      const equals = body.indexOf('=');
+      const name = equals >= 0 ? body.slice(0, equals) : body;
+      const inlineValue = equals >= 0 ? body.slice(equals + 1) : undefined;
+      if (!name) {
+        throw new Error(`Invalid option "${arg}"`);
+      }
+      if (inlineValue !== undefined) {
+        options[name] = inlineValue;
+      } else if (BOOLEAN_OPTIONS.includes(name)) {
+        options[name] = true;
+      } else {
+        const value = argv[i + 1];
+        if (value === undefined || value.startsWith('--')) {
+          throw new Error(`Option --${name} needs a value`);
+        }
+        options[name] = value;
+        i++;
+      }
+    } else {
+      positionals.push(arg);
+    }
+  }
+
+  return { command: positionals[0], positionals: positionals.slice(1), options };
+};
+
+export const getStringOption = (args: ParsedArgs, name: string): string | undefined => {
+  const value = args.options[name];
+  if (value === true) {
+    throw new Error(`Option --${name} needs a value`);
+  }
+  return value;
+};
+
+/**
+ * Read a whole-number option, falling back to the default when it is not given
+ */
+export const getIntegerOption = (args: ParsedArgs, name: string, defaultValue: number, min: number = 1): number => {
+  const value = getStringOption(args, name);
+  if (value === undefined) return defaultValue;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`Option --${name} must be a whole number of at least ${min} (got "${value}")`);
+  }
+  return parsed;
+};
+
+/**
+ * Comma-separated list option, e.g. --model weighted_continuous,round_based
+ */
+export const getListOption = (args: ParsedArgs, name: string): string[] => {
+  const value = getStringOption(args, name);
+  if (value === undefined) return [];
+  return value.split(',').map(item => item.trim()).filter(item => item !== '');
+};
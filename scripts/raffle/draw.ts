@@ -0,0 +1,105 @@
+/**
+ * raffle draw - run a verifiable draw offline
+ *
+ * Draws every round in order (or just --round) with the commit-reveal
+ * protocol the live raffle uses: each winner comes from performFairDraw over
+ * the round's ticket pool, winners leave the pool unless the model keeps
+ * them, and the exported draw log can be checked with `raffle verify` or on
+ * the verify page. Pass --seed to draw with a seed whose commitment was
+ * published before the event.
+ */
+
+import { TeamData } from '../../src/types/raffle';
+import { DrawRecord } from '../../src/types/fairDraw';
+import {
+  buildDrawLog,
+  createDrawCommitment,
+  generateDrawSeed,
+  revealDrawCommitment,
+  verifyDrawLog
+} from '../../src/services/fairDraw';
+import { getRoundWinnerCount, performFairDraw } from '../../src/services/drawService';
+import { ParsedArgs, getStringOption } from './args';
+import { buildRoundEntries, getRoundOption, loadInputs } from './inputs';
+import { createOutputDirectory, formatPercent, renderHtmlReport, toCSV, writeReportFile } from './reports';
+
+// Winner's share of the round's tickets at the moment of the draw
+const getWinChance = (draw: DrawRecord): number => {
+  const tickets = draw.entries.find(entry => entry.team === draw.winner)?.tickets ?? 0;
+  return tickets / draw.totalTickets;
+};
+
+export const runDraw = async (args: ParsedArgs): Promise<boolean> => {
+  const inputs = await loadInputs(args);
+  const onlyRound = getRoundOption(args, inputs.rounds);
+  const commitment = createDrawCommitment(getStringOption(args, 'seed') ?? generateDrawSeed());
+
+  console.log(`\n🔒 Commitment (SHA-256 of the seed): ${commitment.commitment}`);
+
+  let teams: TeamData[] = inputs.teams;
+  const draws: DrawRecord[] = [];
+
+  inputs.rounds.forEach((round, index) => {
+    const roundNumber = index + 1;
+    if (onlyRound !== undefined && roundNumber !== onlyRound) return;
+
+    let pool = buildRoundEntries(inputs, round, teams);
+    const roundWinners: string[] = [];
+    while (roundWinners.length < getRoundWinnerCount(round)) {
+      const draw = performFairDraw(commitment.seed, roundNumber, pool, round.name);
+      if (!draw) break;
+      console.log(`🎲 DRAW: ${round.name} - ticket ${draw.ticketIndex + 1}/${draw.totalTickets} → ${draw.winner}`);
+      draws.push({ ...draw, outcome: 'confirmed' });
+      roundWinners.push(draw.winner);
+      pool = pool.filter(entry => entry.team !== draw.winner);
+    }
+
+    if (roundWinners.length === 0) {
+      console.warn(`⚠️ No eligible tickets for ${round.name}`);
+    }
+    teams = teams.map(team => (roundWinners.includes(team.Team) ? { ...team, status: 'winner' as const } : team));
+  });
+
+  const log = buildDrawLog(
+    revealDrawCommitment(commitment),
+    draws,
+    inputs.configuration && { id: inputs.configuration.id, name: inputs.configuration.name }
+  );
+  const verification = verifyDrawLog(log);
+  console.log(verification.allValid
+    ? '\n✅ Every draw re-derives from the revealed seed'
+    : '\n❌ Draw log failed its own verification');
+
+  const directory = createOutputDirectory('draw', getStringOption(args, 'out'));
+  console.log('\n📝 Results saved:');
+  writeReportFile(directory, 'draw-log.json', JSON.stringify(log, null, 2));
+  writeReportFile(directory, 'winners.csv', toCSV(
+    ['round', 'round_name', 'winner', 'ticket', 'total_tickets', 'win_probability'],
+    draws.map(draw => [draw.round, draw.roundName, draw.winner, draw.ticketIndex + 1, draw.totalTickets, getWinChance(draw).toFixed(6)])
+  ));
+  writeReportFile(directory, 'report.html', renderHtmlReport(
+    `Raffle Draw - ${inputs.name}`,
+    `${draws.length} winners drawn at ${log.exportedAt}`,
+    [{
+      heading: 'Winners',
+      facts: [
+        ['Commitment', log.commitment],
+        ['Seed', log.seed],
+        ['Verified', verification.allValid ? 'Yes' : 'No']
+      ],
+      tables: [{
+        header: ['Round', 'Winner', 'Ticket', 'Players', 'Win chance'],
+        rows: draws.map(draw => [
+          draw.roundName ?? draw.round,
+          draw.winner,
+          `${draw.ticketIndex + 1} of ${draw.totalTickets}`,
+          draw.entries.length,
+          formatPercent(getWinChance(draw) * 100)
+        ])
+      }],
+      notes: ['Anyone can re-derive these winners from draw-log.json on the verify page or with `raffle verify draw-log.json`.']
+    }]
+  ));
+
+  return verification.allValid && draws.length > 0;
+};
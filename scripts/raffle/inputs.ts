@@ -0,0 +1,172 @@
+/**
+ * Loading rosters and configurations for the raffle CLI
+ *
+ * Rosters are read with the same importer as the app's Import Players dialog
+ * (CSV, TSV or XLSX with the column mapping guessed from the headers).
+ * Configurations are the JSON the app keeps under `raffle-configurations`:
+ * either one configuration or the whole saved list.
+ */
+
+import { readFileSync } from 'fs';
+import { basename } from 'path';
+import { inflateRawSync } from 'zlib';
+import { TeamData, RaffleRound } from '../../src/types/raffle';
+import { DrawEntry } from '../../src/types/fairDraw';
+import {
+  ConfigurationManager,
+  RaffleConfiguration,
+  RoundConfigurationSettings
+} from '../../src/utils/configurationManager';
+import {
+  buildImportReport,
+  getImportFormat,
+  getMissingImportFields,
+  parseDelimitedText,
+  suggestColumnMapping,
+  toImportTable
+} from '../../src/utils/playerImport';
+import { readXlsxSheet } from '../../src/utils/xlsxReader';
+import { buildDrawEntries } from '../../src/services/drawService';
+import { resolveRoundRules } from '../../src/services/eligibilityRules';
+import { DEFAULT_RAFFLE_MODEL_ID, getRaffleModels, resolveRaffleModel } from '../../src/services/raffleModels';
+import { withRaffleModel } from '../../src/services/modelComparison';
+import { ParsedArgs, getStringOption, getIntegerOption } from './args';
+
+export interface RaffleInputs {
+  name: string;
+  teams: TeamData[];
+  settings: RoundConfigurationSettings;
+  rounds: RaffleRound[];
+  configuration?: RaffleConfiguration;
+}
+
+const DEFAULT_ROUNDS = 5;
+
+export const loadRoster = async (path: string): Promise<TeamData[]> => {
+  const format = getImportFormat(path);
+  if (!format) {
+    throw new Error(`Unsupported roster "${path}". Use a CSV, TSV or XLSX file.`);
+  }
+
+  const table = format === 'xlsx'
+    ? toImportTable(await readXlsxSheet(new Uint8Array(readFileSync(path)).buffer, async data => new Uint8Array(inflateRawSync(data))))
+    : parseDelimitedText(readFileSync(path, 'utf8'), format === 'tsv' ? '\t' : undefined);
+
+  const mapping = suggestColumnMapping(table.headers);
+  const missing = getMissingImportFields(mapping);
+  if (missing.length > 0) {
+    throw new Error(`${path} has no ${missing.join(' or ')} column (headers: ${table.headers.join(', ')})`);
+  }
+
+  const report = buildImportReport(table, mapping);
+  console.log(`📥 Loaded ${report.teams.length} players from ${basename(path)}`);
+  if (report.rejected.length > 0) {
+    console.warn(`⚠️ Skipped ${report.rejected.length} rows:`);
+    report.rejected.slice(0, 10).forEach(row => console.warn(`   Row ${row.rowNumber}: ${row.reason}`));
+  }
+  return report.teams;
+};
+
+/**
+ * Read a configuration file. A saved list needs --config-id (id or name)
+ * unless it holds a single configuration.
+ */
+export const loadConfiguration = (path: string, idOrName?: string): RaffleConfiguration => {
+  const parsed = JSON.parse(readFileSync(path, 'utf8')) as RaffleConfiguration | RaffleConfiguration[];
+  const configurations = Array.isArray(parsed) ? parsed : [parsed];
+
+  const isConfiguration = (value: RaffleConfiguration) => !!value && Array.isArray(value.teams) && !!value.roundSettings;
+  if (!configurations.every(isConfiguration)) {
+    throw new Error(`${path} is not a raffle configuration`);
+  }
+
+  const matches = idOrName
+    ? configurations.filter(config => config.id === idOrName || config.name === idOrName)
+    : configurations;
+  if (matches.length === 1) return matches[0];
+
+  const available = configurations.map(config => `"${config.name}" (${config.id})`).join(', ');
+  throw new Error(idOrName
+    ? `No configuration "${idOrName}" in ${path}. Available: ${available}`
+    : `${path} holds ${configurations.length} configurations - pick one with --config-id. Available: ${available}`);
+};
+
+/**
+ * Settings with a different model applied, checking the model exists first
+ */
+export const applyModelOption = (settings: RoundConfigurationSettings, modelId: string): RoundConfigurationSettings => {
+  const models = getRaffleModels(settings.customModels);
+  if (!models.some(model => model.id === modelId)) {
+    throw new Error(`Unknown model "${modelId}". Available: ${models.map(model => model.id).join(', ')}`);
+  }
+  return withRaffleModel(settings, modelId);
+};
+
+/**
+ * Roster, settings and rounds from --roster, --config, --config-id, --rounds
+ * and --model. A roster replaces the configuration's players; the rounds are
+ * rebuilt whenever the players or the model differ from the saved ones.
+ * Without a configuration the settings match a new configuration's defaults.
+ */
+export const loadInputs = async (args: ParsedArgs, applyModel: boolean = true): Promise<RaffleInputs> => {
+  const rosterPath = getStringOption(args, 'roster');
+  const configPath = getStringOption(args, 'config');
+  if (!rosterPath && !configPath) {
+    throw new Error('Pass a roster with --roster <players.csv> or a configuration with --config <configuration.json>');
+  }
+
+  const configuration = configPath ? loadConfiguration(configPath, getStringOption(args, 'config-id')) : undefined;
+  if (configuration) {
+    console.log(`⚙️ Using configuration "${configuration.name}" (${configuration.teams.length} players)`);
+  }
+
+  const teams = rosterPath ? await loadRoster(rosterPath) : (configuration as RaffleConfiguration).teams;
+  let settings: RoundConfigurationSettings = configuration
+    ? configuration.roundSettings
+    : { numberOfRounds: getIntegerOption(args, 'rounds', DEFAULT_ROUNDS), raffleModel: DEFAULT_RAFFLE_MODEL_ID, winnersPerRound: 1 };
+
+  const modelId = getStringOption(args, 'model');
+  if (modelId && applyModel) {
+    settings = applyModelOption(settings, modelId);
+  }
+
+  const keepSavedRounds = !!configuration && !rosterPath && settings === configuration.roundSettings;
+  const rounds = keepSavedRounds
+    ? configuration.rounds
+    : ConfigurationManager.generateOptimalRounds(teams, settings);
+
+  return {
+    name: configuration?.name ?? basename(rosterPath as string),
+    teams,
+    settings,
+    rounds,
+    configuration
+  };
+};
+
+/**
+ * A round's ticket pool exactly as the live draw builds it
+ */
+export const buildRoundEntries = (inputs: RaffleInputs, round: RaffleRound, teams: TeamData[] = inputs.teams): DrawEntry[] => {
+  const model = resolveRaffleModel(inputs.settings);
+  return buildDrawEntries(teams, {
+    pointThreshold: round.pointThreshold,
+    ticketFormula: model.ticketFormula,
+    bonusRules: model.bonusRules,
+    eligibilityRules: resolveRoundRules(inputs.settings.eligibility, round),
+    includeWinners: model.winnerRemoval === 'keep'
+  });
+};
+
+/**
+ * 1-based --round option, checked against the rounds
+ */
+export const getRoundOption = (args: ParsedArgs, rounds: RaffleRound[]): number | undefined => {
+  if (getStringOption(args, 'round') === undefined) return undefined;
+
+  const round = getIntegerOption(args, 'round', 1);
+  if (round > rounds.length) {
+    throw new Error(`Option --round must be between 1 and ${rounds.length}`);
+  }
+  return round;
+};
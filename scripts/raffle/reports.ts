@@ -0,0 +1,108 @@
+/**
+ * Report output for the raffle CLI
+ *
+ * Every command writes machine-readable JSON, a CSV for spreadsheets and a
+ * self-contained HTML page to one output directory (--out, or a timestamped
+ * folder under raffle-reports/).
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+
+export type ReportCell = string | number | boolean | undefined;
+
+export interface ReportTable {
+  title?: string;
+  header: string[];
+  rows: ReportCell[][];
+}
+
+export interface ReportSection {
+  heading: string;
+  facts?: [string, ReportCell][]; // Label/value pairs shown above the tables
+  tables?: ReportTable[];
+  notes?: string[];
+}
+
+const escapeCSV = (value: ReportCell): string => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCSV = (header: string[], rows: ReportCell[][]): string => {
+  return [header, ...rows].map(row => row.map(escapeCSV).join(',')).join('\n');
+};
+
+export const escapeHtml = (value: ReportCell): string => {
+  if (value === undefined) return '';
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const renderTable = (table: ReportTable): string => `
+    ${table.title ? `<h3>${escapeHtml(table.title)}</h3>` : ''}
+    <table>
+      <thead><tr>${table.header.map(cell => `<th>${escapeHtml(cell)}</th>`).join('')}</tr></thead>
+      <tbody>
+        ${table.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('\n        ')}
+      </tbody>
+    </table>`;
+
+const renderSection = (section: ReportSection): string => `
+  <section>
+    <h2>${escapeHtml(section.heading)}</h2>
+    ${section.facts ? `<dl>${section.facts.map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`).join('')}</dl>` : ''}
+    ${(section.notes ?? []).map(note => `<p class="note">${escapeHtml(note)}</p>`).join('\n    ')}
+    ${(section.tables ?? []).map(renderTable).join('\n')}
+  </section>`;
+
+/**
+ * Standalone HTML page - inline styles only, so it can be emailed or archived as one file
+ */
+export const renderHtmlReport = (title: string, subtitle: string, sections: ReportSection[]): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 960px; color: #111827; padding: 0 1rem; }
+    h1 { margin-bottom: 0.25rem; }
+    .subtitle { color: #6b7280; margin-top: 0; }
+    section { margin-top: 2rem; }
+    dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; }
+    dt { color: #6b7280; }
+    dd { margin: 0; font-weight: 600; word-break: break-all; }
+    table { border-collapse: collapse; width: 100%; margin: 0.5rem 0 1rem; font-size: 0.875rem; }
+    th, td { border-bottom: 1px solid #e5e7eb; padding: 0.25rem 0.5rem; text-align: left; }
+    th { color: #6b7280; }
+    .note { color: #92400e; background: #fffbeb; padding: 0.5rem; border-radius: 0.25rem; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="subtitle">${escapeHtml(subtitle)}</p>
+  ${sections.map(renderSection).join('\n')}
+</body>
+</html>
+`;
+
+/**
+ * Create the output directory - --out when given, otherwise raffle-reports/<command>-<timestamp>
+ */
+export const createOutputDirectory = (command: string, out?: string): string => {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const directory = resolve(out ?? join('raffle-reports', `${command}-${timestamp}`));
+  mkdirSync(directory, { recursive: true });
+  return directory;
+};
+
+export const writeReportFile = (directory: string, fileName: string, content: string): void => {
+  writeFileSync(join(directory, fileName), content);
+  console.log(`   - ${join(directory, fileName)}`);
+};
+
+export const formatPercent = (value: number, digits: number = 2): string => `${value.toFixed(digits)}%`;
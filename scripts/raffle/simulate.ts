@@ -0,0 +1,184 @@
+/**
+ * raffle simulate - run many whole raffles with RaffleEngine
+ *
+ * Each scenario (the configuration's model, or every model passed with
+ * --model) is simulated over the same roster like the planner page does, and
+ * each player's simulated chance of winning is reported next to the chance
+ * their ticket odds alone would give.
+ */
+
+import seedrandom from 'seedrandom';
+import { ScenarioSummary } from '../../src/types/modelComparison';
+import {
+  ComparisonScenario,
+  createScenario,
+  createTally,
+  getComparisonTiers,
+  runSimulations,
+  summarizeScenario
+} from '../../src/services/modelComparison';
+import { getExpectedWinChances } from '../../src/services/simulationJob';
+import { getRaffleModels, resolveRaffleModel } from '../../src/services/raffleModels';
+import { getTeamTickets } from '../../src/services/bonusTickets';
+import { ParsedArgs, getIntegerOption, getListOption, getStringOption } from './args';
+import { RaffleInputs, applyModelOption, loadInputs } from './inputs';
+import { ReportSection, createOutputDirectory, formatPercent, renderHtmlReport, toCSV, writeReportFile } from './reports';
+
+const DEFAULT_ITERATIONS = 1000;
+const PROGRESS_STEPS = 10;
+const TOP_PLAYERS = 20;
+
+interface PlayerResult {
+  team: string;
+  points: number;
+  tickets: number;
+  winChance: number; // % of simulated raffles won at least once
+  expectedChance: number; // % from ticket odds alone
+  averagePrizes: number;
+}
+
+interface ScenarioResult {
+  summary: ScenarioSummary;
+  settings: ComparisonScenario['settings'];
+  players: PlayerResult[];
+}
+
+/**
+ * The configuration's own settings, or one scenario per --model (`all` for every model)
+ */
+const getScenarios = (inputs: RaffleInputs, modelIds: string[]): ComparisonScenario[] => {
+  if (modelIds.length === 0) {
+    return [createScenario(resolveRaffleModel(inputs.settings).name, inputs.settings)];
+  }
+
+  const ids = modelIds.includes('all')
+    ? getRaffleModels(inputs.settings.customModels).map(model => model.id)
+    : modelIds;
+  return ids.map(id => {
+    const settings = applyModelOption(inputs.settings, id);
+    return createScenario(resolveRaffleModel(settings).name, settings);
+  });
+};
+
+const simulateScenario = (
+  inputs: RaffleInputs,
+  scenario: ComparisonScenario,
+  tiers: number[],
+  iterations: number,
+  seed?: string
+): ScenarioResult => {
+  const { teams } = inputs;
+  const random = seed ? seedrandom(seed) : Math.random;
+  const tally = createTally(teams.length);
+  const step = Math.ceil(iterations / PROGRESS_STEPS);
+
+  console.log(`\n🎲 ${scenario.label}: simulating ${iterations} raffles`);
+  while (tally.iterations < iterations) {
+    runSimulations(teams, scenario.settings, tally, Math.min(step, iterations - tally.iterations), random);
+    console.log(`   Progress: ${tally.iterations}/${iterations} raffles`);
+  }
+
+  const model = resolveRaffleModel(scenario.settings);
+  const expected = getExpectedWinChances(teams, scenario.settings);
+  const players = teams.map((team, index) => ({
+    team: team.Team,
+    points: team.Points,
+    tickets: getTeamTickets(team, model.ticketFormula, model.bonusRules),
+    winChance: (tally.winningRuns[index] / tally.iterations) * 100,
+    expectedChance: expected[index],
+    averagePrizes: tally.wins[index] / tally.iterations
+  }));
+
+  return {
+    summary: summarizeScenario(scenario, teams, tally, tiers),
+    settings: scenario.settings,
+    players
+  };
+};
+
+const toReportSection = (result: ScenarioResult): ReportSection => {
+  const { summary } = result;
+  const topPlayers = [...result.players]
+    .sort((a, b) => b.winChance - a.winChance || a.team.localeCompare(b.team))
+    .slice(0, TOP_PLAYERS);
+
+  return {
+    heading: summary.label,
+    facts: [
+      ['Simulated raffles', summary.iterations],
+      ['Prizes per raffle', summary.expectedWinners.toFixed(2)],
+      ['Gini (win chances)', summary.gini.toFixed(3)]
+    ],
+    tables: [
+      {
+        title: 'Chance of winning by points decile',
+        header: ['Decile', 'Points', 'Players', 'Win chance'],
+        rows: summary.deciles.map(decile => [
+          decile.decile,
+          `${decile.minPoints}–${decile.maxPoints}`,
+          decile.players,
+          formatPercent(decile.winProbability)
+        ])
+      },
+      {
+        title: 'Expected winners by point tier',
+        header: ['Tier', 'Players', 'Winners per raffle'],
+        rows: summary.tiers.map(tier => [tier.label, tier.players, tier.expectedWinners.toFixed(2)])
+      },
+      {
+        title: `Top ${TOP_PLAYERS} players`,
+        header: ['Player', 'Points', 'Tickets', 'Simulated', 'Ticket odds'],
+        rows: topPlayers.map(player => [
+          player.team,
+          player.points,
+          player.tickets,
+          formatPercent(player.winChance),
+          formatPercent(player.expectedChance)
+        ])
+      }
+    ],
+    notes: ['Ticket odds assume every round draws on tickets alone - drop-outs and repeat winners move the simulated chances away from them.']
+  };
+};
+
+export const runSimulate = async (args: ParsedArgs): Promise<boolean> => {
+  const inputs = await loadInputs(args, false);
+  const iterations = getIntegerOption(args, 'iterations', DEFAULT_ITERATIONS);
+  const seed = getStringOption(args, 'seed');
+  const scenarios = getScenarios(inputs, getListOption(args, 'model'));
+  const tiers = getComparisonTiers(inputs.teams, inputs.rounds);
+
+  const results = scenarios.map(scenario => simulateScenario(inputs, scenario, tiers, iterations, seed));
+
+  const directory = createOutputDirectory('simulate', getStringOption(args, 'out'));
+  console.log('\n✅ Simulation complete! Results saved:');
+  writeReportFile(directory, 'simulation.json', JSON.stringify({
+    generatedAt: new Date().toISOString(),
+    source: inputs.name,
+    players: inputs.teams.length,
+    iterations,
+    seed,
+    scenarios: results
+  }, null, 2));
+  writeReportFile(directory, 'players.csv', toCSV(
+    ['scenario', 'team', 'points', 'tickets', 'simulated_win_chance', 'ticket_odds_win_chance', 'average_prizes'],
+    results.flatMap(result => result.players.map(player => [
+      result.summary.label,
+      player.team,
+      player.points,
+      player.tickets,
+      player.winChance.toFixed(4),
+      player.expectedChance.toFixed(4),
+      player.averagePrizes.toFixed(4)
+    ]))
+  ));
+  writeReportFile(directory, 'report.html', renderHtmlReport(
+    `Raffle Simulation - ${inputs.name}`,
+    `${iterations} simulated raffles over ${inputs.teams.length} players${seed ? ` (seed "${seed}")` : ''}`,
+    results.map(toReportSection)
+  ));
+
+  console.log('\n📊 Gini coefficient (0 = every player equally likely to win):');
+  results.forEach(result => console.log(`   ${result.summary.label}: ${result.summary.gini.toFixed(3)}`));
+  return true;
+};
@@ -0,0 +1,206 @@
+/**
+ * raffle verify - check exported files or audit a round's draw
+ *
+ * With files: re-derives every draw in exported draw logs (--seed supplies a
+ * seed the log has not revealed yet) and replays fairness audit reports, like
+ * the verify page. Without files: runs a fairness audit of one round's ticket
+ * pool and writes a signed report the verify page can replay.
+ */
+
+import { readFileSync } from 'fs';
+import { basename } from 'path';
+import { DrawLog } from '../../src/types/fairDraw';
+import { FairnessAuditReport } from '../../src/types/fairnessAudit';
+import { generateDrawSeed, verifyDrawLog } from '../../src/services/fairDraw';
+import {
+  buildFairnessReport,
+  isFairnessReport,
+  runAuditDraws,
+  summarizeFairnessAudit,
+  verifyFairnessReport
+} from '../../src/services/fairnessAudit';
+import { ParsedArgs, getIntegerOption, getStringOption } from './args';
+import { buildRoundEntries, getRoundOption, loadInputs } from './inputs';
+import { ReportCell, createOutputDirectory, formatPercent, renderHtmlReport, toCSV, writeReportFile } from './reports';
+
+const DEFAULT_AUDIT_DRAWS = 10000;
+const AUDIT_CHUNK_SIZE = 2000; // Draws between progress lines
+
+interface FileVerification {
+  file: string;
+  kind: 'draw_log' | 'fairness_audit';
+  valid: boolean;
+  checks: [string, boolean][];
+  draws: { round: number; recordedWinner: string; expectedWinner: string | null; valid: boolean }[];
+}
+
+const verifyFile = (path: string, seed?: string): FileVerification => {
+  const parsed = JSON.parse(readFileSync(path, 'utf8')) as DrawLog | FairnessAuditReport;
+
+  if (isFairnessReport(parsed)) {
+    const verification = verifyFairnessReport(parsed);
+    return {
+      file: path,
+      kind: 'fairness_audit',
+      valid: verification.allValid,
+      checks: [
+        ['Checksum matches the report', verification.digestValid],
+        ['Roster hash matches the entries', verification.rosterHashValid],
+        ['Replayed draws match the recorded counts', verification.drawsValid],
+        ['Statistics follow from the recorded counts', verification.resultsValid]
+      ],
+      draws: []
+    };
+  }
+
+  const log = parsed as DrawLog;
+  if (!log || typeof log.commitment !== 'string' || !Array.isArray(log.draws)) {
+    throw new Error(`${path} is not a draw log or fairness audit report`);
+  }
+
+  const verification = verifyDrawLog(seed ? { ...log, seed } : log);
+  return {
+    file: path,
+    kind: 'draw_log',
+    valid: verification.allValid,
+    checks: [
+      ['Seed revealed', verification.seedRevealed],
+      ['Seed matches the published commitment', verification.commitmentValid],
+      ['Every winner re-derives from the seed', verification.draws.every(draw => draw.rosterHashValid && draw.winnerValid)]
+    ],
+    draws: verification.draws.map(draw => ({
+      round: draw.round,
+      recordedWinner: draw.recordedWinner,
+      expectedWinner: draw.expectedWinner,
+      valid: draw.rosterHashValid && draw.winnerValid
+    }))
+  };
+};
+
+const verifyFiles = (args: ParsedArgs): boolean => {
+  const seed = getStringOption(args, 'seed');
+  const results = args.positionals.map(path => verifyFile(path, seed));
+
+  results.forEach(result => {
+    console.log(`\n${result.valid ? '✅' : '❌'} ${basename(result.file)} (${result.kind === 'draw_log' ? 'draw log' : 'fairness audit'})`);
+    result.checks.forEach(([label, passed]) => console.log(`   ${passed ? '✓' : '✗'} ${label}`));
+    result.draws.filter(draw => !draw.valid).forEach(draw => {
+      console.log(`   ✗ Round ${draw.round}: recorded ${draw.recordedWinner}, seed gives ${draw.expectedWinner ?? 'nothing'}`);
+    });
+  });
+
+  const directory = createOutputDirectory('verify', getStringOption(args, 'out'));
+  console.log('\n📝 Results saved:');
+  writeReportFile(directory, 'verification.json', JSON.stringify({
+    verifiedAt: new Date().toISOString(),
+    allValid: results.every(result => result.valid),
+    files: results
+  }, null, 2));
+
+  const rows: ReportCell[][] = results.flatMap(result => [
+    ...result.checks.map(([label, passed]) => [result.file, result.kind, label, '', '', '', passed]),
+    ...result.draws.map(draw => [result.file, result.kind, 'Draw', draw.round, draw.recordedWinner, draw.expectedWinner ?? '', draw.valid])
+  ]);
+  writeReportFile(directory, 'verification.csv', toCSV(['file', 'kind', 'check', 'round', 'recorded_winner', 'expected_winner', 'valid'], rows));
+  writeReportFile(directory, 'report.html', renderHtmlReport(
+    'Raffle Verification',
+    `${results.length} file(s) checked`,
+    results.map(result => ({
+      heading: `${result.valid ? '✅' : '❌'} ${basename(result.file)}`,
+      facts: result.checks.map(([label, passed]) => [label, passed ? 'Yes' : 'No']),
+      tables: result.draws.length > 0 ? [{
+        header: ['Round', 'Recorded winner', 'Winner from seed', 'Valid'],
+        rows: result.draws.map(draw => [draw.round, draw.recordedWinner, draw.expectedWinner ?? '-', draw.valid ? 'Yes' : 'No'])
+      }] : []
+    }))
+  ));
+
+  return results.every(result => result.valid);
+};
+
+/**
+ * Fairness audit of one round (--round, default 1) as the audit page runs it
+ */
+const runAudit = async (args: ParsedArgs): Promise<boolean> => {
+  const inputs = await loadInputs(args);
+  const roundNumber = getRoundOption(args, inputs.rounds) ?? 1;
+  const round = inputs.rounds[roundNumber - 1];
+  const iterations = getIntegerOption(args, 'iterations', DEFAULT_AUDIT_DRAWS);
+  const seed = getStringOption(args, 'seed') ?? generateDrawSeed();
+
+  const entries = buildRoundEntries(inputs, round);
+  if (entries.length === 0) {
+    throw new Error(`Nobody holds a ticket in ${round.name}`);
+  }
+
+  console.log(`\n⚖️ Fairness audit: ${iterations} draws over ${entries.length} players in ${round.name}`);
+  const counts: number[] = new Array(entries.length).fill(0);
+  for (let first = 1; first <= iterations; first += AUDIT_CHUNK_SIZE) {
+    const count = Math.min(AUDIT_CHUNK_SIZE, iterations - first + 1);
+    runAuditDraws(entries, seed, first, count, counts);
+    console.log(`   Progress: ${first + count - 1}/${iterations} draws`);
+  }
+
+  const result = summarizeFairnessAudit(entries, counts);
+  const report = buildFairnessReport(entries, seed, result, {
+    configurationId: inputs.configuration?.id,
+    configurationName: inputs.name,
+    roundName: round.name
+  });
+
+  console.log(report.passed
+    ? `\n✅ No evidence the draw departs from ticket shares (p = ${report.pValue.toFixed(4)})`
+    : `\n❌ Win counts differ from ticket shares (p = ${report.pValue.toExponential(2)} < ${report.significanceLevel})`);
+  if (result.lowExpectedCount > 0) {
+    console.warn(`⚠️ ${result.lowExpectedCount} players are expected to win fewer than 5 times - run more draws for a reliable test`);
+  }
+
+  const directory = createOutputDirectory('verify', getStringOption(args, 'out'));
+  console.log('\n📝 Results saved:');
+  writeReportFile(directory, 'fairness-audit.json', JSON.stringify(report, null, 2));
+  writeReportFile(directory, 'fairness-audit.csv', toCSV(
+    ['team', 'tickets', 'expected_share', 'expected_wins', 'observed_wins', 'residual'],
+    result.players.map(player => [
+      player.team,
+      player.tickets,
+      player.expectedShare.toFixed(6),
+      player.expected.toFixed(2),
+      player.observed,
+      player.residual.toFixed(3)
+    ])
+  ));
+  writeReportFile(directory, 'report.html', renderHtmlReport(
+    `Fairness Audit - ${inputs.name}`,
+    `${iterations} draws of ${round.name} over ${entries.length} players`,
+    [{
+      heading: report.passed ? '✅ No evidence the draw departs from ticket shares' : '❌ Win counts differ from ticket shares',
+      facts: [
+        ['χ²', report.chiSquared.toFixed(2)],
+        ['Degrees of freedom', report.degreesOfFreedom],
+        ['p-value', report.pValue < 0.0001 ? report.pValue.toExponential(2) : report.pValue.toFixed(4)],
+        ['Significance level', report.significanceLevel],
+        ['Seed', report.seed],
+        ['Report checksum (SHA-256)', report.digest]
+      ],
+      tables: [{
+        title: 'Largest deviations',
+        header: ['Player', 'Tickets', 'Share', 'Expected', 'Observed', 'Deviation (σ)'],
+        rows: report.largestDeviations.map(player => [
+          player.team,
+          player.tickets,
+          formatPercent(player.expectedShare * 100),
+          player.expected.toFixed(1),
+          player.observed,
+          player.residual.toFixed(2)
+        ])
+      }],
+      notes: ['Load fairness-audit.json on the verify page (or run `raffle verify fairness-audit.json`) to replay every draw from the seed.']
+    }]
+  ));
+
+  return report.passed;
+};
+
+export const runVerify = async (args: ParsedArgs): Promise<boolean> => {
+  return args.positionals.length > 0 ? verifyFiles(args) : runAudit(args);
+};
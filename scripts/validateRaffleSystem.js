@@ -144,10 +144,8 @@ function runValidationTests() {
   console.log('\n🎉 All validation tests completed successfully!');
   console.log('\n📚 Available npm scripts:');
   console.log('   npm run validate-js           - This validation script (JavaScript)');
-  console.log('   npm run simulate:quick        - Quick simulation test');
-  console.log('   npm run simulate:standard     - Standard analysis');
-  console.log('   npm run simulate:comprehensive - Full comprehensive analysis');
-  console.log('   npm run simulate:performance  - Performance testing');
+  console.log('   npm run raffle -- simulate    - Simulate a roster with the raffle engine');
+  console.log('   npm run raffle -- verify      - Check draw logs or audit a round');
   console.log('   npm run test:simulation       - Jest simulation tests');
   console.log('   npm run test:advanced         - Advanced edge case tests');
   
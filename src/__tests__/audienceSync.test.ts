@@ -0,0 +1,92 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { createAudienceSnapshot, openAudienceSync } from '@/services/audienceSync';
+import { AudienceMessage } from '@/types/audience';
+import { RaffleState } from '@/types/raffle';
+
+/**
+ * The audience window must only ever see confirmed results and the draw being
+ * animated, and must receive console updates with or without BroadcastChannel
+ */
+describe('Audience Sync', () => {
+  const state: RaffleState = {
+    teams: [
+      { Team: 'Alice', Points: 1000, Submissions: 3, 'Last Submission': '2024-01-01' },
+      { Team: 'Bob', Points: 500, Submissions: 1, 'Last Submission': '2024-01-01' }
+    ],
+    currentRound: 0,
+    rounds: [{ id: 1, name: 'Round 1', pointThreshold: 0, description: '' }],
+    winners: [],
+    remainingTeams: [],
+    isDrawing: false,
+    raffleStarted: true,
+    pendingWinners: ['Alice'],
+    currentDraw: {
+      round: 1,
+      rosterHash: 'hash',
+      entries: [],
+      totalTickets: 15,
+      ticketIndex: 3,
+      winner: 'Alice',
+      timestamp: '2024-01-01T00:00:00.000Z'
+    },
+    withdrawnPlayers: [],
+    prizes: [],
+    drawLog: [],
+    auditLog: [],
+    rosterVersion: 1
+  };
+
+  afterEach(() => {
+    delete (globalThis as { BroadcastChannel?: unknown }).BroadcastChannel;
+  });
+
+  it('should not expose pending winners or a finished draw', () => {
+    const snapshot = createAudienceSnapshot(state, [], { animationType: 'wheel' });
+    expect(snapshot).not.toHaveProperty('pendingWinners');
+    expect(snapshot.drawWinner).toBeUndefined();
+
+    const drawing = createAudienceSnapshot({ ...state, isDrawing: true }, [], { animationType: 'wheel' });
+    expect(drawing.drawWinner).toBe('Alice');
+  });
+
+  it('should deliver messages through storage events without BroadcastChannel', () => {
+    const received: AudienceMessage[] = [];
+    const sync = openAudienceSync(message => received.push(message));
+
+    window.dispatchEvent(new StorageEvent('storage', {
+      key: 'raffleAudienceMessage',
+      newValue: JSON.stringify({ message: { type: 'request-snapshot' }, nonce: 1 })
+    }));
+    window.dispatchEvent(new StorageEvent('storage', { key: 'somethingElse', newValue: '{}' }));
+
+    expect(received).toEqual([{ type: 'request-snapshot' }]);
+
+    sync.close();
+    window.dispatchEvent(new StorageEvent('storage', {
+      key: 'raffleAudienceMessage',
+      newValue: JSON.stringify({ message: { type: 'request-snapshot' }, nonce: 2 })
+    }));
+    expect(received).toHaveLength(1);
+  });
+
+  it('should use BroadcastChannel when available', () => {
+    const postMessage = jest.fn();
+    const channels: { onmessage: ((event: { data: AudienceMessage }) => void) | null }[] = [];
+    (globalThis as { BroadcastChannel?: unknown }).BroadcastChannel = class {
+      onmessage: ((event: { data: AudienceMessage }) => void) | null = null;
+      postMessage = postMessage;
+      close = jest.fn();
+      constructor() {
+        channels.push(this);
+      }
+    };
+
+    const received: AudienceMessage[] = [];
+    const sync = openAudienceSync(message => received.push(message));
+    sync.publish({ type: 'request-snapshot' });
+    channels[0].onmessage?.({ data: { type: 'request-snapshot' } });
+
+    expect(postMessage).toHaveBeenCalledWith({ type: 'request-snapshot' });
+    expect(received).toEqual([{ type: 'request-snapshot' }]);
+  });
+});
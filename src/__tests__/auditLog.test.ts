@@ -0,0 +1,65 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  appendAuditEvent,
+  auditLogToCSV,
+  createAuditEvent,
+  mergeAuditLogs
+} from '@/services/auditLog';
+import { hashRoster } from '@/services/drawService';
+
+/**
+ * The audit log is append-only and merged between the raffle state and the
+ * stored configuration, so merging must never drop or duplicate events
+ */
+describe('Audit Log', () => {
+  const entries = [
+    { team: 'Alice', tickets: 3 },
+    { team: 'Bob', tickets: 1 },
+    { team: 'Carol', tickets: 0 }
+  ];
+
+  it('should snapshot the roster hash and odds of the eligible pool', () => {
+    const event = createAuditEvent('draw_started', { entries, round: 1, roundName: 'Round 1' });
+
+    expect(event.rosterHash).toBe(hashRoster(entries));
+    expect(event.eligibleCount).toBe(2);
+    expect(event.totalTickets).toBe(4);
+    expect(event.odds).toEqual([
+      { team: 'Alice', tickets: 3, probability: 0.75 },
+      { team: 'Bob', tickets: 1, probability: 0.25 }
+    ]);
+  });
+
+  it('should append without mutating the existing log', () => {
+    const first = createAuditEvent('raffle_started', { entries });
+    const log = [first];
+    const appended = appendAuditEvent(log, createAuditEvent('draw_started', { entries }));
+
+    expect(log).toHaveLength(1);
+    expect(appended).toHaveLength(2);
+    expect(appended[0]).toBe(first);
+  });
+
+  it('should merge two copies of a log by event id', () => {
+    const a = { ...createAuditEvent('raffle_started', { entries }), timestamp: '2025-01-01T10:00:00.000Z' };
+    const b = { ...createAuditEvent('draw_started', { entries }), timestamp: '2025-01-01T10:01:00.000Z' };
+    const c = { ...createAuditEvent('winner_selected', { entries, team: 'Alice' }), timestamp: '2025-01-01T10:02:00.000Z' };
+
+    const merged = mergeAuditLogs([a, c], [a, b]);
+    expect(merged.map(event => event.id)).toEqual([a.id, b.id, c.id]);
+  });
+
+  it('should export one CSV row per event and escape commas', () => {
+    const event = createAuditEvent('winner_confirmed', {
+      entries,
+      team: 'Smith, Jane',
+      details: { prize: 'Gift Card' }
+    });
+    const lines = auditLogToCSV([event]).split('\n');
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toBe('timestamp,event,round,round_name,team,roster_hash,roster_version,eligible_count,total_tickets,details,odds');
+    expect(lines[1]).toContain('"Smith, Jane"');
+    expect(lines[1]).toContain('Alice:3:0.750000; Bob:1:0.250000');
+  });
+});
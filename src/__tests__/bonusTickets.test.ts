@@ -0,0 +1,65 @@
+import { describe, it, expect } from '@jest/globals';
+import { formatTicketBreakdown, getTicketBreakdown, validateBonusRule } from '@/services/bonusTickets';
+import { resolveRaffleModel } from '@/services/raffleModels';
+import { buildDrawEntries } from '@/services/drawService';
+import { calculateOdds } from '@/utils/oddsCalculation';
+import { BonusRule, RaffleModelType } from '@/types/raffleModels';
+import { generateMockTeam } from '../../__tests__/testUtils';
+
+/**
+ * Bonus tickets are itemised on top of the formula and count in the draw
+ */
+describe('Bonus Tickets', () => {
+  const perSubmissions: BonusRule = { id: 'subs', type: 'per_submissions', submissionsPerTicket: 5, maxTickets: 3 };
+  const earlyBird: BonusRule = { id: 'early', type: 'early_bird', cutoff: '2024-06-01T12:00', tickets: 2, label: 'Early bird' };
+
+  it('should itemise each bonus as base + bonus = total', () => {
+    const breakdown = getTicketBreakdown(generateMockTeam({ Team: 'Alice', Points: 1000, Submissions: 12, 'Last Submission': '2024-06-01T09:30' }), undefined, [perSubmissions, earlyBird]);
+
+    expect(breakdown).toEqual({
+      base: 10,
+      bonuses: [
+        { ruleId: 'subs', label: '+1 per 5 submissions (max 3)', tickets: 2 },
+        { ruleId: 'early', label: 'Early bird', tickets: 2 }
+      ],
+      bonus: 4,
+      total: 14
+    });
+    expect(formatTicketBreakdown(breakdown)).toBe('10 + 4 = 14');
+    expect(formatTicketBreakdown(getTicketBreakdown(generateMockTeam({ Team: 'Bob', Points: 1000, Submissions: 1, 'Last Submission': '' })))).toBe('10');
+  });
+
+  it('should cap submission bonuses and skip late or unparseable submissions', () => {
+    const rules = [perSubmissions, earlyBird];
+
+    expect(getTicketBreakdown(generateMockTeam({ Team: 'Alice', Points: 100, Submissions: 40, 'Last Submission': '2024-06-02T08:00' }), undefined, rules).bonuses)
+      .toEqual([{ ruleId: 'subs', label: '+1 per 5 submissions (max 3)', tickets: 3 }]);
+    expect(getTicketBreakdown(generateMockTeam({ Team: 'Bob', Points: 100, Submissions: 0, 'Last Submission': 'not a date' }), undefined, rules).bonus).toBe(0);
+  });
+
+  it('should give no bonus to players without points', () => {
+    expect(getTicketBreakdown(generateMockTeam({ Team: 'Alice', Points: 0, Submissions: 50, 'Last Submission': '2024-01-01' }), undefined, [perSubmissions, earlyBird]).total).toBe(0);
+  });
+
+  it('should ignore rules with problems until they are fixed', () => {
+    const unfinished: BonusRule = { id: 'new', type: 'early_bird', cutoff: '', tickets: 1 };
+
+    expect(validateBonusRule(unfinished)).toEqual(['Pick a cutoff time']);
+    expect(validateBonusRule({ id: 'zero', type: 'per_submissions', submissionsPerTicket: 0 }))
+      .toEqual(['Submissions per ticket must be a whole number of 1 or more']);
+    expect(getTicketBreakdown(generateMockTeam({ Team: 'Alice', Points: 500, Submissions: 10, 'Last Submission': '2024-01-01' }), undefined, [unfinished]).bonus).toBe(0);
+  });
+
+  it("should count a configuration's bonuses in draws and odds", () => {
+    const model = resolveRaffleModel({ raffleModel: RaffleModelType.WEIGHTED_CONTINUOUS, bonusRules: [perSubmissions] });
+    const teams = [generateMockTeam({ Team: 'Alice', Points: 100, Submissions: 15, 'Last Submission': '' }), generateMockTeam({ Team: 'Bob', Points: 300, Submissions: 0, 'Last Submission': '' })];
+
+    expect(buildDrawEntries(teams, { ticketFormula: model.ticketFormula, bonusRules: model.bonusRules })).toEqual([
+      { team: 'Alice', tickets: 4 },
+      { team: 'Bob', tickets: 3 }
+    ]);
+    const [alice, bob] = calculateOdds(teams, (_points, player) => getTicketBreakdown(player, model.ticketFormula, model.bonusRules).total);
+    expect(alice.odds).toBeCloseTo(400 / 7);
+    expect(bob.odds).toBeCloseTo(300 / 7);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { ConfigurationManager, RaffleTemplate } from '@/utils/configurationManager';
+import { loadStoredRaffleState, saveStoredRaffleState } from '@/services/raffleStorage';
+import { getIneligibilityReasons, resolveRoundRules } from '@/services/eligibilityRules';
+import { RaffleState } from '@/types/raffle';
+
+/**
+ * Copies and templates start new events from earlier work - a copy must not
+ * share progress or history with its source, and a template must not carry players
+ */
+describe('Configuration Templates', () => {
+  const teams = [
+    { Team: 'Alice', Points: 1000, Submissions: 3, 'Last Submission': '2024-01-01' },
+    { Team: 'Bob', Points: 500, Submissions: 1, 'Last Submission': '2024-01-01' }
+  ];
+
+  const saveSpringMeetup = () => {
+    const config = ConfigurationManager.createConfiguration('Spring Meetup', teams, { numberOfRounds: 2, raffleModel: 'weighted_continuous' });
+    const prepared = {
+      ...config,
+      prizes: [{ id: 'p1', name: 'Headphones', quantity: 2 }],
+      rounds: config.rounds.map(round => (round.id === 2 ? { ...round, prizeIds: ['p1'] } : round)),
+      drawCommitment: { seed: 'seed', commitment: 'abc', createdAt: '2024-01-01T00:00:00.000Z' }
+    };
+    ConfigurationManager.saveConfiguration(prepared);
+    return prepared;
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should duplicate a configuration without its raffle, commitment or history', () => {
+    const source = saveSpringMeetup();
+    saveStoredRaffleState(source.id, { currentRound: 1, winners: [] } as unknown as RaffleState);
+
+    const copy = ConfigurationManager.duplicateConfiguration(source.id);
+
+    expect(copy?.id).not.toBe(source.id);
+    expect(copy?.name).toBe('Spring Meetup (copy)');
+    expect(copy?.teams).toEqual(source.teams);
+    expect(copy?.rounds).toEqual(source.rounds);
+    expect(copy?.drawCommitment).toBeUndefined();
+    expect(copy?.auditLog).toHaveLength(1);
+    expect(loadStoredRaffleState(copy?.id as string)).toBeNull();
+    expect(ConfigurationManager.getAllConfigurations()).toHaveLength(2);
+    expect(ConfigurationManager.duplicateConfiguration('missing')).toBeNull();
+  });
+
+  it('should create a configuration for a new roster from a saved template', () => {
+    const source = saveSpringMeetup();
+    const saved = ConfigurationManager.saveAsTemplate(source.id, 'Meetup template');
+    expect(saved).not.toHaveProperty('teams');
+
+    const template = ConfigurationManager.getTemplate(saved?.id as string) as RaffleTemplate;
+    expect(ConfigurationManager.getAllTemplates().map(stored => stored.name)).toEqual(['Meetup template']);
+
+    const roster = [
+      { Team: 'Carol', Points: 800, Submissions: 2, 'Last Submission': '2024-06-01' },
+      { Team: 'Dan', Points: 200, Submissions: 1, 'Last Submission': '2024-06-01' },
+      { Team: 'Eve', Points: 50, Submissions: 1, 'Last Submission': '2024-06-01' }
+    ];
+    const created = ConfigurationManager.createConfigurationFromTemplate('Fall Meetup', roster, template);
+
+    expect(created.teams).toEqual(roster);
+    expect(created.roundSettings.numberOfRounds).toBe(2);
+    expect(created.prizes).toEqual(source.prizes);
+    expect(created.rounds.map(round => round.prizeIds)).toEqual([undefined, ['p1']]);
+
+    ConfigurationManager.deleteTemplate(template.id);
+    expect(ConfigurationManager.getAllTemplates()).toEqual([]);
+    expect(ConfigurationManager.getAllConfigurations()).toHaveLength(1);
+  });
+
+  it('should leave deadlines and early-bird cutoffs of the old event out of a template', () => {
+    const config = ConfigurationManager.createConfiguration('Spring Meetup', teams, {
+      numberOfRounds: 2,
+      raffleModel: 'weighted_continuous',
+      eligibility: {
+        minSubmissions: 1,
+        submissionDeadline: '2024-01-31',
+        roundOverrides: { 1: { submissionDeadline: '2024-01-15' }, 2: { minSubmissions: 2, submissionDeadline: '2024-01-20' } }
+      },
+      bonusRules: [
+        { id: 'b1', type: 'per_submissions', submissionsPerTicket: 2 },
+        { id: 'b2', type: 'early_bird', cutoff: '2024-01-10', tickets: 3 }
+      ]
+    });
+    ConfigurationManager.saveConfiguration(config);
+
+    const template = ConfigurationManager.saveAsTemplate(config.id, 'Meetup template') as RaffleTemplate;
+    expect(template.roundSettings.eligibility).toEqual({ minSubmissions: 1, roundOverrides: { 2: { minSubmissions: 2 } } });
+    expect(template.roundSettings.bonusRules?.map(rule => rule.type)).toEqual(['per_submissions']);
+
+    // A later roster that submitted after the old deadline is still eligible
+    const created = ConfigurationManager.createConfigurationFromTemplate('Fall Meetup', [
+      { Team: 'Carol', Points: 800, Submissions: 2, 'Last Submission': '2024-06-01' }
+    ], template);
+    created.rounds.forEach(round => {
+      expect(getIneligibilityReasons(created.teams[0], resolveRoundRules(created.roundSettings.eligibility, round))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildDrawEntries,
+  drawWinners,
+  getEligibleTeams,
+  getWinProbabilities,
+  normalizeEntries,
+  selectTicket
+} from '@/services/drawService';
+import { generateMockTeam } from '../../__tests__/testUtils';
+
+/**
+ * The draw service is the only place that decides who can win and with what odds.
+ * These tests pin the exact distribution so every caller (hook, engine, simulator)
+ * stays in agreement.
+ */
+describe('Draw Service', () => {
+  const teams = [
+    generateMockTeam({ Team: 'Alice', Points: 1050 }), // 10 tickets
+    generateMockTeam({ Team: 'Bob', Points: 599 }), // 5 tickets
+    generateMockTeam({ Team: 'Carol', Points: 100 }), // 1 ticket
+    generateMockTeam({ Team: 'Dave', Points: 99 }), // 0 tickets - never drawn
+    generateMockTeam({ Team: 'Erin', Points: 0 }), // 0 tickets - never drawn
+    generateMockTeam({ Team: 'Frank', Points: 2000, status: 'winner' }),
+    generateMockTeam({ Team: 'Grace', Points: 2000, status: 'withdrawn' })
+  ];
+
+  it('should only pool eligible players holding at least one ticket', () => {
+    expect(buildDrawEntries(teams)).toEqual([
+      { team: 'Alice', tickets: 10 },
+      { team: 'Bob', tickets: 5 },
+      { team: 'Carol', tickets: 1 }
+    ]);
+  });
+
+  it('should apply the round threshold and exclude withdrawn players', () => {
+    const eligible = getEligibleTeams(teams, { pointThreshold: 500, excludeTeams: ['Bob'] });
+    expect(eligible.map(t => t.Team)).toEqual(['Alice']);
+  });
+
+  it('should give each player exactly tickets / totalTickets chance', () => {
+    const probabilities = getWinProbabilities(buildDrawEntries(teams));
+    expect(probabilities).toEqual({ Alice: 10 / 16, Bob: 5 / 16, Carol: 1 / 16 });
+    expect(probabilities.Dave).toBeUndefined();
+  });
+
+  it('should map every ticket to exactly one owner', () => {
+    const entries = normalizeEntries(buildDrawEntries(teams));
+    const totalTickets = 16;
+    const owners: Record<string, number> = {};
+
+    // Feed the midpoint of each ticket's slice of [0, 1) to enumerate the full distribution
+    for (let i = 0; i < totalTickets; i++) {
+      const selection = selectTicket(entries, () => (i + 0.5) / totalTickets);
+      const winner = selection?.winner as string;
+      expect(selection?.ticketIndex).toBe(i);
+      owners[winner] = (owners[winner] || 0) + 1;
+    }
+
+    expect(owners).toEqual({ Alice: 10, Bob: 5, Carol: 1 });
+  });
+
+  it('should return no winner when nobody holds a ticket', () => {
+    expect(selectTicket(normalizeEntries(buildDrawEntries([generateMockTeam({ Team: 'Dave', Points: 99 })])), Math.random)).toBeNull();
+  });
+
+  it('should draw distinct winners without replacement', () => {
+    const sequence = [0, 0, 0];
+    let call = 0;
+    const winners = drawWinners(buildDrawEntries(teams), 5, () => sequence[call++ % sequence.length]);
+
+    // First ticket each time: Alice, then Bob once Alice's tickets are gone, then Carol
+    expect(winners).toEqual(['Alice', 'Bob', 'Carol']);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  getIneligibilityReasons,
+  parseExclusionList,
+  resolveRoundRules,
+  validateEligibilityRules
+} from '@/services/eligibilityRules';
+import { buildDrawEntries } from '@/services/drawService';
+import { calculateWinProbabilities, getRemainingDraws } from '@/utils/winProbability';
+import { EligibilitySettings } from '@/types/eligibility';
+import { RaffleRound } from '@/types/raffle';
+import { generateMockTeam } from '../../__tests__/testUtils';
+
+/**
+ * Eligibility rules sit on top of status and threshold - every excluded
+ * player gets a reason, and the draw never includes them
+ */
+describe('Eligibility Rules', () => {
+  const teams = [
+    generateMockTeam({ Team: 'Alice', Points: 500, Submissions: 10, 'Last Submission': '2024-06-01T10:00' }),
+    generateMockTeam({ Team: 'Bob', Points: 500, Submissions: 2, 'Last Submission': '2024-06-01T10:00' }),
+    generateMockTeam({ Team: 'Carol', Points: 500, Submissions: 10, 'Last Submission': '2024-06-03T10:00' }),
+    generateMockTeam({ Team: 'Dan Staff', Points: 500, Submissions: 10, 'Last Submission': '2024-06-01T10:00' })
+  ];
+
+  const settings: EligibilitySettings = {
+    minSubmissions: 3,
+    excludedPlayers: ['dan staff'],
+    submissionDeadline: '2024-06-02T00:00',
+    roundOverrides: { 2: { minSubmissions: 1, submissionDeadline: '2024-06-04T00:00' } }
+  };
+
+  const rounds: RaffleRound[] = [
+    { id: 1, name: 'Round 1', pointThreshold: 0, description: '' },
+    { id: 2, name: 'Round 2', pointThreshold: 0, description: '' }
+  ];
+
+  it('should give a reason for every rule a player fails', () => {
+    const rules = resolveRoundRules(settings, rounds[0]);
+
+    expect(getIneligibilityReasons(teams[0], rules)).toEqual([]);
+    expect(getIneligibilityReasons(teams[1], rules)).toEqual([
+      { rule: 'minSubmissions', message: '2 of 3 required submissions' }
+    ]);
+    expect(getIneligibilityReasons(teams[2], rules)).toEqual([
+      { rule: 'submissionDeadline', message: 'Last submission after the 2024-06-02 00:00 deadline' }
+    ]);
+    expect(getIneligibilityReasons(teams[3], rules).map(reason => reason.rule)).toEqual(['excludedPlayers']);
+  });
+
+  it('should let a round override replace only the fields it sets', () => {
+    expect(resolveRoundRules(settings, rounds[1])).toEqual({
+      minSubmissions: 1,
+      excludedPlayers: ['dan staff'],
+      submissionDeadline: '2024-06-04T00:00'
+    });
+
+    const draw = (round: RaffleRound) =>
+      buildDrawEntries(teams, { eligibilityRules: resolveRoundRules(settings, round) }).map(entry => entry.team);
+    expect(draw(rounds[0])).toEqual(['Alice']);
+    expect(draw(rounds[1])).toEqual(['Alice', 'Bob', 'Carol']);
+  });
+
+  it('should keep excluded players out of whole-raffle win chances', () => {
+    const draws = getRemainingDraws(rounds, 0, [], 0, round => {
+      const rules = resolveRoundRules(settings, round);
+      return teams.filter(t => getIneligibilityReasons(t, rules).length > 0).map(t => t.Team);
+    });
+    const result = calculateWinProbabilities(teams, draws);
+
+    expect(result.probabilities.Alice).toBeCloseTo(100);
+    expect(result.probabilities.Bob).toBeCloseTo(50);
+    expect(result.probabilities['Dan Staff']).toBe(0);
+  });
+
+  it('should read pasted and uploaded exclusion lists', () => {
+    expect(parseExclusionList('Name,Company\n"Dan Staff",Sponsor Co\nerin\nDan staff\n\n')).toEqual(['Dan Staff', 'erin']);
+    expect(parseExclusionList('Team\tRole\nDan Staff\tOrganizer')).toEqual(['Dan Staff']);
+    expect(parseExclusionList('Dan Staff, Erin ,dan staff')).toEqual(['Dan Staff', 'Erin']);
+  });
+
+  it('should reject unusable rules', () => {
+    expect(validateEligibilityRules({ minSubmissions: 1.5, submissionDeadline: 'soon' })).toEqual([
+      'Minimum submissions must be a whole number of 0 or more',
+      'Pick a valid submission deadline'
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  EliminationContext,
+  createEliminationRule,
+  selectEliminations,
+  validateEliminationRule
+} from '@/services/elimination';
+import { RaffleEngine } from '@/services/raffleEngine';
+import { RAFFLE_MODELS } from '@/services/raffleModels';
+import { RaffleModelType, RaffleParticipant } from '@/types/raffleModels';
+
+/**
+ * Elimination policies decide who drops out after each round - ordered
+ * policies must break ties the same way every time, and every drop-out
+ * carries a reason for the operator
+ */
+describe('Elimination Policies', () => {
+  const candidate = (id: string, points: number, tickets: number = 1) => ({ id, name: id, points, tickets });
+
+  // Seeded-style RNG: the same sequence on every run
+  const sequence = (values: number[]) => {
+    let index = 0;
+    return () => values[index++ % values.length];
+  };
+
+  const context = (overrides: Partial<EliminationContext> = {}): EliminationContext => ({
+    round: 1,
+    totalParticipants: 6,
+    totalRounds: 3,
+    random: sequence([0.5]),
+    ...overrides
+  });
+
+  it('should drop the lowest points first and break ties by name', () => {
+    const candidates = [candidate('Carol', 200), candidate('Alice', 100), candidate('Bob', 200), candidate('Dan', 300)];
+    const eliminations = selectEliminations(candidates, { type: 'lowest_points' }, context());
+
+    expect(eliminations).toEqual([
+      { participantId: 'Alice', reason: 'Fewest points left (100)' },
+      { participantId: 'Bob', reason: 'Fewest points left (200) - tied at the cutoff, dropped by name order' }
+    ]);
+    // Roster order never changes the outcome
+    expect(selectEliminations([...candidates].reverse(), { type: 'lowest_points' }, context())).toEqual(eliminations);
+  });
+
+  it('should shrink the pool to the fixed survivor count for each round', () => {
+    const candidates = [100, 200, 300, 400, 500].map((points, index) => candidate(`P${index}`, points));
+    const rule = { type: 'fixed_survivors' as const, survivors: [3, 1] };
+
+    expect(selectEliminations(candidates, rule, context()).map(e => e.participantId)).toEqual(['P0', 'P1']);
+    expect(selectEliminations(candidates, rule, context({ round: 4 })).map(e => e.participantId)).toEqual(['P0', 'P1', 'P2', 'P3']);
+    expect(selectEliminations(candidates, rule, context())[0].reason).toBe('Outside the top 3 by points (100)');
+  });
+
+  it('should make players with fewer tickets more likely to drop out', () => {
+    const candidates = [candidate('few', 100, 1), candidate('many', 900, 9)];
+    const counts: Record<string, number> = { few: 0, many: 0 };
+    for (let i = 0; i < 1000; i++) {
+      const [elimination] = selectEliminations(candidates, { type: 'inverse_weighted' }, context({ totalParticipants: 3, random: sequence([i / 1000]) }));
+      counts[elimination.participantId]++;
+    }
+
+    // Weights 1 and 1/9 - 'few' should drop out 90% of the time
+    expect(counts.few).toBe(900);
+    expect(selectEliminations(candidates, { type: 'inverse_weighted' }, context({ totalParticipants: 3, random: () => 0 }))[0])
+      .toEqual({ participantId: 'few', reason: 'Drawn to drop out - 1 ticket, 90% chance' });
+  });
+
+  it('should shuffle without bias and replay the same drop-outs from the same seed', () => {
+    const candidates = ['a', 'b', 'c'].map(id => candidate(id, 100));
+    const firstOut: Record<string, number> = { a: 0, b: 0, c: 0 };
+    // Every pair of draws the shuffle can make - each player should go first equally often
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 2; j++) {
+        const random = sequence([(i + 0.5) / 3, (j + 0.5) / 2]);
+        const [elimination] = selectEliminations(candidates, { type: 'players_per_round' }, context({ totalRounds: 6, random }));
+        firstOut[elimination.participantId]++;
+      }
+    }
+    expect(firstOut).toEqual({ a: 2, b: 2, c: 2 });
+
+    const participants: RaffleParticipant[] = Array.from({ length: 8 }, (_, index) => ({
+      id: `p${index}`,
+      name: `Player ${index}`,
+      email: `p${index}@example.com`,
+      points: 100 * (index + 1),
+      tickets: 0,
+      isActive: true,
+      isWinner: false
+    }));
+    const run = () => {
+      const engine = new RaffleEngine(participants.map(p => ({ ...p })), {
+        totalRounds: 4,
+        winnersPerRound: 1,
+        model: RAFFLE_MODELS[RaffleModelType.UNIFORM_ELIMINATION],
+        participants: [],
+        drawSeed: 'seed'
+      });
+      return engine.runRound();
+    };
+    const round = run();
+    expect(round.eliminations).toHaveLength(2);
+    expect(round.eliminated).toEqual(round.eliminations.map(e => e.participantId));
+    expect(run().eliminations).toEqual(round.eliminations);
+  });
+
+  it('should start survivor lists spread over the rounds and validate them', () => {
+    expect(createEliminationRule('fixed_survivors', 4, 100)).toEqual({ type: 'fixed_survivors', survivors: [75, 50, 25, 1] });
+    expect(createEliminationRule('lowest_points')).toEqual({ type: 'lowest_points' });
+    expect(validateEliminationRule({ type: 'fixed_survivors', survivors: [] })).toEqual(['Add at least one survivor count']);
+    expect(validateEliminationRule({ type: 'fixed_survivors', survivors: [2.5] }))
+      .toEqual(['Survivor counts must be whole numbers of 0 or more']);
+  });
+});
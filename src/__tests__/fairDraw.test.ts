@@ -0,0 +1,89 @@
+import { describe, it, expect } from '@jest/globals';
+import { sha256 } from '@/utils/sha256';
+import {
+  buildDrawLog,
+  createDrawCommitment,
+  revealDrawCommitment,
+  verifyDrawLog
+} from '@/services/fairDraw';
+import { hashRoster, performFairDraw } from '@/services/drawService';
+import { DrawRecord } from '@/types/fairDraw';
+
+/**
+ * Commit-reveal draws: the winner must be reproducible from the revealed seed,
+ * and any change to the seed, roster or recorded winner must fail verification
+ */
+describe('Fair Draw', () => {
+  const entries = [
+    { team: 'Alice', tickets: 10 },
+    { team: 'Bob', tickets: 5 },
+    { team: 'Carol', tickets: 1 },
+    { team: 'Dave', tickets: 0 }
+  ];
+
+  it('should hash known SHA-256 test vectors', () => {
+    expect(sha256('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(sha256('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'))
+      .toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+    // Multi-byte names must hash their UTF-8 bytes
+    expect(sha256('José')).toBe('24c2ab65b7adab7e070ba05a00a3f3ae074e28b8bcdd59735b7107e7a538a551');
+  });
+
+  it('should produce the same winner for the same seed, round and roster', () => {
+    const first = performFairDraw('seed-1', 1, entries);
+    const second = performFairDraw('seed-1', 1, [...entries].reverse());
+
+    expect(first).not.toBeNull();
+    expect(second?.winner).toBe(first?.winner);
+    expect(second?.rosterHash).toBe(first?.rosterHash);
+    expect(first?.totalTickets).toBe(16);
+  });
+
+  it('should ignore zero-ticket entries in the roster hash', () => {
+    expect(hashRoster(entries)).toBe(hashRoster(entries.filter(entry => entry.tickets > 0)));
+    expect(performFairDraw('seed-1', 1, [{ team: 'Dave', tickets: 0 }])).toBeNull();
+  });
+
+  it('should verify a revealed log and reject an unrevealed one', () => {
+    const commitment = createDrawCommitment('secret-seed');
+    const draws = [1, 2, 3].map(round => performFairDraw(commitment.seed, round, entries) as DrawRecord);
+
+    const hidden = verifyDrawLog(buildDrawLog(commitment, draws));
+    expect(hidden.seedRevealed).toBe(false);
+    expect(hidden.allValid).toBe(false);
+
+    const revealed = verifyDrawLog(buildDrawLog(revealDrawCommitment(commitment), draws));
+    expect(revealed.commitmentValid).toBe(true);
+    expect(revealed.allValid).toBe(true);
+  });
+
+  it('should detect a tampered winner, roster or seed', () => {
+    const commitment = revealDrawCommitment(createDrawCommitment('secret-seed'));
+    const draw = performFairDraw(commitment.seed, 1, entries) as DrawRecord;
+    const otherWinner = draw.winner === 'Alice' ? 'Bob' : 'Alice';
+
+    const swappedWinner = buildDrawLog(commitment, [{ ...draw, winner: otherWinner }]);
+    expect(verifyDrawLog(swappedWinner).allValid).toBe(false);
+
+    const editedRoster = buildDrawLog(commitment, [{ ...draw, entries: [...draw.entries, { team: 'Eve', tickets: 3 }] }]);
+    expect(verifyDrawLog(editedRoster).draws[0].rosterHashValid).toBe(false);
+
+    const wrongSeed = { ...buildDrawLog(commitment, [draw]), seed: 'another-seed' };
+    expect(verifyDrawLog(wrongSeed).commitmentValid).toBe(false);
+  });
+
+  it('should weight winners by ticket count across many seeds', () => {
+    const counts: Record<string, number> = { Alice: 0, Bob: 0, Carol: 0 };
+    for (let i = 0; i < 1600; i++) {
+      const draw = performFairDraw(`seed-${i}`, 1, entries) as DrawRecord;
+      counts[draw.winner]++;
+    }
+
+    // Expected 1000 / 500 / 100
+    expect(counts.Alice).toBeGreaterThan(900);
+    expect(counts.Bob).toBeGreaterThan(400);
+    expect(counts.Carol).toBeGreaterThan(50);
+    expect(counts.Carol).toBeLessThan(160);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildFairnessReport,
+  getLargestDeviations,
+  runAuditDraws,
+  summarizeFairnessAudit,
+  verifyFairnessReport
+} from '@/services/fairnessAudit';
+import { chiSquaredPValue } from '@/utils/statistics';
+import { DrawEntry } from '@/types/fairDraw';
+
+/**
+ * The audit replays the production draw and tests it against ticket shares -
+ * the statistics must be right and the exported report must be checkable
+ */
+describe('Fairness Audit', () => {
+  const entries: DrawEntry[] = [
+    { team: 'Carol', tickets: 5 },
+    { team: 'Alice', tickets: 1 },
+    { team: 'Bob', tickets: 4 },
+    { team: 'Nobody', tickets: 0 }
+  ];
+
+  it('should compute chi-squared p-values', () => {
+    // Reference values from chi-squared tables
+    expect(chiSquaredPValue(3.841, 1)).toBeCloseTo(0.05, 3);
+    expect(chiSquaredPValue(9.210, 2)).toBeCloseTo(0.01, 3);
+    expect(chiSquaredPValue(124.342, 100)).toBeCloseTo(0.05, 3);
+    expect(chiSquaredPValue(0, 5)).toBe(1);
+  });
+
+  it('should find no bias in the production draw', () => {
+    const counts = runAuditDraws(entries, 'audit-seed', 1, 5000, [0, 0, 0]);
+    const result = summarizeFairnessAudit(entries, counts);
+
+    expect(result.players.map(player => player.team)).toEqual(['Alice', 'Bob', 'Carol']);
+    expect(result.iterations).toBe(5000);
+    expect(result.players[0].expected).toBeCloseTo(500);
+    expect(result.degreesOfFreedom).toBe(2);
+    expect(result.pValue).toBeGreaterThan(0.01);
+    expect(result.lowExpectedCount).toBe(0);
+  });
+
+  it('should flag counts that do not follow the ticket shares', () => {
+    // Alice holds 10% of the tickets but won half the draws
+    const result = summarizeFairnessAudit(entries, [500, 200, 300]);
+
+    expect(result.pValue).toBeLessThan(0.0001);
+    expect(getLargestDeviations(result, 1)[0]).toMatchObject({ team: 'Alice', observed: 500, expected: 100 });
+  });
+
+  it('should export a report that replays from its seed and detects edits', () => {
+    const counts = runAuditDraws(entries, 'report-seed', 1, 300, [0, 0, 0]);
+    const report = buildFairnessReport(entries, 'report-seed', summarizeFairnessAudit(entries, counts), {
+      configurationName: 'Spring Event',
+      roundName: 'Round 1'
+    });
+
+    expect(report.digest).toMatch(/^[0-9a-f]{64}$/);
+    expect(report.passed).toBe(report.pValue >= report.significanceLevel);
+    // Round-tripped through JSON as a sponsor would receive it
+    expect(verifyFairnessReport(JSON.parse(JSON.stringify(report))).allValid).toBe(true);
+
+    // The digest does not depend on key order
+    const reordered = Object.fromEntries(Object.entries(report).reverse()) as typeof report;
+    expect(verifyFairnessReport(reordered).digestValid).toBe(true);
+
+    const edited = { ...report, pValue: 0.9 };
+    expect(verifyFairnessReport(edited)).toMatchObject({ digestValid: false, drawsValid: true, resultsValid: false });
+
+    // A valid digest does not help a forger - the replay and the statistics still disagree
+    const result = summarizeFairnessAudit(entries, counts);
+    const forgedPValue = buildFairnessReport(entries, 'report-seed', { ...result, pValue: 0.9 });
+    expect(verifyFairnessReport(forgedPValue)).toMatchObject({ digestValid: true, drawsValid: true, resultsValid: false, allValid: false });
+
+    const forgedCounts = buildFairnessReport(entries, 'report-seed', summarizeFairnessAudit(entries, [100, 100, 100]));
+    expect(verifyFairnessReport(forgedCounts)).toMatchObject({ digestValid: true, drawsValid: false, allValid: false });
+  });
+});
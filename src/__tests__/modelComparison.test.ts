@@ -0,0 +1,95 @@
+import { describe, it, expect } from '@jest/globals';
+import seedrandom from 'seedrandom';
+import {
+  calculateGini,
+  createScenario,
+  createTally,
+  getComparisonTiers,
+  runSimulations,
+  summarizeScenario
+} from '@/services/modelComparison';
+import { RaffleEngine } from '@/services/raffleEngine';
+import { RAFFLE_MODELS } from '@/services/raffleModels';
+import { ConfigurationManager } from '@/utils/configurationManager';
+import { RaffleModelType } from '@/types/raffleModels';
+import { TeamData } from '@/types/raffle';
+
+/**
+ * The planner simulates whole raffles per scenario over one roster - the
+ * numbers must reflect each model's rules and line up across scenarios
+ */
+describe('Model Comparison', () => {
+  const teams: TeamData[] = Array.from({ length: 20 }, (_, index) => ({
+    Team: `Team ${index}`,
+    Points: (index + 1) * 100,
+    Submissions: 1,
+    'Last Submission': '2024-01-01'
+  }));
+
+  const simulate = (raffleModel: string, iterations: number = 2000) => {
+    const settings = { numberOfRounds: 2, raffleModel };
+    const tally = runSimulations(teams, settings, createTally(teams.length), iterations, seedrandom('planner'));
+    const tiers = getComparisonTiers(teams, ConfigurationManager.generateOptimalRounds(teams, settings));
+    return summarizeScenario(createScenario(raffleModel, settings), teams, tally, tiers);
+  };
+
+  it('should favour high-point deciles under weighted tickets', () => {
+    const summary = simulate(RaffleModelType.WEIGHTED_CONTINUOUS);
+
+    expect(summary.iterations).toBe(2000);
+    expect(summary.expectedWinners).toBe(2);
+    expect(summary.deciles).toHaveLength(10);
+    expect(summary.deciles[0]).toMatchObject({ decile: 1, minPoints: 100, maxPoints: 200, players: 2 });
+    expect(summary.deciles[9].winProbability).toBeGreaterThan(summary.deciles[0].winProbability * 3);
+    expect(summary.gini).toBeGreaterThan(0.2);
+  });
+
+  it('should keep lower tiers out of threshold rounds and report winners per tier', () => {
+    const summary = simulate(RaffleModelType.UNIFORM_ELIMINATION);
+
+    // Equal buckets put round 2 at 1100+ points - the lower tier can only win round 1
+    expect(summary.tiers.map(tier => tier.label)).toEqual(['0–1099', '1100+']);
+    expect(summary.tiers[0].expectedWinners).toBeLessThan(1);
+    expect(summary.tiers[0].expectedWinners + summary.tiers[1].expectedWinners).toBeCloseTo(summary.expectedWinners);
+  });
+
+  it('should give the same totals when run in chunks', () => {
+    const settings = { numberOfRounds: 3, raffleModel: RaffleModelType.WEIGHTED_CONTINUOUS };
+    const whole = runSimulations(teams, settings, createTally(teams.length), 100, seedrandom('chunks'));
+
+    const random = seedrandom('chunks');
+    const chunked = createTally(teams.length);
+    runSimulations(teams, settings, chunked, 40, random);
+    runSimulations(teams, settings, chunked, 60, random);
+
+    expect(chunked).toEqual(whole);
+  });
+
+  it('should only draw players at or above the round threshold', () => {
+    const engine = new RaffleEngine(
+      teams.slice(0, 3).map((team, index) => ({
+        id: String(index),
+        name: team.Team,
+        email: '',
+        points: team.Points,
+        tickets: 0,
+        isActive: true,
+        isWinner: false
+      })),
+      {
+        totalRounds: 1,
+        winnersPerRound: 1,
+        model: RAFFLE_MODELS[RaffleModelType.WEIGHTED_CONTINUOUS],
+        participants: [],
+        pointThresholds: [300]
+      }
+    );
+    expect(engine.runRound().winners).toEqual(['2']);
+  });
+
+  it('should measure inequality with the Gini coefficient', () => {
+    expect(calculateGini([5, 5, 5, 5])).toBe(0);
+    expect(calculateGini([0, 0, 0, 10])).toBeCloseTo(0.75);
+    expect(calculateGini([])).toBe(0);
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect } from '@jest/globals';
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import {
+  buildImportReport,
+  getImportFormat,
+  getMissingImportFields,
+  parseDelimitedText,
+  suggestColumnMapping,
+  toImportTable
+} from '@/utils/playerImport';
+import { readXlsxSheet } from '@/utils/xlsxReader';
+
+/**
+ * Imports must never drop a row silently: every row either becomes a player
+ * or shows up in the report with the reason it was rejected
+ */
+
+// ASCII-only test fixtures, so one byte per character
+const bytesOf = (text: string): Uint8Array => Uint8Array.from(text, char => char.charCodeAt(0));
+
+// Builds a minimal zip archive; entries listed in `deflated` use method 8
+const buildZip = (files: Record<string, string>, deflated: string[] = []): ArrayBuffer => {
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([name, content]) => {
+    const nameBytes = bytesOf(name);
+    const raw = bytesOf(content);
+    const method = deflated.includes(name) ? 8 : 0;
+    const data = method === 8 ? new Uint8Array(deflateRawSync(raw)) : raw;
+
+    const local = new Uint8Array(30 + nameBytes.length + data.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(8, method, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, raw.length, true);
+    localView.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    local.set(data, 30 + nameBytes.length);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(10, method, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, raw.length, true);
+    centralView.setUint16(28, nameBytes.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    localParts.push(local);
+    centralParts.push(central);
+    offset += local.length;
+  });
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const eocd = new Uint8Array(22);
+  const eocdView = new DataView(eocd.buffer);
+  eocdView.setUint32(0, 0x06054b50, true);
+  eocdView.setUint16(8, centralParts.length, true);
+  eocdView.setUint16(10, centralParts.length, true);
+  eocdView.setUint32(12, centralSize, true);
+  eocdView.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, eocd];
+  const zip = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  parts.forEach(part => {
+    zip.set(part, position);
+    position += part.length;
+  });
+  return zip.buffer;
+};
+
+const nodeInflate = async (data: Uint8Array) => new Uint8Array(inflateRawSync(data));
+
+describe('Player Import', () => {
+  it('should detect the format from the file extension', () => {
+    expect(getImportFormat('players.CSV')).toBe('csv');
+    expect(getImportFormat('players.tsv')).toBe('tsv');
+    expect(getImportFormat('players.xlsx')).toBe('xlsx');
+    expect(getImportFormat('players.xls')).toBeNull();
+  });
+
+  it('should suggest a mapping from common header names', () => {
+    const mapping = suggestColumnMapping(['Player Name', 'Total Score', 'Missions Completed', 'Email']);
+
+    expect(mapping).toEqual({
+      Team: 'Player Name',
+      Points: 'Total Score',
+      Submissions: 'Missions Completed',
+      'Last Submission': null
+    });
+    expect(getMissingImportFields({ ...mapping, Points: null })).toEqual(['Points']);
+  });
+
+  it('should parse tab separated files with quoted cells', () => {
+    const table = parseDelimitedText('Name\tScore\n"Smith, Alice"\t1,250\n\nBob\t300\n', '\t');
+
+    expect(table.headers).toEqual(['Name', 'Score']);
+    expect(table.rows).toEqual([['Smith, Alice', '1,250'], ['Bob', '300']]);
+    expect(table.rowNumbers).toEqual([2, 4]);
+  });
+
+  it('should report every rejected row with its reason', () => {
+    const table = parseDelimitedText([
+      'Team,Points,Submissions',
+      'Alice,1000,3',
+      ',500,1',
+      'Bob,,2',
+      'Carol,lots,2',
+      'Dave,-5,1',
+      'Erin,200,many',
+      'Frank,1 250,4'
+    ].join('\n'));
+    const report = buildImportReport(table, suggestColumnMapping(table.headers));
+
+    expect(report.totalRows).toBe(7);
+    expect(report.teams.map(team => [team.Team, team.Points])).toEqual([['Alice', 1000], ['Frank', 1250]]);
+    expect(report.rejected.map(row => [row.rowNumber, row.reason])).toEqual([
+      [3, 'Missing team name'],
+      [4, 'Missing points'],
+      [5, 'Points "lots" is not a number'],
+      [6, 'Points cannot be negative'],
+      [7, 'Submissions "many" is not a number']
+    ]);
+  });
+
+  it('should number rejected rows as the source file does when it has blank rows', () => {
+    const table = parseDelimitedText('\nTeam,Points\n\nAlice,100\n,50\n\n\nBob,lots\nCarol,300\n');
+    const report = buildImportReport(table, suggestColumnMapping(table.headers));
+
+    expect(report.teams.map(team => team.Team)).toEqual(['Alice', 'Carol']);
+    expect(report.rejected.map(row => [row.rowNumber, row.reason])).toEqual([
+      [5, 'Missing team name'],
+      [8, 'Points "lots" is not a number']
+    ]);
+  });
+
+  it('should reject files with two columns of the same name', () => {
+    expect(() => parseDelimitedText('Team,Points,points\nAlice,100,200\n')).toThrow('more than one "points" column');
+    // Blank headers are unnamed spare columns, not duplicates
+    expect(parseDelimitedText('Team,,Points,\nAlice,x,100,y\n').headers).toEqual(['Team', '', 'Points', '']);
+  });
+
+  it('should keep the first row of duplicate team names and list the others', () => {
+    const table = parseDelimitedText('Team,Points\nAlice,100\nBob,200\nalice,300\nALICE,400\n');
+    const report = buildImportReport(table, suggestColumnMapping(table.headers));
+
+    expect(report.teams.map(team => team.Team)).toEqual(['Alice', 'Bob']);
+    expect(report.teams[0].Points).toBe(100);
+    expect(report.duplicates).toEqual([{ team: 'alice', rowNumbers: [2, 4, 5] }]);
+    expect(report.rejected.map(row => row.reason)).toEqual(['Duplicate of row 2', 'Duplicate of row 2']);
+  });
+
+  it('should read the first worksheet of an XLSX workbook', async () => {
+    const workbook = buildZip({
+      'xl/workbook.xml': '<workbook xmlns:r="r"><sheets><sheet name="Players" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/players.xml"/></Relationships>',
+      'xl/sharedStrings.xml': '<sst><si><t>Team</t></si><si><t>Points</t></si><si><r><t>Ali</t></r><r><t>ce</t></r></si></sst>',
+      'xl/styles.xml': '<styleSheet><cellXfs><xf numFmtId="0"/><xf numFmtId="14"/></cellXfs></styleSheet>',
+      'xl/worksheets/players.xml': [
+        '<worksheet><sheetData>',
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="D1" t="inlineStr"><is><t>Joined</t></is></c></row>',
+        '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2"><v>1500</v></c><c r="D2" s="1"><v>45292</v></c></row>',
+        '<row r="3"><c r="A3" t="inlineStr"><is><t>Bob</t></is></c><c r="B3"><v>900</v></c><c r="D3" s="1"><v>45292.5</v></c></row>',
+        '</sheetData></worksheet>'
+      ].join('')
+    }, ['xl/worksheets/players.xml']);
+
+    const cells = await readXlsxSheet(workbook, nodeInflate);
+
+    expect(cells).toEqual([
+      ['Team', 'Points', '', 'Joined'],
+      ['Alice', '1500', '', '2024-01-01'],
+      ['Bob', '900', '', '2024-01-01T12:00:00']
+    ]);
+    // No offset - read back as noon local time, the same way cutoffs are parsed
+    expect(new Date(cells[2][3]).getHours()).toBe(12);
+  });
+
+  it('should keep the sheet row numbers when the workbook skips empty rows', async () => {
+    const workbook = buildZip({
+      'xl/worksheets/sheet1.xml': [
+        '<worksheet><sheetData>',
+        '<row r="2"><c r="A2" t="inlineStr"><is><t>Team</t></is></c><c r="B2" t="inlineStr"><is><t>Points</t></is></c></row>',
+        '<row r="3"><c r="A3" t="inlineStr"><is><t>Alice</t></is></c><c r="B3"><v>100</v></c></row>',
+        '<row r="6"><c r="B6"><v>50</v></c></row>',
+        '</sheetData></worksheet>'
+      ].join('')
+    });
+
+    const table = toImportTable(await readXlsxSheet(workbook, nodeInflate));
+    expect(table.rowNumbers).toEqual([3, 6]);
+    expect(buildImportReport(table, suggestColumnMapping(table.headers)).rejected.map(row => row.rowNumber)).toEqual([6]);
+  });
+
+  it('should only read custom number formats with date tokens as dates', async () => {
+    const workbook = buildZip({
+      'xl/styles.xml': [
+        '<styleSheet><numFmts>',
+        '<numFmt numFmtId="164" formatCode="#,##0;[Red]-#,##0"/>',
+        '<numFmt numFmtId="165" formatCode="&quot;Day &quot;0\\d"/>',
+        '<numFmt numFmtId="166" formatCode="[$-409]d/m/yyyy"/>',
+        '</numFmts><cellXfs><xf numFmtId="164"/><xf numFmtId="165"/><xf numFmtId="166"/></cellXfs></styleSheet>'
+      ].join(''),
+      'xl/worksheets/sheet1.xml': [
+        '<worksheet><sheetData>',
+        '<row r="1"><c r="A1" s="0"><v>45292</v></c><c r="B1" s="1"><v>45292</v></c><c r="C1" s="2"><v>45292</v></c></row>',
+        '</sheetData></worksheet>'
+      ].join('')
+    });
+
+    expect(await readXlsxSheet(workbook, nodeInflate)).toEqual([['45292', '45292', '2024-01-01']]);
+  });
+
+  it('should reject files that are not zip archives', async () => {
+    await expect(readXlsxSheet(bytesOf('Team,Points\nAlice,1').buffer as ArrayBuffer, nodeInflate))
+      .rejects.toThrow('not a valid XLSX');
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  RAFFLE_BUNDLE_FORMAT,
+  createRaffleBundle,
+  findBundleCollision,
+  importRaffleBundle,
+  parseRaffleBundle,
+  validateRaffleBundle
+} from '@/services/raffleBundle';
+import { loadStoredRaffleState } from '@/services/raffleStorage';
+import { CURRENT_SCHEMA_VERSION } from '@/services/storageMigrations';
+import { ConfigurationManager } from '@/utils/configurationManager';
+import { RaffleState } from '@/types/raffle';
+
+/**
+ * A bundle must carry everything needed to run the raffle on another machine,
+ * and importing must never silently replace a configuration already there
+ */
+describe('Raffle Bundles', () => {
+  const configuration = ConfigurationManager.createConfiguration('Venue Night', [
+    { Team: 'Alice Smith', Points: 1000, Submissions: 3, 'Last Submission': '2024-01-01' },
+    { Team: 'Bob', Points: 500, Submissions: 1, 'Last Submission': '2024-01-01' }
+  ], { numberOfRounds: 2, raffleModel: 'weighted_continuous' });
+  const prizedConfiguration = {
+    ...configuration,
+    prizes: [{ id: 'p1', name: 'Headphones', quantity: 1, image: '/prizes/headphones.png' }]
+  };
+
+  const raffleState = {
+    teams: configuration.teams,
+    currentRound: 1,
+    rounds: configuration.rounds,
+    winners: [{ team: 'Alice Smith', round: 1, roundName: 'Round 1', timestamp: new Date('2024-01-01') }],
+    remainingTeams: [],
+    isDrawing: false,
+    raffleStarted: true,
+    pendingWinners: [],
+    withdrawnPlayers: [],
+    prizes: [],
+    drawLog: [],
+    auditLog: [],
+    rosterVersion: 1
+  } as unknown as RaffleState;
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should bundle the configuration, its raffle progress and a photo manifest', () => {
+    const bundle = createRaffleBundle(prizedConfiguration, raffleState);
+
+    expect(bundle.format).toBe(RAFFLE_BUNDLE_FORMAT);
+    expect(bundle.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(bundle.photos[0]).toEqual({
+      kind: 'player',
+      name: 'Alice Smith',
+      paths: ['/users/alice_smith/thumbnail.webp', '/users/alice_smith/sm.webp', '/users/alice_smith/avatar.webp', '/users/alice_smith/lg.webp']
+    });
+    expect(bundle.photos[2]).toEqual({ kind: 'prize', name: 'Headphones', paths: ['/prizes/headphones.png'] });
+
+    const parsed = parseRaffleBundle(JSON.stringify(bundle));
+    expect(parsed.configuration.teams).toEqual(configuration.teams);
+    expect(parsed.raffleState?.currentRound).toBe(1);
+  });
+
+  it('should list every schema problem and refuse files from a newer app', () => {
+    const bundle = JSON.parse(JSON.stringify(createRaffleBundle(configuration, null)));
+    bundle.configuration.teams[1].Points = 'lots';
+    bundle.configuration.rounds = 'none';
+    delete bundle.configuration.name;
+
+    expect(validateRaffleBundle(bundle)).toEqual([
+      'configuration.name is missing',
+      'configuration.teams[1] (Bob) needs Points of 0 or more',
+      'configuration.rounds must be a list'
+    ]);
+    expect(validateRaffleBundle({ kind: 'draw_log' })).toEqual(['File is not a raffle bundle']);
+    expect(() => parseRaffleBundle('{not json')).toThrow('File is not a raffle bundle');
+    expect(() => parseRaffleBundle(JSON.stringify({ ...bundle, configuration: configuration, schemaVersion: CURRENT_SCHEMA_VERSION + 1 })))
+      .toThrow('Update the app');
+  });
+
+  it('should overwrite or duplicate a configuration that is already saved', () => {
+    const bundle = parseRaffleBundle(JSON.stringify(createRaffleBundle(configuration, raffleState)));
+    expect(findBundleCollision(bundle)).toBeNull();
+
+    importRaffleBundle(bundle);
+    expect(findBundleCollision(bundle)?.name).toBe('Venue Night');
+    expect(loadStoredRaffleState(configuration.id)?.winners).toHaveLength(1);
+
+    const copy = importRaffleBundle({ ...bundle, raffleState: null }, 'duplicate');
+    expect(copy.id).not.toBe(configuration.id);
+    expect(copy.name).toBe('Venue Night (copy)');
+    expect(loadStoredRaffleState(copy.id)).toBeNull();
+
+    importRaffleBundle({ ...bundle, raffleState: null }, 'overwrite');
+    const saved = ConfigurationManager.getAllConfigurations();
+    expect(saved.map(config => config.name)).toEqual(['Venue Night', 'Venue Night (copy)']);
+    expect(loadStoredRaffleState(configuration.id)).toBeNull();
+    expect(saved[0].auditLog?.filter(event => event.type === 'configuration_imported')).toHaveLength(2);
+  });
+
+  it('should keep the draw commitment on overwrite and drop it from a copy', () => {
+    const drawCommitment = { seed: 'committed-seed', commitment: 'abc123', createdAt: '2024-01-01T00:00:00.000Z' };
+    const bundle = parseRaffleBundle(JSON.stringify(createRaffleBundle({ ...configuration, drawCommitment }, null)));
+
+    expect(importRaffleBundle(bundle).drawCommitment).toEqual(drawCommitment);
+
+    const copy = importRaffleBundle(bundle, 'duplicate');
+    expect(copy.drawCommitment).toBeUndefined();
+    expect(ConfigurationManager.getAllConfigurations().find(config => config.id === copy.id)?.drawCommitment).toBeUndefined();
+    expect(findBundleCollision(bundle)?.drawCommitment).toEqual(drawCommitment);
+  });
+});
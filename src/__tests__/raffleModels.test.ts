@@ -0,0 +1,113 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  RAFFLE_MODELS,
+  createCustomModel,
+  getRaffleModel,
+  getRaffleModels,
+  validateRaffleModel
+} from '@/services/raffleModels';
+import { RaffleEngine } from '@/services/raffleEngine';
+import { ConfigurationManager } from '@/utils/configurationManager';
+import { RaffleModel, RaffleModelType, RaffleParticipant } from '@/types/raffleModels';
+import { TeamData } from '@/types/raffle';
+
+/**
+ * Models are definitions looked up in the registry - the engine and the round
+ * generator must follow the definition, including for custom models
+ */
+describe('Raffle Model Registry', () => {
+  const custom: RaffleModel = {
+    ...createCustomModel(RAFFLE_MODELS[RaffleModelType.UNIFORM_ELIMINATION]),
+    id: 'custom-test',
+    name: 'Everyone Every Round',
+    ticketFormula: { type: 'points_divided', divisor: 50 },
+    winnerRemoval: 'keep',
+    elimination: { type: 'none' },
+    thresholdStrategy: { type: 'none' }
+  };
+
+  const participant = (id: string, points: number): RaffleParticipant => ({
+    id,
+    name: id,
+    email: `${id}@example.com`,
+    points,
+    tickets: 0,
+    isActive: true,
+    isWinner: false
+  });
+
+  it('should list built-in models before custom models and fall back for unknown ids', () => {
+    expect(getRaffleModels([custom]).map(model => model.id)).toEqual([
+      RaffleModelType.UNIFORM_ELIMINATION,
+      RaffleModelType.WEIGHTED_CONTINUOUS,
+      'custom-test'
+    ]);
+    expect(getRaffleModel('custom-test', [custom])).toBe(custom);
+    expect(getRaffleModel('deleted-model').id).toBe(RaffleModelType.WEIGHTED_CONTINUOUS);
+  });
+
+  it('should reject invalid and duplicate model definitions', () => {
+    expect(validateRaffleModel(custom, getRaffleModels())).toEqual([]);
+    expect(validateRaffleModel(
+      { ...custom, name: ' weighted continuous round ', ticketFormula: { type: 'points_divided', divisor: 0 } },
+      getRaffleModels()
+    )).toEqual([
+      'A model named "weighted continuous round" already exists',
+      'Points per ticket must be greater than 0'
+    ]);
+    expect(validateRaffleModel({ ...custom, name: '' })).toEqual(['Name is required']);
+  });
+
+  it("should generate rounds from a custom model's threshold strategy", () => {
+    const teams: TeamData[] = [100, 300, 500, 700].map((points, index) => ({
+      Team: `Team ${index}`,
+      Points: points,
+      Submissions: 1,
+      'Last Submission': '2024-01-01'
+    }));
+
+    const continuous = ConfigurationManager.generateOptimalRounds(teams, {
+      numberOfRounds: 2,
+      raffleModel: custom.id,
+      customModels: [custom]
+    });
+    expect(continuous.map(round => round.pointThreshold)).toEqual([0, 0]);
+
+    const bracketed = ConfigurationManager.generateOptimalRounds(teams, {
+      numberOfRounds: 2,
+      raffleModel: custom.id,
+      customModels: [{ ...custom, thresholdStrategy: { type: 'equal_buckets' } }]
+    });
+    expect(bracketed.map(round => round.pointThreshold)).toEqual([0, 500]);
+  });
+
+  it('should let winners win again when the model keeps them', () => {
+    const engine = new RaffleEngine([participant('solo', 500)], {
+      totalRounds: 3,
+      winnersPerRound: 1,
+      model: custom,
+      participants: []
+    });
+
+    const rounds = [engine.runRound(), engine.runRound(), engine.runRound()];
+    expect(rounds.map(round => round.winners)).toEqual([['solo'], ['solo'], ['solo']]);
+    expect(rounds[0].modelId).toBe('custom-test');
+    expect(engine.getParticipants()[0].tickets).toBe(10);
+  });
+
+  it('should give one ticket each and eliminate players under a uniform model', () => {
+    const participants = ['a', 'b', 'c', 'd'].map((id, index) => participant(id, (index + 1) * 1000));
+    const engine = new RaffleEngine(participants, {
+      totalRounds: 2,
+      winnersPerRound: 1,
+      model: RAFFLE_MODELS[RaffleModelType.UNIFORM_ELIMINATION],
+      participants: []
+    });
+
+    const round = engine.runRound();
+    expect(engine.getParticipants().every(p => p.tickets === 1)).toBe(true);
+    expect(round.winners).toHaveLength(1);
+    expect(round.eliminated).toHaveLength(2);
+    expect(round.participantsAfter).toBe(1);
+  });
+});
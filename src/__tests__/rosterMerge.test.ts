@@ -0,0 +1,75 @@
+import { describe, it, expect } from '@jest/globals';
+import { applyRosterChanges, diffRoster } from '@/services/rosterMerge';
+import { generateMockTeam } from '../../__tests__/testUtils';
+
+/**
+ * A roster update must show every difference before anything changes, and
+ * applying it must never undo a player's raffle status
+ */
+describe('Roster Merge', () => {
+  const current = [
+    generateMockTeam({ Team: 'Alice', Points: 1500, status: 'winner' }),
+    generateMockTeam({ Team: 'Bob', Points: 900, status: 'eligible' }),
+    generateMockTeam({ Team: 'Carol', Points: 400, status: 'eligible' }),
+    generateMockTeam({ Team: 'Dan', Points: 0, status: 'withdrawn' })
+  ];
+  const context = { winners: ['Alice'], pendingWinners: ['Carol'], withdrawnPlayers: [] };
+
+  it('should list added, removed and changed teams and flag status conflicts', () => {
+    const incoming = [generateMockTeam({ Team: 'Alice', Points: 1700 }), generateMockTeam({ Team: 'Bob', Points: 900 }), generateMockTeam({ Team: 'Dan', Points: 300 }), generateMockTeam({ Team: 'Erin', Points: 800 })];
+    const diff = diffRoster(current, incoming, context);
+
+    expect(diff.unchangedCount).toBe(1);
+    expect(diff.changes.map(change => [change.id, change.conflict])).toEqual([
+      ['updated:Alice', 'Already won a prize'],
+      ['updated:Dan', undefined],
+      ['added:Erin', undefined],
+      ['removed:Carol', 'Drawn and waiting for confirmation']
+    ]);
+  });
+
+  it('should flag players whose points drop to zero', () => {
+    const diff = diffRoster(current, [generateMockTeam({ Team: 'Bob', Points: 0 })], context);
+    expect(diff.changes.find(change => change.team === 'Bob')?.conflict).toBe('Drops to 0 points and will be withdrawn');
+  });
+
+  it('should apply only the accepted changes and re-rank players', () => {
+    const incoming = [generateMockTeam({ Team: 'Alice', Points: 100 }), generateMockTeam({ Team: 'Bob', Points: 0 }), generateMockTeam({ Team: 'Carol', Points: 400 }), generateMockTeam({ Team: 'Dan', Points: 300 }), generateMockTeam({ Team: 'Erin', Points: 2000 })];
+    const { changes } = diffRoster(current, incoming, context);
+    const accepted = changes.filter(change => change.team !== 'Dan');
+    const merged = applyRosterChanges(current, accepted);
+
+    expect(merged.map(t => [t.playerNumber, t.Team, t.Points, t.status])).toEqual([
+      [1, 'Erin', 2000, 'eligible'],
+      [2, 'Carol', 400, 'eligible'],
+      [3, 'Alice', 100, 'winner'],
+      [4, 'Bob', 0, 'withdrawn'],
+      [5, 'Dan', 0, 'withdrawn']
+    ]);
+  });
+
+  it('should list submission changes even when points stay the same', () => {
+    const incoming = [
+      generateMockTeam({ Team: 'Bob', Points: 900, Submissions: 4 }),
+      generateMockTeam({ Team: 'Alice', Points: 1500, 'Last Submission': '2024-02-01' }),
+      generateMockTeam({ Team: 'Carol', Points: 400 })
+    ];
+    const diff = diffRoster(current, incoming, context);
+
+    expect(diff.unchangedCount).toBe(1);
+    expect(diff.changes.filter(change => change.type === 'updated').map(change => [change.team, change.fields])).toEqual([
+      ['Bob', ['Submissions']],
+      ['Alice', ['Last Submission']]
+    ]);
+
+    const merged = applyRosterChanges(current, diff.changes.filter(change => change.type === 'updated'));
+    expect(merged.find(t => t.Team === 'Bob')).toMatchObject({ Points: 900, Submissions: 4, status: 'eligible' });
+    expect(merged.find(t => t.Team === 'Alice')).toMatchObject({ 'Last Submission': '2024-02-01', status: 'winner' });
+  });
+
+  it('should make a zero-point player eligible once they score', () => {
+    const { changes } = diffRoster(current, [generateMockTeam({ Team: 'Dan', Points: 300 })], context);
+    const merged = applyRosterChanges(current, changes.filter(change => change.type === 'updated'));
+    expect(merged.find(t => t.Team === 'Dan')?.status).toBe('eligible');
+  });
+});
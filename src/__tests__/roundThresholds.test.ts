@@ -0,0 +1,80 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  countSurvivors,
+  createThresholdStrategy,
+  describeThresholdStrategy,
+  getRoundThresholds,
+  validateThresholdStrategy
+} from '@/services/roundThresholds';
+import { ConfigurationManager } from '@/utils/configurationManager';
+import { RaffleModelType } from '@/types/raffleModels';
+import { TeamData } from '@/types/raffle';
+
+/**
+ * Every strategy opens round 1 to everyone and turns the roster's points into
+ * one cutoff per later round
+ */
+describe('Round Threshold Strategies', () => {
+  const points = [200, 400, 400, 500, 600, 600, 800];
+
+  it('should keep the equal-size brackets the rounds always used', () => {
+    const thresholds = getRoundThresholds({ type: 'equal_buckets' }, [700, 100, 500, 300], 2);
+    expect(thresholds).toEqual([0, 500]);
+  });
+
+  it('should place bell-curve cutoffs at mean plus standard deviations', () => {
+    const bellPoints = [300, 300, 700, 700]; // Mean 500, standard deviation 200
+    const thresholds = getRoundThresholds({ type: 'std_dev', firstCutoff: -1, step: 1 }, bellPoints, 4);
+
+    expect(thresholds).toEqual([0, 300, 500, 700]);
+    expect(countSurvivors(bellPoints, thresholds)).toEqual([4, 4, 2, 2]);
+    // Past the top score the cutoff stops at the top score
+    expect(getRoundThresholds({ type: 'std_dev', firstCutoff: 3, step: 1 }, bellPoints, 2)).toEqual([0, 700]);
+  });
+
+  it('should cut at percentiles and repeat the last entry for extra rounds', () => {
+    const thresholds = getRoundThresholds({ type: 'percentiles', percentiles: [50] }, points, 3);
+
+    expect(thresholds).toEqual([0, 500, 500]);
+    expect(countSurvivors(points, thresholds)).toEqual([7, 4, 4]);
+  });
+
+  it('should keep the target number of survivors, including ties at the cutoff', () => {
+    const thresholds = getRoundThresholds({ type: 'target_survivors', survivors: [5, 2] }, points, 3);
+
+    expect(thresholds).toEqual([0, 400, 600]);
+    expect(countSurvivors(points, thresholds)).toEqual([7, 6, 3]);
+  });
+
+  it('should use manual thresholds exactly as entered', () => {
+    expect(getRoundThresholds({ type: 'manual', thresholds: [250, 1000] }, points, 3)).toEqual([0, 250, 1000]);
+  });
+
+  it("should build rounds from a configuration's strategy over the model's", () => {
+    const teams: TeamData[] = points.map((value, index) => ({
+      Team: `Team ${index}`,
+      Points: value,
+      Submissions: 1,
+      'Last Submission': '2024-01-01'
+    }));
+
+    const rounds = ConfigurationManager.generateOptimalRounds(teams, {
+      numberOfRounds: 3,
+      raffleModel: RaffleModelType.UNIFORM_ELIMINATION,
+      thresholdStrategy: { type: 'target_survivors', survivors: [5, 2] }
+    });
+    expect(rounds.map(round => round.pointThreshold)).toEqual([0, 400, 600]);
+    expect(rounds[2].description).toBe('Players with 600+ points (3 eligible)');
+  });
+
+  it('should start strategies with values spread over the rounds and validate them', () => {
+    expect(createThresholdStrategy('percentiles', 5)).toEqual({ type: 'percentiles', percentiles: [20, 40, 60, 80] });
+    expect(createThresholdStrategy('target_survivors', 3, 90)).toEqual({ type: 'target_survivors', survivors: [60, 30] });
+    expect(describeThresholdStrategy({ type: 'std_dev', firstCutoff: -1, step: 0.5 })).toBe('Mean −1σ, then +0.5σ per round');
+
+    expect(validateThresholdStrategy({ type: 'percentiles', percentiles: [50, 120] })).toEqual(['Percentiles must be between 0 and 100']);
+    expect(validateThresholdStrategy({ type: 'target_survivors', survivors: [0] }))
+      .toEqual(['Survivor counts must be whole numbers of 1 or more']);
+    expect(validateThresholdStrategy({ type: 'manual', thresholds: [] })).toEqual(['Add at least one threshold']);
+  });
+});
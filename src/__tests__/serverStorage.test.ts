@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { deleteServerRecord, readServerCollection, saveServerRecord } from '@/services/serverStore';
+import { SERVER_ENDPOINTS } from '@/services/serverStorage';
+import {
+  flushStorage,
+  initializeStorage,
+  loadStoredConfigurations,
+  onStorageError,
+  saveStoredConfiguration,
+  setStorageMode
+} from '@/services/raffleStorage';
+import { CURRENT_SCHEMA_VERSION } from '@/services/storageMigrations';
+import { ServerCollection, StorageErrorEvent } from '@/types/storage';
+import type { RaffleConfiguration } from '@/utils/configurationManager';
+
+/**
+ * Server storage must never let two browsers silently overwrite each other,
+ * and must keep working from the browser's copy when the server goes away
+ */
+describe('Server Storage', () => {
+  let dataDir: string;
+  let serverReachable = true;
+
+  const configuration = {
+    id: 'config-1',
+    name: 'Spring Meetup',
+    teams: [{ Team: 'Alice', Points: 1000, Submissions: 3, 'Last Submission': '2024-01-01' }],
+    roundSettings: { numberOfRounds: 1 },
+    rounds: [],
+    prizes: [],
+    auditLog: [],
+    createdAt: '2024-01-01T00:00:00.000Z',
+    lastModified: '2024-01-01T00:00:00.000Z'
+  } as unknown as RaffleConfiguration;
+
+  // Answer the browser's requests from the store, the way the route handlers do
+  const fakeFetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    if (!serverReachable) throw new TypeError('Failed to fetch');
+
+    const url = new URL(String(input), 'http://localhost');
+    const collection = (Object.keys(SERVER_ENDPOINTS) as ServerCollection[]).find(key => SERVER_ENDPOINTS[key] === url.pathname) as ServerCollection;
+    const reply = (status: number, body: unknown) => ({ ok: status < 400, status, json: async () => body }) as Response;
+
+    if (init?.method === 'PUT') {
+      const { id, data, baseRevision, schemaVersion } = JSON.parse(String(init.body));
+      const outcome = await saveServerRecord(collection, id, data, baseRevision, schemaVersion);
+      return reply(outcome.status === 'conflict' ? 409 : 200, outcome);
+    }
+    if (init?.method === 'DELETE') {
+      const outcome = await deleteServerRecord(collection, url.searchParams.get('id') as string, Number(url.searchParams.get('baseRevision')));
+      return reply(outcome.status === 'conflict' ? 409 : 200, outcome);
+    }
+    return reply(200, await readServerCollection(collection));
+  };
+
+  beforeAll(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), 'raffle-server-'));
+    process.env.RAFFLE_DATA_DIR = dataDir;
+    global.fetch = jest.fn(fakeFetch) as unknown as typeof fetch;
+  });
+
+  afterAll(async () => {
+    delete process.env.RAFFLE_DATA_DIR;
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should refuse saves and deletes based on an old revision', async () => {
+    const first = await saveServerRecord('templates', 't1', { name: 'Meetup' }, 0, CURRENT_SCHEMA_VERSION);
+    expect(first).toMatchObject({ status: 'saved', record: { revision: 1 } });
+
+    // Another browser that also started from revision 0
+    expect(await saveServerRecord('templates', 't1', { name: 'Other' }, 0, CURRENT_SCHEMA_VERSION))
+      .toMatchObject({ status: 'conflict', current: { revision: 1, data: { name: 'Meetup' } } });
+    expect(await deleteServerRecord('templates', 't1', 0)).toMatchObject({ status: 'conflict' });
+
+    expect(await deleteServerRecord('templates', 't1', 1)).toEqual({ status: 'saved', record: null });
+    expect(await deleteServerRecord('templates', 't1', 1)).toEqual({ status: 'saved', record: null });
+    expect((await readServerCollection('templates')).records).toEqual([]);
+  });
+
+  it('should store ids that match object built-ins as plain records', async () => {
+    await saveServerRecord('templates', '__proto__', { name: 'Proto' }, 0, CURRENT_SCHEMA_VERSION);
+    await saveServerRecord('templates', 'constructor', { name: 'Constructor' }, 0, CURRENT_SCHEMA_VERSION);
+
+    const { records } = await readServerCollection('templates');
+    expect(records.map(record => [record.id, record.data])).toEqual([
+      ['__proto__', { name: 'Proto' }],
+      ['constructor', { name: 'Constructor' }]
+    ]);
+
+    expect(await deleteServerRecord('templates', '__proto__', 1)).toEqual({ status: 'saved', record: null });
+    expect(await deleteServerRecord('templates', 'constructor', 1)).toEqual({ status: 'saved', record: null });
+    expect((await readServerCollection('templates')).records).toEqual([]);
+  });
+
+  it('should upload browser data, report conflicts and queue changes while offline', async () => {
+    const events: StorageErrorEvent[] = [];
+    onStorageError(event => events.push(event));
+    saveStoredConfiguration(configuration);
+    setStorageMode('server');
+
+    const status = await initializeStorage();
+    expect(status).toMatchObject({ backend: 'server', schemaVersion: CURRENT_SCHEMA_VERSION });
+    expect((await readServerCollection('configurations')).records).toMatchObject([{ id: 'config-1', revision: 1 }]);
+
+    saveStoredConfiguration({ ...configuration, name: 'Spring Meetup 2024' });
+    await flushStorage();
+    const saved = (await readServerCollection('configurations')).records[0];
+    expect(saved).toMatchObject({ revision: 2, data: { name: 'Spring Meetup 2024' } });
+
+    // Someone else saves first - this browser's next save must not replace theirs
+    await saveServerRecord('configurations', 'config-1', { ...configuration, name: 'Renamed elsewhere' }, 2, CURRENT_SCHEMA_VERSION);
+    saveStoredConfiguration({ ...configuration, name: 'Stale edit' });
+    await flushStorage();
+    expect((await readServerCollection('configurations')).records[0].data).toMatchObject({ name: 'Renamed elsewhere' });
+    expect(events.map(event => event.kind)).toEqual(['conflict']);
+
+    serverReachable = false;
+    saveStoredConfiguration({ ...configuration, id: 'config-2', name: 'Offline Meetup' });
+    await flushStorage();
+    expect(events.map(event => event.kind)).toEqual(['conflict', 'offline']);
+    expect(loadStoredConfigurations().map(config => config.name)).toEqual(['Stale edit', 'Offline Meetup']);
+    expect(JSON.parse(localStorage.getItem('raffle-server-pending') || '[]')).toEqual([{ collection: 'configurations', id: 'config-2' }]);
+
+    // Back online - the waiting change goes out with the next save
+    serverReachable = true;
+    saveStoredConfiguration({ ...configuration, id: 'config-3', name: 'Fall Meetup' });
+    await flushStorage();
+    expect((await readServerCollection('configurations')).records.map(record => record.id)).toEqual(['config-1', 'config-2', 'config-3']);
+    expect(JSON.parse(localStorage.getItem('raffle-server-pending') || '[]')).toEqual([]);
+  });
+});
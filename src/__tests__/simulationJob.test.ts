@@ -0,0 +1,73 @@
+import { describe, it, expect } from '@jest/globals';
+import { SimulationMessage, SimulationRequest, runSimulationJob } from '@/services/simulationJob';
+import { RaffleModelType } from '@/types/raffleModels';
+import { TeamData } from '@/types/raffle';
+
+/**
+ * The worker only forwards messages - the job itself must stream running
+ * totals, stop when cancelled and keep results indexed like the roster
+ */
+describe('Simulation Jobs', () => {
+  const teams: TeamData[] = [100, 300, 600].map((points, index) => ({
+    Team: `Team ${index}`,
+    Points: points,
+    Submissions: 1,
+    'Last Submission': '2024-01-01'
+  }));
+
+  const request: SimulationRequest = {
+    type: 'start',
+    jobId: 7,
+    teams,
+    settings: { numberOfRounds: 1, raffleModel: RaffleModelType.WEIGHTED_CONTINUOUS },
+    iterations: 3000,
+    seed: 'job'
+  };
+
+  const run = async (cancelAfterPauses: number = Infinity) => {
+    const messages: SimulationMessage[] = [];
+    let pauses = 0;
+    let clock = 0;
+    await runSimulationJob(request, {
+      post: message => messages.push(message),
+      isCancelled: () => pauses > cancelAfterPauses,
+      pause: async () => { pauses++; }
+    }, () => (clock += 100)); // Every other chunk passes the progress interval
+    return messages;
+  };
+
+  it('should send expected odds, running totals and a final tally matching the odds', async () => {
+    const messages = await run();
+
+    expect(messages[0]).toEqual({ type: 'expected', jobId: 7, probabilities: [10, 30, 60] });
+    expect(messages.filter(message => message.type === 'progress').length).toBeGreaterThan(10);
+
+    const done = messages[messages.length - 1];
+    if (done.type !== 'done') throw new Error(`Expected done, got ${done.type}`);
+    expect(done.completed).toBe(3000);
+    expect(done.winningRuns.reduce((sum, count) => sum + count, 0)).toBe(3000);
+    // Ticket shares 10% / 30% / 60% - within a few percent after 3,000 raffles
+    expect(done.winningRuns[2] / 3000).toBeCloseTo(0.6, 1);
+    expect(done.winningRuns[0] / 3000).toBeCloseTo(0.1, 1);
+  });
+
+  it('should stop between chunks when cancelled and return the partial tally', async () => {
+    const messages = await run(2);
+    const last = messages[messages.length - 1];
+
+    if (last.type !== 'cancelled') throw new Error(`Expected cancelled, got ${last.type}`);
+    expect(last.completed).toBe(50);
+    expect(last.wins.reduce((sum, count) => sum + count, 0)).toBe(50);
+  });
+
+  it('should report errors instead of throwing', async () => {
+    const messages: SimulationMessage[] = [];
+    await runSimulationJob({ ...request, teams: null as unknown as TeamData[] }, {
+      post: message => messages.push(message),
+      isCancelled: () => false,
+      pause: async () => {}
+    });
+    expect(messages).toHaveLength(1);
+    expect(messages[0].type).toBe('error');
+  });
+});
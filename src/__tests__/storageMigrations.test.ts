@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { CURRENT_SCHEMA_VERSION, STORAGE_MIGRATIONS, StorageSnapshot, UNSAVED_RAFFLE_ID, migrateSnapshot } from '@/services/storageMigrations';
+import {
+  LEGACY_CONFIGURATIONS_KEY,
+  LEGACY_RAFFLE_STATE_KEY,
+  deleteStoredConfiguration,
+  initializeStorage,
+  isQuotaExceededError,
+  loadStoredConfigurations,
+  loadStoredRaffleState,
+  readLocalSnapshot,
+  saveStoredConfiguration,
+  saveStoredRaffleState
+} from '@/services/raffleStorage';
+import type { RaffleConfiguration } from '@/utils/configurationManager';
+import { RaffleState } from '@/types/raffle';
+
+/**
+ * Saved data from any earlier version must open in the current app, and data
+ * from a newer app must never be silently rewritten by an older one
+ */
+describe('Storage Migrations', () => {
+  const legacyConfiguration = {
+    id: 'config-1',
+    name: 'Spring Meetup',
+    teams: [{ Team: 'Alice', Points: 1000, Submissions: 3, 'Last Submission': '2024-01-01' }],
+    createdAt: '2024-01-01T00:00:00.000Z',
+    lastModified: '2024-01-01T00:00:00.000Z'
+  } as unknown as RaffleConfiguration;
+
+  const legacyState = {
+    teams: legacyConfiguration.teams,
+    currentRound: 0,
+    rounds: [{ id: 1, name: 'Round 1', pointThreshold: 0, description: '' }],
+    isDrawing: false,
+    raffleStarted: true,
+    pendingWinner: 'Alice'
+  } as unknown as RaffleState;
+
+  const legacySnapshot: StorageSnapshot = {
+    schemaVersion: 0,
+    configurations: [legacyConfiguration],
+    raffleStates: {},
+    templates: [],
+    raffleState: legacyState,
+    activeConfigurationId: 'config-1'
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should number migrations in order up to the current version', () => {
+    const versions = STORAGE_MIGRATIONS.map(migration => migration.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+    expect(CURRENT_SCHEMA_VERSION).toBe(versions[versions.length - 1]);
+  });
+
+  it('should upgrade unversioned data to the current schema', () => {
+    const { snapshot, applied } = migrateSnapshot(legacySnapshot);
+
+    expect(applied.map(migration => migration.version)).toEqual(STORAGE_MIGRATIONS.map(migration => migration.version));
+    expect(snapshot.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(snapshot.configurations[0].roundSettings.numberOfRounds).toBe(5);
+    expect(snapshot.configurations[0].auditLog).toEqual([]);
+    expect(snapshot.raffleStates['config-1'].pendingWinners).toEqual(['Alice']);
+    expect(snapshot.raffleStates['config-1']).not.toHaveProperty('pendingWinner');
+    expect(snapshot.raffleStates['config-1'].rosterVersion).toBe(1);
+    expect(snapshot).not.toHaveProperty('raffleState');
+  });
+
+  it('should keep the shared state as the unsaved raffle when its configuration is gone', () => {
+    const { snapshot } = migrateSnapshot({ ...legacySnapshot, activeConfigurationId: 'deleted' });
+
+    expect(Object.keys(snapshot.raffleStates)).toEqual([UNSAVED_RAFFLE_ID]);
+  });
+
+  it('should leave current data alone and refuse data from a newer app', () => {
+    const current = migrateSnapshot(legacySnapshot).snapshot;
+    const again = migrateSnapshot(current);
+
+    expect(again.applied).toEqual([]);
+    expect(again.snapshot).toEqual(current);
+    expect(() => migrateSnapshot({ ...current, schemaVersion: CURRENT_SCHEMA_VERSION + 1 }))
+      .toThrow(`schema version ${CURRENT_SCHEMA_VERSION + 1}`);
+  });
+
+  it('should migrate and keep using localStorage where IndexedDB is unavailable', async () => {
+    localStorage.setItem(LEGACY_CONFIGURATIONS_KEY, JSON.stringify([legacyConfiguration]));
+    localStorage.setItem(LEGACY_RAFFLE_STATE_KEY, JSON.stringify(legacyState));
+    localStorage.setItem('currentConfigId', 'config-1');
+
+    const status = await initializeStorage();
+    expect(status.backend).toBe('localstorage');
+    expect(status.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(readLocalSnapshot().schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(loadStoredRaffleState('config-1')?.pendingWinners).toEqual(['Alice']);
+    expect(localStorage.getItem(LEGACY_RAFFLE_STATE_KEY)).toBeNull();
+
+    saveStoredConfiguration({ ...legacyConfiguration, id: 'config-2', name: 'Fall Meetup' });
+    expect(loadStoredConfigurations().map(config => config.name)).toEqual(['Spring Meetup', 'Fall Meetup']);
+    expect(JSON.parse(localStorage.getItem(LEGACY_CONFIGURATIONS_KEY) || '[]')).toHaveLength(2);
+
+    // Each configuration resumes its own raffle
+    saveStoredRaffleState('config-2', { ...legacyState, currentRound: 3 });
+    expect(loadStoredRaffleState('config-1')?.currentRound).toBe(0);
+    expect(loadStoredRaffleState('config-2')?.currentRound).toBe(3);
+    expect(loadStoredRaffleState(null)).toBeNull();
+
+    // Deleting a configuration deletes its raffle, and a late save cannot bring it back
+    deleteStoredConfiguration('config-2');
+    saveStoredRaffleState('config-2', legacyState);
+    expect(loadStoredRaffleState('config-2')).toBeNull();
+  });
+
+  it('should recognise quota errors from every browser', () => {
+    expect(isQuotaExceededError({ name: 'QuotaExceededError' })).toBe(true);
+    expect(isQuotaExceededError({ name: 'NS_ERROR_DOM_QUOTA_REACHED' })).toBe(true);
+    expect(isQuotaExceededError({ code: 22 })).toBe(true);
+    expect(isQuotaExceededError(new Error('Network down'))).toBe(false);
+    expect(isQuotaExceededError(undefined)).toBe(false);
+  });
+});
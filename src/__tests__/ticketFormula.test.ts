@@ -0,0 +1,84 @@
+import { describe, it, expect } from '@jest/globals';
+import { describeTicketFormula, getFormulaTickets, validateTicketFormula } from '@/services/ticketFormula';
+import { resolveRaffleModel } from '@/services/raffleModels';
+import { buildDrawEntries } from '@/services/drawService';
+import { calculateOdds } from '@/utils/oddsCalculation';
+import { RaffleModelType, TicketFormula } from '@/types/raffleModels';
+import { TeamData } from '@/types/raffle';
+
+/**
+ * Every place that shows or draws tickets goes through the same formula
+ */
+describe('Ticket Formulas', () => {
+  const tiered: TicketFormula = {
+    type: 'tiered',
+    tiers: [
+      { minPoints: 1000, tickets: 5 },
+      { minPoints: 100, tickets: 1 },
+      { minPoints: 500, tickets: 3 }
+    ]
+  };
+
+  it('should compute linear, flat, tiered and damped tickets', () => {
+    expect(getFormulaTickets({ type: 'points_divided', divisor: 100 }, 1250)).toBe(12);
+    expect(getFormulaTickets({ type: 'flat', minimumPoints: 100 }, 1250)).toBe(1);
+    expect(getFormulaTickets({ type: 'flat', minimumPoints: 100 }, 99)).toBe(0);
+
+    expect([50, 100, 499, 500, 999, 5000].map(points => getFormulaTickets(tiered, points))).toEqual([0, 1, 1, 3, 3, 5]);
+
+    expect([100, 400, 900, 10000].map(points => getFormulaTickets({ type: 'sqrt', divisor: 100 }, points))).toEqual([1, 2, 3, 10]);
+    expect([100, 300, 700, 1500].map(points => getFormulaTickets({ type: 'log', divisor: 100 }, points))).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should clamp to min and max tickets but keep 0 points at 0 tickets', () => {
+    const formula: TicketFormula = { type: 'points_divided', divisor: 100, minTickets: 2, maxTickets: 10 };
+
+    expect(getFormulaTickets(formula, 0)).toBe(0);
+    expect(getFormulaTickets(formula, 50)).toBe(2);
+    expect(getFormulaTickets(formula, 500)).toBe(5);
+    expect(getFormulaTickets(formula, 5000)).toBe(10);
+  });
+
+  it('should reject unusable formulas', () => {
+    expect(validateTicketFormula(tiered)).toEqual([]);
+    expect(validateTicketFormula({ type: 'sqrt', divisor: 0 })).toEqual(['Points per ticket must be greater than 0']);
+    expect(validateTicketFormula({ type: 'tiered', tiers: [] })).toEqual(['Add at least one tier']);
+    expect(validateTicketFormula({
+      type: 'tiered',
+      tiers: [{ minPoints: 100, tickets: 1 }, { minPoints: 100, tickets: 2 }]
+    })).toEqual(['Each tier needs different minimum points']);
+    expect(validateTicketFormula({ type: 'points_divided', divisor: 100, minTickets: 5, maxTickets: 2 }))
+      .toEqual(['Minimum tickets cannot be more than maximum tickets']);
+  });
+
+  it('should describe formulas with their limits', () => {
+    expect(describeTicketFormula({ type: 'points_divided', divisor: 100 })).toBe('Points ÷ 100');
+    expect(describeTicketFormula({ ...tiered, maxTickets: 4 })).toBe('100+ → 1, 500+ → 3, 1000+ → 5 (max 4)');
+  });
+
+  it("should let a configuration's formula replace its model's in draws and odds", () => {
+    const settings = {
+      raffleModel: RaffleModelType.WEIGHTED_CONTINUOUS,
+      ticketFormula: { type: 'sqrt', divisor: 100 } as TicketFormula
+    };
+    const model = resolveRaffleModel(settings);
+    expect(model.id).toBe(RaffleModelType.WEIGHTED_CONTINUOUS);
+    expect(model.ticketFormula).toEqual(settings.ticketFormula);
+    expect(resolveRaffleModel({ raffleModel: RaffleModelType.WEIGHTED_CONTINUOUS }).ticketFormula)
+      .toEqual({ type: 'points_divided', divisor: 100 });
+
+    const teams: TeamData[] = [
+      { Team: 'Alice', Points: 400, Submissions: 1, 'Last Submission': '2024-01-01', status: 'eligible' },
+      { Team: 'Bob', Points: 1600, Submissions: 1, 'Last Submission': '2024-01-01', status: 'eligible' }
+    ];
+    const getTickets = (points: number) => getFormulaTickets(model.ticketFormula, points);
+
+    expect(buildDrawEntries(teams, { ticketFormula: model.ticketFormula })).toEqual([
+      { team: 'Alice', tickets: 2 },
+      { team: 'Bob', tickets: 4 }
+    ]);
+    const [alice, bob] = calculateOdds(teams, getTickets);
+    expect(alice.odds).toBeCloseTo(100 / 3);
+    expect(bob.odds).toBeCloseTo(200 / 3);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from '@jest/globals';
+import { calculateWinProbabilities, getRemainingDraws } from '@/utils/winProbability';
+import { RaffleRound, TeamData } from '@/types/raffle';
+import { RaffleModel, RaffleModelType } from '@/types/raffleModels';
+import { RAFFLE_MODELS } from '@/services/raffleModels';
+import { generateMockTeam } from '../../__tests__/testUtils';
+
+/**
+ * Whole-raffle win probability - winners leave the pool and each draw only
+ * includes players at or above its round's threshold
+ */
+describe('Win Probability', () => {
+  const draws = (...thresholds: number[]) => thresholds.map(pointThreshold => ({ pointThreshold }));
+
+  // Small deterministic generator so the Monte Carlo test is repeatable
+  const seededRandom = (seed: number) => () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+
+  const teams = [generateMockTeam({ Team: 'Alice', Points: 100 }), generateMockTeam({ Team: 'Bob', Points: 100 }), generateMockTeam({ Team: 'Carol', Points: 200 })];
+
+  it('should match the ticket share for a single draw', () => {
+    const result = calculateWinProbabilities(teams, draws(0));
+
+    expect(result.method).toBe('exact');
+    expect(result.probabilities.Alice).toBeCloseTo(25);
+    expect(result.probabilities.Carol).toBeCloseTo(50);
+  });
+
+  it('should remove winners from the pool between draws', () => {
+    const result = calculateWinProbabilities(teams, draws(0, 0));
+
+    // Alice: 1/4 first, or 1/3 after Bob, or 1/2 after Carol
+    expect(result.probabilities.Alice).toBeCloseTo(100 * (0.25 + 0.25 / 3 + 0.5 * 0.5));
+    const total = Object.values(result.probabilities).reduce((sum, p) => sum + p, 0);
+    expect(total).toBeCloseTo(200); // Two prizes handed out
+  });
+
+  it('should only draw players above each round threshold', () => {
+    const result = calculateWinProbabilities(teams, draws(0, 200));
+
+    expect(result.probabilities.Alice).toBeCloseTo(25);
+    expect(result.probabilities.Bob).toBeCloseTo(25);
+    expect(result.probabilities.Carol).toBeCloseTo(100);
+  });
+
+  it('should score past winners as certain and withdrawn players as zero', () => {
+    const result = calculateWinProbabilities(
+      [generateMockTeam({ Team: 'Alice', Points: 100, status: 'winner' }), generateMockTeam({ Team: 'Bob', Points: 100, status: 'withdrawn' }), generateMockTeam({ Team: 'Carol', Points: 200 }), generateMockTeam({ Team: 'Dan', Points: 50 })],
+      draws(0),
+      { alreadyWon: ['Carol'] }
+    );
+
+    expect(result.probabilities).toEqual({ Alice: 100, Bob: 0, Carol: 100, Dan: 0 });
+  });
+
+  it('should score players withdrawn or rejected during the raffle as zero', () => {
+    // The raffle state lists them in withdrawnPlayers while their team status stays eligible
+    const result = calculateWinProbabilities(teams, draws(0, 0), { withdrawn: ['Carol'] });
+
+    expect(result.probabilities.Carol).toBe(0);
+    expect(result.probabilities.Alice).toBeCloseTo(100);
+    expect(result.probabilities.Bob).toBeCloseTo(100);
+  });
+
+  it('should fall back to a Monte Carlo estimate close to the exact answer', () => {
+    const roster = Array.from({ length: 12 }, (_, i) => generateMockTeam({ Team: `Player ${i}`, Points: (i + 1) * 100 }));
+    const rounds = draws(0, 0, 300, 600);
+
+    const exact = calculateWinProbabilities(roster, rounds);
+    const simulated = calculateWinProbabilities(roster, rounds, {
+      maxExactStates: 1,
+      simulations: 20000,
+      random: seededRandom(42)
+    });
+
+    expect(exact.method).toBe('exact');
+    expect(simulated.method).toBe('monte_carlo');
+    expect(simulated.simulations).toBe(20000);
+    roster.forEach(({ Team }) => {
+      expect(Math.abs(simulated.probabilities[Team] - exact.probabilities[Team])).toBeLessThan(1.5);
+    });
+  });
+
+  it('should count only the open slots of the round in progress', () => {
+    const rounds: RaffleRound[] = [
+      { id: 1, name: 'Round 1', pointThreshold: 0, description: '', winnerCount: 3 },
+      { id: 2, name: 'Round 2', pointThreshold: 500, description: '' }
+    ];
+    const winners = [{ team: 'Alice', round: 1, roundName: 'Round 1' }];
+
+    expect(getRemainingDraws(rounds, 0, winners, 1)).toEqual([{ pointThreshold: 0, round: 1 }, { pointThreshold: 500, round: 2 }]);
+    expect(getRemainingDraws(rounds, 1, winners)).toEqual([{ pointThreshold: 500, round: 2 }]);
+  });
+
+  describe('models the winner-set calculation cannot represent', () => {
+    const twoRounds: RaffleRound[] = [
+      { id: 1, name: 'Round 1', pointThreshold: 0, description: '' },
+      { id: 2, name: 'Round 2', pointThreshold: 0, description: '' }
+    ];
+    const weighted = RAFFLE_MODELS[RaffleModelType.WEIGHTED_CONTINUOUS];
+    const simulate = (roster: TeamData[], model: RaffleModel) => calculateWinProbabilities(roster, getRemainingDraws(twoRounds, 0, []), {
+      model,
+      currentRound: 1,
+      totalRounds: twoRounds.length,
+      simulations: 20000,
+      random: seededRandom(7)
+    });
+
+    it('should let kept winners take later prizes', () => {
+      const result = simulate([generateMockTeam({ Team: 'Alice', Points: 100 }), generateMockTeam({ Team: 'Bob', Points: 100 })], { ...weighted, winnerRemoval: 'keep' });
+
+      // Alice misses out only when Bob wins both rounds
+      expect(result.method).toBe('monte_carlo');
+      expect(Math.abs(result.probabilities.Alice - 75)).toBeLessThan(1.5);
+      expect(Math.abs(result.probabilities.Bob - 75)).toBeLessThan(1.5);
+    });
+
+    it('should drop eliminated players from the later rounds', () => {
+      const result = simulate(
+        [generateMockTeam({ Team: 'Alice', Points: 100 }), generateMockTeam({ Team: 'Bob', Points: 200 }), generateMockTeam({ Team: 'Carol', Points: 300 })],
+        { ...weighted, elimination: { type: 'lowest_points' } }
+      );
+
+      // The lowest of the two players left drops out after round 1, so Alice can only win
+      // round 1 and Carol is certain to win one of the two
+      expect(result.method).toBe('monte_carlo');
+      expect(Math.abs(result.probabilities.Alice - 100 / 6)).toBeLessThan(1.5);
+      expect(Math.abs(result.probabilities.Bob - 500 / 6)).toBeLessThan(1.5);
+      expect(result.probabilities.Carol).toBe(100);
+    });
+
+    it('should keep the exact calculation for models that only remove winners', () => {
+      expect(simulate([generateMockTeam({ Team: 'Alice', Points: 100 }), generateMockTeam({ Team: 'Bob', Points: 100 })], weighted).method).toBe('exact');
+    });
+  });
+});
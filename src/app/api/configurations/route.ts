@@ -0,0 +1,8 @@
+import { createRecordRouteHandlers } from '@/services/serverStoreRoutes';
+
+// Saved raffle configurations - used when the browser opts into server storage
+const handlers = createRecordRouteHandlers('configurations');
+
+export const GET = handlers.GET;
+export const PUT = handlers.PUT;
+export const DELETE = handlers.DELETE;
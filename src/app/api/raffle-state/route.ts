@@ -0,0 +1,8 @@
+import { createRecordRouteHandlers } from '@/services/serverStoreRoutes';
+
+// Raffle progress, one record per configuration (plus the unsaved session) - used when the browser opts into server storage
+const handlers = createRecordRouteHandlers('raffleStates');
+
+export const GET = handlers.GET;
+export const PUT = handlers.PUT;
+export const DELETE = handlers.DELETE;
@@ -0,0 +1,8 @@
+import { createRecordRouteHandlers } from '@/services/serverStoreRoutes';
+
+// Configuration templates - used when the browser opts into server storage
+const handlers = createRecordRouteHandlers('templates');
+
+export const GET = handlers.GET;
+export const PUT = handlers.PUT;
+export const DELETE = handlers.DELETE;
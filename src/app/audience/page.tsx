@@ -0,0 +1,149 @@
+'use client';
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Winner } from '@/types/raffle';
+import { AudienceSnapshot } from '@/types/audience';
+import { openAudienceSync } from '@/services/audienceSync';
+import PrizeWheel from '../components/PrizeWheel';
+import SquidGameAnimation from '../components/SquidGameAnimation';
+import WinnersDisplay from '../components/WinnersDisplay';
+import WinnerReveal from '../components/WinnerReveal';
+
+/**
+ * Audience (projector) view
+ *
+ * Renders only the draw animation, the winner reveal and the winners board.
+ * Everything is driven by snapshots from the operator console - this page
+ * never changes raffle state itself.
+ */
+export default function AudiencePage() {
+  const [snapshot, setSnapshot] = useState<AudienceSnapshot | null>(null);
+  // Snapshot the current animation was started from - kept until the animation
+  // finishes here, even if the console has already moved on
+  const [drawSnapshot, setDrawSnapshot] = useState<AudienceSnapshot | null>(null);
+  const [revealedWinner, setRevealedWinner] = useState<Winner | null>(null);
+  const winnerCountRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const sync = openAudienceSync(message => {
+      if (message.type !== 'snapshot') return;
+      const next = message.snapshot;
+      setSnapshot(next);
+
+      if (next.isDrawing && next.drawWinner) {
+        setDrawSnapshot(current => (current?.drawWinner === next.drawWinner ? current : next));
+        setRevealedWinner(null);
+      } else if (!next.raffleStarted) {
+        setDrawSnapshot(null);
+      }
+
+      // Reveal newly confirmed winners; winners present when the window opened are only listed
+      const previousCount = winnerCountRef.current;
+      if (previousCount !== null && next.winners.length > previousCount) {
+        setRevealedWinner(next.winners[next.winners.length - 1]);
+      } else if (previousCount !== null && next.winners.length < previousCount) {
+        setRevealedWinner(null); // Undo or reset on the console
+      }
+      winnerCountRef.current = next.winners.length;
+    });
+
+    console.log('📺 AUDIENCE: Requesting current state from the operator console');
+    sync.publish({ type: 'request-snapshot' });
+    return () => sync.close();
+  }, []);
+
+  // The animation reports its winner too, but the console owns the raffle state
+  const handleAnimationWinner = useCallback(() => {}, []);
+  const handleAnimationComplete = useCallback(() => {
+    setDrawSnapshot(null);
+  }, []);
+
+  if (!snapshot) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-center text-gray-400 space-y-4">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto"></div>
+          <p className="text-xl">Waiting for the operator console...</p>
+          <p className="text-sm">Open the raffle in another window of this browser to drive this screen.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const currentRound = snapshot.rounds[snapshot.currentRound];
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      <div className="max-w-6xl mx-auto px-6 py-10 space-y-8">
+        <div className="text-center space-y-2">
+          <h1 className="text-5xl font-bold">🎯 {snapshot.configName || 'M365 NYC Raffle'}</h1>
+          <p className="text-2xl text-gray-300">
+            {!snapshot.raffleStarted
+              ? 'The raffle will begin shortly'
+              : currentRound
+                ? currentRound.name
+                : '🎉 Raffle complete'}
+          </p>
+        </div>
+
+        {snapshot.winners.length > 0 && (
+          <WinnersDisplay
+            winners={snapshot.winners}
+            teams={snapshot.teams}
+            prizes={snapshot.prizes}
+            storageKey="audienceWinners"
+            ticketFormula={snapshot.ticketFormula}
+            bonusRules={snapshot.bonusRules}
+          />
+        )}
+      </div>
+
+      {/* Draw animation - started from the frozen snapshot so it plays through */}
+      {drawSnapshot && drawSnapshot.eligibleTeams.length > 0 && (
+        <motion.div
+          key={drawSnapshot.sentAt}
+          initial={{ opacity: 0, scale: 0.8 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="fixed inset-0 z-40 flex items-center justify-center bg-gray-900"
+        >
+          {drawSnapshot.animationType === 'wheel' ? (
+            <PrizeWheel
+              teams={drawSnapshot.eligibleTeams}
+              isSpinning={true}
+              winner={drawSnapshot.drawWinner}
+              onWinner={handleAnimationWinner}
+              onSpinComplete={handleAnimationComplete}
+              ticketFormula={drawSnapshot.ticketFormula}
+              bonusRules={drawSnapshot.bonusRules}
+            />
+          ) : (
+            <SquidGameAnimation
+              teams={drawSnapshot.eligibleTeams}
+              allTeams={drawSnapshot.teams}
+              isSpinning={true}
+              previousWinners={drawSnapshot.winners.map(w => w.team)}
+              withdrawnPlayers={drawSnapshot.withdrawnPlayers}
+              winner={drawSnapshot.drawWinner}
+              onWinner={handleAnimationWinner}
+              onSpinComplete={handleAnimationComplete}
+              ticketFormula={drawSnapshot.ticketFormula}
+              bonusRules={drawSnapshot.bonusRules}
+            />
+          )}
+        </motion.div>
+      )}
+
+      {/* Confirmed winner reveal - stays up until the next draw starts */}
+      <AnimatePresence>
+        {revealedWinner && !drawSnapshot && (
+          <WinnerReveal
+            key={`${revealedWinner.team}-${revealedWinner.round}`}
+            winner={revealedWinner}
+            prize={snapshot.prizes.find(prize => prize.id === revealedWinner.prizeId)}
+          />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
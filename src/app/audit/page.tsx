@@ -0,0 +1,232 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { ConfigurationManager, RaffleConfiguration } from '@/utils/configurationManager';
+import { AuditEvent, AuditEventType } from '@/types/audit';
+import { AUDIT_EVENT_LABELS, auditLogToCSV, auditLogToJSON } from '@/services/auditLog';
+import { downloadFile, toFileStem } from '@/utils/fileDownload';
+import FairnessAuditPanel from '../components/FairnessAuditPanel';
+import BackToTopButton from '@/components/BackToTopButton';
+
+const EVENT_ICONS: Record<AuditEventType, string> = {
+  csv_loaded: '📥',
+  raffle_started: '🚀',
+  draw_started: '🎲',
+  winner_selected: '🎯',
+  winner_confirmed: '🏆',
+  winner_rejected: '🚫',
+  player_eliminated: '❌',
+  raffle_reset: '🔄',
+  model_changed: '⚙️',
+  rounds_edited: '📝',
+  eligibility_changed: '🛂',
+  roster_updated: '🧾',
+  configuration_imported: '📦',
+  action_undone: '↩️',
+  action_redone: '↪️'
+};
+
+export default function AuditPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [configuration, setConfiguration] = useState<RaffleConfiguration | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [expandedEventId, setExpandedEventId] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<AuditEventType | 'all'>('all');
+
+  useEffect(() => {
+    const configId = searchParams.get('configId') || localStorage.getItem('currentConfigId');
+    if (configId) {
+      setConfiguration(ConfigurationManager.getConfiguration(configId));
+    }
+    setLoading(false);
+  }, [searchParams]);
+
+  const events: AuditEvent[] = useMemo(() => configuration?.auditLog || [], [configuration]);
+  const visibleEvents = typeFilter === 'all' ? events : events.filter(event => event.type === typeFilter);
+
+  const handleExportJSON = useCallback(() => {
+    if (!configuration) return;
+    downloadFile(`${toFileStem(configuration.name)}-audit-log.json`, auditLogToJSON(events, configuration));
+  }, [configuration, events]);
+
+  const handleExportCSV = useCallback(() => {
+    if (!configuration) return;
+    downloadFile(`${toFileStem(configuration.name)}-audit-log.csv`, auditLogToCSV(events), 'text/csv');
+  }, [configuration, events]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">Loading audit log...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => router.push('/')}
+                className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </button>
+              <div>
+                <h1 className="text-xl font-bold text-gray-900 dark:text-gray-100">
+                  Audit Log
+                </h1>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {configuration ? `${configuration.name} • ${events.length} events` : 'No configuration selected'}
+                </p>
+              </div>
+            </div>
+            {configuration && events.length > 0 && (
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={handleExportJSON}
+                  className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors cursor-pointer"
+                >
+                  Export JSON
+                </button>
+                <button
+                  onClick={handleExportCSV}
+                  className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors cursor-pointer"
+                >
+                  Export CSV
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Pre-event fairness check of the draw against this roster */}
+        {configuration && configuration.teams.length > 0 && (
+          <div className="mb-8">
+            <FairnessAuditPanel configuration={configuration} />
+          </div>
+        )}
+
+        {!configuration || events.length === 0 ? (
+          <div className="text-center py-16 text-gray-500 dark:text-gray-400">
+            <div className="text-4xl mb-4">📋</div>
+            <p>No events recorded yet.</p>
+          </div>
+        ) : (
+          <>
+            {/* Event type filter */}
+            <div className="mb-6 flex items-center gap-3">
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Show</label>
+              <select
+                value={typeFilter}
+                onChange={(e) => setTypeFilter(e.target.value as AuditEventType | 'all')}
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+              >
+                <option value="all">All events</option>
+                {(Object.keys(AUDIT_EVENT_LABELS) as AuditEventType[]).map(type => (
+                  <option key={type} value={type}>{AUDIT_EVENT_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Timeline */}
+            <ol className="relative border-l-2 border-gray-200 dark:border-gray-700 space-y-6">
+              {visibleEvents.map((event, index) => {
+                const isExpanded = expandedEventId === event.id;
+                return (
+                  <motion.li
+                    key={event.id}
+                    initial={{ opacity: 0, x: -10 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ delay: Math.min(index * 0.02, 0.5) }}
+                    className="ml-6"
+                  >
+                    <span className="absolute -left-4 flex items-center justify-center w-8 h-8 bg-white dark:bg-gray-800 rounded-full ring-4 ring-gray-50 dark:ring-gray-900">
+                      {EVENT_ICONS[event.type]}
+                    </span>
+                    <div className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-md">
+                      <div className="flex items-start justify-between gap-4">
+                        <div>
+                          <div className="font-semibold text-gray-900 dark:text-gray-100">
+                            {AUDIT_EVENT_LABELS[event.type]}
+                            {event.team && <span className="font-normal"> • {event.team}</span>}
+                          </div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {new Date(event.timestamp).toLocaleString()}
+                            {event.roundName && ` • ${event.roundName}`}
+                            {event.rosterVersion && ` • Roster v${event.rosterVersion}`}
+                            {` • ${event.eligibleCount} eligible • ${event.totalTickets} tickets`}
+                          </div>
+                          {event.details && (
+                            <div className="mt-1 text-xs text-gray-600 dark:text-gray-300">
+                              {Object.entries(event.details).map(([key, value]) => `${key}: ${value}`).join(' • ')}
+                            </div>
+                          )}
+                        </div>
+                        <button
+                          onClick={() => setExpandedEventId(isExpanded ? null : event.id)}
+                          className="text-sm text-blue-600 dark:text-blue-400 hover:underline cursor-pointer whitespace-nowrap"
+                        >
+                          {isExpanded ? 'Hide odds' : 'Show odds'}
+                        </button>
+                      </div>
+
+                      {isExpanded && (
+                        <div className="mt-3 space-y-2">
+                          <div className="text-xs font-mono break-all text-gray-500 dark:text-gray-400">
+                            Roster hash: {event.rosterHash}
+                          </div>
+                          <div className="max-h-64 overflow-y-auto">
+                            <table className="w-full text-sm">
+                              <thead>
+                                <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                                  <th className="py-1">Player</th>
+                                  <th className="py-1">Tickets</th>
+                                  <th className="py-1">Odds</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {[...event.odds]
+                                  .sort((a, b) => b.probability - a.probability)
+                                  .map(entry => (
+                                    <tr
+                                      key={entry.team}
+                                      className={`border-b border-gray-100 dark:border-gray-700 ${
+                                        entry.team === event.team ? 'font-semibold text-yellow-700 dark:text-yellow-300' : 'text-gray-900 dark:text-gray-100'
+                                      }`}
+                                    >
+                                      <td className="py-1">{entry.team}</td>
+                                      <td className="py-1">{entry.tickets}</td>
+                                      <td className="py-1">{(entry.probability * 100).toFixed(2)}%</td>
+                                    </tr>
+                                  ))}
+                              </tbody>
+                            </table>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  </motion.li>
+                );
+              })}
+            </ol>
+          </>
+        )}
+      </div>
+      <BackToTopButton threshold={500} />
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import React from 'react';
+import { BonusRule } from '@/types/raffleModels';
+import { BONUS_RULE_LABELS, createBonusRule, describeBonusRule, validateBonusRule } from '@/services/bonusTickets';
+
+interface BonusRulesEditorProps {
+  rules: BonusRule[];
+  onChange: (rules: BonusRule[]) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+// Empty input clears an optional cap
+const parseOptional = (value: string): number | undefined => (value === '' ? undefined : parseFloat(value));
+
+/**
+ * List of bonus rules. Changes apply as the operator types - a rule with
+ * problems is listed with them and adds no tickets until it is fixed.
+ */
+const BonusRulesEditor: React.FC<BonusRulesEditorProps> = ({ rules, onChange }) => {
+  const updateRule = (id: string, changes: Partial<BonusRule>) => {
+    onChange(rules.map(rule => (rule.id === id ? { ...rule, ...changes } as BonusRule : rule)));
+  };
+
+  const removeRule = (id: string) => {
+    onChange(rules.filter(rule => rule.id !== id));
+  };
+
+  return (
+    <div className="space-y-3">
+      {rules.map(rule => {
+        const errors = validateBonusRule(rule);
+        return (
+          <div key={rule.id} className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-900 dark:text-gray-100">{BONUS_RULE_LABELS[rule.type]}</span>
+              <button
+                onClick={() => removeRule(rule.id)}
+                className="text-red-600 dark:text-red-400 hover:underline text-xs cursor-pointer"
+              >
+                Remove
+              </button>
+            </div>
+
+            {rule.type === 'per_submissions' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClass}>Submissions per bonus ticket</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={Number.isNaN(rule.submissionsPerTicket) ? '' : rule.submissionsPerTicket}
+                    onChange={(e) => updateRule(rule.id, { submissionsPerTicket: parseFloat(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Max bonus tickets</label>
+                  <input
+                    type="number"
+                    min="1"
+                    placeholder="None"
+                    value={rule.maxTickets ?? ''}
+                    onChange={(e) => updateRule(rule.id, { maxTickets: parseOptional(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            )}
+
+            {rule.type === 'early_bird' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClass}>Last submission at or before</label>
+                  <input
+                    type="datetime-local"
+                    value={rule.cutoff}
+                    onChange={(e) => updateRule(rule.id, { cutoff: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Bonus tickets</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={Number.isNaN(rule.tickets) ? '' : rule.tickets}
+                    onChange={(e) => updateRule(rule.id, { tickets: parseFloat(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label className={labelClass}>Label shown in the player table</label>
+              <input
+                type="text"
+                placeholder={describeBonusRule(rule)}
+                value={rule.label ?? ''}
+                onChange={(e) => updateRule(rule.id, { label: e.target.value || undefined })}
+                className={inputClass}
+              />
+            </div>
+
+            {errors.length > 0 && (
+              <ul className="list-disc list-inside text-sm text-red-600 dark:text-red-400">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex gap-4">
+        {(Object.keys(BONUS_RULE_LABELS) as BonusRule['type'][]).map(type => (
+          <button
+            key={type}
+            onClick={() => onChange([...rules, createBonusRule(type)])}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline cursor-pointer"
+          >
+            + {type === 'early_bird' ? 'Early-bird bonus' : 'Submissions bonus'}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BonusRulesEditor;
@@ -1,88 +1,98 @@
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
-import Papa from 'papaparse';
 import { TeamData } from '@/types/raffle';
-import { RoundConfigurationSettings } from '@/utils/configurationManager';
+import { ColumnMapping, ImportField, ImportTable } from '@/types/playerImport';
+import { RaffleTemplate, RoundConfigurationSettings } from '@/utils/configurationManager';
 import { RaffleModelType } from '@/types/raffleModels';
+import {
+  IMPORT_FIELDS,
+  REQUIRED_IMPORT_FIELDS,
+  buildImportReport,
+  getMissingImportFields,
+  readImportFile,
+  suggestColumnMapping
+} from '@/utils/playerImport';
 
 interface CSVUploaderProps {
   onDataLoaded: (data: TeamData[], configName?: string, roundSettings?: RoundConfigurationSettings) => void;
   isDisabled?: boolean;
+  template?: RaffleTemplate | null; // Rounds, settings and prizes come from the template - only the roster is imported
+  onClearTemplate?: () => void;
 }
 
-const CSVUploader: React.FC<CSVUploaderProps> = ({ onDataLoaded, isDisabled = false }) => {
+const PREVIEW_ROWS = 5;
+
+/**
+ * Player import wizard: choose a CSV/TSV/XLSX file, map its columns onto the
+ * player fields, review rejected rows and duplicates, then name the configuration.
+ */
+const CSVUploader: React.FC<CSVUploaderProps> = ({ onDataLoaded, isDisabled = false, template = null, onClearTemplate }) => {
   const [configName, setConfigName] = useState('');
   const [showNameInput, setShowNameInput] = useState(false);
   const [numberOfRounds, setNumberOfRounds] = useState<number | string>(5);
   const [uploadedData, setUploadedData] = useState<TeamData[] | null>(null);
+  const [importTable, setImportTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [keepFirstDuplicates, setKeepFirstDuplicates] = useState(false);
+  const [showRejected, setShowRejected] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const report = useMemo(() => {
+    if (!importTable || !mapping || getMissingImportFields(mapping).length > 0) return null;
+    return buildImportReport(importTable, mapping);
+  }, [importTable, mapping]);
 
-  const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    // Reset the input so the same file can be chosen again
+    event.target.value = '';
     if (!file) return;
 
-    // Generate default name from file
-    const defaultName = file.name.replace('.csv', '') + ' - ' + new Date().toLocaleDateString();
-    setConfigName(defaultName);
-    setShowNameInput(true);
-
-    Papa.parse<TeamData>(file, {
-      header: true,
-      skipEmptyLines: true,
-      transform: (value, field) => {
-        // Convert Points and Submissions to numbers
-        if (field === 'Points' || field === 'Submissions') {
-          return parseInt(value, 10) || 0;
-        }
-        return value;
-      },
-      complete: (results) => {
-        if (results.errors.length > 0) {
-          console.error('CSV parsing errors:', results.errors);
-          alert('Error parsing CSV file. Please check the format.');
-          return;
-        }
-
-        // Validate the data structure
-        const validData = results.data.filter((row): row is TeamData => {
-          // Skip completely empty rows
-          if (!row || Object.keys(row).length === 0 || !row.Team) {
-            return false;
-          }
-          
-          const isValid = (
-            typeof row.Team === 'string' &&
-            row.Team.trim() !== '' &&
-            typeof row.Points === 'number' &&
-            !isNaN(row.Points) &&
-            typeof row.Submissions === 'number' &&
-            !isNaN(row.Submissions) &&
-            typeof row['Last Submission'] === 'string' &&
-            row['Last Submission'].trim() !== ''
-          );
-          
-          return isValid;
-        });
-
-        console.log(`CSV Upload: ${validData.length} valid teams loaded`);
-
-        if (validData.length === 0) {
-          alert('No valid data found. Please ensure your CSV has columns: Team, Points, Submissions, Last Submission');
-          return;
-        }
-
-        // Store the uploaded data for later configuration
-        setUploadedData(validData);
-      },
-      error: (error) => {
-        console.error('CSV parsing error:', error);
-        alert('Error reading CSV file.');
+    try {
+      const table = await readImportFile(file);
+      if (table.headers.length === 0 || table.rows.length === 0) {
+        throw new Error('The file has no data rows below the header.');
       }
-    });
 
-    // Reset the input
-    event.target.value = '';
+      console.log(`📥 IMPORT: Read ${table.rows.length} rows with columns [${table.headers.join(', ')}] from ${file.name}`);
+      setImportTable(table);
+      setMapping(suggestColumnMapping(table.headers));
+      setKeepFirstDuplicates(false);
+      setShowRejected(false);
+      setUploadedData(null);
+      setShowNameInput(false);
+      setError(null);
+
+      // Generate default name from file
+      setConfigName(file.name.replace(/\.[^.]+$/, '') + ' - ' + new Date().toLocaleDateString());
+    } catch (err) {
+      console.error('Import error:', err);
+      setImportTable(null);
+      setMapping(null);
+      setError(err instanceof Error ? err.message : 'Could not read the file.');
+    }
+  }, []);
+
+  const handleMappingChange = useCallback((field: ImportField, column: string) => {
+    setMapping(prev => (prev ? { ...prev, [field]: column || null } : prev));
+  }, []);
+
+  const handleCancelImport = useCallback(() => {
+    setImportTable(null);
+    setMapping(null);
+    setUploadedData(null);
+    setShowNameInput(false);
+    setError(null);
   }, []);
 
+  const handleContinue = useCallback(() => {
+    if (!report || report.teams.length === 0) return;
+    // Store the imported data for later configuration
+    setUploadedData(report.teams);
+    setShowNameInput(true);
+    setError(null);
+  }, [report]);
+
   const handleConfigNameChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     setConfigName(e.target.value);
   }, []);
@@ -111,24 +121,24 @@ const CSVUploader: React.FC<CSVUploaderProps> = ({ onDataLoaded, isDisabled = fa
 
   const handleSaveConfiguration = useCallback(() => {
     if (!configName.trim()) {
-      alert('Please enter a configuration name');
+      setError('Please enter a configuration name');
       return;
     }
     
     if (!uploadedData) {
-      alert('No data uploaded');
+      setError('No data uploaded');
       return;
     }
 
     // Ensure numberOfRounds is a valid number
     const rounds = typeof numberOfRounds === 'string' ? parseInt(numberOfRounds, 10) : numberOfRounds;
     if (isNaN(rounds) || rounds < 1) {
-      alert('Please enter a valid number of rounds (at least 1)');
+      setError('Please enter a valid number of rounds (at least 1)');
       return;
     }
 
-    // Create round settings with correct defaults
-    const roundSettings: RoundConfigurationSettings = {
+    // Create round settings with correct defaults, or take the template's
+    const roundSettings: RoundConfigurationSettings = template ? { ...template.roundSettings } : {
       numberOfRounds: rounds,
       raffleModel: RaffleModelType.WEIGHTED_CONTINUOUS,
       animationType: 'squidgame'
@@ -139,14 +149,26 @@ const CSVUploader: React.FC<CSVUploaderProps> = ({ onDataLoaded, isDisabled = fa
     
     setShowNameInput(false);
     setUploadedData(null);
-  }, [configName, uploadedData, numberOfRounds, onDataLoaded]);
+    setImportTable(null);
+    setMapping(null);
+    setError(null);
+  }, [configName, uploadedData, numberOfRounds, template, onDataLoaded]);
+
+  const missingFields = mapping ? getMissingImportFields(mapping) : [];
+  const canContinue = !!report && report.teams.length > 0 && (report.duplicates.length === 0 || keepFirstDuplicates);
 
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
-      className="w-full max-w-md mx-auto"
+      className={`w-full ${importTable ? 'max-w-4xl' : 'max-w-md'} mx-auto`}
     >
+      {error && (
+        <div className="mb-4 p-3 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
       {/* Configuration Name Input */}
       {showNameInput && (
         <motion.div
@@ -168,96 +190,285 @@ const CSVUploader: React.FC<CSVUploaderProps> = ({ onDataLoaded, isDisabled = fa
               />
             </div>
 
-            <div>
-              <label className="block text-sm font-medium text-blue-900 dark:text-blue-100 mb-2">
-                Number of Rounds:
-              </label>
-              <input
-                type="text"
-                value={numberOfRounds}
-                onChange={handleRoundsChange}
-                onBlur={handleRoundsBlur}
-                className="w-full px-3 py-2 border border-blue-300 dark:border-blue-600 rounded-md text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
-                placeholder="Enter number of rounds"
-              />
-              <p className="text-xs text-blue-700 dark:text-blue-300 mt-1">
-                Recommended: 2-20 rounds (at least 2, typically 5-15 for most events)
-              </p>
-              <p className="text-xs text-blue-600 dark:text-blue-400 mt-1">
-                Distribution: Players divided evenly across rounds (Total players ÷ Number of rounds)
+            {template ? (
+              <p className="text-sm text-blue-800 dark:text-blue-200">
+                {template.roundSettings.numberOfRounds} rounds, settings and {template.prizes.length} prizes from the template “{template.name}”.
               </p>
-            </div>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-blue-900 dark:text-blue-100 mb-2">
+                  Number of Rounds:
+                </label>
+                <input
+                  type="text"
+                  value={numberOfRounds}
+                  onChange={handleRoundsChange}
+                  onBlur={handleRoundsBlur}
+                  className="w-full px-3 py-2 border border-blue-300 dark:border-blue-600 rounded-md text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                  placeholder="Enter number of rounds"
+                />
+                <p className="text-xs text-blue-700 dark:text-blue-300 mt-1">
+                  Recommended: 2-20 rounds (at least 2, typically 5-15 for most events)
+                </p>
+                <p className="text-xs text-blue-600 dark:text-blue-400 mt-1">
+                  Distribution: Players divided evenly across rounds (Total players ÷ Number of rounds)
+                </p>
+              </div>
+            )}
 
-            <div className="flex justify-end">
+            <div className="flex justify-between">
+              <button
+                onClick={() => setShowNameInput(false)}
+                className="px-4 py-2 text-sm text-blue-700 dark:text-blue-300 hover:underline cursor-pointer"
+              >
+                ← Back to column mapping
+              </button>
               <motion.button
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
                 onClick={handleSaveConfiguration}
                 className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 transition-colors"
               >
-                Create Configuration
+                Create Configuration ({uploadedData?.length ?? 0} players)
               </motion.button>
             </div>
           </div>
         </motion.div>
       )}
 
-      <div className="border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-8 text-center hover:border-gray-400 dark:hover:border-gray-500 transition-colors">
-        <div className="mb-4">
-          <svg
-            className="mx-auto h-12 w-12 text-gray-400"
-            stroke="currentColor"
-            fill="none"
-            viewBox="0 0 48 48"
-          >
-            <path
-              d="M28 8H12a4 4 0 00-4 4v20m32-12v8m0 0v8a4 4 0 01-4 4H12a4 4 0 01-4-4v-4m32-4l-3.172-3.172a4 4 0 00-5.656 0L28 28M8 32l9.172-9.172a4 4 0 015.656 0L28 28m0 0l4 4m4-24h8m-4-4v8m-12 4h.02"
-              strokeWidth={2}
-              strokeLinecap="round"
-              strokeLinejoin="round"
+      {/* Column Mapping, Preview and Validation Report */}
+      {importTable && mapping && !showNameInput && (
+        <motion.div
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: 'auto' }}
+          className="mb-4 p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 space-y-5"
+        >
+          <div>
+            <h4 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Map Columns</h4>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {importTable.rows.length} rows, {importTable.headers.length} columns. Choose which column holds each player field.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {IMPORT_FIELDS.map(field => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  {field}{REQUIRED_IMPORT_FIELDS.includes(field) && <span className="text-red-500"> *</span>}
+                </label>
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => handleMappingChange(field, e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                >
+                  <option value="">— Not mapped —</option>
+                  {importTable.headers.map(header => (
+                    <option key={header} value={header}>{header}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {/* Preview of the first rows */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b border-gray-200 dark:border-gray-700">
+                  {importTable.headers.map(header => {
+                    const field = IMPORT_FIELDS.find(f => mapping[f] === header);
+                    return (
+                      <th key={header} className="py-1 pr-4 whitespace-nowrap text-gray-500 dark:text-gray-400">
+                        {header}
+                        {field && (
+                          <span className="ml-1 px-1.5 py-0.5 rounded text-xs bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300">
+                            {field}
+                          </span>
+                        )}
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody>
+                {importTable.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                  <tr key={index} className="border-b border-gray-100 dark:border-gray-700 text-gray-900 dark:text-gray-100">
+                    {row.map((cell, cellIndex) => (
+                      <td key={cellIndex} className="py-1 pr-4 whitespace-nowrap">{cell}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {importTable.rows.length > PREVIEW_ROWS && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Showing the first {PREVIEW_ROWS} of {importTable.rows.length} rows
+              </p>
+            )}
+          </div>
+
+          {/* Validation report */}
+          {missingFields.length > 0 ? (
+            <p className="text-sm text-red-600 dark:text-red-400">
+              Map a column to {missingFields.join(' and ')} to continue.
+            </p>
+          ) : report && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-900 dark:text-gray-100">
+                ✅ {report.teams.length} players ready to import
+                {report.rejected.length > 0 && (
+                  <>
+                    {' • '}
+                    <button
+                      onClick={() => setShowRejected(!showRejected)}
+                      className="text-red-600 dark:text-red-400 hover:underline cursor-pointer"
+                    >
+                      {report.rejected.length} rows rejected {showRejected ? '▲' : '▼'}
+                    </button>
+                  </>
+                )}
+              </p>
+
+              {showRejected && report.rejected.length > 0 && (
+                <div className="max-h-48 overflow-y-auto border border-red-200 dark:border-red-800 rounded">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-red-200 dark:border-red-800">
+                        <th className="py-1 px-2">Row</th>
+                        <th className="py-1 px-2">Reason</th>
+                        <th className="py-1 px-2">Values</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.rejected.map(row => (
+                        <tr key={row.rowNumber} className="border-b border-red-100 dark:border-red-900 text-gray-900 dark:text-gray-100">
+                          <td className="py-1 px-2">{row.rowNumber}</td>
+                          <td className="py-1 px-2 text-red-700 dark:text-red-300">{row.reason}</td>
+                          <td className="py-1 px-2 text-gray-500 dark:text-gray-400">{row.values.join(', ')}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {report.duplicates.length > 0 && (
+                <div className="p-3 rounded-lg border border-yellow-200 dark:border-yellow-800 bg-yellow-50 dark:bg-yellow-900/20 text-sm space-y-2">
+                  <p className="font-medium text-yellow-800 dark:text-yellow-200">
+                    ⚠️ {report.duplicates.length} duplicate team {report.duplicates.length === 1 ? 'name' : 'names'}
+                  </p>
+                  <ul className="list-disc list-inside text-yellow-800 dark:text-yellow-200">
+                    {report.duplicates.map(duplicate => (
+                      <li key={duplicate.team}>
+                        {duplicate.team} (rows {duplicate.rowNumbers.join(', ')})
+                      </li>
+                    ))}
+                  </ul>
+                  <label className="flex items-center gap-2 text-yellow-900 dark:text-yellow-100">
+                    <input
+                      type="checkbox"
+                      checked={keepFirstDuplicates}
+                      onChange={(e) => setKeepFirstDuplicates(e.target.checked)}
+                    />
+                    Keep the first row for each duplicate name
+                  </label>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-between">
+            <button
+              onClick={handleCancelImport}
+              className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400 hover:underline cursor-pointer"
+            >
+              Cancel
+            </button>
+            <motion.button
+              whileHover={canContinue ? { scale: 1.05 } : undefined}
+              whileTap={canContinue ? { scale: 0.95 } : undefined}
+              onClick={handleContinue}
+              disabled={!canContinue}
+              className={`px-4 py-2 rounded-md text-sm font-medium text-white transition-colors ${
+                canContinue ? 'bg-blue-600 hover:bg-blue-700 cursor-pointer' : 'bg-gray-400 cursor-not-allowed'
+              }`}
+            >
+              Continue
+            </motion.button>
+          </div>
+        </motion.div>
+      )}
+
+      {!importTable && (
+        <>
+          {template && (
+            <div className="mb-4 flex items-center justify-between gap-4 p-3 rounded-lg border border-teal-200 dark:border-teal-800 bg-teal-50 dark:bg-teal-900/20 text-sm text-teal-800 dark:text-teal-200">
+              <span>Creating from the template “{template.name}” - upload the players and everything else is set up.</span>
+              {onClearTemplate && (
+                <button onClick={onClearTemplate} className="font-medium hover:underline cursor-pointer whitespace-nowrap">
+                  Don&apos;t use template
+                </button>
+              )}
+            </div>
+          )}
+          <div className="border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-8 text-center hover:border-gray-400 dark:hover:border-gray-500 transition-colors">
+            <div className="mb-4">
+              <svg
+                className="mx-auto h-12 w-12 text-gray-400"
+                stroke="currentColor"
+                fill="none"
+                viewBox="0 0 48 48"
+              >
+                <path
+                  d="M28 8H12a4 4 0 00-4 4v20m32-12v8m0 0v8a4 4 0 01-4 4H12a4 4 0 01-4-4v-4m32-4l-3.172-3.172a4 4 0 00-5.656 0L28 28M8 32l9.172-9.172a4 4 0 015.656 0L28 28m0 0l4 4m4-24h8m-4-4v8m-12 4h.02"
+                  strokeWidth={2}
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              </svg>
+            </div>
+            
+            <label htmlFor="csv-upload" className="cursor-pointer">
+              <span className="block text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">
+                Import Player List
+              </span>
+              <span className="block text-sm text-gray-500 dark:text-gray-400 mb-4">
+                CSV, TSV or Excel (.xlsx) - you can map the columns next
+              </span>
+              
+              <motion.div
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white ${
+                  isDisabled 
+                    ? 'bg-gray-400 cursor-not-allowed' 
+                    : 'bg-blue-600 hover:bg-blue-700 cursor-pointer'
+                } transition-colors`}
+              >
+                Choose File
+              </motion.div>
+            </label>
+            
+            <input
+              id="csv-upload"
+              type="file"
+              accept=".csv,.tsv,.txt,.xlsx"
+              onChange={handleFileUpload}
+              disabled={isDisabled}
+              className="hidden"
             />
-          </svg>
-        </div>
-        
-        <label htmlFor="csv-upload" className="cursor-pointer">
-          <span className="block text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">
-            Upload CSV File
-          </span>
-          <span className="block text-sm text-gray-500 dark:text-gray-400 mb-4">
-            Expected format: Team, Points, Submissions, Last Submission
-          </span>
+          </div>
           
-          <motion.div
-            whileHover={{ scale: 1.05 }}
-            whileTap={{ scale: 0.95 }}
-            className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white ${
-              isDisabled 
-                ? 'bg-gray-400 cursor-not-allowed' 
-                : 'bg-blue-600 hover:bg-blue-700 cursor-pointer'
-            } transition-colors`}
-          >
-            Choose File
-          </motion.div>
-        </label>
-        
-        <input
-          id="csv-upload"
-          type="file"
-          accept=".csv"
-          onChange={handleFileUpload}
-          disabled={isDisabled}
-          className="hidden"
-        />
-      </div>
-      
-      <div className="mt-4 text-xs text-gray-500 dark:text-gray-400">
-        <p className="font-medium mb-1">CSV Requirements:</p>
-        <ul className="list-disc list-inside space-y-1">
-          <li>Header row with: Team, Points, Submissions, Last Submission</li>
-          <li>Points and Submissions must be numeric values</li>
-          <li>Player names should be unique</li>
-        </ul>
-      </div>
+          <div className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+            <p className="font-medium mb-1">Import Requirements:</p>
+            <ul className="list-disc list-inside space-y-1">
+              <li>A header row, with columns for at least the team name and points</li>
+              <li>Points and Submissions must be numeric values</li>
+              <li>Rows that cannot be imported are listed with the reason</li>
+            </ul>
+          </div>
+        </>
+      )}
     </motion.div>
   );
 };
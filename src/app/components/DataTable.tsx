@@ -1,6 +1,13 @@
 import React, { useMemo, useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { TeamData } from '@/types/raffle';
+import { BonusRule, TicketFormula } from '@/types/raffleModels';
+import { EligibilityRules } from '@/types/eligibility';
+import { WinProbabilityResult } from '@/types/winProbability';
+import { describeTicketFormula, DEFAULT_TICKET_FORMULA } from '@/services/ticketFormula';
+import { formatTicketBreakdown, getTicketBreakdown } from '@/services/bonusTickets';
+import { getIneligibilityReasons } from '@/services/eligibilityRules';
+import { formatWinProbabilityMethod } from '@/utils/winProbability';
 import UserPhotoOptimized from './UserPhotoOptimized';
 
 interface DataTableProps {
@@ -8,6 +15,10 @@ interface DataTableProps {
   title?: string;
   showOdds?: boolean;
   currentRoundOdds?: number[]; // [teamIndex] = current round odds only
+  winProbability?: WinProbabilityResult; // Chance of winning anything over the remaining rounds
+  ticketFormula?: TicketFormula; // Active formula (default: points ÷ 100)
+  bonusRules?: BonusRule[]; // Bonus tickets shown as base + bonus = total
+  eligibilityRules?: EligibilityRules; // Rules for the current round - players they exclude show why
   currentRound?: number;
   collapsible?: boolean;
   defaultExpanded?: boolean;
@@ -19,16 +30,37 @@ const TeamRow = React.memo(({
   team, 
   index, 
   showOdds, 
-  currentRoundOdds 
+  currentRoundOdds,
+  overallChance,
+  ticketFormula,
+  bonusRules,
+  eligibilityRules
 }: { 
   team: TeamData; 
   index: number; 
   showOdds: boolean; 
   currentRoundOdds: number[]; 
+  overallChance?: number; // undefined = column hidden
+  ticketFormula: TicketFormula;
+  bonusRules?: BonusRule[];
+  eligibilityRules?: EligibilityRules;
 }) => {
+  const breakdown = getTicketBreakdown(team, ticketFormula, bonusRules);
+  const tickets = breakdown.total;
+  const ticketTooltip = [
+    `${team.Points} points → ${describeTicketFormula(ticketFormula)} = ${breakdown.base} tickets`,
+    ...breakdown.bonuses.map(line => `${line.label}: +${line.tickets}`),
+    ...(breakdown.bonus > 0 ? [`Total: ${tickets} tickets`] : [])
+  ].join('\n');
+
+  // Rules only matter for players who would otherwise be in the pool
+  const ineligibleReasons = useMemo(
+    () => (team.status === undefined || team.status === 'eligible' ? getIneligibilityReasons(team, eligibilityRules) : []),
+    [team, eligibilityRules]
+  );
+
   // Memoize expensive calculations
   const { statusColor, statusText, statusTooltip, oddValue } = useMemo(() => {
-    const tickets = Math.floor(team.Points / 100);
     const finalStatus = team.status;
     
     // Enhanced status styling with better colors and tooltips
@@ -48,6 +80,10 @@ const TeamRow = React.memo(({
       statusColor = 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-200 border border-red-200 dark:border-red-800';
       statusText = '❌ Removed';
       statusTooltip = 'Player has been manually removed from the raffle';
+    } else if (ineligibleReasons.length > 0) {
+      statusColor = 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-200 border border-orange-200 dark:border-orange-800';
+      statusText = '🚫 Ineligible';
+      statusTooltip = `Not in the draw: ${ineligibleReasons.map(reason => reason.message).join('; ')}`;
     }
 
     // Odds calculation - simplified for current round only
@@ -60,7 +96,7 @@ const TeamRow = React.memo(({
     }
 
     return { statusColor, statusText, statusTooltip, oddValue };
-  }, [team.status, showOdds, currentRoundOdds, index]);
+  }, [team.status, tickets, ineligibleReasons, showOdds, currentRoundOdds, index]);
 
   // Use stable key based on team name only
   return (
@@ -92,17 +128,22 @@ const TeamRow = React.memo(({
         >
           {statusText}
         </span>
+        {ineligibleReasons.length > 0 && (
+          <div className="text-xs text-orange-700 dark:text-orange-300 mt-1">
+            {ineligibleReasons.map(reason => reason.message).join('; ')}
+          </div>
+        )}
       </td>
       <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
         <span 
           className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium transition-all duration-200 ${
-            Math.floor(team.Points / 100) === 0 
+            tickets === 0 
               ? 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400 border border-gray-300 dark:border-gray-600'
               : 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200 border border-blue-200 dark:border-blue-800'
           }`}
-          title={`${team.Points} points ÷ 100 = ${Math.floor(team.Points / 100)} tickets`}
+          title={ticketTooltip}
         >
-          {Math.floor(team.Points / 100) === 1 ? '1 ticket' : `${Math.floor(team.Points / 100)} tickets`}
+          {formatTicketBreakdown(breakdown)} {tickets === 1 ? 'ticket' : 'tickets'}
         </span>
       </td>
       {showOdds && (
@@ -119,13 +160,27 @@ const TeamRow = React.memo(({
           </span>
         </td>
       )}
+      {showOdds && overallChance !== undefined && (
+        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
+          <span
+            className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium transition-all duration-200 ${
+              overallChance === 0
+                ? 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400 border border-gray-300 dark:border-gray-600'
+                : 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-200 border border-indigo-200 dark:border-indigo-800 hover:shadow-sm'
+            }`}
+            title="Chance of winning at least one prize over the remaining rounds"
+          >
+            {overallChance === 0 ? '--' : `${overallChance.toFixed(2)}%`}
+          </span>
+        </td>
+      )}
     </tr>
   );
 });
 
 TeamRow.displayName = 'TeamRow';
 
-const DataTable: React.FC<DataTableProps> = ({ teams, title = "Player Data", showOdds = false, currentRoundOdds = [], currentRound = 0, collapsible = false, defaultExpanded = true, storageKey = 'dataTable' }) => {
+const DataTable: React.FC<DataTableProps> = ({ teams, title = "Player Data", showOdds = false, currentRoundOdds = [], winProbability, ticketFormula = DEFAULT_TICKET_FORMULA, bonusRules, eligibilityRules, currentRound = 0, collapsible = false, defaultExpanded = true, storageKey = 'dataTable' }) => {
   const [isExpanded, setIsExpanded] = useState(() => {
     if (!collapsible || typeof window === 'undefined') return defaultExpanded;
     const saved = localStorage.getItem(`${storageKey}-expanded`);
@@ -300,6 +355,11 @@ const DataTable: React.FC<DataTableProps> = ({ teams, title = "Player Data", sho
                     Win Odds (Round {currentRound + 1})
                   </th>
                 )}
+                {showOddsLocal && winProbability && (
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 dark:text-gray-200 uppercase tracking-wider">
+                    Overall Win Chance ({formatWinProbabilityMethod(winProbability)})
+                  </th>
+                )}
               </tr>
             </thead>
             <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-600">
@@ -310,6 +370,10 @@ const DataTable: React.FC<DataTableProps> = ({ teams, title = "Player Data", sho
                   index={index}
                   showOdds={showOddsLocal}
                   currentRoundOdds={currentRoundOdds}
+                  overallChance={winProbability ? winProbability.probabilities[team.Team] ?? 0 : undefined}
+                  ticketFormula={ticketFormula}
+                  bonusRules={bonusRules}
+                  eligibilityRules={eligibilityRules}
                 />
               ))}
               </tbody>
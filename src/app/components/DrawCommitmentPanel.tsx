@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { DrawCommitment } from '@/types/fairDraw';
+import { createDrawCommitment, revealDrawCommitment } from '@/services/fairDraw';
+
+interface DrawCommitmentPanelProps {
+  commitment?: DrawCommitment;
+  hasDraws: boolean; // Regenerating after draws would invalidate the published commitment
+  onChange: (commitment: DrawCommitment) => void;
+}
+
+const DrawCommitmentPanel: React.FC<DrawCommitmentPanelProps> = ({
+  commitment,
+  hasDraws,
+  onChange
+}) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleGenerate = () => {
+    if (commitment && !confirm('Replace the current draw seed? Any commitment you already published will no longer match.')) {
+      return;
+    }
+    onChange(createDrawCommitment());
+  };
+
+  const handleReveal = () => {
+    if (!commitment) return;
+    if (!confirm('Reveal the draw seed? Only do this after the event - anyone with the seed can predict remaining draws.')) {
+      return;
+    }
+    onChange(revealDrawCommitment(commitment));
+  };
+
+  const handleCopy = async () => {
+    if (!commitment) return;
+    try {
+      await navigator.clipboard.writeText(commitment.commitment);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy commitment:', error);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-md space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+          🔐 Verifiable Draws
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Publish the commitment before the event. Every winner is derived from the secret seed, the round and the
+          eligible roster, so once the seed is revealed anyone can re-check the results on the verify page.
+        </p>
+      </div>
+
+      {commitment ? (
+        <div className="space-y-2">
+          <div className="text-xs font-medium text-gray-500 dark:text-gray-400">Commitment (SHA-256 of seed)</div>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 px-3 py-2 bg-gray-100 dark:bg-gray-700 rounded-md text-xs font-mono break-all text-gray-900 dark:text-gray-100">
+              {commitment.commitment}
+            </code>
+            <button
+              onClick={handleCopy}
+              className="px-3 py-2 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors cursor-pointer"
+            >
+              {copied ? 'Copied!' : 'Copy'}
+            </button>
+          </div>
+          {commitment.revealedAt ? (
+            <>
+              <div className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                Seed (revealed {new Date(commitment.revealedAt).toLocaleString()})
+              </div>
+              <code className="block px-3 py-2 bg-yellow-50 dark:bg-yellow-900/20 rounded-md text-xs font-mono break-all text-gray-900 dark:text-gray-100">
+                {commitment.seed}
+              </code>
+            </>
+          ) : (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Created {new Date(commitment.createdAt).toLocaleString()} • seed hidden until revealed
+            </p>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No commitment yet - one is created automatically when the raffle starts.
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={handleGenerate}
+          disabled={hasDraws}
+          title={hasDraws ? 'Reset the raffle before generating a new seed' : undefined}
+          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {commitment ? 'Generate New Seed' : 'Generate Commitment'}
+        </motion.button>
+        {commitment && !commitment.revealedAt && (
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={handleReveal}
+            className="px-4 py-2 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 transition-colors cursor-pointer"
+          >
+            Reveal Seed
+          </motion.button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DrawCommitmentPanel;
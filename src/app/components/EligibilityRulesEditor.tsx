@@ -0,0 +1,121 @@
+import React, { useRef, useState } from 'react';
+import { TeamData } from '@/types/raffle';
+import { EligibilityRules } from '@/types/eligibility';
+import { parseExclusionList, validateEligibilityRules } from '@/services/eligibilityRules';
+
+interface EligibilityRulesEditorProps {
+  rules: EligibilityRules;
+  onChange: (rules: EligibilityRules) => void;
+  teams: TeamData[]; // Used to flag excluded names that match no player
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+/**
+ * Fields for one set of eligibility rules - the configuration's or a round
+ * override. Empty fields are removed so they do not restrict anyone.
+ */
+const EligibilityRulesEditor: React.FC<EligibilityRulesEditorProps> = ({ rules, onChange, teams }) => {
+  const [exclusionText, setExclusionText] = useState((rules.excludedPlayers ?? []).join('\n'));
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const errors = validateEligibilityRules(rules);
+
+  const update = (changes: Partial<EligibilityRules>) => {
+    const next: EligibilityRules = { ...rules, ...changes };
+    (Object.keys(next) as (keyof EligibilityRules)[]).forEach(key => {
+      const value = next[key];
+      if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) delete next[key];
+    });
+    onChange(next);
+  };
+
+  const handleExclusionTextChange = (text: string) => {
+    setExclusionText(text);
+    update({ excludedPlayers: parseExclusionList(text) });
+  };
+
+  const handleExclusionUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const names = parseExclusionList(`${exclusionText}\n${await file.text()}`);
+    console.log(`🛂 Loaded exclusion list ${file.name}: ${names.length} names`);
+    setExclusionText(names.join('\n'));
+    update({ excludedPlayers: names });
+    event.target.value = '';
+  };
+
+  const playerNames = new Set(teams.map(team => team.Team.trim().toLowerCase()));
+  const unmatched = (rules.excludedPlayers ?? []).filter(name => !playerNames.has(name.trim().toLowerCase()));
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Minimum submissions</label>
+          <input
+            type="number"
+            min="0"
+            placeholder="None"
+            value={rules.minSubmissions ?? ''}
+            onChange={(e) => update({ minSubmissions: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Submission deadline</label>
+          <input
+            type="datetime-local"
+            value={rules.submissionDeadline ?? ''}
+            onChange={(e) => update({ submissionDeadline: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Players whose Last Submission is after the deadline are ineligible. Players with no Last Submission are not affected.
+      </p>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Exclusion list ({rules.excludedPlayers?.length ?? 0})
+          </label>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline cursor-pointer"
+          >
+            Upload list
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".txt,.csv"
+            onChange={handleExclusionUpload}
+            className="hidden"
+          />
+        </div>
+        <textarea
+          rows={4}
+          placeholder="Staff, sponsors and organizers - one name per line"
+          value={exclusionText}
+          onChange={(e) => handleExclusionTextChange(e.target.value)}
+          className={inputClass}
+        />
+        {unmatched.length > 0 && (
+          <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+            No player named: {unmatched.join(', ')}
+          </p>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="list-disc list-inside text-sm text-red-600 dark:text-red-400">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default EligibilityRulesEditor;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { EliminationRule } from '@/types/raffleModels';
+import { ELIMINATION_LABELS } from '@/services/raffleModels';
+import { createEliminationRule, validateEliminationRule } from '@/services/elimination';
+
+interface EliminationRuleEditorProps {
+  rule: EliminationRule;
+  onChange: (rule: EliminationRule) => void;
+  numberOfRounds?: number; // Sizes the survivor list when switching policy
+  playerCount?: number;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+/**
+ * Elimination policy picker. Fixed survivors gets one row per round; problems
+ * are listed under the fields and the model editor refuses to save them.
+ */
+const EliminationRuleEditor: React.FC<EliminationRuleEditorProps> = ({ rule, onChange, numberOfRounds, playerCount }) => {
+  const errors = validateEliminationRule(rule);
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className={labelClass}>Elimination</label>
+        <select
+          value={rule.type}
+          onChange={(e) => onChange(createEliminationRule(e.target.value as EliminationRule['type'], numberOfRounds, playerCount))}
+          className={inputClass}
+        >
+          {(Object.keys(ELIMINATION_LABELS) as EliminationRule['type'][]).map(type => (
+            <option key={type} value={type}>{ELIMINATION_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
+      {rule.type === 'fixed_survivors' && (
+        <div className="space-y-2">
+          <label className={labelClass}>Players left after each round - ties are broken by name</label>
+          {rule.survivors.map((value, index) => (
+            <div key={index} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <span className="w-20">Round {index + 1}</span>
+              <input
+                type="number"
+                min="0"
+                value={Number.isNaN(value) ? '' : value}
+                onChange={(e) => onChange({ ...rule, survivors: rule.survivors.map((v, i) => (i === index ? parseFloat(e.target.value) : v)) })}
+                className={`${inputClass} w-28`}
+              />
+              <span>players</span>
+              <button
+                onClick={() => onChange({ ...rule, survivors: rule.survivors.filter((_, i) => i !== index) })}
+                className="text-red-600 dark:text-red-400 hover:underline text-xs cursor-pointer"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => onChange({ ...rule, survivors: [...rule.survivors, rule.survivors.length > 0 ? rule.survivors[rule.survivors.length - 1] : 1] })}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline cursor-pointer"
+          >
+            + Add round
+          </button>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Rounds past the end of the list keep the last count.
+          </p>
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="list-disc list-inside text-sm text-red-600 dark:text-red-400">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default EliminationRuleEditor;
@@ -0,0 +1,221 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { RaffleConfiguration } from '@/utils/configurationManager';
+import { FairnessAuditReport, FairnessAuditResult } from '@/types/fairnessAudit';
+import { buildDrawEntries } from '@/services/drawService';
+import { resolveRaffleModel } from '@/services/raffleModels';
+import { resolveRoundRules } from '@/services/eligibilityRules';
+import { generateDrawSeed } from '@/services/fairDraw';
+import {
+  DEFAULT_SIGNIFICANCE_LEVEL,
+  buildFairnessReport,
+  getLargestDeviations,
+  runAuditDraws,
+  summarizeFairnessAudit
+} from '@/services/fairnessAudit';
+import { downloadFile, toFileStem } from '@/utils/fileDownload';
+
+interface FairnessAuditPanelProps {
+  configuration: RaffleConfiguration;
+}
+
+const ITERATION_OPTIONS = [1000, 10000, 50000, 100000];
+const CHUNK_SIZE = 2000; // Draws between progress updates
+
+/**
+ * Runs the production draw many times against one round's ticket pool and
+ * tests the results against the ticket shares. The exported report can be
+ * replayed from its seed on the verify page.
+ */
+const FairnessAuditPanel: React.FC<FairnessAuditPanelProps> = ({ configuration }) => {
+  const [roundIndex, setRoundIndex] = useState(0);
+  const [iterations, setIterations] = useState(ITERATION_OPTIONS[1]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<FairnessAuditResult | null>(null);
+  const [report, setReport] = useState<FairnessAuditReport | null>(null);
+  const cancelRef = useRef(false);
+
+  const round = configuration.rounds[roundIndex];
+
+  // The round's ticket pool exactly as the live draw would build it
+  const entries = useMemo(() => {
+    const model = resolveRaffleModel(configuration.roundSettings);
+    return buildDrawEntries(configuration.teams, {
+      pointThreshold: round?.pointThreshold ?? 0,
+      ticketFormula: model.ticketFormula,
+      bonusRules: model.bonusRules,
+      eligibilityRules: resolveRoundRules(configuration.roundSettings.eligibility, round),
+      includeWinners: model.winnerRemoval === 'keep'
+    });
+  }, [configuration, round]);
+
+  const handleRun = async () => {
+    if (entries.length === 0) return;
+
+    const seed = generateDrawSeed();
+    console.log(`⚖️ Fairness audit: ${iterations} draws over ${entries.length} players`);
+    cancelRef.current = false;
+    setIsRunning(true);
+    setProgress(0);
+    setResult(null);
+    setReport(null);
+
+    const counts: number[] = new Array(entries.length).fill(0);
+    for (let first = 1; first <= iterations && !cancelRef.current; first += CHUNK_SIZE) {
+      runAuditDraws(entries, seed, first, Math.min(CHUNK_SIZE, iterations - first + 1), counts);
+      setProgress(Math.min(1, (first + CHUNK_SIZE - 1) / iterations));
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    if (cancelRef.current) {
+      console.log('⏹️ Fairness audit cancelled');
+    } else {
+      const summary = summarizeFairnessAudit(entries, counts);
+      setResult(summary);
+      setReport(buildFairnessReport(entries, seed, summary, {
+        configurationId: configuration.id,
+        configurationName: configuration.name,
+        roundName: round?.name
+      }));
+    }
+    setIsRunning(false);
+  };
+
+  const handleExport = () => {
+    if (!report) return;
+    downloadFile(`${toFileStem(configuration.name)}-fairness-audit.json`, JSON.stringify(report, null, 2));
+  };
+
+  const deviations = result ? getLargestDeviations(result) : [];
+  const passed = result ? result.pValue >= DEFAULT_SIGNIFICANCE_LEVEL : false;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100">⚖️ Fairness Audit</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Runs the live draw against this roster and checks each player wins in proportion to their tickets.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={roundIndex}
+            onChange={(e) => setRoundIndex(parseInt(e.target.value))}
+            disabled={isRunning}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          >
+            {configuration.rounds.map((option, index) => (
+              <option key={option.id} value={index}>{option.name}</option>
+            ))}
+          </select>
+          <select
+            value={iterations}
+            onChange={(e) => setIterations(parseInt(e.target.value))}
+            disabled={isRunning}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          >
+            {ITERATION_OPTIONS.map(option => (
+              <option key={option} value={option}>{option.toLocaleString()} draws</option>
+            ))}
+          </select>
+          {isRunning ? (
+            <button
+              onClick={() => { cancelRef.current = true; }}
+              className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors cursor-pointer"
+            >
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={handleRun}
+              disabled={entries.length === 0}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors cursor-pointer"
+            >
+              Run Audit
+            </button>
+          )}
+          {report && !isRunning && (
+            <button
+              onClick={handleExport}
+              className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors cursor-pointer"
+            >
+              Export Report
+            </button>
+          )}
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {entries.length} players with tickets in {round?.name ?? 'this round'}
+      </p>
+
+      {isRunning && (
+        <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-500 transition-all" style={{ width: `${progress * 100}%` }} />
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-4">
+          <div className={`p-4 rounded-lg border ${
+            passed
+              ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800'
+              : 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
+          }`}>
+            <div className={`font-semibold ${passed ? 'text-green-800 dark:text-green-200' : 'text-red-800 dark:text-red-200'}`}>
+              {passed
+                ? '✅ No evidence the draw departs from ticket shares'
+                : `❌ Win counts differ from ticket shares (p < ${DEFAULT_SIGNIFICANCE_LEVEL})`}
+            </div>
+            <div className="mt-1 text-sm text-gray-700 dark:text-gray-300">
+              χ² = {result.chiSquared.toFixed(2)} with {result.degreesOfFreedom} degrees of freedom •
+              p = {result.pValue < 0.0001 ? result.pValue.toExponential(2) : result.pValue.toFixed(4)} •
+              {' '}{result.iterations.toLocaleString()} draws
+            </div>
+            {result.lowExpectedCount > 0 && (
+              <div className="mt-1 text-xs text-orange-700 dark:text-orange-300">
+                {result.lowExpectedCount} players are expected to win fewer than 5 times - run more draws for a reliable test.
+              </div>
+            )}
+            {report && (
+              <div className="mt-2 text-xs font-mono break-all text-gray-500 dark:text-gray-400">
+                Report checksum (SHA-256): {report.digest}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-gray-900 dark:text-gray-100 mb-2">Largest Deviations</h4>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="py-1">Player</th>
+                  <th className="py-1">Tickets</th>
+                  <th className="py-1">Expected</th>
+                  <th className="py-1">Observed</th>
+                  <th className="py-1">Deviation (σ)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {deviations.map(player => (
+                  <tr key={player.team} className="border-b border-gray-100 dark:border-gray-700 text-gray-900 dark:text-gray-100">
+                    <td className="py-1">{player.team}</td>
+                    <td className="py-1">{player.tickets}</td>
+                    <td className="py-1">{player.expected.toFixed(1)}</td>
+                    <td className="py-1">{player.observed}</td>
+                    <td className={`py-1 ${Math.abs(player.residual) > 3 ? 'text-red-600 dark:text-red-400 font-semibold' : ''}`}>
+                      {player.residual >= 0 ? '+' : ''}{player.residual.toFixed(2)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FairnessAuditPanel;
@@ -0,0 +1,117 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { ScenarioSummary } from '@/types/modelComparison';
+
+interface ModelComparisonResultsProps {
+  summaries: ScenarioSummary[];
+  colors: string[]; // One per scenario, in the same order
+}
+
+/**
+ * Side-by-side results of the planner's simulations. Every scenario ran over
+ * the same roster, so deciles and tiers line up across scenarios.
+ */
+const ModelComparisonResults: React.FC<ModelComparisonResultsProps> = ({ summaries, colors }) => {
+  const decileData = useMemo(() => {
+    if (summaries.length === 0) return [];
+    return summaries[0].deciles.map((decile, i) => ({
+      name: `D${decile.decile}`,
+      range: `${decile.minPoints}–${decile.maxPoints} points, ${decile.players} players`,
+      ...Object.fromEntries(summaries.map(summary => [summary.scenarioId, Number(summary.deciles[i]?.winProbability.toFixed(2) ?? 0)]))
+    }));
+  }, [summaries]);
+
+  const tierData = useMemo(() => {
+    if (summaries.length === 0) return [];
+    return summaries[0].tiers.map((tier, i) => ({
+      name: tier.label,
+      range: `${tier.players} players`,
+      ...Object.fromEntries(summaries.map(summary => [summary.scenarioId, Number(summary.tiers[i]?.expectedWinners.toFixed(2) ?? 0)]))
+    }));
+  }, [summaries]);
+
+  if (summaries.length === 0) return null;
+
+  const bars = summaries.map((summary, i) => (
+    <Bar key={summary.scenarioId} dataKey={summary.scenarioId} name={summary.label} fill={colors[i % colors.length]} />
+  ));
+
+  const tooltipLabel = (label: string, payload: readonly { payload?: { range?: string } }[]) =>
+    payload?.[0]?.payload?.range ? `${label} (${payload[0].payload.range})` : label;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-6"
+    >
+      {/* Fairness numbers */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {summaries.map((summary, i) => (
+          <div
+            key={summary.scenarioId}
+            className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 border-t-4"
+            style={{ borderTopColor: colors[i % colors.length] }}
+          >
+            <div className="font-semibold text-gray-900 dark:text-gray-100">{summary.label}</div>
+            <div className="mt-2 text-3xl font-bold text-gray-900 dark:text-gray-100">{summary.gini.toFixed(3)}</div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">Gini of win chances - 0 is perfectly even</div>
+            <div className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+              {summary.expectedWinners.toFixed(1)} prizes per raffle • {summary.iterations.toLocaleString()} raffles
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100 mb-1">Chance of Winning by Points Decile</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          Average % chance of winning at least one prize. D1 is the lowest-scoring tenth of players.
+        </p>
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={decileData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.3} />
+              <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+              <YAxis tick={{ fontSize: 12 }} unit="%" />
+              <Tooltip labelFormatter={tooltipLabel} formatter={(value) => `${value}%`} />
+              <Legend />
+              {bars}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100 mb-1">Expected Winners per Tier</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          Average prizes won by each point tier per raffle, using the configuration&apos;s round thresholds as tiers.
+        </p>
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={tierData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.3} />
+              <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+              <YAxis tick={{ fontSize: 12 }} />
+              <Tooltip labelFormatter={tooltipLabel} />
+              <Legend />
+              {bars}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default ModelComparisonResults;
@@ -0,0 +1,183 @@
+import React, { useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { Prize, PrizeTier, RaffleRound } from '@/types/raffle';
+import { PRIZE_TIERS, createPrize } from '@/utils/prizeCatalog';
+
+interface PrizeCatalogEditorProps {
+  prizes: Prize[];
+  rounds: RaffleRound[];
+  onChange: (prizes: Prize[], rounds: RaffleRound[]) => void;
+}
+
+const PrizeCatalogEditor: React.FC<PrizeCatalogEditorProps> = ({
+  prizes,
+  rounds,
+  onChange
+}) => {
+  const totalUnits = prizes.reduce((sum, prize) => sum + prize.quantity, 0);
+
+  const handleAddPrize = useCallback(() => {
+    onChange([...prizes, createPrize()], rounds);
+  }, [prizes, rounds, onChange]);
+
+  const handleUpdatePrize = useCallback((prizeId: string, updates: Partial<Prize>) => {
+    onChange(
+      prizes.map(prize => prize.id === prizeId ? { ...prize, ...updates } : prize),
+      rounds
+    );
+  }, [prizes, rounds, onChange]);
+
+  const handleRemovePrize = useCallback((prizeId: string) => {
+    // Drop the prize from any round that was assigned to it
+    const updatedRounds = rounds.map(round => round.prizeIds
+      ? { ...round, prizeIds: round.prizeIds.filter(id => id !== prizeId) }
+      : round
+    );
+    onChange(prizes.filter(prize => prize.id !== prizeId), updatedRounds);
+  }, [prizes, rounds, onChange]);
+
+  const handleToggleRoundPrize = useCallback((roundId: number, prizeId: string) => {
+    const updatedRounds = rounds.map(round => {
+      if (round.id !== roundId) return round;
+      const current = round.prizeIds || [];
+      const prizeIds = current.includes(prizeId)
+        ? current.filter(id => id !== prizeId)
+        : [...current, prizeId];
+      return { ...round, prizeIds };
+    });
+    onChange(prizes, updatedRounds);
+  }, [prizes, rounds, onChange]);
+
+  const parseNumber = (value: string): number | undefined => {
+    const numericValue = parseFloat(value);
+    return isNaN(numericValue) ? undefined : numericValue;
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-md space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            🎁 Prize Catalog
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {prizes.length === 0
+              ? 'No prizes yet - winners will be labelled "Prize 1", "Prize 2", ...'
+              : `${prizes.length} prizes • ${totalUnits} units for ${rounds.length} rounds`}
+          </p>
+        </div>
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={handleAddPrize}
+          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors cursor-pointer"
+        >
+          Add Prize
+        </motion.button>
+      </div>
+
+      {prizes.length > 0 && (
+        <div className="space-y-3">
+          {prizes.map(prize => (
+            <div
+              key={prize.id}
+              className="grid grid-cols-1 md:grid-cols-6 gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-600"
+            >
+              <input
+                type="text"
+                value={prize.name}
+                onChange={(e) => handleUpdatePrize(prize.id, { name: e.target.value })}
+                placeholder="Prize name"
+                className="md:col-span-2 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+              />
+              <input
+                type="text"
+                value={prize.sponsor || ''}
+                onChange={(e) => handleUpdatePrize(prize.id, { sponsor: e.target.value || undefined })}
+                placeholder="Sponsor"
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+              />
+              <input
+                type="number"
+                min="1"
+                value={prize.quantity}
+                onChange={(e) => handleUpdatePrize(prize.id, { quantity: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                title="Quantity"
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+              />
+              <input
+                type="number"
+                min="0"
+                value={prize.value ?? ''}
+                onChange={(e) => handleUpdatePrize(prize.id, { value: parseNumber(e.target.value) })}
+                placeholder="Value ($)"
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+              />
+              <select
+                value={prize.tier || 'standard'}
+                onChange={(e) => handleUpdatePrize(prize.id, { tier: e.target.value as PrizeTier })}
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+              >
+                {PRIZE_TIERS.map(tier => (
+                  <option key={tier.value} value={tier.value}>{tier.label}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={prize.image || ''}
+                onChange={(e) => handleUpdatePrize(prize.id, { image: e.target.value || undefined })}
+                placeholder="Image path or URL (e.g. /prizes/airpods.webp)"
+                className="md:col-span-5 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+              />
+              <button
+                onClick={() => handleRemovePrize(prize.id)}
+                className="px-3 py-2 text-sm text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors cursor-pointer"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Per-round prize assignment */}
+      {prizes.length > 0 && rounds.length > 0 && (
+        <div>
+          <h4 className="text-md font-semibold text-gray-900 dark:text-gray-100 mb-2">
+            Prizes per Round
+          </h4>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+            Rounds without a selection draw from the whole catalog. Prizes are awarded in the order selected.
+          </p>
+          <div className="space-y-2">
+            {rounds.map(round => (
+              <div key={round.id} className="flex flex-wrap items-center gap-2 py-2 px-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                <span className="w-32 font-medium text-sm text-gray-900 dark:text-gray-100">
+                  {round.name}
+                </span>
+                {prizes.map(prize => {
+                  const isAssigned = round.prizeIds?.includes(prize.id) || false;
+                  return (
+                    <button
+                      key={prize.id}
+                      onClick={() => handleToggleRoundPrize(round.id, prize.id)}
+                      className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors cursor-pointer ${
+                        isAssigned
+                          ? 'bg-yellow-200 text-yellow-800 border-yellow-300 dark:bg-yellow-800 dark:text-yellow-200 dark:border-yellow-700'
+                          : 'bg-white text-gray-600 border-gray-300 dark:bg-gray-800 dark:text-gray-400 dark:border-gray-600'
+                      }`}
+                    >
+                      {prize.name}
+                    </button>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PrizeCatalogEditor;
@@ -1,46 +1,40 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { TeamData } from '@/types/raffle';
+import { BonusRule, TicketFormula } from '@/types/raffleModels';
+import { getTeamTickets } from '@/services/bonusTickets';
 import UserPhoto from './UserPhoto';
 
 interface PrizeWheelProps {
   teams: TeamData[];
   isSpinning: boolean;
+  winner?: string; // Chosen by the draw service before the spin starts
   onWinner: (winner: string) => void;
   onSpinComplete: () => void;
+  ticketFormula?: TicketFormula; // Active formula (default: points ÷ 100)
+  bonusRules?: BonusRule[]; // Bonus tickets on top of the formula
 }
 
 const PrizeWheel: React.FC<PrizeWheelProps> = ({ 
   teams, 
   isSpinning, 
+  winner,
   onWinner, 
-  onSpinComplete 
+  onSpinComplete,
+  ticketFormula,
+  bonusRules
 }) => {
   const [selectedTeam, setSelectedTeam] = useState<string>('');
   const [rotation, setRotation] = useState(0);
 
-  // Create weighted ticket pool - memoized to prevent recalculation
-  const createTicketPool = useCallback((teams: TeamData[]): string[] => {
-    const tickets: string[] = [];
-    teams.forEach(team => {
-      const ticketCount = Math.max(1, Math.floor(team.Points / 100));
-      for (let i = 0; i < ticketCount; i++) {
-        tickets.push(team.Team);
-      }
-    });
-    return tickets;
-  }, []);
-
   useEffect(() => {
-    if (isSpinning && teams.length > 0) {
-      const tickets = createTicketPool(teams);
-      const winnerIndex = Math.floor(Math.random() * tickets.length);
-      const winner = tickets[winnerIndex];
-      
-      // Generate random rotation (multiple full rotations + random angle)
-      const baseRotation = 360 * (5 + Math.random() * 5); // 5-10 full rotations
-      const finalAngle = Math.random() * 360;
-      const finalRotation = baseRotation + finalAngle;
+    if (isSpinning && winner && teams.length > 0) {
+      // Land the pointer (top of the wheel) inside the winner's segment
+      const segmentSize = 360 / teams.length;
+      const winnerIndex = Math.max(0, teams.findIndex(team => team.Team === winner));
+      const segmentOffset = segmentSize * (winnerIndex + 0.2 + Math.random() * 0.6);
+      const baseRotation = 360 * (5 + Math.floor(Math.random() * 5)); // 5-10 full rotations
+      const finalRotation = baseRotation + (360 - segmentOffset);
       
       setRotation(finalRotation);
       
@@ -53,7 +47,7 @@ const PrizeWheel: React.FC<PrizeWheelProps> = ({
         }, 2000); // Show winner for 2 seconds
       }, 3000); // Spin duration
     }
-  }, [isSpinning, teams, onWinner, onSpinComplete, createTicketPool]);
+  }, [isSpinning, winner, teams, onWinner, onSpinComplete]);
 
   // Memoize wheel segments to prevent expensive recalculation on every render
   const wheelSegments = useMemo(() => {
@@ -64,14 +58,14 @@ const PrizeWheel: React.FC<PrizeWheelProps> = ({
       
       return {
         team: team.Team,
-        tickets: Math.max(1, Math.floor(team.Points / 100)),
+        tickets: getTeamTickets(team, ticketFormula, bonusRules),
         angle,
         nextAngle,
         midAngle,
         color: `hsl(${(index * 137.5) % 360}, 70%, 60%)`
       };
     });
-  }, [teams]);
+  }, [teams, ticketFormula, bonusRules]);
 
   return (
     <div className="flex flex-col items-center space-y-8">
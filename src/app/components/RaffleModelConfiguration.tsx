@@ -1,17 +1,19 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { RaffleModelType } from '@/types/raffleModels';
-import { RAFFLE_MODELS } from '@/services/raffleModels';
+import { RaffleModel } from '@/types/raffleModels';
+import { getRaffleModels } from '@/services/raffleModels';
 
 interface RaffleModelConfigurationProps {
-  currentModel: RaffleModelType;
-  onModelChange: (model: RaffleModelType) => void;
+  currentModel: string;
+  onModelChange: (modelId: string) => void;
+  customModels?: RaffleModel[];
   disabled?: boolean;
 }
 
 export const RaffleModelConfiguration: React.FC<RaffleModelConfigurationProps> = ({
   currentModel,
   onModelChange,
+  customModels = [],
   disabled = false
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
@@ -60,13 +62,12 @@ export const RaffleModelConfiguration: React.FC<RaffleModelConfigurationProps> =
               Raffle Model
             </label>
             <div className="space-y-3">
-              {Object.values(RaffleModelType).map((modelType) => {
-                const model = RAFFLE_MODELS[modelType];
-                const isSelected = currentModel === modelType;
+              {getRaffleModels(customModels).map((model) => {
+                const isSelected = currentModel === model.id;
                 
                 return (
                   <label
-                    key={modelType}
+                    key={model.id}
                     className={`flex items-start p-4 border rounded-lg cursor-pointer transition-colors ${
                       isSelected
                         ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
@@ -76,9 +77,9 @@ export const RaffleModelConfiguration: React.FC<RaffleModelConfigurationProps> =
                     <input
                       type="radio"
                       name="raffleModel"
-                      value={modelType}
+                      value={model.id}
                       checked={isSelected}
-                      onChange={(e) => !disabled && onModelChange(e.target.value as RaffleModelType)}
+                      onChange={(e) => !disabled && onModelChange(e.target.value)}
                       disabled={disabled}
                       className="mt-1 mr-3"
                     />
@@ -91,18 +92,18 @@ export const RaffleModelConfiguration: React.FC<RaffleModelConfigurationProps> =
                       </div>
                       <div className="flex flex-wrap gap-2 mt-2">
                         <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                          model.properties.removeWinners
+                          model.elimination.type !== 'none'
                             ? 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300'
                             : 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300'
                         }`}>
-                          {model.properties.removeWinners ? 'Elimination' : 'Continuous'}
+                          {model.elimination.type !== 'none' ? 'Elimination' : 'Continuous'}
                         </span>
                         <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                          model.properties.weightedSystem
+                          model.ticketFormula.type === 'points_divided'
                             ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300'
                             : 'bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-300'
                         }`}>
-                          {model.properties.weightedSystem ? 'Weighted' : 'Equal Chance'}
+                          {model.ticketFormula.type === 'points_divided' ? 'Weighted' : 'Equal Chance'}
                         </span>
                       </div>
                     </div>
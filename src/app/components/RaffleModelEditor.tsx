@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { RaffleModel, WinnerRemoval } from '@/types/raffleModels';
+import {
+  WINNER_REMOVAL_LABELS,
+  validateRaffleModel
+} from '@/services/raffleModels';
+import TicketFormulaEditor from './TicketFormulaEditor';
+import EliminationRuleEditor from './EliminationRuleEditor';
+import ThresholdStrategyEditor from './ThresholdStrategyEditor';
+
+interface RaffleModelEditorProps {
+  model: RaffleModel;
+  existingModels: RaffleModel[]; // Used to reject duplicate names
+  onSave: (model: RaffleModel) => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+/**
+ * Form for a custom raffle model definition. Formula problems show as the
+ * operator types; the full validation runs on save and is listed above the buttons.
+ */
+const RaffleModelEditor: React.FC<RaffleModelEditorProps> = ({ model, existingModels, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<RaffleModel>(model);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const update = (changes: Partial<RaffleModel>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleSave = () => {
+    const trimmed = { ...draft, name: draft.name.trim(), description: draft.description.trim() };
+    const validationErrors = validateRaffleModel(trimmed, existingModels);
+    setErrors(validationErrors);
+    if (validationErrors.length === 0) {
+      onSave(trimmed);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      className="border border-blue-300 dark:border-blue-700 bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4 space-y-4"
+    >
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass}>Name</label>
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => update({ name: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Description</label>
+          <input
+            type="text"
+            value={draft.description}
+            onChange={(e) => update({ description: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+
+        <div className="md:col-span-2">
+          <TicketFormulaEditor
+            formula={draft.ticketFormula}
+            onChange={(ticketFormula) => update({ ticketFormula })}
+          />
+        </div>
+
+        <div>
+          <label className={labelClass}>Winners</label>
+          <select
+            value={draft.winnerRemoval}
+            onChange={(e) => update({ winnerRemoval: e.target.value as WinnerRemoval })}
+            className={inputClass}
+          >
+            {(Object.keys(WINNER_REMOVAL_LABELS) as WinnerRemoval[]).map(option => (
+              <option key={option} value={option}>{WINNER_REMOVAL_LABELS[option]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="md:col-span-2">
+          <EliminationRuleEditor
+            rule={draft.elimination}
+            onChange={(elimination) => update({ elimination })}
+          />
+        </div>
+
+        <div className="md:col-span-2">
+          <ThresholdStrategyEditor
+            strategy={draft.thresholdStrategy}
+            onChange={(thresholdStrategy) => update({ thresholdStrategy })}
+          />
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="list-disc list-inside text-sm text-red-600 dark:text-red-400">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400 hover:underline cursor-pointer"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 transition-colors cursor-pointer"
+        >
+          Save Model
+        </button>
+      </div>
+    </motion.div>
+  );
+};
+
+export default RaffleModelEditor;
@@ -1,70 +1,151 @@
-import React from 'react';
-import { RaffleModelType } from '../../types/raffleModels';
-import { RAFFLE_MODELS } from '../../services/raffleModels';
+import React, { useState } from 'react';
+import { RaffleModel } from '../../types/raffleModels';
+import {
+  WINNER_REMOVAL_LABELS,
+  createCustomModel,
+  getRaffleModel,
+  getRaffleModels
+} from '../../services/raffleModels';
+import { describeTicketFormula } from '../../services/ticketFormula';
+import { describeThresholdStrategy } from '../../services/roundThresholds';
+import { describeEliminationRule } from '../../services/elimination';
+import RaffleModelEditor from './RaffleModelEditor';
 
 interface RaffleModelSelectorProps {
-  selectedModel: RaffleModelType;
-  onModelChange: (model: RaffleModelType) => void;
+  selectedModel: string;
+  onModelChange: (modelId: string) => void;
+  customModels?: RaffleModel[];
+  onCustomModelsChange?: (models: RaffleModel[]) => void; // Omit to hide custom model editing
   className?: string;
 }
 
 export const RaffleModelSelector: React.FC<RaffleModelSelectorProps> = ({
   selectedModel,
   onModelChange,
+  customModels = [],
+  onCustomModelsChange,
   className = ""
 }) => {
+  // Model being created or edited (null = editor closed)
+  const [editingModel, setEditingModel] = useState<RaffleModel | null>(null);
+  const models = getRaffleModels(customModels);
+
+  const handleSaveModel = (model: RaffleModel) => {
+    if (!onCustomModelsChange) return;
+    const exists = customModels.some(custom => custom.id === model.id);
+    onCustomModelsChange(exists
+      ? customModels.map(custom => (custom.id === model.id ? model : custom))
+      : [...customModels, model]);
+    onModelChange(model.id);
+    setEditingModel(null);
+  };
+
+  const handleDeleteModel = (model: RaffleModel) => {
+    if (!onCustomModelsChange) return;
+    if (!confirm(`Delete the custom model "${model.name}"?`)) return;
+    onCustomModelsChange(customModels.filter(custom => custom.id !== model.id));
+    if (selectedModel === model.id) {
+      onModelChange(getRaffleModel().id);
+    }
+  };
+
   return (
     <div className={`bg-white dark:bg-gray-800 p-6 rounded-lg shadow-md ${className}`}>
-      <h3 className="text-lg font-semibold mb-4 text-gray-900 dark:text-gray-100">
-        Select Raffle Model
-      </h3>
-      
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+          Select Raffle Model
+        </h3>
+        {onCustomModelsChange && !editingModel && (
+          <button
+            onClick={() => setEditingModel(createCustomModel(getRaffleModel(selectedModel, customModels)))}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline cursor-pointer"
+          >
+            + Custom model
+          </button>
+        )}
+      </div>
+
+      {editingModel && (
+        <div className="mb-4">
+          <RaffleModelEditor
+            key={editingModel.id}
+            model={editingModel}
+            existingModels={models}
+            onSave={handleSaveModel}
+            onCancel={() => setEditingModel(null)}
+          />
+        </div>
+      )}
+
       <div className="space-y-4">
-        {Object.values(RAFFLE_MODELS).map((model) => (
-          <div key={model.type} className="border border-gray-200 dark:border-gray-600 rounded-lg p-4">
+        {models.map((model) => (
+          <div key={model.id} className="border border-gray-200 dark:border-gray-600 rounded-lg p-4">
             <label className="flex items-start space-x-3 cursor-pointer">
               <input
                 type="radio"
                 name="raffleModel"
-                value={model.type}
-                checked={selectedModel === model.type}
-                onChange={(e) => onModelChange(e.target.value as RaffleModelType)}
+                value={model.id}
+                checked={selectedModel === model.id}
+                onChange={(e) => onModelChange(e.target.value)}
                 className="mt-1 text-blue-600 focus:ring-blue-500 dark:focus:ring-blue-600"
               />
               <div className="flex-1">
-                <div className="font-medium text-gray-900 dark:text-gray-100 mb-1">
-                  {model.name}
+                <div className="flex items-center justify-between mb-1">
+                  <div className="font-medium text-gray-900 dark:text-gray-100">
+                    {model.name}
+                    {!model.builtIn && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-purple-100 text-purple-800 dark:bg-purple-900/20 dark:text-purple-300">
+                        Custom
+                      </span>
+                    )}
+                  </div>
+                  {!model.builtIn && onCustomModelsChange && (
+                    <div className="flex gap-3 text-xs">
+                      <button
+                        onClick={(e) => { e.preventDefault(); setEditingModel(model); }}
+                        className="text-blue-600 dark:text-blue-400 hover:underline cursor-pointer"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={(e) => { e.preventDefault(); handleDeleteModel(model); }}
+                        className="text-red-600 dark:text-red-400 hover:underline cursor-pointer"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  )}
                 </div>
                 <div className="text-sm text-gray-600 dark:text-gray-400 mb-3">
                   {model.description}
                 </div>
-                
+
                 <div className="text-xs space-y-2">
                   <div className="flex items-center space-x-2">
                     <span className="w-2 h-2 rounded-full bg-blue-500"></span>
                     <span className="text-gray-700 dark:text-gray-300">
-                      Tickets: Points ÷ 100
+                      Tickets: {describeTicketFormula(model.ticketFormula)}
                     </span>
                   </div>
-                  
+
                   <div className="flex items-center space-x-2">
-                    <span className={`w-2 h-2 rounded-full ${model.properties.removeWinners ? 'bg-green-500' : 'bg-red-500'}`}></span>
+                    <span className={`w-2 h-2 rounded-full ${model.winnerRemoval === 'remove' ? 'bg-green-500' : 'bg-red-500'}`}></span>
                     <span className="text-gray-700 dark:text-gray-300">
-                      Remove Winners: {model.properties.removeWinners ? 'Yes' : 'No'}
+                      {WINNER_REMOVAL_LABELS[model.winnerRemoval]}
                     </span>
                   </div>
-                  
+
                   <div className="flex items-center space-x-2">
-                    <span className={`w-2 h-2 rounded-full ${model.properties.weightedSystem ? 'bg-green-500' : 'bg-orange-500'}`}></span>
+                    <span className={`w-2 h-2 rounded-full ${model.elimination.type !== 'none' ? 'bg-green-500' : 'bg-red-500'}`}></span>
                     <span className="text-gray-700 dark:text-gray-300">
-                      Selection: {model.properties.weightedSystem ? 'Weighted by Tickets' : 'Equal Probability'}
+                      Drop Off: {describeEliminationRule(model.elimination)}
                     </span>
                   </div>
-                  
+
                   <div className="flex items-center space-x-2">
-                    <span className={`w-2 h-2 rounded-full ${model.properties.dropOffAfterRound ? 'bg-green-500' : 'bg-red-500'}`}></span>
+                    <span className={`w-2 h-2 rounded-full ${model.thresholdStrategy.type !== 'none' ? 'bg-green-500' : 'bg-orange-500'}`}></span>
                     <span className="text-gray-700 dark:text-gray-300">
-                      Drop Off: {model.properties.dropOffAfterRound ? 'Yes (Players/Rounds)' : 'No'}
+                      Rounds: {describeThresholdStrategy(model.thresholdStrategy)}
                     </span>
                   </div>
                 </div>
@@ -1,15 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { RaffleRound } from '@/types/raffle';
-import { RaffleModelType } from '@/types/raffleModels';
-import { RAFFLE_MODELS } from '@/services/raffleModels';
+import { RaffleModel, RaffleModelType } from '@/types/raffleModels';
+import { RAFFLE_MODELS, isContinuousModel } from '@/services/raffleModels';
 
 interface RaffleProgressProps {
   rounds: RaffleRound[];
   currentRound: number;
   remainingTeams: number;
   totalTeams: number;
-  raffleModel?: RaffleModelType;
+  raffleModel?: RaffleModel;
 }
 
 const RaffleProgress: React.FC<RaffleProgressProps> = ({ 
@@ -17,12 +17,11 @@ const RaffleProgress: React.FC<RaffleProgressProps> = ({
   currentRound, 
   remainingTeams,
   totalTeams,
-  raffleModel = RaffleModelType.UNIFORM_ELIMINATION
+  raffleModel = RAFFLE_MODELS[RaffleModelType.UNIFORM_ELIMINATION]
 }) => {
   const [isMounted, setIsMounted] = useState(false);
   const [isInitialLoad, setIsInitialLoad] = useState(true);
-  const isWeightedContinuous = raffleModel === RaffleModelType.WEIGHTED_CONTINUOUS;
-  const model = RAFFLE_MODELS[raffleModel];
+  const isWeightedContinuous = isContinuousModel(raffleModel);
 
   useEffect(() => {
     setIsMounted(true);
@@ -56,7 +55,7 @@ const RaffleProgress: React.FC<RaffleProgressProps> = ({
               }
             </p>
             <p className="text-sm text-gray-500 dark:text-gray-500">
-              Model: {model.name}
+              Model: {raffleModel.name}
             </p>
           </div>
         </div>
@@ -1,16 +1,20 @@
 import React, { useState } from 'react';
 import { TeamData } from '@/types/raffle';
-import { RaffleModelType, RaffleParticipant, RaffleConfiguration, RaffleResult } from '@/types/raffleModels';
+import { RaffleParticipant, RaffleConfiguration, RaffleResult } from '@/types/raffleModels';
 import { RaffleEngine } from '@/services/raffleEngine';
+import { getTicketBreakdown } from '@/services/bonusTickets';
+import { resolveRaffleModel } from '@/services/raffleModels';
+import { describeEliminationRule } from '@/services/elimination';
+import { ConfigurationManager, RoundConfigurationSettings } from '@/utils/configurationManager';
+import { useSimulationWorker } from '@/hooks/useSimulationWorker';
 import { motion } from 'framer-motion';
+import WinCountHistogram from './WinCountHistogram';
+
+const BATCH_OPTIONS = [1000, 10000, 25000, 50000];
 
 interface RaffleSimulatorProps {
   teams: TeamData[];
-  configuration: {
-    raffleModel: RaffleModelType;
-    numberOfRounds: number;
-    winnersPerRound: number;
-  };
+  configuration: RoundConfigurationSettings; // Model (with the configuration's overrides), rounds and winners per round
 }
 
 export const RaffleSimulator: React.FC<RaffleSimulatorProps> = ({
@@ -18,18 +22,29 @@ export const RaffleSimulator: React.FC<RaffleSimulatorProps> = ({
   configuration
 }) => {
   const [raffleResult, setRaffleResult] = useState<RaffleResult | null>(null);
+  const [participantNames, setParticipantNames] = useState<Record<string, string>>({});
   const [isRunning, setIsRunning] = useState(false);
+  const [batchSize, setBatchSize] = useState(BATCH_OPTIONS[1]);
+  const [batchTeams, setBatchTeams] = useState<TeamData[]>([]); // Roster the batch run started with
+  const { state: batch, actions: batchActions } = useSimulationWorker();
+  const model = resolveRaffleModel(configuration);
+  const winnersPerRound = configuration.winnersPerRound ?? 1;
+  const isBatchRunning = batch.status === 'running';
 
   const convertTeamsToParticipants = (teams: TeamData[]): RaffleParticipant[] => {
-    return teams.map((team, index) => ({
-      id: `team-${index}`,
-      name: team.Team,
-      email: `${team.Team.toLowerCase().replace(/\s+/g, '.')}@example.com`,
-      points: team.Points,
-      tickets: Math.max(1, Math.floor(team.Points / 100)),
-      isActive: true,
-      isWinner: false
-    }));
+    return teams.map((team, index) => {
+      const { bonus, total } = getTicketBreakdown(team, model.ticketFormula, model.bonusRules);
+      return {
+        id: `team-${index}`,
+        name: team.Team,
+        email: `${team.Team.toLowerCase().replace(/\s+/g, '.')}@example.com`,
+        points: team.Points,
+        tickets: total,
+        bonusTickets: bonus,
+        isActive: true,
+        isWinner: false
+      };
+    });
   };
 
   const runRaffle = () => {
@@ -40,19 +55,21 @@ export const RaffleSimulator: React.FC<RaffleSimulatorProps> = ({
     const participants = convertTeamsToParticipants(teams);
     const raffleConfig: RaffleConfiguration = {
       totalRounds: configuration.numberOfRounds,
-      winnersPerRound: configuration.winnersPerRound,
-      modelType: configuration.raffleModel,
-      participants
+      winnersPerRound,
+      model,
+      participants,
+      pointThresholds: ConfigurationManager.generateOptimalRounds(teams, configuration).map(round => round.pointThreshold)
     };
 
     const engine = new RaffleEngine(participants, raffleConfig);
 
     // Run all rounds
     for (let i = 0; i < configuration.numberOfRounds; i++) {
-      engine.runRound(configuration.raffleModel, configuration.winnersPerRound);
+      engine.runRound(winnersPerRound);
     }
 
     const result = engine.getResult();
+    setParticipantNames(Object.fromEntries(engine.getParticipants().map(p => [p.id, p.name])));
     setRaffleResult(result);
     setIsRunning(false);
   };
@@ -61,6 +78,13 @@ export const RaffleSimulator: React.FC<RaffleSimulatorProps> = ({
     setRaffleResult(null);
   };
 
+  // Many raffles in a Web Worker - progress streams into the histogram below
+  const runBatch = () => {
+    if (teams.length === 0) return;
+    setBatchTeams(teams);
+    batchActions.start(teams, configuration, batchSize);
+  };
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
       <div className="flex items-center justify-between mb-6">
@@ -93,7 +117,10 @@ export const RaffleSimulator: React.FC<RaffleSimulatorProps> = ({
           <div>
             <span className="text-gray-600 dark:text-gray-400">Model:</span>
             <div className="font-medium text-gray-900 dark:text-gray-100">
-              {configuration.raffleModel === RaffleModelType.UNIFORM_ELIMINATION ? 'Uniform Elimination' : 'Weighted Continuous'}
+              {model.name}
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              {describeEliminationRule(model.elimination)}
             </div>
           </div>
           <div>
@@ -102,7 +129,7 @@ export const RaffleSimulator: React.FC<RaffleSimulatorProps> = ({
           </div>
           <div>
             <span className="text-gray-600 dark:text-gray-400">Winners/Round:</span>
-            <div className="font-medium text-gray-900 dark:text-gray-100">{configuration.winnersPerRound}</div>
+            <div className="font-medium text-gray-900 dark:text-gray-100">{winnersPerRound}</div>
           </div>
           <div>
             <span className="text-gray-600 dark:text-gray-400">Participants:</span>
@@ -142,23 +169,40 @@ export const RaffleSimulator: React.FC<RaffleSimulatorProps> = ({
             <h4 className="font-bold text-blue-900 dark:text-blue-100 mb-3">📊 Round Summary</h4>
             <div className="space-y-2">
               {raffleResult.rounds.map((round) => (
-                <div key={round.roundNumber} className="flex justify-between items-center bg-white dark:bg-gray-700 p-3 rounded border">
-                  <div>
-                    <span className="font-medium text-gray-900 dark:text-gray-100">Round {round.roundNumber}</span>
-                  </div>
-                  <div className="text-sm text-gray-600 dark:text-gray-400">
-                    {round.participantsBefore} → {round.participantsAfter} participants
-                    {round.winners.length > 0 && (
-                      <span className="ml-2 text-green-600 dark:text-green-400">
-                        ({round.winners.length} winners)
-                      </span>
-                    )}
-                    {round.eliminated.length > 0 && (
-                      <span className="ml-2 text-red-600 dark:text-red-400">
-                        ({round.eliminated.length} eliminated)
-                      </span>
-                    )}
+                <div key={round.roundNumber} className="bg-white dark:bg-gray-700 p-3 rounded border">
+                  <div className="flex justify-between items-center">
+                    <div>
+                      <span className="font-medium text-gray-900 dark:text-gray-100">Round {round.roundNumber}</span>
+                    </div>
+                    <div className="text-sm text-gray-600 dark:text-gray-400">
+                      {round.participantsBefore} → {round.participantsAfter} participants
+                      {round.winners.length > 0 && (
+                        <span className="ml-2 text-green-600 dark:text-green-400">
+                          ({round.winners.length} winners)
+                        </span>
+                      )}
+                      {round.eliminated.length > 0 && (
+                        <span className="ml-2 text-red-600 dark:text-red-400">
+                          ({round.eliminated.length} eliminated)
+                        </span>
+                      )}
+                    </div>
                   </div>
+                  {round.eliminations.length > 0 && (
+                    <details className="mt-2 text-sm">
+                      <summary className="cursor-pointer text-red-600 dark:text-red-400">
+                        Who was eliminated and why
+                      </summary>
+                      <ul className="mt-1 space-y-1">
+                        {round.eliminations.map(({ participantId, reason }) => (
+                          <li key={participantId} className="flex justify-between gap-4 text-gray-700 dark:text-gray-300">
+                            <span className="font-medium">{participantNames[participantId] ?? participantId}</span>
+                            <span className="text-gray-500 dark:text-gray-400 text-right">{reason}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
                 </div>
               ))}
             </div>
@@ -166,6 +210,95 @@ export const RaffleSimulator: React.FC<RaffleSimulatorProps> = ({
         </motion.div>
       )}
 
+      {/* Batch Simulation */}
+      {teams.length > 0 && (
+        <div className="mt-6 p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <h4 className="font-semibold text-gray-900 dark:text-gray-100">📈 Batch Simulation</h4>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Runs many raffles in the background and compares each player&apos;s wins with their ticket odds.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <select
+                value={batchSize}
+                onChange={(e) => setBatchSize(parseInt(e.target.value))}
+                disabled={isBatchRunning}
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+              >
+                {BATCH_OPTIONS.map(option => (
+                  <option key={option} value={option}>{option.toLocaleString()} raffles</option>
+                ))}
+              </select>
+              {isBatchRunning ? (
+                <button
+                  onClick={batchActions.cancel}
+                  className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                >
+                  Cancel
+                </button>
+              ) : (
+                <button
+                  onClick={runBatch}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Simulate
+                </button>
+              )}
+              {!isBatchRunning && batch.status !== 'idle' && (
+                <button
+                  onClick={batchActions.reset}
+                  className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+          </div>
+
+          {batch.status !== 'idle' && (
+            <div>
+              <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-1">
+                <span>
+                  {batch.completed.toLocaleString()} of {batch.total.toLocaleString()} raffles
+                  {batch.status === 'cancelled' && ' - cancelled'}
+                  {batch.status === 'done' && ' - complete'}
+                </span>
+                <span>{batch.total > 0 ? Math.round((batch.completed / batch.total) * 100) : 0}%</span>
+              </div>
+              <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all ${batch.status === 'cancelled' ? 'bg-gray-400' : 'bg-blue-500'}`}
+                  style={{ width: `${batch.total > 0 ? (batch.completed / batch.total) * 100 : 0}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {batch.status === 'error' && (
+            <p className="text-sm text-red-600 dark:text-red-400">Simulation failed: {batch.error}</p>
+          )}
+
+          {batch.completed > 0 && (
+            <>
+              <WinCountHistogram
+                teams={batchTeams}
+                winningRuns={batch.winningRuns}
+                expected={batch.expected}
+                completed={batch.completed}
+              />
+              {(model.elimination.type !== 'none' || model.winnerRemoval === 'keep') && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Expected counts come from ticket odds and round thresholds only - this model&apos;s
+                  {model.elimination.type !== 'none' ? ' drop-outs' : ' repeat winners'} will move the simulated wins away from them.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
       {teams.length === 0 && (
         <div className="text-center py-8 text-gray-500 dark:text-gray-400">
           No participants loaded. Please upload team data to run a raffle simulation.
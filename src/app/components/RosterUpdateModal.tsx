@@ -0,0 +1,225 @@
+import React, { useState, useMemo, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { TeamData } from '@/types/raffle';
+import { RosterChange, RosterDiffContext } from '@/types/roster';
+import { diffRoster } from '@/services/rosterMerge';
+import { buildImportReport, getMissingImportFields, readImportFile, suggestColumnMapping } from '@/utils/playerImport';
+
+interface RosterUpdateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  teams: TeamData[]; // Running roster
+  context: RosterDiffContext;
+  onApply: (changes: RosterChange[]) => void;
+}
+
+const CHANGE_LABELS: Record<RosterChange['type'], { icon: string; label: string }> = {
+  added: { icon: '➕', label: 'New player' },
+  removed: { icon: '➖', label: 'Not in the new export' },
+  updated: { icon: '✏️', label: 'Changed' }
+};
+
+/**
+ * Upload a fresh export while the raffle is running, review the diff against
+ * the current roster and accept changes one by one. Conflicting changes (for
+ * players who already won or were drawn) start unchecked.
+ */
+const RosterUpdateModal: React.FC<RosterUpdateModalProps> = ({ isOpen, onClose, teams, context, onApply }) => {
+  const [incoming, setIncoming] = useState<TeamData[] | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [rejectedCount, setRejectedCount] = useState(0);
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const diff = useMemo(() => (incoming ? diffRoster(teams, incoming, context) : null), [teams, incoming, context]);
+
+  const reset = useCallback(() => {
+    setIncoming(null);
+    setFileName('');
+    setRejectedCount(0);
+    setAccepted(new Set());
+    setError(null);
+  }, []);
+
+  const handleClose = useCallback(() => {
+    reset();
+    onClose();
+  }, [reset, onClose]);
+
+  const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const table = await readImportFile(file);
+      const mapping = suggestColumnMapping(table.headers);
+      const missing = getMissingImportFields(mapping);
+      if (missing.length > 0) {
+        throw new Error(`Could not find a column for ${missing.join(' and ')} in ${file.name}.`);
+      }
+
+      const report = buildImportReport(table, mapping);
+      const nextDiff = diffRoster(teams, report.teams, context);
+      console.log(`🧾 ROSTER: ${file.name} has ${nextDiff.changes.length} changes against the running roster`);
+
+      setIncoming(report.teams);
+      setFileName(file.name);
+      setRejectedCount(report.rejected.length);
+      setAccepted(new Set(nextDiff.changes.filter(change => !change.conflict).map(change => change.id)));
+      setError(null);
+    } catch (err) {
+      console.error('Roster update error:', err);
+      setError(err instanceof Error ? err.message : 'Could not read the file.');
+    }
+  }, [teams, context]);
+
+  const toggleChange = (id: string) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    if (!diff) return;
+    onApply(diff.changes.filter(change => accepted.has(change.id)));
+    handleClose();
+  };
+
+  const describeChange = (change: RosterChange): string => {
+    if (change.type === 'added') return `${change.after?.Points} points`;
+    if (change.type === 'removed') return `${change.before?.Points} points`;
+    return (change.fields || [])
+      .map(field => `${field} ${change.before?.[field] || '—'} → ${change.after?.[field] || '—'}`)
+      .join(' • ');
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={handleClose}
+            className="fixed inset-0 bg-black bg-opacity-50 z-40"
+          />
+
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="fixed inset-4 md:inset-10 bg-white dark:bg-gray-800 rounded-lg shadow-2xl z-50 overflow-hidden"
+          >
+            <div className="h-full flex flex-col">
+              {/* Header */}
+              <div className="p-6 border-b border-gray-200 dark:border-gray-600">
+                <div className="flex justify-between items-center">
+                  <div>
+                    <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+                      Update Roster
+                    </h2>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {fileName ? `Comparing ${fileName} with ${teams.length} current players` : 'Upload a fresh export to review the changes before applying them'}
+                    </p>
+                  </div>
+                  <button
+                    onClick={handleClose}
+                    className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                  >
+                    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+
+              {/* Content */}
+              <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                {error && (
+                  <div className="p-3 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+                    {error}
+                  </div>
+                )}
+
+                <label className="block w-full p-4 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg hover:border-blue-500 dark:hover:border-blue-400 transition-colors text-center text-gray-600 dark:text-gray-400 cursor-pointer">
+                  {fileName ? 'Choose a different file' : 'Choose CSV, TSV or XLSX export'}
+                  <input type="file" accept=".csv,.tsv,.txt,.xlsx" onChange={handleFileUpload} className="hidden" />
+                </label>
+
+                {diff && (
+                  <>
+                    <p className="text-sm text-gray-700 dark:text-gray-300">
+                      {diff.changes.length} changes • {diff.unchangedCount} players unchanged
+                      {rejectedCount > 0 && ` • ${rejectedCount} rows in the file could not be read`}
+                    </p>
+
+                    {diff.changes.length === 0 ? (
+                      <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+                        The export matches the current roster.
+                      </div>
+                    ) : (
+                      <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+                        {diff.changes.map(change => (
+                          <li key={change.id}>
+                            <label className={`flex items-center gap-3 p-3 cursor-pointer ${change.conflict ? 'bg-yellow-50 dark:bg-yellow-900/20' : ''}`}>
+                              <input
+                                type="checkbox"
+                                checked={accepted.has(change.id)}
+                                onChange={() => toggleChange(change.id)}
+                              />
+                              <span>{CHANGE_LABELS[change.type].icon}</span>
+                              <div className="flex-1">
+                                <div className="font-medium text-gray-900 dark:text-gray-100">{change.team}</div>
+                                <div className="text-xs text-gray-500 dark:text-gray-400">
+                                  {CHANGE_LABELS[change.type].label} • {describeChange(change)}
+                                </div>
+                              </div>
+                              {change.conflict && (
+                                <span className="text-xs font-medium text-yellow-800 dark:text-yellow-200">
+                                  ⚠️ {change.conflict}
+                                </span>
+                              )}
+                            </label>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </>
+                )}
+              </div>
+
+              {/* Footer */}
+              <div className="p-6 border-t border-gray-200 dark:border-gray-600 flex justify-end gap-3">
+                <button
+                  onClick={handleClose}
+                  className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:underline cursor-pointer"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleApply}
+                  disabled={accepted.size === 0}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Apply {accepted.size} {accepted.size === 1 ? 'change' : 'changes'}
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default RosterUpdateModal;
@@ -1,11 +1,29 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { TeamData } from '@/types/raffle';
+import { RaffleRound, TeamData } from '@/types/raffle';
+import { EligibilityRules, EligibilitySettings } from '@/types/eligibility';
 import { RoundConfigurationSettings, ConfigurationManager } from '@/utils/configurationManager';
-import { RaffleModelType } from '@/types/raffleModels';
+import { BonusRule, RaffleModel, RaffleModelType, RoundThresholdStrategy, TicketFormula } from '@/types/raffleModels';
+import { THRESHOLD_STRATEGY_LABELS, getRaffleModel, isContinuousModel, resolveRaffleModel } from '@/services/raffleModels';
+import {
+  countSurvivors,
+  createThresholdStrategy,
+  describeThresholdStrategy,
+  getRoundThresholds,
+  validateThresholdStrategy
+} from '@/services/roundThresholds';
+import { describeTicketFormula, validateTicketFormula } from '@/services/ticketFormula';
+import { getTicketBreakdown } from '@/services/bonusTickets';
+import { describeEligibilityRules, hasEligibilityRules, meetsEligibilityRules, resolveRoundRules } from '@/services/eligibilityRules';
 import TicketDistributionChart from './TicketDistributionChart';
+import TicketFormulaEditor from './TicketFormulaEditor';
+import ThresholdStrategyEditor from './ThresholdStrategyEditor';
+import BonusRulesEditor from './BonusRulesEditor';
+import EligibilityRulesEditor from './EligibilityRulesEditor';
 import { RaffleModelSelector } from './RaffleModelSelector';
 
+const MAX_WINNERS_PER_ROUND = 10;
+
 // Add to the props
 interface RoundConfigurationSettingsProps {
   teams: TeamData[];
@@ -31,6 +49,12 @@ const RoundConfigurationSettingsComponent: React.FC<RoundConfigurationSettingsPr
   );
 
   const [showChart, setShowChart] = useState(true);
+  // Formula being edited - previewed in the chart until it is applied to the settings
+  const [formulaDraft, setFormulaDraft] = useState<TicketFormula | null>(null);
+  // Threshold strategy being edited - compared with the others until it is applied
+  const [strategyDraft, setStrategyDraft] = useState<RoundThresholdStrategy | null>(null);
+  // Round whose eligibility override is open for editing
+  const [editingOverrideRound, setEditingOverrideRound] = useState<number | null>(null);
   const previousSettingsRef = useRef<string>('');
 
   // Memoize the preview rounds calculation to prevent unnecessary recalculations
@@ -71,12 +95,129 @@ const RoundConfigurationSettingsComponent: React.FC<RoundConfigurationSettingsPr
     }
   };
 
-  const handleRaffleModelChange = (model: RaffleModelType) => {
-    setSettings(prev => ({ ...prev, raffleModel: model }));
+  const handleRaffleModelChange = (modelId: string) => {
+    setSettings(prev => ({ ...prev, raffleModel: modelId }));
+  };
+
+  const handleCustomModelsChange = (customModels: RaffleModel[]) => {
+    setSettings(prev => ({ ...prev, customModels }));
+  };
+
+  // Same fallback generateOptimalRounds uses when no model is set
+  const selectedModelId = settings.raffleModel || RaffleModelType.UNIFORM_ELIMINATION;
+  const selectedModel = getRaffleModel(selectedModelId, settings.customModels);
+  const isWeightedContinuous = isContinuousModel(resolveRaffleModel({ ...settings, raffleModel: selectedModelId }));
+
+  // The configuration's own formula replaces the model's (see resolveRaffleModel)
+  const activeFormula = settings.ticketFormula ?? selectedModel.ticketFormula;
+  const canApplyFormula = formulaDraft !== null && validateTicketFormula(formulaDraft).length === 0;
+
+  const handleApplyFormula = () => {
+    if (!formulaDraft || !canApplyFormula) return;
+    setSettings(prev => ({ ...prev, ticketFormula: formulaDraft }));
+    setFormulaDraft(null);
+  };
+
+  const handleUseModelFormula = () => {
+    setSettings(prev => {
+      const next = { ...prev };
+      delete next.ticketFormula;
+      return next;
+    });
+    setFormulaDraft(null);
   };
 
-  const getExpectedPlayerCount = (threshold: number) => {
-    return teams.filter(team => team.Points >= threshold).length;
+  // The configuration's own threshold strategy replaces the model's (see resolveRaffleModel)
+  const activeStrategy = settings.thresholdStrategy ?? selectedModel.thresholdStrategy;
+  const canApplyStrategy = strategyDraft !== null && validateThresholdStrategy(strategyDraft).length === 0;
+
+  const handleApplyStrategy = () => {
+    if (!strategyDraft || !canApplyStrategy) return;
+    setSettings(prev => ({ ...prev, thresholdStrategy: strategyDraft }));
+    setStrategyDraft(null);
+  };
+
+  const handleUseModelStrategy = () => {
+    setSettings(prev => {
+      const next = { ...prev };
+      delete next.thresholdStrategy;
+      return next;
+    });
+    setStrategyDraft(null);
+  };
+
+  // Survivors per round under every elimination strategy - the draft and the
+  // active strategy keep their own settings, the rest use starting values
+  const strategyComparison = useMemo(() => {
+    if (!strategyDraft || teams.length === 0) return [];
+    const points = teams.map(team => team.Points);
+    return (Object.keys(THRESHOLD_STRATEGY_LABELS) as RoundThresholdStrategy['type'][])
+      .filter(type => type !== 'none')
+      .map(type => {
+        const strategy = strategyDraft.type === type
+          ? strategyDraft
+          : activeStrategy.type === type
+            ? activeStrategy
+            : createThresholdStrategy(type, settings.numberOfRounds, teams.length);
+        const valid = validateThresholdStrategy(strategy).length === 0;
+        const thresholds = valid ? getRoundThresholds(strategy, points, settings.numberOfRounds) : [];
+        return { type, strategy, valid, thresholds, survivors: countSurvivors(points, thresholds) };
+      });
+  }, [strategyDraft, activeStrategy, teams, settings.numberOfRounds]);
+
+  const bonusRules = useMemo(() => settings.bonusRules ?? [], [settings.bonusRules]);
+
+  // Players earning a bonus under the saved formula, for the section summary
+  const bonusSummary = useMemo(() => {
+    const breakdowns = teams.map(team => getTicketBreakdown(team, activeFormula, bonusRules));
+    return {
+      players: breakdowns.filter(breakdown => breakdown.bonus > 0).length,
+      tickets: breakdowns.reduce((sum, breakdown) => sum + breakdown.bonus, 0)
+    };
+  }, [teams, activeFormula, bonusRules]);
+
+  const handleBonusRulesChange = (rules: BonusRule[]) => {
+    setSettings(prev => {
+      const next: RoundConfigurationSettings = { ...prev, bonusRules: rules };
+      if (rules.length === 0) delete next.bonusRules;
+      return next;
+    });
+  };
+
+  const { roundOverrides = {}, ...eligibilityRules } = settings.eligibility ?? {};
+  const excludedByRules = teams.filter(team => !meetsEligibilityRules(team, eligibilityRules)).length;
+
+  const handleEligibilityChange = (eligibility: EligibilitySettings) => {
+    setSettings(prev => {
+      const next: RoundConfigurationSettings = { ...prev, eligibility };
+      if (!hasEligibilityRules(eligibility) && !eligibility.roundOverrides) delete next.eligibility;
+      return next;
+    });
+  };
+
+  const handleRoundOverrideChange = (roundId: number, rules?: EligibilityRules) => {
+    const overrides = { ...roundOverrides };
+    if (rules) {
+      overrides[roundId] = rules;
+    } else {
+      delete overrides[roundId];
+    }
+    handleEligibilityChange({
+      ...eligibilityRules,
+      ...(Object.keys(overrides).length > 0 && { roundOverrides: overrides })
+    });
+  };
+
+  const handleWinnersPerRoundChange = (value: string) => {
+    const numericValue = parseInt(value, 10);
+    if (!isNaN(numericValue) && numericValue >= 1 && numericValue <= MAX_WINNERS_PER_ROUND) {
+      setSettings(prev => ({ ...prev, winnersPerRound: numericValue }));
+    }
+  };
+
+  const getExpectedPlayerCount = (round: RaffleRound) => {
+    const rules = resolveRoundRules(settings.eligibility, round);
+    return teams.filter(team => team.Points >= round.pointThreshold && meetsEligibilityRules(team, rules)).length;
   };
 
   return (
@@ -118,9 +259,257 @@ const RoundConfigurationSettingsComponent: React.FC<RoundConfigurationSettingsPr
       {/* Raffle Model Selection */}
       <div className="mt-6">
         <RaffleModelSelector
-          selectedModel={settings.raffleModel || RaffleModelType.UNIFORM_ELIMINATION}
+          selectedModel={selectedModelId}
           onModelChange={handleRaffleModelChange}
+          customModels={settings.customModels}
+          onCustomModelsChange={handleCustomModelsChange}
+        />
+      </div>
+
+      {/* Ticket Formula */}
+      <div className="mt-6 bg-white dark:bg-gray-800 p-6 rounded-lg shadow-md space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              Ticket Formula
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {describeTicketFormula(activeFormula)} • {settings.ticketFormula ? 'set for this configuration' : `from ${selectedModel.name}`}
+            </p>
+          </div>
+          {!formulaDraft && (
+            <div className="flex gap-3 text-sm">
+              {settings.ticketFormula && (
+                <button
+                  onClick={handleUseModelFormula}
+                  className="text-gray-600 dark:text-gray-400 hover:underline cursor-pointer"
+                >
+                  Use model&apos;s formula
+                </button>
+              )}
+              <button
+                onClick={() => setFormulaDraft(activeFormula)}
+                className="text-blue-600 dark:text-blue-400 hover:underline cursor-pointer"
+              >
+                Customize
+              </button>
+            </div>
+          )}
+        </div>
+
+        {formulaDraft && (
+          <>
+            <TicketFormulaEditor formula={formulaDraft} onChange={setFormulaDraft} />
+            <p className="text-xs text-blue-600 dark:text-blue-400">
+              The distribution chart below previews this formula. Nothing changes until you apply it.
+            </p>
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setFormulaDraft(null)}
+                className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400 hover:underline cursor-pointer"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleApplyFormula}
+                disabled={!canApplyFormula}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors cursor-pointer"
+              >
+                Apply Formula
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Round Thresholds */}
+      <div className="mt-6 bg-white dark:bg-gray-800 p-6 rounded-lg shadow-md space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              Round Thresholds
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {describeThresholdStrategy(activeStrategy)} • {settings.thresholdStrategy ? 'set for this configuration' : `from ${selectedModel.name}`}
+            </p>
+          </div>
+          {!strategyDraft && (
+            <div className="flex gap-3 text-sm">
+              {settings.thresholdStrategy && (
+                <button
+                  onClick={handleUseModelStrategy}
+                  className="text-gray-600 dark:text-gray-400 hover:underline cursor-pointer"
+                >
+                  Use model&apos;s thresholds
+                </button>
+              )}
+              <button
+                onClick={() => setStrategyDraft(activeStrategy)}
+                className="text-blue-600 dark:text-blue-400 hover:underline cursor-pointer"
+              >
+                Customize
+              </button>
+            </div>
+          )}
+        </div>
+
+        {strategyDraft && (
+          <>
+            <ThresholdStrategyEditor
+              strategy={strategyDraft}
+              onChange={setStrategyDraft}
+              numberOfRounds={settings.numberOfRounds}
+              playerCount={teams.length}
+            />
+
+            {strategyComparison.length > 0 && (
+              <div className="overflow-x-auto">
+                <p className="text-xs text-blue-600 dark:text-blue-400 mb-2">
+                  Players left in each round under each strategy. Click a strategy to edit it. Nothing changes until you apply it.
+                </p>
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 dark:text-gray-400">
+                      <th className="px-3 py-2 font-medium">Round</th>
+                      {strategyComparison.map(({ type, strategy }) => (
+                        <th
+                          key={type}
+                          onClick={() => strategyDraft.type !== type && setStrategyDraft(strategy)}
+                          className={`px-3 py-2 font-medium cursor-pointer ${
+                            strategyDraft.type === type ? 'text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30' : 'hover:underline'
+                          }`}
+                        >
+                          {THRESHOLD_STRATEGY_LABELS[type]}
+                          {activeStrategy.type === type && <span className="ml-1 text-xs font-normal">(current)</span>}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="text-gray-900 dark:text-gray-100">
+                    {Array.from({ length: settings.numberOfRounds }, (_, roundIndex) => (
+                      <tr key={roundIndex} className="border-t border-gray-200 dark:border-gray-700">
+                        <td className="px-3 py-2">Round {roundIndex + 1}</td>
+                        {strategyComparison.map(({ type, valid, thresholds, survivors }) => (
+                          <td
+                            key={type}
+                            className={`px-3 py-2 ${strategyDraft.type === type ? 'bg-blue-50 dark:bg-blue-900/30 font-semibold' : ''}`}
+                          >
+                            {valid ? (
+                              <>
+                                {survivors[roundIndex]} players
+                                <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">({thresholds[roundIndex]}+)</span>
+                              </>
+                            ) : '—'}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setStrategyDraft(null)}
+                className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400 hover:underline cursor-pointer"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleApplyStrategy}
+                disabled={!canApplyStrategy}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors cursor-pointer"
+              >
+                Apply Thresholds
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Bonus Tickets */}
+      <div className="mt-6 bg-white dark:bg-gray-800 p-6 rounded-lg shadow-md space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            Bonus Tickets
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {bonusRules.length === 0
+              ? 'Reward engagement with tickets on top of the formula, based on Submissions and Last Submission'
+              : `${bonusSummary.players} of ${teams.length} players earn ${bonusSummary.tickets} bonus tickets`}
+          </p>
+        </div>
+        <BonusRulesEditor rules={bonusRules} onChange={handleBonusRulesChange} />
+      </div>
+
+      {/* Eligibility Rules */}
+      <div className="mt-6 bg-white dark:bg-gray-800 p-6 rounded-lg shadow-md space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            Eligibility Rules
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {describeEligibilityRules(eligibilityRules)}
+            {excludedByRules > 0 && ` • ${excludedByRules} of ${teams.length} players excluded`}
+          </p>
+        </div>
+        <EligibilityRulesEditor
+          rules={eligibilityRules}
+          onChange={(rules) => handleEligibilityChange({ ...rules, ...(Object.keys(roundOverrides).length > 0 && { roundOverrides }) })}
+          teams={teams}
         />
+
+        {previewRounds.length > 0 && (
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-700 space-y-2">
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Round Overrides</h4>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Fields set for a round replace the rules above for that round only; empty fields keep them.
+            </p>
+            {previewRounds.map(round => {
+              const override = roundOverrides[round.id];
+              return (
+                <div key={round.id} className="text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-700 dark:text-gray-300">
+                      {round.name}
+                      {override && <span className="ml-2 text-blue-600 dark:text-blue-400">{describeEligibilityRules(override)}</span>}
+                    </span>
+                    <div className="flex gap-3">
+                      {override && (
+                        <button
+                          onClick={() => {
+                            handleRoundOverrideChange(round.id);
+                            setEditingOverrideRound(null);
+                          }}
+                          className="text-red-600 dark:text-red-400 hover:underline text-xs cursor-pointer"
+                        >
+                          Remove
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setEditingOverrideRound(editingOverrideRound === round.id ? null : round.id)}
+                        className="text-blue-600 dark:text-blue-400 hover:underline text-xs cursor-pointer"
+                      >
+                        {editingOverrideRound === round.id ? 'Done' : override ? 'Edit' : '+ Override'}
+                      </button>
+                    </div>
+                  </div>
+                  {editingOverrideRound === round.id && (
+                    <div className="mt-2 p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+                      <EligibilityRulesEditor
+                        key={round.id}
+                        rules={override ?? {}}
+                        onChange={(rules) => handleRoundOverrideChange(round.id, hasEligibilityRules(rules) ? rules : undefined)}
+                        teams={teams}
+                      />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
       </div>
 
       {/* Winners Per Round */}
@@ -131,14 +520,30 @@ const RoundConfigurationSettingsComponent: React.FC<RoundConfigurationSettingsPr
         <input
           type="number"
           min="1"
-          max="1"
-          value={1}
-          readOnly
-          className="mt-1 block w-32 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm bg-gray-100 dark:bg-gray-600 text-gray-900 dark:text-gray-100 cursor-not-allowed"
+          max={MAX_WINNERS_PER_ROUND}
+          value={settings.winnersPerRound || 1}
+          onChange={(e) => handleWinnersPerRoundChange(e.target.value)}
+          className="mt-1 block w-32 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
         />
         <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-          Fixed at 1 winner per round for this system
+          The round advances once every winner has been confirmed (1-{MAX_WINNERS_PER_ROUND})
         </p>
+
+        {(settings.winnersPerRound || 1) > 1 && (
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Drawing Winners
+            </label>
+            <select
+              value={settings.multiWinnerDraw || 'sequence'}
+              onChange={(e) => setSettings(prev => ({ ...prev, multiWinnerDraw: e.target.value as 'sequence' | 'all' }))}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            >
+              <option value="sequence">One at a time - confirm each winner before the next draw</option>
+              <option value="all">All at once - draw every winner, then confirm each one</option>
+            </select>
+          </div>
+        )}
       </div>
 
       {/* Ticket Distribution Chart */}
@@ -147,6 +552,9 @@ const RoundConfigurationSettingsComponent: React.FC<RoundConfigurationSettingsPr
           <div className="flex items-center justify-between mb-4">
             <h4 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
               📊 Ticket Distribution Visualization
+              {formulaDraft && (
+                <span className="ml-2 text-sm font-normal text-blue-600 dark:text-blue-400">(previewing unsaved formula)</span>
+              )}
             </h4>
             <button
               onClick={() => setShowChart(!showChart)}
@@ -157,7 +565,11 @@ const RoundConfigurationSettingsComponent: React.FC<RoundConfigurationSettingsPr
           </div>
           {showChart && (
             <div key={`chart-${teams.length}-${settings.numberOfRounds}`}>
-              <TicketDistributionChart teams={teams} />
+              <TicketDistributionChart
+                teams={teams}
+                ticketFormula={formulaDraft && canApplyFormula ? formulaDraft : activeFormula}
+                bonusRules={bonusRules}
+              />
             </div>
           )}
         </div>
@@ -180,12 +592,11 @@ const RoundConfigurationSettingsComponent: React.FC<RoundConfigurationSettingsPr
           </div>
           <div className="space-y-3">
             {previewRounds.map((round, index) => {
-              const isWeightedContinuous = settings.raffleModel === RaffleModelType.WEIGHTED_CONTINUOUS;
               const playersRemaining = isWeightedContinuous ? teams.length : 
-                (teams.length > 0 ? getExpectedPlayerCount(round.pointThreshold) : 0);
+                (teams.length > 0 ? getExpectedPlayerCount(round) : 0);
               const previousPlayersRemaining = index === 0 ? teams.length : 
                 (isWeightedContinuous ? teams.length : 
-                  (teams.length > 0 ? getExpectedPlayerCount(previewRounds[index - 1].pointThreshold) : 0));
+                  (teams.length > 0 ? getExpectedPlayerCount(previewRounds[index - 1]) : 0));
               const playersDropped = isWeightedContinuous ? 0 : previousPlayersRemaining - playersRemaining;
               
               return (
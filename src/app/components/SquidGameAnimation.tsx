@@ -3,6 +3,8 @@ import { TeamData } from '@/types/raffle';
 import SquidGameUserPhoto from './SquidGameUserPhoto';
 import { getSquidGamePhotoPath, getFallbackAvatar } from '@/utils/photoUtils';
 import seedrandom from 'seedrandom';
+import { getTeamTickets } from '@/services/bonusTickets';
+import { BonusRule, TicketFormula } from '@/types/raffleModels';
 
 /**
  * Represents a ticket/player in the raffle grid
@@ -34,21 +36,24 @@ interface SquidGameAnimationProps {
   isSpinning: boolean; // Whether the raffle animation should be running
   previousWinners?: string[]; // Previous winners from earlier rounds (orange overlay)
   withdrawnPlayers?: string[]; // Players who were withdrawn after being selected (red X)
-  onWinner: (winner: string) => void; // Callback when a winner is selected
+  winner?: string; // Winner already chosen by the draw service - the animation only reveals it
+  onWinner: (winner: string) => void; // Callback when the winner has been revealed
   onSpinComplete: () => void; // Callback when the spin animation completes
-  onClose: () => void; // Callback to close the animation view
+  onClose?: () => void; // Callback to close the animation view - omitted on the audience screen
+  ticketFormula?: TicketFormula; // Active formula, so the grid shows the tickets the draw uses
+  bonusRules?: BonusRule[]; // Bonus tickets on top of the formula
 }
 
 /**
  * SquidGameAnimation Component
  * 
  * A comprehensive raffle animation component that displays participants in a grid layout
- * similar to Squid Game's visual style. Handles weighted random selection, visual animations,
- * winner management, and player status tracking.
+ * similar to Squid Game's visual style. Reveals the winner already chosen by the draw service
+ * with visual animations, and tracks player status for display.
  * 
  * Key Features:
  * - Grid-based display of all participants with photos
- * - Weighted random selection based on ticket counts
+ * - Winner selection lives in services/drawService - this component never picks one
  * - Visual animation during selection process
  * - Color-coded overlays for different player states
  * - Support for winner withdrawal and re-drawing
@@ -60,9 +65,12 @@ const SquidGameAnimation: React.FC<SquidGameAnimationProps> = ({
   isSpinning,
   previousWinners = [], // Default to empty array if not provided
   withdrawnPlayers = [], // Default to empty array if not provided
+  winner,
   onWinner,
   onSpinComplete,
-  onClose
+  onClose,
+  ticketFormula,
+  bonusRules
 }) => {
   // =============================================================================
   // STATE MANAGEMENT
@@ -383,7 +391,7 @@ const SquidGameAnimation: React.FC<SquidGameAnimationProps> = ({
     const eligibleTeamNames = teams.map(t => t.Team); // Only currently eligible teams can be selected
     
     displayTeams.forEach((team) => {
-      const actualTicketCount = Math.floor(team.Points / 100);
+      const actualTicketCount = getTeamTickets(team, ticketFormula, bonusRules);
       const isAutoWithdrawn = actualTicketCount === 0; // Players with 0 tickets are auto-withdrawn
       
       // Use the playerNumber from TeamData if available, otherwise fall back to ranking by points
@@ -495,7 +503,7 @@ const SquidGameAnimation: React.FC<SquidGameAnimationProps> = ({
       }
     });
     console.log(`===============================`);
-  }, [teams, allTeams, winners, eliminated, withdrawn]);
+  }, [teams, allTeams, winners, eliminated, withdrawn, ticketFormula, bonusRules]);
 
   /**
    * Cleanup effect to clear animation timeouts when component unmounts
@@ -518,11 +526,10 @@ const SquidGameAnimation: React.FC<SquidGameAnimationProps> = ({
    * 
    * Process:
    * 1. Filters eligible participants (not winners, withdrawn, or eliminated)
-   * 2. Creates weighted ticket pool based on participant ticket counts
+   * 2. Creates weighted ticket pool for the visual cycling
    * 3. Runs visual animation with speed phases (fast -> medium -> slow)
-   * 4. Selects final winner using weighted random selection
-   * 5. Handles edge cases (duplicate winners, withdrawals)
-   * 6. Triggers callbacks and state updates
+   * 4. Lands on the winner provided by the draw service
+   * 5. Triggers callbacks and state updates
    */
   const startLotteryAnimation = useCallback(() => {
     if (tickets.length === 0) return;
@@ -589,41 +596,16 @@ const SquidGameAnimation: React.FC<SquidGameAnimationProps> = ({
      */
     const animate = () => {
       if (elapsed >= totalDuration) {
-        // Animation complete - select final winner
-        const randomSeed = Math.floor(rng() * 999999999); // Very high random number
-        const randomIndex = randomSeed % shuffledWeightedTickets.length;
-        let finalWinnerId = shuffledWeightedTickets[randomIndex];
-        
+        // Animation complete - reveal the winner chosen by the draw service
+        if (!winner) {
+          console.log('❌ No winner provided by the draw service');
+          setRaffleState('idle');
+          return;
+        }
+        const finalWinnerId = winner;
+
         console.log(`🎯 FINAL SELECTION DEBUG 🎯`);
-        console.log(`Random index selected: ${randomIndex} out of ${shuffledWeightedTickets.length} total tickets`);
         console.log(`Selected ticket: "${finalWinnerId}"`);
-        console.log(`Is previous winner: ${winners.includes(finalWinnerId)}`);
-        
-        // Check if this winner was already a winner (previous winner drawn again)
-        if (winners.includes(finalWinnerId)) {
-          // This is a previous winner being drawn again - mark as withdrawn/eliminated
-          console.log(`❌ ${finalWinnerId} was already a winner - marking as withdrawn and redrawing`);
-          setEliminated(prev => [...prev, finalWinnerId]);
-          // Note: No need to update tickets directly since we compute status from state arrays during render
-          
-          // Continue drawing until we get a new winner (not a previous winner)
-          let attempts = 0;
-          const maxAttempts = 50; // Prevent infinite loop
-          console.log(`🔄 Redrawing for new winner...`);
-          while (winners.includes(finalWinnerId) && attempts < maxAttempts) {
-            const newRandomIndex = Math.floor(rng() * shuffledWeightedTickets.length);
-            finalWinnerId = shuffledWeightedTickets[newRandomIndex];
-            attempts++;
-            console.log(`  Attempt ${attempts}: Index ${newRandomIndex} -> "${finalWinnerId}" (Previous winner: ${winners.includes(finalWinnerId)})`);
-          }
-          
-          if (attempts >= maxAttempts) {
-            console.log('❌ No new winners available - all eligible participants are previous winners');
-            setRaffleState('idle');
-            return;
-          }
-          console.log(`✅ New winner found after ${attempts} attempts: "${finalWinnerId}"`);
-        }
         
         console.log(`🏆 FINAL WINNER: "${finalWinnerId}"`);
         console.log(`Winner's player number: #${eligibleTickets.find(t => t.teamName === finalWinnerId)?.playerNumber}`);
@@ -716,7 +698,7 @@ const SquidGameAnimation: React.FC<SquidGameAnimationProps> = ({
     };
 
     animate();
-  }, [tickets, teams, rng, onWinner, onSpinComplete, shuffleArray, winners, withdrawn, withdrawnPlayers, eliminated, raffleState, playWinnerSound]);
+  }, [tickets, teams, rng, onWinner, onSpinComplete, shuffleArray, winners, withdrawn, withdrawnPlayers, eliminated, raffleState, playWinnerSound, winner]);
 
   /**
    * Effect to trigger raffle animation when spinning begins
@@ -749,85 +731,30 @@ const SquidGameAnimation: React.FC<SquidGameAnimationProps> = ({
   // =============================================================================
 
   /**
-   * Manual winner selection function (fallback/testing)
-   * Performs immediate weighted random selection without animation
+   * Manual winner reveal function (fallback/testing)
+   * Immediately reveals the draw service's winner without animation
    * Used when automatic animation fails or for testing purposes
    */
   const handlePickWinner = useCallback(() => {
-    if (tickets.length === 0) return;
+    if (!winner) return;
     
-    // Create weighted selection based on eligible teams only (not previous winners, withdrawn, or eliminated)
-    const eligibleTeamNames = teams.map(t => t.Team);
-    const activeTickets = tickets.filter(ticket => 
-      eligibleTeamNames.includes(ticket.teamName) && 
-      !winners.includes(ticket.teamName) && 
-      !withdrawn.includes(ticket.teamName) && 
-      !withdrawnPlayers.includes(ticket.teamName) && 
-      !eliminated.includes(ticket.teamName) &&
-      ticket.ticketCount && ticket.ticketCount > 0 // Exclude players with 0 tickets
-    );
-    const weightedTickets: string[] = [];
-    activeTickets.forEach(ticket => {
-      const count = ticket.ticketCount || 1;
-      for (let i = 0; i < count; i++) {
-        weightedTickets.push(ticket.teamName);
-      }
-    });
-    
-    if (weightedTickets.length === 0) return;
-    
-    // Enhanced 10x shuffle and select random winner from weighted array
-    let shuffledWeightedTickets = shuffleArray(weightedTickets);
-    for (let i = 0; i < 10; i++) {
-      shuffledWeightedTickets = shuffleArray(shuffledWeightedTickets);
-      console.log(`🔀 Manual selection shuffle pass ${i + 1}/10: First 5 tickets: [${shuffledWeightedTickets.slice(0, 5).join(', ')}]`);
-    }
-    let winnerName = shuffledWeightedTickets[Math.floor(rng() * shuffledWeightedTickets.length)];
+    setSelectedWinner(winner);
     
-    // Check if this winner was already a winner (previous winner drawn again)
-    if (winners.includes(winnerName)) {
-      // This is a previous winner being drawn again - mark as withdrawn/eliminated
-      console.log(`${winnerName} was already a winner - marking as withdrawn`);
-      setEliminated(prev => [...prev, winnerName]);
-      // Note: No need to update tickets directly since we compute status from state arrays during render
-      
-      // Continue drawing until we get a new winner (not a previous winner)
-      let attempts = 0;
-      const maxAttempts = 50; // Prevent infinite loop
-      while (winners.includes(winnerName) && attempts < maxAttempts) {
-        winnerName = shuffledWeightedTickets[Math.floor(rng() * shuffledWeightedTickets.length)];
-        attempts++;
-      }
-      
-      if (attempts >= maxAttempts) {
-        console.log('No new winners available - all eligible participants are previous winners');
-        return;
-      }
-    }
-    
-    // Set the final winner (guaranteed to be a new winner)
-    setSelectedWinner(winnerName);
-    
-    console.log(`🏆 MANUAL WINNER SELECTION 🏆`);
+    console.log(`🏆 MANUAL WINNER REVEAL 🏆`);
     console.log(`Previous winners:`, winners);
-    console.log(`Selected winner: "${winnerName}"`);
+    console.log(`Selected winner: "${winner}"`);
     
     // Add new winner to winners list
-    setWinners(prev => {
-      const newWinners = [...prev, winnerName];
-      console.log(`Updated winners array (manual):`, newWinners);
-      return newWinners;
-    });
-    // Note: No need to update tickets directly since we compute isWinner from winners array during render
+    setWinners(prev => [...prev, winner]);
     
     // Call winner callback after delay
     setTimeout(() => {
-      onWinner(winnerName);
+      onWinner(winner);
       setTimeout(() => {
         onSpinComplete();
       }, 2000);
     }, 1000);
-  }, [tickets, teams, rng, onWinner, onSpinComplete, shuffleArray, winners, withdrawn, withdrawnPlayers, eliminated]);
+  }, [winner, onWinner, onSpinComplete, winners]);
 
   /**
    * Handles winner withdrawal and automatic re-drawing
@@ -1006,15 +933,17 @@ const SquidGameAnimation: React.FC<SquidGameAnimationProps> = ({
           )}
           
           {/* Close button */}
-          <button
-            onClick={onClose}
-            className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded transition-colors"
-            title="Close Squid Game"
-          >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-            </svg>
-          </button>
+          {onClose && (
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded transition-colors"
+              title="Close Squid Game"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          )}
         </div>
       </div>
 
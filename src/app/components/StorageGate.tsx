@@ -0,0 +1,82 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { StorageErrorEvent } from '@/types/storage';
+import { initializeStorage, onStorageError } from '@/services/raffleStorage';
+
+interface StorageGateProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Holds the app back until saved data has loaded (and been migrated), then
+ * shows a banner whenever a save fails so the host knows to free up space,
+ * or when server storage is offline or another browser saved first.
+ */
+const StorageGate: React.FC<StorageGateProps> = ({ children }) => {
+  const [status, setStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<StorageErrorEvent | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    initializeStorage()
+      .then(() => {
+        if (!cancelled) setStatus('ready');
+      })
+      .catch(error => {
+        console.error('❌ STORAGE: Could not load saved data:', error);
+        if (cancelled) return;
+        setLoadError(error instanceof Error ? error.message : String(error));
+        setStatus('error');
+      });
+    const unsubscribe = onStorageError(setSaveError);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-900 text-gray-300">
+        Loading saved raffles...
+      </div>
+    );
+  }
+
+  if (status === 'error') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-900 p-6">
+        <div className="max-w-lg bg-red-900/40 border border-red-500 rounded-lg p-6 text-red-100">
+          <h1 className="text-xl font-bold mb-2">Saved data could not be opened</h1>
+          <p>{loadError}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {saveError && (
+        <div
+          role="alert"
+          className={`fixed top-0 inset-x-0 z-50 flex items-center justify-between gap-4 text-white px-4 py-2 shadow-lg ${
+            saveError.kind === 'offline' ? 'bg-amber-600' : 'bg-red-700'
+          }`}
+        >
+          <span>{saveError.kind === 'quota' ? '💾 ' : saveError.kind === 'offline' ? '📡 ' : '⚠️ '}{saveError.message}</span>
+          <button
+            onClick={() => setSaveError(null)}
+            className={`px-3 py-1 rounded text-sm ${saveError.kind === 'offline' ? 'bg-amber-800 hover:bg-amber-700' : 'bg-red-900 hover:bg-red-800'}`}
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+      {children}
+    </>
+  );
+};
+
+export default StorageGate;
@@ -0,0 +1,147 @@
+import React from 'react';
+import { RoundThresholdStrategy } from '@/types/raffleModels';
+import { THRESHOLD_STRATEGY_LABELS } from '@/services/raffleModels';
+import { createThresholdStrategy, validateThresholdStrategy } from '@/services/roundThresholds';
+
+interface ThresholdStrategyEditorProps {
+  strategy: RoundThresholdStrategy;
+  onChange: (strategy: RoundThresholdStrategy) => void;
+  numberOfRounds?: number; // Sizes the lists when switching strategy
+  playerCount?: number;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+type ListStrategy = Extract<RoundThresholdStrategy, { type: 'percentiles' | 'target_survivors' | 'manual' }>;
+
+const LIST_FIELDS: Record<ListStrategy['type'], { unit: string; hint: string }> = {
+  percentiles: { unit: 'th percentile', hint: 'Players at or above this percentile of points stay in' },
+  target_survivors: { unit: 'players', hint: 'The top players by points stay in - ties at the cutoff are kept' },
+  manual: { unit: 'points', hint: 'Minimum points to stay in' }
+};
+
+const getList = (strategy: ListStrategy): number[] => {
+  switch (strategy.type) {
+    case 'percentiles':
+      return strategy.percentiles;
+    case 'target_survivors':
+      return strategy.survivors;
+    default:
+      return strategy.thresholds;
+  }
+};
+
+const withList = (strategy: ListStrategy, values: number[]): ListStrategy => {
+  switch (strategy.type) {
+    case 'percentiles':
+      return { ...strategy, percentiles: values };
+    case 'target_survivors':
+      return { ...strategy, survivors: values };
+    default:
+      return { ...strategy, thresholds: values };
+  }
+};
+
+/**
+ * Fields for one threshold strategy. Problems are listed under the fields as
+ * the operator types; callers decide whether an invalid strategy can be saved.
+ */
+const ThresholdStrategyEditor: React.FC<ThresholdStrategyEditorProps> = ({ strategy, onChange, numberOfRounds, playerCount }) => {
+  const errors = validateThresholdStrategy(strategy);
+
+  const renderList = (listStrategy: ListStrategy) => {
+    const values = getList(listStrategy);
+    const { unit, hint } = LIST_FIELDS[listStrategy.type];
+    const update = (next: number[]) => onChange(withList(listStrategy, next));
+
+    return (
+      <div className="space-y-2">
+        <label className={labelClass}>{hint}</label>
+        {values.map((value, index) => (
+          <div key={index} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <span className="w-20">Round {index + 2}</span>
+            <input
+              type="number"
+              min="0"
+              value={Number.isNaN(value) ? '' : value}
+              onChange={(e) => update(values.map((v, i) => (i === index ? parseFloat(e.target.value) : v)))}
+              className={`${inputClass} w-28`}
+            />
+            <span>{unit}</span>
+            <button
+              onClick={() => update(values.filter((_, i) => i !== index))}
+              className="text-red-600 dark:text-red-400 hover:underline text-xs cursor-pointer"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => update([...values, values.length > 0 ? values[values.length - 1] : 0])}
+          className="text-sm text-blue-600 dark:text-blue-400 hover:underline cursor-pointer"
+        >
+          + Add round
+        </button>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Round 1 is open to everyone. Rounds past the end of the list keep the last cutoff.
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className={labelClass}>Round Thresholds</label>
+        <select
+          value={strategy.type}
+          onChange={(e) => onChange(createThresholdStrategy(e.target.value as RoundThresholdStrategy['type'], numberOfRounds, playerCount))}
+          className={inputClass}
+        >
+          {(Object.keys(THRESHOLD_STRATEGY_LABELS) as RoundThresholdStrategy['type'][]).map(type => (
+            <option key={type} value={type}>{THRESHOLD_STRATEGY_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
+      {strategy.type === 'std_dev' && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>Round 2 cutoff (σ from mean)</label>
+            <input
+              type="number"
+              step="0.25"
+              value={Number.isNaN(strategy.firstCutoff) ? '' : strategy.firstCutoff}
+              onChange={(e) => onChange({ ...strategy, firstCutoff: parseFloat(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Added each round (σ)</label>
+            <input
+              type="number"
+              step="0.25"
+              value={Number.isNaN(strategy.step) ? '' : strategy.step}
+              onChange={(e) => onChange({ ...strategy, step: parseFloat(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+          <p className="col-span-2 text-xs text-gray-500 dark:text-gray-400">
+            Cutoff = mean + k × standard deviation of points. −1σ keeps roughly the top 84%, 0σ the top half, +1σ the top 16%.
+          </p>
+        </div>
+      )}
+
+      {(strategy.type === 'percentiles' || strategy.type === 'target_survivors' || strategy.type === 'manual') && renderList(strategy)}
+
+      {errors.length > 0 && (
+        <ul className="list-disc list-inside text-sm text-red-600 dark:text-red-400">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ThresholdStrategyEditor;
@@ -11,9 +11,14 @@ import {
   ComposedChart
 } from 'recharts';
 import { TeamData } from '@/types/raffle';
+import { BonusRule, TicketFormula } from '@/types/raffleModels';
+import { DEFAULT_TICKET_FORMULA, describeTicketFormula } from '@/services/ticketFormula';
+import { getTeamTickets } from '@/services/bonusTickets';
 
 interface TicketDistributionChartProps {
   teams: TeamData[];
+  ticketFormula?: TicketFormula; // Formula to chart - may be an unsaved draft being previewed
+  bonusRules?: BonusRule[]; // Bonus tickets included in each user's total
 }
 
 interface ChartDataPoint {
@@ -34,13 +39,17 @@ interface CustomTooltipProps {
   payload?: TooltipPayload[];
 }
 
-const TicketDistributionChart: React.FC<TicketDistributionChartProps> = ({ teams }) => {
+const TicketDistributionChart: React.FC<TicketDistributionChartProps> = ({ teams, ticketFormula = DEFAULT_TICKET_FORMULA, bonusRules = [] }) => {
+
+  // Tickets for each user under the formula plus bonuses, in team order
+  const ticketCounts = useMemo(
+    () => (teams || []).map(team => getTeamTickets(team, ticketFormula, bonusRules)),
+    [teams, ticketFormula, bonusRules]
+  );
+  const totalTickets = ticketCounts.reduce((sum, tickets) => sum + tickets, 0);
 
   const chartData = useMemo(() => {
     if (!teams || teams.length === 0) return [];
-
-    // Calculate tickets for each user (floor(Points / 100))
-    const ticketCounts = teams.map(team => Math.floor(team.Points / 100));
     
     // Create frequency distribution
     const ticketFrequency = new Map<number, number>();
@@ -66,7 +75,7 @@ const TicketDistributionChart: React.FC<TicketDistributionChartProps> = ({ teams
     }
 
     return data;
-  }, [teams]);
+  }, [teams, ticketCounts]);
 
   // Calculate simple polynomial trendline
   const trendlineData = useMemo(() => {
@@ -92,7 +101,7 @@ const TicketDistributionChart: React.FC<TicketDistributionChartProps> = ({ teams
 
   const totalUsers = teams.length;
   const averageTickets = teams.length > 0 
-    ? teams.reduce((sum, team) => sum + Math.floor(team.Points / 100), 0) / teams.length 
+    ? totalTickets / teams.length 
     : 0;
 
   const CustomTooltip = ({ active, payload }: CustomTooltipProps) => {
@@ -138,7 +147,8 @@ const TicketDistributionChart: React.FC<TicketDistributionChartProps> = ({ teams
             Distribution of Tickets Among Users
           </h3>
           <p className="text-sm text-gray-600 dark:text-gray-400">
-            Tickets calculated as floor(Points ÷ 100) with smoothed trendline
+            Tickets calculated as {describeTicketFormula(ticketFormula)}
+            {bonusRules.length > 0 && ` plus ${bonusRules.length} bonus ${bonusRules.length === 1 ? 'rule' : 'rules'}`} with smoothed trendline
           </p>
         </div>
       </div>
@@ -222,7 +232,7 @@ const TicketDistributionChart: React.FC<TicketDistributionChartProps> = ({ teams
           <div>
             <span className="text-gray-600 dark:text-gray-400">Total Tickets:</span>
             <span className="ml-1 font-medium text-gray-900 dark:text-gray-100">
-              {teams.reduce((sum, team) => sum + Math.floor(team.Points / 100), 0)}
+              {totalTickets}
             </span>
           </div>
         </div>
@@ -0,0 +1,162 @@
+import React from 'react';
+import { TicketFormula, TicketTier } from '@/types/raffleModels';
+import { TICKET_FORMULA_LABELS, createTicketFormula, validateTicketFormula } from '@/services/ticketFormula';
+
+interface TicketFormulaEditorProps {
+  formula: TicketFormula;
+  onChange: (formula: TicketFormula) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+// Empty input clears an optional limit
+const parseOptional = (value: string): number | undefined => (value === '' ? undefined : parseFloat(value));
+
+/**
+ * Fields for one ticket formula. Problems are listed under the fields as the
+ * operator types; callers decide whether an invalid formula can be saved.
+ */
+const TicketFormulaEditor: React.FC<TicketFormulaEditorProps> = ({ formula, onChange }) => {
+  const errors = validateTicketFormula(formula);
+  const limits = { minTickets: formula.minTickets, maxTickets: formula.maxTickets };
+
+  const updateTier = (index: number, changes: Partial<TicketTier>) => {
+    if (formula.type !== 'tiered') return;
+    onChange({ ...formula, tiers: formula.tiers.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)) });
+  };
+
+  const addTier = () => {
+    if (formula.type !== 'tiered') return;
+    const highest = formula.tiers.reduce((max, tier) => Math.max(max, tier.minPoints), 0);
+    const mostTickets = formula.tiers.reduce((max, tier) => Math.max(max, tier.tickets), 0);
+    onChange({ ...formula, tiers: [...formula.tiers, { minPoints: highest + 500, tickets: mostTickets + 1 }] });
+  };
+
+  const removeTier = (index: number) => {
+    if (formula.type !== 'tiered') return;
+    onChange({ ...formula, tiers: formula.tiers.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className={labelClass}>Ticket Formula</label>
+        <select
+          value={formula.type}
+          onChange={(e) => onChange(createTicketFormula(e.target.value as TicketFormula['type'], limits))}
+          className={inputClass}
+        >
+          {(Object.keys(TICKET_FORMULA_LABELS) as TicketFormula['type'][]).map(type => (
+            <option key={type} value={type}>{TICKET_FORMULA_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
+      {(formula.type === 'points_divided' || formula.type === 'sqrt' || formula.type === 'log') && (
+        <div>
+          <label className={labelClass}>Points per ticket</label>
+          <input
+            type="number"
+            min="1"
+            value={Number.isNaN(formula.divisor) ? '' : formula.divisor}
+            onChange={(e) => onChange({ ...formula, divisor: parseFloat(e.target.value) })}
+            className={inputClass}
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            {formula.type === 'points_divided' && 'tickets = points ÷ N'}
+            {formula.type === 'sqrt' && 'tickets = √(points ÷ N) - 4× the points gives 2× the tickets'}
+            {formula.type === 'log' && 'tickets = log₂(1 + points ÷ N) - every extra ticket needs double the points'}
+          </p>
+        </div>
+      )}
+
+      {formula.type === 'flat' && (
+        <div>
+          <label className={labelClass}>Minimum points for the ticket</label>
+          <input
+            type="number"
+            min="0"
+            value={Number.isNaN(formula.minimumPoints) ? '' : formula.minimumPoints}
+            onChange={(e) => onChange({ ...formula, minimumPoints: parseFloat(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      {formula.type === 'tiered' && (
+        <div className="space-y-2">
+          <label className={labelClass}>Brackets (players get the tickets of the highest bracket they reach)</label>
+          {formula.tiers.map((tier, index) => (
+            <div key={index} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="number"
+                min="0"
+                value={Number.isNaN(tier.minPoints) ? '' : tier.minPoints}
+                onChange={(e) => updateTier(index, { minPoints: parseFloat(e.target.value) })}
+                className={`${inputClass} w-28`}
+              />
+              <span>+ points →</span>
+              <input
+                type="number"
+                min="0"
+                value={Number.isNaN(tier.tickets) ? '' : tier.tickets}
+                onChange={(e) => updateTier(index, { tickets: parseFloat(e.target.value) })}
+                className={`${inputClass} w-20`}
+              />
+              <span>tickets</span>
+              <button
+                onClick={() => removeTier(index)}
+                className="text-red-600 dark:text-red-400 hover:underline text-xs cursor-pointer"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={addTier}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline cursor-pointer"
+          >
+            + Add bracket
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Min tickets per player</label>
+          <input
+            type="number"
+            min="0"
+            placeholder="None"
+            value={formula.minTickets ?? ''}
+            onChange={(e) => onChange({ ...formula, minTickets: parseOptional(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Max tickets per player</label>
+          <input
+            type="number"
+            min="1"
+            placeholder="None"
+            value={formula.maxTickets ?? ''}
+            onChange={(e) => onChange({ ...formula, maxTickets: parseOptional(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        The minimum only applies to players with points - 0 points is always 0 tickets.
+      </p>
+
+      {errors.length > 0 && (
+        <ul className="list-disc list-inside text-sm text-red-600 dark:text-red-400">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TicketFormulaEditor;
@@ -0,0 +1,111 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { RaffleLastAction } from '@/types/raffle';
+
+interface UndoToastProps {
+  lastAction?: RaffleLastAction;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  duration?: number; // How long the toast stays visible (default: 6000ms)
+}
+
+const KIND_PREFIX: Record<RaffleLastAction['kind'], string> = {
+  done: '',
+  undone: 'Undid: ',
+  redone: 'Redid: '
+};
+
+// Keyboard shortcuts should not hijack undo inside text fields
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+const UndoToast: React.FC<UndoToastProps> = ({
+  lastAction,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  duration = 6000
+}) => {
+  const [visible, setVisible] = useState(false);
+
+  // Show the toast again every time a new action is recorded
+  useEffect(() => {
+    if (!lastAction) return;
+    setVisible(true);
+    const timeout = setTimeout(() => setVisible(false), duration);
+    return () => clearTimeout(timeout);
+  }, [lastAction, duration]);
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditableTarget(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        if (!canUndo) return;
+        event.preventDefault();
+        onUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        if (!canRedo) return;
+        event.preventDefault();
+        onRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [canUndo, canRedo, onUndo, onRedo]);
+
+  return (
+    <AnimatePresence>
+      {visible && lastAction && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          className="fixed bottom-6 left-6 z-[10000] flex items-center gap-4 px-4 py-3 bg-gray-900 dark:bg-gray-700 text-white rounded-lg shadow-lg"
+          role="status"
+        >
+          <span className="text-sm">
+            {KIND_PREFIX[lastAction.kind]}{lastAction.label}
+          </span>
+          {canUndo && (
+            <button
+              onClick={onUndo}
+              className="text-sm font-semibold text-yellow-300 hover:text-yellow-200 cursor-pointer"
+              title="Undo (Ctrl+Z)"
+            >
+              Undo
+            </button>
+          )}
+          {lastAction.kind === 'undone' && canRedo && (
+            <button
+              onClick={onRedo}
+              className="text-sm font-semibold text-blue-300 hover:text-blue-200 cursor-pointer"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              Redo
+            </button>
+          )}
+          <button
+            onClick={() => setVisible(false)}
+            className="text-gray-400 hover:text-white cursor-pointer"
+            aria-label="Dismiss"
+          >
+            ×
+          </button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default UndoToast;
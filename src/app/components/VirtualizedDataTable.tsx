@@ -1,6 +1,12 @@
 import React, { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import { TeamData } from '@/types/raffle';
+import { BonusRule, TicketFormula } from '@/types/raffleModels';
+import { EligibilityRules } from '@/types/eligibility';
+import { WinProbabilityResult } from '@/types/winProbability';
+import { formatTicketBreakdown, getTicketBreakdown } from '@/services/bonusTickets';
+import { getIneligibilityReasons } from '@/services/eligibilityRules';
+import { formatWinProbabilityMethod } from '@/utils/winProbability';
 import UserPhotoOptimized from './UserPhotoOptimized';
 
 interface VirtualizedDataTableProps {
@@ -8,11 +14,21 @@ interface VirtualizedDataTableProps {
   title?: string;
   showOdds?: boolean;
   oddsPerRound?: number[][];
+  winProbability?: WinProbabilityResult; // Chance of winning anything over the remaining rounds
+  ticketFormula?: TicketFormula; // Active formula (default: points ÷ 100)
+  bonusRules?: BonusRule[]; // Bonus tickets shown as base + bonus = total
+  eligibilityRules?: EligibilityRules; // Rules for the current round - players they exclude show why
   currentRound?: number;
   rowHeight?: number; // Height of each row in pixels
   maxVisibleRows?: number; // Maximum rows to render at once
 }
 
+// Header and rows share the same column layout
+const getGridColumns = (showOdds: boolean, showOverall: boolean): string => {
+  if (!showOdds) return 'grid-cols-6';
+  return showOverall ? 'grid-cols-8' : 'grid-cols-7';
+};
+
 // Memoized row component for virtual scrolling
 const VirtualRow = React.memo(({ 
   team, 
@@ -20,6 +36,10 @@ const VirtualRow = React.memo(({
   showOdds, 
   oddsPerRound, 
   currentRound,
+  overallChance,
+  ticketFormula,
+  bonusRules,
+  eligibilityRules,
   style 
 }: { 
   team: TeamData; 
@@ -27,12 +47,17 @@ const VirtualRow = React.memo(({
   showOdds: boolean; 
   oddsPerRound: number[][]; 
   currentRound: number;
+  overallChance?: number; // undefined = column hidden
+  ticketFormula?: TicketFormula;
+  bonusRules?: BonusRule[];
+  eligibilityRules?: EligibilityRules;
   style: React.CSSProperties;
 }) => {
   // Memoize expensive calculations
-  const { statusColor, statusText, oddValue } = useMemo(() => {
+  const { statusColor, statusText, statusTooltip, oddValue } = useMemo(() => {
     let statusColor = 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
     let statusText = '✅ Eligible';
+    let statusTooltip: string | undefined;
     
     if (team.status === 'winner') {
       statusColor = 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200';
@@ -40,6 +65,13 @@ const VirtualRow = React.memo(({
     } else if (team.status === 'withdrawn' || team.status === 'removed') {
       statusColor = 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
       statusText = team.status === 'withdrawn' ? '❌ Withdrawn' : '❌ Removed';
+    } else {
+      const reasons = getIneligibilityReasons(team, eligibilityRules);
+      if (reasons.length > 0) {
+        statusColor = 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200';
+        statusText = '🚫 Ineligible';
+        statusTooltip = reasons.map(reason => reason.message).join('; ');
+      }
     }
 
     let oddValue = '--';
@@ -53,12 +85,12 @@ const VirtualRow = React.memo(({
       }
     }
 
-    return { statusColor, statusText, oddValue };
-  }, [team.status, showOdds, oddsPerRound, index, currentRound]);
+    return { statusColor, statusText, statusTooltip, oddValue };
+  }, [team, eligibilityRules, showOdds, oddsPerRound, index, currentRound]);
 
   return (
     <div style={style} className="flex border-b border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700">
-      <div className="flex-1 grid grid-cols-6 gap-4 px-4 py-2 text-sm">
+      <div className={`flex-1 grid ${getGridColumns(showOdds, overallChance !== undefined)} gap-4 px-4 py-2 text-sm`}>
         <div className="font-bold text-gray-900 dark:text-gray-100">
           #{team.playerNumber || index + 1}
         </div>
@@ -75,13 +107,13 @@ const VirtualRow = React.memo(({
           {team.Submissions}
         </div>
         <div className="text-gray-900 dark:text-gray-100">
-          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${statusColor}`}>
+          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${statusColor}`} title={statusTooltip}>
             {statusText}
           </span>
         </div>
         <div className="text-gray-900 dark:text-gray-100">
           <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
-            {Math.floor(team.Points / 100)} tickets
+            {formatTicketBreakdown(getTicketBreakdown(team, ticketFormula, bonusRules))} tickets
           </span>
         </div>
         {showOdds && (
@@ -91,6 +123,13 @@ const VirtualRow = React.memo(({
             </span>
           </div>
         )}
+        {showOdds && overallChance !== undefined && (
+          <div className="text-gray-900 dark:text-gray-100">
+            <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200">
+              {overallChance === 0 ? '--' : `${overallChance.toFixed(2)}%`}
+            </span>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -103,6 +142,10 @@ const VirtualizedDataTable: React.FC<VirtualizedDataTableProps> = ({
   title = "Player Data", 
   showOdds = false, 
   oddsPerRound = [], 
+  winProbability,
+  ticketFormula,
+  bonusRules,
+  eligibilityRules,
   currentRound = 0,
   rowHeight = 60,
   maxVisibleRows = 20
@@ -144,7 +187,7 @@ const VirtualizedDataTable: React.FC<VirtualizedDataTableProps> = ({
   // For small datasets, use regular table
   if (sortedTeams.length <= 50) {
     const currentRoundOdds = currentRound ? oddsPerRound[currentRound - 1] : [];
-    return <DataTable teams={teams} title={title} showOdds={showOdds} currentRoundOdds={currentRoundOdds} currentRound={currentRound} />;
+    return <DataTable teams={teams} title={title} showOdds={showOdds} currentRoundOdds={currentRoundOdds} winProbability={winProbability} ticketFormula={ticketFormula} bonusRules={bonusRules} eligibilityRules={eligibilityRules} currentRound={currentRound} />;
   }
 
   return (
@@ -162,7 +205,7 @@ const VirtualizedDataTable: React.FC<VirtualizedDataTableProps> = ({
         
         {/* Header */}
         <div className="bg-gray-50 dark:bg-gray-700 px-4 py-2 border-b border-gray-200 dark:border-gray-600">
-          <div className="grid grid-cols-6 gap-4 text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+          <div className={`grid ${getGridColumns(showOdds, !!winProbability)} gap-4 text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider`}>
             <div>#</div>
             <div>Player</div>
             <div>Points</div>
@@ -170,6 +213,7 @@ const VirtualizedDataTable: React.FC<VirtualizedDataTableProps> = ({
             <div>Status</div>
             <div>Tickets</div>
             {showOdds && <div>Odds (Round {currentRound + 1})</div>}
+            {showOdds && winProbability && <div>Overall ({formatWinProbabilityMethod(winProbability)})</div>}
           </div>
         </div>
 
@@ -190,6 +234,10 @@ const VirtualizedDataTable: React.FC<VirtualizedDataTableProps> = ({
                   showOdds={showOdds}
                   oddsPerRound={oddsPerRound}
                   currentRound={currentRound}
+                  overallChance={winProbability ? winProbability.probabilities[team.Team] ?? 0 : undefined}
+                  ticketFormula={ticketFormula}
+                  bonusRules={bonusRules}
+                  eligibilityRules={eligibilityRules}
                   style={{
                     position: 'absolute',
                     top: (Math.floor(scrollTop / rowHeight) + index) * rowHeight,
@@ -0,0 +1,76 @@
+import React, { useMemo } from 'react';
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { TeamData } from '@/types/raffle';
+
+interface WinCountHistogramProps {
+  teams: TeamData[];
+  winningRuns: number[]; // Simulated raffles each player won, indexed like teams
+  expected: number[]; // % chance of winning at least once, indexed like teams
+  completed: number; // Raffles simulated so far
+}
+
+// Large rosters are grouped into this many bars so the chart stays cheap to redraw
+const MAX_BARS = 100;
+
+/**
+ * Simulated wins per player against the count their ticket odds predict,
+ * players ordered by points. Redrawn on every progress message.
+ */
+const WinCountHistogram: React.FC<WinCountHistogramProps> = ({ teams, winningRuns, expected, completed }) => {
+  // Points order only changes with the roster, not with every progress message
+  const order = useMemo(
+    () => teams
+      .map((team, index) => ({ team, index }))
+      .sort((a, b) => a.team.Points - b.team.Points || a.team.Team.localeCompare(b.team.Team)),
+    [teams]
+  );
+
+  const chartData = useMemo(() => {
+    const groupSize = Math.max(1, Math.ceil(order.length / MAX_BARS));
+    const bars = [];
+    for (let start = 0; start < order.length; start += groupSize) {
+      const group = order.slice(start, start + groupSize);
+      const first = group[0].team;
+      const last = group[group.length - 1].team;
+      bars.push({
+        name: groupSize === 1 ? first.Team : `#${start + 1}–${start + group.length}`,
+        range: groupSize === 1 ? `${first.Points} points` : `${group.length} players, ${first.Points}–${last.Points} points`,
+        observed: group.reduce((sum, { index }) => sum + (winningRuns[index] ?? 0), 0),
+        expected: Math.round(group.reduce((sum, { index }) => sum + ((expected[index] ?? 0) / 100) * completed, 0) * 10) / 10
+      });
+    }
+    return bars;
+  }, [order, winningRuns, expected, completed]);
+
+  if (chartData.length === 0) return null;
+
+  return (
+    <div className="h-80">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.3} />
+          <XAxis dataKey="name" tick={{ fontSize: 10 }} interval="preserveStartEnd" />
+          <YAxis tick={{ fontSize: 12 }} />
+          <Tooltip
+            labelFormatter={(label, payload) => (payload?.[0]?.payload?.range ? `${label} (${payload[0].payload.range})` : label)}
+          />
+          <Legend />
+          <Bar dataKey="observed" name="Simulated wins" fill="#3b82f6" isAnimationActive={false} />
+          <Line dataKey="expected" name="Expected from ticket odds" stroke="#ef4444" strokeWidth={2} dot={false} isAnimationActive={false} />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default WinCountHistogram;
@@ -4,10 +4,14 @@ import { motion, AnimatePresence } from 'framer-motion';
 import confetti from 'canvas-confetti';
 import Image from 'next/image';
 import { getUserAvatarPath, getFallbackAvatar } from '@/utils/photoUtils';
+import { Prize } from '@/types/raffle';
 
 interface WinnerConfirmationProps {
     winner: string;
     roundName: string;
+    slotLabel?: string; // e.g. "Winner 2 of 3" in multi-winner rounds
+    upNext?: string[]; // Other winners from the same draw, confirmed after this one
+    prize?: Prize | null; // Prize that will be awarded on confirmation
     onConfirm: () => void;
     onReject: () => void;
     onClose?: () => void;
@@ -17,6 +21,9 @@ interface WinnerConfirmationProps {
 const WinnerConfirmation: React.FC<WinnerConfirmationProps> = ({
     winner,
     roundName,
+    slotLabel,
+    upNext = [],
+    prize,
     onConfirm,
     onReject,
     onClose,
@@ -187,9 +194,42 @@ const WinnerConfirmation: React.FC<WinnerConfirmationProps> = ({
                                     {winner}
                                 </h3>
                                 <p className="text-gray-600 dark:text-gray-400">
-                                    {roundName}
+                                    {roundName}{slotLabel && ` • ${slotLabel}`}
                                 </p>
+                                {upNext.length > 0 && (
+                                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                        Up next: {upNext.join(', ')}
+                                    </p>
+                                )}
                             </div>
+
+                            {/* Prize being awarded */}
+                            {prize && (
+                                <div className="flex items-center space-x-3 px-4 py-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800">
+                                    {prize.image && (
+                                        <Image
+                                            src={prize.image}
+                                            alt={prize.name}
+                                            width={48}
+                                            height={48}
+                                            className="w-12 h-12 rounded object-cover"
+                                        />
+                                    )}
+                                    <div className="text-left">
+                                        <p className="text-xs uppercase tracking-wide text-yellow-700 dark:text-yellow-300">
+                                            Wins
+                                        </p>
+                                        <p className="font-semibold text-gray-900 dark:text-gray-100">
+                                            🎁 {prize.name}
+                                        </p>
+                                        {prize.sponsor && (
+                                            <p className="text-xs text-gray-600 dark:text-gray-400">
+                                                Sponsored by {prize.sponsor}
+                                            </p>
+                                        )}
+                                    </div>
+                                </div>
+                            )}
                         </div>
                     </div>
 
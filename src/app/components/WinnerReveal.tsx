@@ -0,0 +1,86 @@
+import React, { useEffect } from 'react';
+import { motion } from 'framer-motion';
+import confetti from 'canvas-confetti';
+import Image from 'next/image';
+import { Prize, Winner } from '@/types/raffle';
+import UserPhoto from './UserPhoto';
+
+interface WinnerRevealProps {
+  winner: Winner;
+  prize?: Prize; // Catalog entry for winner.prizeId, when the configuration has one
+}
+
+/**
+ * Full-screen reveal of a confirmed winner for the audience screen.
+ * Unlike WinnerConfirmation it has no actions - the operator already confirmed.
+ */
+const WinnerReveal: React.FC<WinnerRevealProps> = ({ winner, prize }) => {
+  // Confetti burst from both sides whenever a new winner is revealed
+  useEffect(() => {
+    const duration = 4000;
+    const animationEnd = Date.now() + duration;
+    const defaults = { startVelocity: 30, spread: 360, ticks: 60, zIndex: 55 };
+
+    const interval = setInterval(() => {
+      const timeLeft = animationEnd - Date.now();
+      if (timeLeft <= 0) {
+        clearInterval(interval);
+        return;
+      }
+
+      const particleCount = 60 * (timeLeft / duration);
+      confetti({ ...defaults, particleCount, origin: { x: 0.1 + Math.random() * 0.2, y: Math.random() - 0.2 } });
+      confetti({ ...defaults, particleCount, origin: { x: 0.7 + Math.random() * 0.2, y: Math.random() - 0.2 } });
+    }, 250);
+
+    const audio = new Audio('/sounds/winner.mp3');
+    audio.volume = 0.2;
+    audio.play().catch(error => {
+      console.log('🔇 Could not play celebration sound (browser policy):', error);
+    });
+
+    return () => clearInterval(interval);
+  }, [winner.team, winner.round]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.8 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 0.8 }}
+      transition={{ duration: 0.4, ease: 'easeOut' }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70"
+    >
+      <div className="text-center space-y-6">
+        <motion.div
+          initial={{ scale: 0 }}
+          animate={{ scale: 1 }}
+          transition={{ delay: 0.2, type: 'spring', bounce: 0.6 }}
+          className="text-8xl"
+        >
+          🏆
+        </motion.div>
+        <div className="flex justify-center">
+          <UserPhoto name={winner.team} size="4xl" />
+        </div>
+        <h2 className="text-6xl font-bold text-white">{winner.team}</h2>
+        <p className="text-2xl text-gray-300">{winner.roundName}</p>
+        {winner.prize && (
+          <div className="inline-flex items-center gap-4 px-6 py-4 rounded-lg bg-yellow-500/20 border border-yellow-400">
+            {prize?.image && (
+              <Image src={prize.image} alt={prize.name} width={80} height={80} className="w-20 h-20 rounded object-cover" />
+            )}
+            <div className="text-left">
+              <p className="text-sm uppercase tracking-wide text-yellow-300">Wins</p>
+              <p className="text-3xl font-semibold text-white">🎁 {winner.prize}</p>
+              {prize?.sponsor && (
+                <p className="text-sm text-gray-300">Sponsored by {prize.sponsor}</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+export default WinnerReveal;
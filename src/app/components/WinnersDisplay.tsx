@@ -1,15 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Winner, TeamData } from '@/types/raffle';
+import Image from 'next/image';
+import { Winner, TeamData, Prize } from '@/types/raffle';
+import { BonusRule, TicketFormula } from '@/types/raffleModels';
+import { getTeamTickets } from '@/services/bonusTickets';
 import UserPhoto from './UserPhoto';
 
 interface WinnersDisplayProps {
   winners: Winner[];
   teams?: TeamData[];
+  prizes?: Prize[];
   storageKey?: string;
+  ticketFormula?: TicketFormula; // Active formula (default: points ÷ 100)
+  bonusRules?: BonusRule[]; // Bonus tickets on top of the formula
 }
 
-const WinnersDisplay: React.FC<WinnersDisplayProps> = ({ winners, teams, storageKey = 'winnersDisplay' }) => {
+const WinnersDisplay: React.FC<WinnersDisplayProps> = ({ winners, teams, prizes = [], storageKey = 'winnersDisplay', ticketFormula, bonusRules }) => {
   const [isExpanded, setIsExpanded] = useState(() => {
     if (typeof window === 'undefined') return true;
     const saved = localStorage.getItem(`${storageKey}-expanded`);
@@ -63,6 +69,7 @@ const WinnersDisplay: React.FC<WinnersDisplayProps> = ({ winners, teams, storage
               <AnimatePresence>
                 {winners.map((winner, index) => {
                 const winnerTeamData = teams?.find(team => team.Team === winner.team);
+                const winnerPrize = winner.prizeId ? prizes.find(prize => prize.id === winner.prizeId) : undefined;
                 
                 return (
                 <motion.div
@@ -95,7 +102,7 @@ const WinnersDisplay: React.FC<WinnersDisplayProps> = ({ winners, teams, storage
                           {winnerTeamData && (
                             <div className="flex items-center gap-1 mt-1">
                               <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400">
-                                {Math.floor(winnerTeamData.Points / 100)} tickets
+                                {getTeamTickets(winnerTeamData, ticketFormula, bonusRules)} tickets
                               </span>
                             </div>
                           )}
@@ -111,7 +118,29 @@ const WinnersDisplay: React.FC<WinnersDisplayProps> = ({ winners, teams, storage
                         🎉
                       </motion.div>
                       
-                      {winner.prize && (
+                      {winnerPrize ? (
+                        <div className="flex items-center gap-2">
+                          {winnerPrize.image && (
+                            <Image
+                              src={winnerPrize.image}
+                              alt={winnerPrize.name}
+                              width={32}
+                              height={32}
+                              className="w-8 h-8 rounded object-cover"
+                            />
+                          )}
+                          <div>
+                            <div className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-yellow-200 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-200">
+                              🎁 {winnerPrize.name}
+                            </div>
+                            {winnerPrize.sponsor && (
+                              <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                                Sponsored by {winnerPrize.sponsor}
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                      ) : winner.prize && (
                         <div className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-yellow-200 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-200">
                           {winner.prize}
                         </div>
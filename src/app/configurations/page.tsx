@@ -1,31 +1,53 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { motion } from 'framer-motion';
-import { ConfigurationManager, RaffleConfiguration } from '@/utils/configurationManager';
+import { ConfigurationManager, RaffleConfiguration, RaffleTemplate } from '@/utils/configurationManager';
 import BackToTopButton from '@/components/BackToTopButton';
 import { useRaffleState } from '@/hooks/useRaffleState';
+import { createAuditEvent } from '@/services/auditLog';
+import { buildDrawEntries } from '@/services/drawService';
+import { resolveRaffleModel } from '@/services/raffleModels';
+import { clearStoredRaffleState, getStorageMode, initializeStorage, loadStoredRaffleState, setStorageMode } from '@/services/raffleStorage';
+import { RaffleState } from '@/types/raffle';
+import { BundleImportMode } from '@/types/raffleBundle';
+import { StorageStatus } from '@/types/storage';
+import { RAFFLE_BUNDLE_EXTENSION, RaffleBundle, createRaffleBundle, findBundleCollision, importRaffleBundle, parseRaffleBundle } from '@/services/raffleBundle';
+import { downloadFile, toFileStem } from '@/utils/fileDownload';
+
+// Where a raffle stopped, or null when it has not started
+const describeRaffleProgress = (raffle: RaffleState | null): string | null => {
+  if (!raffle || !(raffle.raffleStarted || raffle.winners.length > 0 || raffle.currentRound > 0)) return null;
+  const winners = `${raffle.winners.length} winner${raffle.winners.length === 1 ? '' : 's'}`;
+  if (raffle.currentRound >= raffle.rounds.length) return `Complete • ${winners}`;
+  return `Round ${raffle.currentRound + 1} of ${raffle.rounds.length} • ${winners}`;
+};
 
 export default function ConfigurationsPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const [configurations, setConfigurations] = useState<RaffleConfiguration[]>([]);
+  const [templates, setTemplates] = useState<RaffleTemplate[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentConfigId, setCurrentConfigId] = useState<string | null>(null);
   const [deleteModalOpen, setDeleteModalOpen] = useState(false);
   const [configToDelete, setConfigToDelete] = useState<RaffleConfiguration | null>(null);
   const [resetModalOpen, setResetModalOpen] = useState(false);
-  const [switchModalOpen, setSwitchModalOpen] = useState(false);
-  const [configToSwitch, setConfigToSwitch] = useState<RaffleConfiguration | null>(null);
+  const [bundleToImport, setBundleToImport] = useState<RaffleBundle | null>(null); // Waiting for overwrite or duplicate
+  const [importMessage, setImportMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [storageStatus, setStorageStatus] = useState<StorageStatus | null>(null);
   const { state, actions } = useRaffleState();
+  const { switchConfiguration } = actions;
 
   // Get the current configuration ID from localStorage or URL
   useEffect(() => {
     const savedConfigId = localStorage.getItem('currentConfigId');
     const urlConfigId = searchParams.get('currentConfig');
     setCurrentConfigId(urlConfigId || savedConfigId);
-  }, [searchParams]);
+    switchConfiguration(urlConfigId || savedConfigId);
+  }, [searchParams, switchConfiguration]);
 
   const loadConfigurations = useCallback(() => {
     try {
@@ -33,6 +55,7 @@ export default function ConfigurationsPage() {
       const configs = ConfigurationManager.getAllConfigurations();
       console.log('Loaded configurations:', configs);
       setConfigurations(configs);
+      setTemplates(ConfigurationManager.getAllTemplates());
       setLoading(false);
     } catch (error) {
       console.error('Error loading configurations:', error);
@@ -44,49 +67,106 @@ export default function ConfigurationsPage() {
     loadConfigurations();
   }, [loadConfigurations]);
 
+  // StorageGate has already opened storage - this only reads where it ended up
+  useEffect(() => {
+    initializeStorage().then(setStorageStatus).catch(() => setStorageStatus(null));
+  }, []);
+
+  // Storage opens once per page load, so switching takes a reload
+  const handleToggleServerStorage = useCallback(() => {
+    const useServer = getStorageMode() !== 'server';
+    const confirmed = window.confirm(useServer
+      ? 'Save raffles on the machine running this app? Everything in this browser is uploaded the first time, and this browser keeps a copy for when the server is unreachable. The page will reload.'
+      : 'Save raffles in this browser only? Data already on the server stays there. The page will reload.');
+    if (!confirmed) return;
+
+    setStorageMode(useServer ? 'server' : 'browser');
+    window.location.reload();
+  }, []);
+
+  // Saved progress of every configuration's raffle - the active one is read live from the hook
+  const raffleProgress = useMemo(() => new Map(configurations.map(config => [
+    config.id,
+    describeRaffleProgress(config.id === currentConfigId ? state : loadStoredRaffleState(config.id))
+  ])), [configurations, currentConfigId, state]);
+
+  // Each configuration keeps its own raffle, so switching never loses progress
   const handleSetActive = useCallback((config: RaffleConfiguration) => {
     console.log('Setting active configuration:', config.id);
     
-    // Check if there's an active raffle
-    const hasActiveRaffle = state.raffleStarted || state.winners.length > 0 || state.currentRound > 0;
-    
-    if (hasActiveRaffle && currentConfigId !== config.id) {
-      // Show confirmation modal for switching
-      setConfigToSwitch(config);
-      setSwitchModalOpen(true);
-      return;
-    }
-    
     // Update localStorage to set this as the current configuration
     localStorage.setItem('currentConfigId', config.id);
     setCurrentConfigId(config.id);
-  }, [state.raffleStarted, state.winners.length, state.currentRound, currentConfigId]);
+    switchConfiguration(config.id);
+  }, [switchConfiguration]);
 
-  const handleNew = useCallback(() => {
-    console.log('Creating new configuration...');
-    // Check if there's an active raffle or configuration
-    const hasActiveRaffle = state.raffleStarted || state.winners.length > 0 || state.currentRound > 0;
-    const hasCurrentConfig = currentConfigId !== null;
-    
-    if (hasActiveRaffle || hasCurrentConfig) {
+  // Resets from this page happen outside the main page, so write the audit event straight to the configuration
+  const recordRaffleReset = useCallback(() => {
+    if (!currentConfigId || state.teams.length === 0) return;
+    ConfigurationManager.appendAuditEvents(currentConfigId, [
+      createAuditEvent('raffle_reset', {
+        entries: buildDrawEntries(state.teams),
+        details: { winnersCleared: state.winners.length, source: 'configurations' }
+      })
+    ]);
+  }, [currentConfigId, state.teams, state.winners.length]);
+
+  // Both "Create New" and starting from a template begin on the upload screen with a clean raffle
+  const startNewConfiguration = useCallback((path: string) => {
+    // Saved configurations keep their raffles - only a raffle run without one is cleared
+    if (describeRaffleProgress(loadStoredRaffleState(null))) {
       const confirmNew = window.confirm(
-        'Creating a new configuration will clear your current raffle session and all data. Are you sure you want to continue?'
+        'Creating a new configuration will clear the raffle running without a saved configuration. Saved configurations keep their progress. Are you sure you want to continue?'
       );
       if (!confirmNew) {
         return;
       }
     }
-    
-    // Clear current configuration
+
+    // Clear current configuration, putting its raffle away first
     localStorage.removeItem('currentConfigId');
     setCurrentConfigId(null);
+    switchConfiguration(null);
     
-    // Reset raffle state to ensure clean start
-    actions.resetRaffle();
+    // Start the new configuration from a clean raffle
+    clearStoredRaffleState(null);
     
     // Navigate back to home to create new configuration
-    router.push('/');
-  }, [router, currentConfigId, state.raffleStarted, state.winners.length, state.currentRound, actions]);
+    router.push(path);
+  }, [router, switchConfiguration]);
+
+  const handleNew = useCallback(() => {
+    console.log('Creating new configuration...');
+    startNewConfiguration('/');
+  }, [startNewConfiguration]);
+
+  const handleDuplicate = useCallback((config: RaffleConfiguration) => {
+    const copy = ConfigurationManager.duplicateConfiguration(config.id);
+    if (copy) {
+      console.log(`Duplicated ${config.name} as ${copy.id}`);
+      loadConfigurations();
+    }
+  }, [loadConfigurations]);
+
+  const handleSaveAsTemplate = useCallback((config: RaffleConfiguration) => {
+    const name = window.prompt('Template name', `${config.name} template`);
+    if (name === null) return;
+
+    if (ConfigurationManager.saveAsTemplate(config.id, name)) {
+      setTemplates(ConfigurationManager.getAllTemplates());
+    }
+  }, []);
+
+  const handleUseTemplate = useCallback((template: RaffleTemplate) => {
+    console.log('Creating configuration from template:', template.id);
+    startNewConfiguration(`/?templateId=${template.id}`);
+  }, [startNewConfiguration]);
+
+  const handleDeleteTemplate = useCallback((template: RaffleTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"? Configurations created from it are not affected.`)) return;
+    ConfigurationManager.deleteTemplate(template.id);
+    setTemplates(ConfigurationManager.getAllTemplates());
+  }, []);
 
   const handleDelete = useCallback((config: RaffleConfiguration) => {
     console.log('Attempting to delete configuration:', config.id);
@@ -104,10 +184,11 @@ export default function ConfigurationsPage() {
       // Force reload configurations
       loadConfigurations();
       
-      // Clear currentConfigId if we're deleting the active config
+      // Clear currentConfigId if we're deleting the active config - its raffle was deleted with it
       if (currentConfigId === configToDelete.id) {
         setCurrentConfigId(null);
         localStorage.removeItem('currentConfigId');
+        switchConfiguration(null);
       }
       
     } catch (error) {
@@ -116,7 +197,7 @@ export default function ConfigurationsPage() {
       setDeleteModalOpen(false);
       setConfigToDelete(null);
     }
-  }, [configToDelete, currentConfigId, loadConfigurations]);
+  }, [configToDelete, currentConfigId, loadConfigurations, switchConfiguration]);
 
   const cancelDelete = useCallback(() => {
     setDeleteModalOpen(false);
@@ -133,6 +214,7 @@ export default function ConfigurationsPage() {
 
   const confirmResetRaffle = useCallback(() => {
     console.log('Resetting current raffle');
+    recordRaffleReset();
     actions.resetRaffle();
     
     // Also clear current configuration ID if no configurations are saved
@@ -143,27 +225,61 @@ export default function ConfigurationsPage() {
     }
     
     setResetModalOpen(false);
-  }, [actions]);
+  }, [actions, recordRaffleReset]);
 
   const cancelResetRaffle = useCallback(() => {
     setResetModalOpen(false);
   }, []);
 
-  const confirmSwitchConfiguration = useCallback(() => {
-    if (!configToSwitch) return;
-    
-    console.log('Switching to configuration:', configToSwitch.id);
-    // Reset raffle first, then switch configuration
-    actions.resetRaffle();
-    localStorage.setItem('currentConfigId', configToSwitch.id);
-    setCurrentConfigId(configToSwitch.id);
-    setSwitchModalOpen(false);
-    setConfigToSwitch(null);
-  }, [configToSwitch, actions]);
-
-  const cancelSwitchConfiguration = useCallback(() => {
-    setSwitchModalOpen(false);
-    setConfigToSwitch(null);
+  // Bundle of the configuration with its raffle progress - the active raffle is read live from the hook
+  const handleExport = useCallback((config: RaffleConfiguration) => {
+    const raffle = config.id === currentConfigId ? state : loadStoredRaffleState(config.id);
+    const bundle = createRaffleBundle(config, raffle);
+    downloadFile(`${toFileStem(config.name)}${RAFFLE_BUNDLE_EXTENSION}`, JSON.stringify(bundle, null, 2));
+    console.log(`📦 Exported ${config.name} with ${bundle.photos.length} photo references`);
+  }, [currentConfigId, state]);
+
+  const completeImport = useCallback((bundle: RaffleBundle, mode: BundleImportMode) => {
+    // Put the active raffle away before its stored state is replaced, then pick the imported one up
+    const replacingActive = mode === 'overwrite' && bundle.configuration.id === currentConfigId;
+    if (replacingActive) switchConfiguration(null);
+
+    const imported = importRaffleBundle(bundle, mode);
+    if (replacingActive) switchConfiguration(imported.id);
+
+    loadConfigurations();
+    setBundleToImport(null);
+    setImportMessage({
+      type: 'success',
+      text: `Imported “${imported.name}”. Copy the ${bundle.photos.filter(photo => photo.kind === 'player').length} player photo folders listed in the bundle to public/users if this machine does not have them.`
+    });
+  }, [currentConfigId, switchConfiguration, loadConfigurations]);
+
+  const handleImportFile = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Choosing the same file again should import it again
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const bundle = parseRaffleBundle(e.target?.result as string);
+        if (findBundleCollision(bundle)) {
+          // Ask before replacing a saved configuration
+          setBundleToImport(bundle);
+          return;
+        }
+        completeImport(bundle, 'overwrite');
+      } catch (err) {
+        console.error('Failed to import raffle bundle:', err);
+        setImportMessage({ type: 'error', text: err instanceof Error ? err.message : 'Could not read the raffle bundle' });
+      }
+    };
+    reader.readAsText(file);
+  }, [completeImport]);
+
+  const cancelImport = useCallback(() => {
+    setBundleToImport(null);
   }, []);
 
   // Handle escape key for modals
@@ -174,17 +290,17 @@ export default function ConfigurationsPage() {
           cancelDelete();
         } else if (resetModalOpen) {
           cancelResetRaffle();
-        } else if (switchModalOpen) {
-          cancelSwitchConfiguration();
+        } else if (bundleToImport) {
+          cancelImport();
         }
       }
     };
 
-    if (deleteModalOpen || resetModalOpen || switchModalOpen) {
+    if (deleteModalOpen || resetModalOpen || bundleToImport) {
       document.addEventListener('keydown', handleEscape);
       return () => document.removeEventListener('keydown', handleEscape);
     }
-  }, [deleteModalOpen, resetModalOpen, switchModalOpen, cancelDelete, cancelResetRaffle, cancelSwitchConfiguration]);
+  }, [deleteModalOpen, resetModalOpen, bundleToImport, cancelDelete, cancelResetRaffle, cancelImport]);
 
   const handleConfigureRounds = useCallback((config: RaffleConfiguration) => {
     console.log('Configuring rounds for:', config.id);
@@ -249,6 +365,20 @@ export default function ConfigurationsPage() {
                   <span>Reset Raffle</span>
                 </button>
               )}
+              <input
+                ref={importInputRef}
+                type="file"
+                accept={`${RAFFLE_BUNDLE_EXTENSION},application/json`}
+                onChange={handleImportFile}
+                className="hidden"
+              />
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="px-4 py-2 border border-blue-500 text-blue-600 dark:text-blue-400 rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors cursor-pointer"
+                title={`Import a ${RAFFLE_BUNDLE_EXTENSION} bundle`}
+              >
+                Import
+              </button>
               <button
                 onClick={handleNew}
                 className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors cursor-pointer"
@@ -295,6 +425,19 @@ export default function ConfigurationsPage() {
             </div>
           )}
 
+          {importMessage && (
+            <div className={`flex items-start justify-between gap-4 rounded-lg p-4 text-sm ${
+              importMessage.type === 'success'
+                ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200 border border-green-200 dark:border-green-800'
+                : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 border border-red-200 dark:border-red-800'
+            }`}>
+              <span>{importMessage.type === 'success' ? '📦' : '❌'} {importMessage.text}</span>
+              <button onClick={() => setImportMessage(null)} className="font-medium hover:underline cursor-pointer">
+                Dismiss
+              </button>
+            </div>
+          )}
+
           {/* Configurations List */}
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
             <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-6">
@@ -332,22 +475,20 @@ export default function ConfigurationsPage() {
                           <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
                             {config.name}
                           </h3>
-                          {currentConfigId === config.id && (state.raffleStarted || state.winners.length > 0 || state.currentRound > 0) && (
+                          {raffleProgress.get(config.id) && (currentConfigId === config.id ? (
                             <div className="flex items-center space-x-1 px-2 py-1 bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300 rounded-full text-xs font-medium">
                               <div className="w-2 h-2 bg-orange-500 rounded-full animate-pulse"></div>
-                              <span>Active Raffle</span>
+                              <span>Active Raffle • {raffleProgress.get(config.id)}</span>
+                            </div>
+                          ) : (
+                            <div className="px-2 py-1 bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 rounded-full text-xs font-medium" title="Resumes here when set active">
+                              Paused • {raffleProgress.get(config.id)}
                             </div>
-                          )}
+                          ))}
                         </div>
                         <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
-                          {config.roundSettings?.raffleModel 
-                            ? (config.roundSettings.raffleModel === 'uniform_elimination' 
-                                ? 'Uniform Elimination Round' 
-                                : config.roundSettings.raffleModel === 'weighted_continuous'
-                                ? 'Weighted Continuous Round'
-                                : config.roundSettings.raffleModel === 'weighted_elimination'
-                                ? 'Weighted Elimination Round'
-                                : 'Custom Model')
+                          {config.roundSettings?.raffleModel
+                            ? resolveRaffleModel(config.roundSettings).name
                             : 'Simple Division'} • {config.teams.length} players • {config.rounds.length} rounds
                         </p>
                         <div className="text-xs text-gray-500 dark:text-gray-500 space-y-1">
@@ -369,6 +510,42 @@ export default function ConfigurationsPage() {
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
                           </svg>
                         </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleExport(config);
+                          }}
+                          className="p-3 text-purple-500 hover:bg-purple-50 dark:hover:bg-purple-900/20 rounded-lg transition-colors cursor-pointer"
+                          title={`Export as ${RAFFLE_BUNDLE_EXTENSION} bundle`}
+                        >
+                          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                          </svg>
+                        </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDuplicate(config);
+                          }}
+                          className="p-3 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors cursor-pointer"
+                          title="Duplicate Configuration"
+                        >
+                          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                          </svg>
+                        </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleSaveAsTemplate(config);
+                          }}
+                          className="p-3 text-teal-500 hover:bg-teal-50 dark:hover:bg-teal-900/20 rounded-lg transition-colors cursor-pointer"
+                          title="Save as Template (settings, rounds and prizes without players)"
+                        >
+                          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                          </svg>
+                        </button>
                         {currentConfigId !== config.id ? (
                           <button
                             onClick={(e) => {
@@ -408,6 +585,80 @@ export default function ConfigurationsPage() {
               </div>
             )}
           </div>
+
+          {/* Templates */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-1">
+              Templates
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+              Round settings, rounds and prizes without the roster - start a configuration from one with just a CSV upload.
+            </p>
+
+            {templates.length === 0 ? (
+              <p className="text-center py-6 text-sm text-gray-500 dark:text-gray-400">
+                No templates yet. Use the bookmark button on a configuration to save one.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {templates.map((template) => (
+                  <div
+                    key={template.id}
+                    className="flex items-center justify-between p-4 rounded-lg border border-gray-200 dark:border-gray-600"
+                  >
+                    <div>
+                      <h3 className="font-semibold text-gray-900 dark:text-gray-100">{template.name}</h3>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        {resolveRaffleModel(template.roundSettings).name} • {template.rounds.length} rounds • {template.prizes.length} prizes
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-500">Created: {formatDate(template.createdAt)}</p>
+                    </div>
+                    <div className="flex space-x-2 ml-4">
+                      <button
+                        onClick={() => handleUseTemplate(template)}
+                        className="px-4 py-2 bg-teal-500 text-white rounded-lg hover:bg-teal-600 transition-colors cursor-pointer text-sm"
+                      >
+                        Use Template
+                      </button>
+                      <button
+                        onClick={() => handleDeleteTemplate(template)}
+                        className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors cursor-pointer"
+                        title="Delete Template"
+                      >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Storage */}
+          {storageStatus && (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 flex items-center justify-between gap-4">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-1">
+                  Storage
+                </h2>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {storageStatus.backend === 'server'
+                    ? storageStatus.offline
+                      ? '📡 Server storage is offline - changes are kept in this browser and sent when it is back.'
+                      : 'Saved on the machine running the app, with a copy in this browser.'
+                    : `Saved in this browser (${storageStatus.backend === 'indexeddb' ? 'IndexedDB' : 'localStorage'}) - clearing the browser profile deletes it.`}
+                </p>
+              </div>
+              <button
+                onClick={handleToggleServerStorage}
+                className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors cursor-pointer text-sm whitespace-nowrap"
+              >
+                {storageStatus.backend === 'server' ? 'Use Browser Storage' : 'Use Server Storage'}
+              </button>
+            </div>
+          )}
         </motion.div>
       </div>
       
@@ -516,11 +767,11 @@ export default function ConfigurationsPage() {
         </div>
       )}
 
-      {/* Switch Configuration Confirmation Modal */}
-      {switchModalOpen && (
+      {/* Import Collision Modal */}
+      {bundleToImport && (
         <div 
           className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
-          onClick={cancelSwitchConfiguration}
+          onClick={cancelImport}
         >
           <motion.div
             initial={{ opacity: 0, scale: 0.95 }}
@@ -530,47 +781,51 @@ export default function ConfigurationsPage() {
             onClick={(e) => e.stopPropagation()}
           >
             <div className="flex items-center space-x-3 mb-4">
-              <div className="flex-shrink-0 w-10 h-10 bg-blue-100 dark:bg-blue-900/20 rounded-full flex items-center justify-center">
-                <svg className="w-6 h-6 text-blue-600 dark:text-blue-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+              <div className="flex-shrink-0 w-10 h-10 bg-purple-100 dark:bg-purple-900/20 rounded-full flex items-center justify-center">
+                <svg className="w-6 h-6 text-purple-600 dark:text-purple-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
                 </svg>
               </div>
               <div>
                 <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">
-                  Switch Configuration
+                  Configuration Already Exists
                 </h3>
                 <p className="text-sm text-gray-500 dark:text-gray-400">
-                  This will clear your current raffle progress.
+                  {bundleToImport.configuration.teams.length} players • exported {formatDate(new Date(bundleToImport.exportedAt))}
                 </p>
               </div>
             </div>
             
             <p className="text-sm text-gray-600 dark:text-gray-300 mb-6">
-              You have an active raffle in progress. Switching to 
-              <span className="font-semibold">&ldquo;{configToSwitch?.name}&rdquo;</span> will 
-              clear all current raffle progress including winners and round status.
-              <br /><br />
-              <span className="font-semibold">This action cannot be undone.</span>
+              <span className="font-semibold">&ldquo;{findBundleCollision(bundleToImport)?.name}&rdquo;</span> is already saved on this machine.
+              Overwrite replaces its roster, rounds, prizes and raffle progress with the bundle&apos;s;
+              importing as a copy keeps both.
             </p>
             
             <div className="flex space-x-3 justify-end">
               <button
-                onClick={cancelSwitchConfiguration}
+                onClick={cancelImport}
                 className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
               >
                 Cancel
               </button>
               <button
-                onClick={confirmSwitchConfiguration}
-                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                onClick={() => completeImport(bundleToImport, 'duplicate')}
+                className="px-4 py-2 text-sm font-medium text-purple-700 dark:text-purple-300 border border-purple-500 rounded-md hover:bg-purple-50 dark:hover:bg-purple-900/20 transition-colors"
               >
-                Switch Configuration
+                Import as Copy
+              </button>
+              <button
+                onClick={() => completeImport(bundleToImport, 'overwrite')}
+                className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 transition-colors focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+              >
+                Overwrite
               </button>
             </div>
           </motion.div>
         </div>
       )}
-      
+
       {/* Back to Top Button */}
       <BackToTopButton threshold={300} />
     </div>
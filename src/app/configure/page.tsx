@@ -4,12 +4,30 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { motion } from 'framer-motion';
 import { ConfigurationManager, RaffleConfiguration, RoundConfigurationSettings } from '@/utils/configurationManager';
-import { TeamData } from '@/types/raffle';
+import { TeamData, Prize, RaffleRound } from '@/types/raffle';
+import { carryOverPrizeAssignments } from '@/utils/prizeCatalog';
 import RoundConfigurationSettingsComponent from '../components/RoundConfigurationSettings';
 import AnimationSelector from '../components/AnimationSelector';
 import CSVUploader from '../components/CSVUploader';
+import PrizeCatalogEditor from '../components/PrizeCatalogEditor';
+import DrawCommitmentPanel from '../components/DrawCommitmentPanel';
+import { RaffleSimulator } from '../components/RaffleSimulator';
+import { DrawCommitment } from '@/types/fairDraw';
+import { AuditEvent } from '@/types/audit';
+import { BonusRule } from '@/types/raffleModels';
+import { appendAuditEvent, createAuditEvent } from '@/services/auditLog';
+import { buildDrawEntries } from '@/services/drawService';
+import { resolveRaffleModel } from '@/services/raffleModels';
+import { describeTicketFormula } from '@/services/ticketFormula';
+import { describeBonusRule } from '@/services/bonusTickets';
+import { describeThresholdStrategy } from '@/services/roundThresholds';
+import { describeEligibilityRules, resolveRoundRules } from '@/services/eligibilityRules';
+import { loadStoredRaffleState } from '@/services/raffleStorage';
 import BackToTopButton from '@/components/BackToTopButton';
 
+// Rounds are considered edited when any name or threshold changes
+const roundsSignature = (rounds: RaffleRound[]) => JSON.stringify(rounds.map(round => [round.name, round.pointThreshold, round.winnerCount ?? 1]));
+
 export default function ConfigurePage() {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -20,6 +38,7 @@ export default function ConfigurePage() {
   const [error, setError] = useState<string | null>(null);
   const [animationType, setAnimationType] = useState<'wheel' | 'squidgame'>('wheel');
   const [showCSVUploader, setShowCSVUploader] = useState(false);
+  const [hasDraws, setHasDraws] = useState(false);
   const configRef = useRef<RaffleConfiguration | null>(null);
 
   // Keep ref in sync with state
@@ -34,6 +53,8 @@ export default function ConfigurePage() {
         setConfiguration(config);
         // Initialize animation type from configuration
         setAnimationType(config.roundSettings.animationType || 'wheel');
+        // Draws already made with this configuration's seed lock the commitment
+        setHasDraws((loadStoredRaffleState(configId)?.drawLog?.length || 0) > 0);
       } else {
         setError('Configuration not found');
       }
@@ -56,9 +77,71 @@ export default function ConfigurePage() {
         lastModified: new Date()
       };
       
-      // Regenerate rounds with new settings
+      // Regenerate rounds with new settings, keeping per-round prize assignments
       const newRounds = ConfigurationManager.generateOptimalRounds(config.teams, settings);
-      updatedConfig.rounds = newRounds;
+      updatedConfig.rounds = carryOverPrizeAssignments(newRounds, config.rounds, config.prizes || []);
+
+      // Record the edit in the audit log (settings are re-sent on mount, so only real changes count)
+      let auditLog: AuditEvent[] = config.auditLog || [];
+      const model = resolveRaffleModel(settings);
+      const entries = buildDrawEntries(config.teams, { ticketFormula: model.ticketFormula, bonusRules: model.bonusRules });
+      if (settings.raffleModel && settings.raffleModel !== config.roundSettings.raffleModel) {
+        auditLog = appendAuditEvent(auditLog, createAuditEvent('model_changed', {
+          entries,
+          details: { model: settings.raffleModel, previousModel: config.roundSettings.raffleModel || '' }
+        }));
+      }
+      if (JSON.stringify(settings.ticketFormula) !== JSON.stringify(config.roundSettings.ticketFormula)) {
+        auditLog = appendAuditEvent(auditLog, createAuditEvent('model_changed', {
+          entries,
+          details: {
+            ticketFormula: settings.ticketFormula ? describeTicketFormula(settings.ticketFormula) : 'Model default',
+            previousTicketFormula: config.roundSettings.ticketFormula ? describeTicketFormula(config.roundSettings.ticketFormula) : 'Model default'
+          }
+        }));
+      }
+      if (JSON.stringify(settings.thresholdStrategy) !== JSON.stringify(config.roundSettings.thresholdStrategy)) {
+        auditLog = appendAuditEvent(auditLog, createAuditEvent('model_changed', {
+          entries,
+          details: {
+            thresholdStrategy: settings.thresholdStrategy ? describeThresholdStrategy(settings.thresholdStrategy) : 'Model default',
+            previousThresholdStrategy: config.roundSettings.thresholdStrategy
+              ? describeThresholdStrategy(config.roundSettings.thresholdStrategy)
+              : 'Model default'
+          }
+        }));
+      }
+      if (JSON.stringify(settings.bonusRules ?? []) !== JSON.stringify(config.roundSettings.bonusRules ?? [])) {
+        const describeRules = (rules: BonusRule[] = []) => rules.map(describeBonusRule).join('; ') || 'None';
+        auditLog = appendAuditEvent(auditLog, createAuditEvent('model_changed', {
+          entries,
+          details: {
+            bonusRules: describeRules(settings.bonusRules),
+            previousBonusRules: describeRules(config.roundSettings.bonusRules)
+          }
+        }));
+      }
+      if (JSON.stringify(settings.eligibility ?? {}) !== JSON.stringify(config.roundSettings.eligibility ?? {})) {
+        auditLog = appendAuditEvent(auditLog, createAuditEvent('eligibility_changed', {
+          entries: buildDrawEntries(config.teams, {
+            ticketFormula: model.ticketFormula,
+            bonusRules: model.bonusRules,
+            eligibilityRules: resolveRoundRules(settings.eligibility, newRounds[0])
+          }),
+          details: {
+            rules: describeEligibilityRules(resolveRoundRules(settings.eligibility)),
+            previousRules: describeEligibilityRules(resolveRoundRules(config.roundSettings.eligibility)),
+            roundOverrides: Object.keys(settings.eligibility?.roundOverrides ?? {}).length
+          }
+        }));
+      }
+      if (roundsSignature(newRounds) !== roundsSignature(config.rounds)) {
+        auditLog = appendAuditEvent(auditLog, createAuditEvent('rounds_edited', {
+          entries,
+          details: { rounds: newRounds.length, previousRounds: config.rounds.length }
+        }));
+      }
+      updatedConfig.auditLog = auditLog;
       
       // Save to localStorage
       ConfigurationManager.saveConfiguration(updatedConfig);
@@ -87,6 +170,35 @@ export default function ConfigurePage() {
     }
   }, []);
 
+  const handlePrizesChange = useCallback((prizes: Prize[], rounds: RaffleRound[]) => {
+    const config = configRef.current;
+    if (config) {
+      const updatedConfig = {
+        ...config,
+        prizes,
+        rounds,
+        lastModified: new Date()
+      };
+      
+      ConfigurationManager.saveConfiguration(updatedConfig);
+      setConfiguration(updatedConfig);
+    }
+  }, []);
+
+  const handleDrawCommitmentChange = useCallback((drawCommitment: DrawCommitment) => {
+    const config = configRef.current;
+    if (config) {
+      const updatedConfig = {
+        ...config,
+        drawCommitment,
+        lastModified: new Date()
+      };
+      
+      ConfigurationManager.saveConfiguration(updatedConfig);
+      setConfiguration(updatedConfig);
+    }
+  }, []);
+
   const handleBack = useCallback(() => {
     router.push('/');
   }, [router]);
@@ -107,9 +219,15 @@ export default function ConfigurePage() {
         lastModified: new Date()
       };
       
-      // Regenerate rounds with new team data
+      // Regenerate rounds with new team data, keeping per-round prize assignments
       const newRounds = ConfigurationManager.generateOptimalRounds(data, updatedConfig.roundSettings);
-      updatedConfig.rounds = newRounds;
+      updatedConfig.rounds = carryOverPrizeAssignments(newRounds, config.rounds, config.prizes || []);
+
+      const entries = buildDrawEntries(data);
+      updatedConfig.auditLog = [
+        createAuditEvent('csv_loaded', { entries, details: { players: data.length, previousPlayers: config.teams.length } }),
+        createAuditEvent('rounds_edited', { entries, details: { rounds: newRounds.length, previousRounds: config.rounds.length } })
+      ].reduce(appendAuditEvent, config.auditLog || []);
       
       // Save to localStorage
       ConfigurationManager.saveConfiguration(updatedConfig);
@@ -188,6 +306,12 @@ export default function ConfigurePage() {
               </div>
             </div>
             <div className="flex items-center space-x-3">
+              <button
+                onClick={() => router.push(`/planner?configId=${configuration.id}`)}
+                className="px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors"
+              >
+                Compare Models
+              </button>
               <button
                 onClick={() => setShowCSVUploader(!showCSVUploader)}
                 className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors"
@@ -255,6 +379,14 @@ export default function ConfigurePage() {
             onSettingsChange={handleSettingsChange}
           />
 
+          {/* Dry run of the selected model - shows who drops out each round and why */}
+          <div className="mt-6">
+            <RaffleSimulator
+              teams={configuration.teams}
+              configuration={configuration.roundSettings}
+            />
+          </div>
+
           {/* Animation Type Selector */}
           <div className="mt-6">
             <AnimationSelector
@@ -262,6 +394,24 @@ export default function ConfigurePage() {
               onAnimationTypeChange={handleAnimationChange}
             />
           </div>
+
+          {/* Prize Catalog */}
+          <div className="mt-6">
+            <PrizeCatalogEditor
+              prizes={configuration.prizes || []}
+              rounds={configuration.rounds}
+              onChange={handlePrizesChange}
+            />
+          </div>
+
+          {/* Commit-reveal draw seed */}
+          <div className="mt-6">
+            <DrawCommitmentPanel
+              commitment={configuration.drawCommitment}
+              hasDraws={hasDraws}
+              onChange={handleDrawCommitmentChange}
+            />
+          </div>
         </motion.div>
       </div>
       <BackToTopButton threshold={500} />
@@ -156,7 +156,7 @@ export default function DebugPersistencePage() {
         })),
         isDrawing: false,
         raffleStarted: true,
-        pendingWinner: undefined,
+        pendingWinners: [],
         withdrawnPlayers: []
       };
 
@@ -1,12 +1,16 @@
 'use client';
 
-import React, { useEffect, useState, useRef, useCallback } from 'react';
+import React, { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { motion } from 'framer-motion';
 import { useRaffleState } from '@/hooks/useRaffleState';
-import { ConfigurationManager, RaffleConfiguration, RoundConfigurationSettings } from '@/utils/configurationManager';
-import { TeamData } from '@/types/raffle';
+import { ConfigurationManager, RaffleConfiguration, RaffleTemplate, RoundConfigurationSettings } from '@/utils/configurationManager';
+import { RaffleRound, TeamData } from '@/types/raffle';
 import { RaffleModelType } from '@/types/raffleModels';
+import { getRaffleModel, resolveRaffleModel } from '@/services/raffleModels';
+import { getTeamTickets } from '@/services/bonusTickets';
+import { meetsEligibilityRules, resolveRoundRules } from '@/services/eligibilityRules';
+import { calculateWinProbabilities, getRemainingDraws } from '@/utils/winProbability';
 import CSVUploader from './components/CSVUploader';
 import DataTable from './components/DataTable';
 import RaffleProgress from './components/RaffleProgress';
@@ -14,13 +18,23 @@ import PrizeWheel from './components/PrizeWheel';
 import SquidGameAnimation from './components/SquidGameAnimation';
 import WinnersDisplay from './components/WinnersDisplay';
 import WinnerConfirmation from './components/WinnerConfirmation';
+import UndoToast from './components/UndoToast';
+import RosterUpdateModal from './components/RosterUpdateModal';
+import { buildDrawLog, createDrawCommitment, revealDrawCommitment } from '@/services/fairDraw';
+import { downloadFile, toFileStem } from '@/utils/fileDownload';
+import { AudienceSync, createAudienceSnapshot, openAudienceSync } from '@/services/audienceSync';
+import { AudienceSnapshot } from '@/types/audience';
+import { getRoundWinnerCount } from '@/services/drawService';
+import { applyRosterChanges } from '@/services/rosterMerge';
+import { RosterChange, RosterDiffContext } from '@/types/roster';
+import { loadStoredRaffleState } from '@/services/raffleStorage';
 
 export default function Home() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const { state, actions, computed } = useRaffleState();
   const [currentConfig, setCurrentConfig] = useState<RaffleConfiguration | null>(null);
-  const [currentRaffleModel, setCurrentRaffleModel] = useState<RaffleModelType>(RaffleModelType.WEIGHTED_CONTINUOUS);
+  const [currentRaffleModel, setCurrentRaffleModel] = useState<string>(RaffleModelType.WEIGHTED_CONTINUOUS);
   const [animationType, setAnimationType] = useState<'wheel' | 'squidgame'>('squidgame');
   const [showBackToTop, setShowBackToTop] = useState(false);
   const [oddsPerRound, setOddsPerRound] = useState<number[]>([]);
@@ -28,6 +42,8 @@ export default function Home() {
   const [modalVisible, setModalVisible] = useState(true);
   const [isTransitioning, setIsTransitioning] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [showRosterUpdate, setShowRosterUpdate] = useState(false);
+  const [template, setTemplate] = useState<RaffleTemplate | null>(null); // Template the next upload is set up from
   const hasLoadedInitialConfig = useRef(false);
   const audioRef = useRef<HTMLAudioElement | null>(null);
 
@@ -45,7 +61,7 @@ export default function Home() {
   }, []); // Remove isMounted dependency to prevent infinite loops
 
   // Handle raffle model change
-  const handleRaffleModelChange = (model: RaffleModelType) => {
+  const handleRaffleModelChange = (model: string) => {
     // Prevent updates if raffle is running
     if (state.raffleStarted && state.currentRound > 0) {
       console.warn('Cannot change raffle model after rounds have started');
@@ -58,7 +74,7 @@ export default function Home() {
     }
 
     setCurrentRaffleModel(model);
-    actions.updateRaffleModel(model);
+    actions.updateRaffleModel(model, undefined, currentConfig?.roundSettings?.customModels);
     
     // Update the current configuration if it exists - do this after a short delay to avoid conflicts
     setTimeout(() => {
@@ -130,10 +146,18 @@ export default function Home() {
             actions.updateRounds(config.rounds);
           }
           
+          // Load the prize catalog from the configuration
+          actions.updatePrizes(config.prizes || []);
+          
+          // Load the audit log from the configuration
+          actions.loadAuditLog(config.auditLog || []);
+          
           // Load the raffle model from the configuration
           if (config.roundSettings && config.roundSettings.raffleModel) {
             setCurrentRaffleModel(config.roundSettings.raffleModel);
           }
+          actions.setRaffleModel(resolveRaffleModel(config.roundSettings));
+          actions.setEligibility(config.roundSettings.eligibility);
           
           // Load the animation type from the configuration
           if (config.roundSettings && config.roundSettings.animationType) {
@@ -141,14 +165,14 @@ export default function Home() {
           }
           
         } else {
-          // Configuration not found, clear the ID
+          // Configuration not found, clear the ID and fall back to the raffle run without a configuration
           localStorage.removeItem('currentConfigId');
           updateCurrentConfig(null);
-          actions.resetRaffle();
+          actions.switchConfiguration(null);
         }
       } else {
         // No current configuration - check if we have any saved raffle state at all
-        const savedRaffleState = localStorage.getItem('raffleState');
+        const savedRaffleState = loadStoredRaffleState(null);
         console.log('- savedRaffleState exists:', !!savedRaffleState);
         
         if (savedRaffleState) {
@@ -175,6 +199,7 @@ export default function Home() {
       const config = ConfigurationManager.getConfiguration(configId);        if (config) {
           console.log('Found configuration:', config.name);
           updateCurrentConfig(config);
+          actions.switchConfiguration(config.id); // Resume this configuration's raffle where it stopped
           actions.loadTeamData(config.teams, true); // Preserve raffle state when loading from URL
           
           // Load the rounds from the configuration
@@ -182,10 +207,18 @@ export default function Home() {
             actions.updateRounds(config.rounds);
           }
           
+          // Load the prize catalog from the configuration
+          actions.updatePrizes(config.prizes || []);
+          
+          // Load the audit log from the configuration
+          actions.loadAuditLog(config.auditLog || []);
+          
           // Load the raffle model from the configuration
           if (config.roundSettings && config.roundSettings.raffleModel) {
             setCurrentRaffleModel(config.roundSettings.raffleModel);
           }
+          actions.setRaffleModel(resolveRaffleModel(config.roundSettings));
+          actions.setEligibility(config.roundSettings.eligibility);
           
           // Load the animation type from the configuration
           if (config.roundSettings && config.roundSettings.animationType) {
@@ -204,6 +237,58 @@ export default function Home() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [searchParams, actions, router]);
 
+  // Start the next configuration from a template picked on the configurations page
+  useEffect(() => {
+    const templateId = searchParams.get('templateId');
+    if (!templateId) return;
+
+    const found = ConfigurationManager.getTemplate(templateId);
+    if (!found) {
+      console.warn('Template not found:', templateId);
+      router.replace('/');
+    }
+    setTemplate(found);
+  }, [searchParams, router]);
+
+  const handleClearTemplate = useCallback(() => {
+    setTemplate(null);
+    router.replace('/');
+  }, [router]);
+
+  // Drive the audience window: answer its first request, then push every change
+  const audienceSyncRef = useRef<AudienceSync | null>(null);
+  const audienceSnapshotRef = useRef<AudienceSnapshot | null>(null);
+
+  useEffect(() => {
+    const sync = openAudienceSync(message => {
+      if (message.type === 'request-snapshot' && audienceSnapshotRef.current) {
+        console.log('📺 AUDIENCE: Audience window connected - sending current state');
+        sync.publish({ type: 'snapshot', snapshot: audienceSnapshotRef.current });
+      }
+    });
+    audienceSyncRef.current = sync;
+    return () => {
+      sync.close();
+      audienceSyncRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const snapshot = createAudienceSnapshot(state, computed.eligibleTeamsForCurrentRound, {
+      animationType,
+      configName: currentConfig?.name
+    });
+    audienceSnapshotRef.current = snapshot;
+    audienceSyncRef.current?.publish({ type: 'snapshot', snapshot });
+  }, [state, computed.eligibleTeamsForCurrentRound, animationType, currentConfig?.name]);
+
+  // Persist new audit events to the active configuration (merged by id, never overwritten)
+  useEffect(() => {
+    if (!currentConfig || state.auditLog.length === 0) return;
+    ConfigurationManager.appendAuditEvents(currentConfig.id, state.auditLog);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [state.auditLog, currentConfig?.id]);
+
   // Back to top button visibility
   useEffect(() => {
     const handleScroll = () => {
@@ -214,8 +299,42 @@ export default function Home() {
     return () => window.removeEventListener('scroll', handleScroll);
   }, []);
 
+  // Eligibility rules in force for the round on screen (round overrides applied)
+  const currentEligibilityRules = useMemo(
+    () => resolveRoundRules(state.eligibility, computed.currentRoundData),
+    [state.eligibility, computed.currentRoundData]
+  );
+
+  // Chance of winning anything over the remaining rounds - exact for small rosters, simulated for large ones
+  const winProbability = useMemo(() => {
+    if (!state.teams.length || !state.rounds.length) return undefined;
+    const model = state.raffleModel;
+    const getExcludedTeams = state.eligibility
+      ? (round: RaffleRound) => {
+          const rules = resolveRoundRules(state.eligibility, round);
+          return state.teams.filter(team => !meetsEligibilityRules(team, rules)).map(team => team.Team);
+        }
+      : undefined;
+    return calculateWinProbabilities(
+      state.teams,
+      getRemainingDraws(state.rounds, state.currentRound, state.winners, state.pendingWinners.length, getExcludedTeams),
+      {
+        getTickets: model ? (_points: number, team: TeamData) => getTeamTickets(team, model.ticketFormula, model.bonusRules) : undefined,
+        alreadyWon: state.pendingWinners,
+        withdrawn: [...state.withdrawnPlayers, ...(state.eliminatedPlayers ?? []).map(player => player.team)],
+        model,
+        currentRound: state.currentRound + 1,
+        totalRounds: state.rounds.length
+      }
+    );
+  }, [state.teams, state.rounds, state.currentRound, state.winners, state.pendingWinners, state.withdrawnPlayers, state.eliminatedPlayers, state.raffleModel, state.eligibility]);
+
   // Calculate odds for current round only (odds change after each winner)
   useEffect(() => {
+    // Odds follow the same ticket formula and bonuses the draw uses
+    const model = state.raffleModel;
+    const getModelTickets = (_points: number, team: TeamData) => getTeamTickets(team, model?.ticketFormula, model?.bonusRules);
+
     // Calculate odds if we have teams loaded and either:
     // 1. Raffle has started with current round data, OR
     // 2. Teams are loaded (for initial odds display before raffle starts)
@@ -226,9 +345,13 @@ export default function Home() {
     
     // If raffle hasn't started yet, calculate odds for first round (round 0)
     if (!state.raffleStarted) {
-      // Calculate initial odds for all loaded teams
+      // Calculate initial odds for all loaded teams (players the first round's rules exclude hold no tickets)
+      const firstRoundRules = resolveRoundRules(state.eligibility, state.rounds[0]);
       import('@/utils/oddsCalculation').then(({ calculateOdds }) => {
-        const participantsWithOdds = calculateOdds(state.teams);
+        const participantsWithOdds = calculateOdds(
+          state.teams,
+          (points, team) => (meetsEligibilityRules(team, firstRoundRules) ? getModelTickets(points, team) : 0)
+        );
         // Extract just the odds percentages in the same order as state.teams
         const odds = participantsWithOdds.map(p => p.odds);
         console.log('📊 Initial odds calculation result:', odds.map((odd, i) => `${state.teams[i]?.Team}: ${odd.toFixed(2)}%`));
@@ -249,7 +372,7 @@ export default function Home() {
       console.log(`Eligible teams: ${computed.eligibleTeamsForCurrentRound.length}`);
       
       // Calculate odds only for current round and eligible teams
-      const currentRoundOdds = calculateOdds(computed.eligibleTeamsForCurrentRound);
+      const currentRoundOdds = calculateOdds(computed.eligibleTeamsForCurrentRound, getModelTickets);
       
       // Create a map for faster lookup
       const oddsMap = new Map<string, number>();
@@ -273,7 +396,7 @@ export default function Home() {
       console.log('📊 Odds calculation result:', odds.map((odd, i) => `${state.teams[i]?.Team}: ${odd.toFixed(2)}%`));
       setOddsPerRound(odds);
     });
-  }, [state.raffleStarted, computed.currentRoundData, computed.eligibleTeamsForCurrentRound, state.teams]);
+  }, [state.raffleStarted, computed.currentRoundData, computed.eligibleTeamsForCurrentRound, state.teams, state.raffleModel, state.eligibility, state.rounds]);
 
   const scrollToTop = () => {
     window.scrollTo({
@@ -309,6 +432,13 @@ export default function Home() {
     }
   };
 
+  // Draw the round's winners one at a time, or every open slot in a single draw
+  const startNextDraw = () => {
+    const roundSettings = currentConfig?.roundSettings;
+    const count = roundSettings?.multiWinnerDraw === 'all' ? roundSettings.winnersPerRound || 1 : 1;
+    actions.startDraw(currentConfig?.drawCommitment?.seed, count);
+  };
+
   const handleStartRound = () => {
     if (computed.canStartRound) {
       // Show preparing overlay during transition to Squid Game
@@ -316,7 +446,7 @@ export default function Home() {
       
       // Delay to show overlay, then start draw
       setTimeout(() => {
-        actions.startDraw();
+        startNextDraw();
         
         // Keep overlay visible briefly to ensure smooth transition
         setTimeout(() => {
@@ -326,6 +456,31 @@ export default function Home() {
     }
   };
 
+  const handleStartRaffle = () => {
+    // Commit to a draw seed before the first draw so the commitment can be published up front
+    if (currentConfig && !currentConfig.drawCommitment) {
+      const updatedConfig = { ...currentConfig, drawCommitment: createDrawCommitment() };
+      ConfigurationManager.saveConfiguration(updatedConfig);
+      updateCurrentConfig(updatedConfig);
+      console.log('🔐 Created draw commitment:', updatedConfig.drawCommitment.commitment);
+    }
+    actions.startRaffle();
+  };
+
+  const handleRevealSeed = () => {
+    if (!currentConfig?.drawCommitment) return;
+    if (!window.confirm('Reveal the draw seed? Anyone with the exported log will be able to verify every draw.')) return;
+    const updatedConfig = { ...currentConfig, drawCommitment: revealDrawCommitment(currentConfig.drawCommitment) };
+    ConfigurationManager.saveConfiguration(updatedConfig);
+    updateCurrentConfig(updatedConfig);
+  };
+
+  const handleExportDrawLog = () => {
+    if (!currentConfig?.drawCommitment) return;
+    const log = buildDrawLog(currentConfig.drawCommitment, state.drawLog, currentConfig);
+    downloadFile(`${toFileStem(currentConfig.name)}-draw-log.json`, JSON.stringify(log, null, 2));
+  };
+
   const handleWinnerSelected = (winner: string) => {
     actions.selectWinner(winner);
     setModalVisible(true); // Reset modal visibility for new winner
@@ -334,6 +489,15 @@ export default function Home() {
   const handleConfirmWinner = () => {
     // Start modal exit animation
     setModalVisible(false);
+
+    // More winners from the same draw are waiting - confirm this one and show the next
+    if (state.pendingWinners.length > 1) {
+      setTimeout(() => {
+        actions.confirmWinner(undefined, currentConfig?.drawCommitment?.seed);
+        setModalVisible(true);
+      }, 300);
+      return;
+    }
     
     // After modal animation completes, show transition overlay
     setTimeout(() => {
@@ -341,11 +505,11 @@ export default function Home() {
       
       // Delay state changes to ensure overlay is fully visible
       setTimeout(() => {
-        actions.confirmWinner();
+        actions.confirmWinner(undefined, currentConfig?.drawCommitment?.seed);
         
         // Additional delay before starting draw to prevent flash
         setTimeout(() => {
-          actions.startDraw();
+          startNextDraw();
           
           // Keep overlay visible longer to ensure SquidGame component is fully loaded
           setTimeout(() => {
@@ -358,8 +522,12 @@ export default function Home() {
 
   const handleRejectWinner = () => {
     actions.rejectWinner();
-    // Immediately start a new draw
-    actions.startDraw();
+    // Immediately redraw the open slot, unless other drawn winners still need a decision
+    if (state.pendingWinners.length > 1) {
+      setModalVisible(true);
+      return;
+    }
+    startNextDraw();
   };
 
   const handleSpinComplete = () => {
@@ -370,13 +538,43 @@ export default function Home() {
     actions.stopDraw();
   };
 
+  // Undo/redo can bring back a pending winner, so make sure its modal is showing
+  const handleUndo = useCallback(() => {
+    actions.undo();
+    setModalVisible(true);
+  }, [actions]);
+
+  const handleRedo = useCallback(() => {
+    actions.redo();
+    setModalVisible(true);
+  }, [actions]);
+
+  // Raffle status of every player, so the roster diff can flag conflicting changes
+  const rosterContext: RosterDiffContext = useMemo(() => ({
+    winners: state.winners.map(w => w.team),
+    pendingWinners: state.pendingWinners,
+    withdrawnPlayers: state.withdrawnPlayers
+  }), [state.winners, state.pendingWinners, state.withdrawnPlayers]);
+
+  const handleApplyRosterChanges = (changes: RosterChange[]) => {
+    actions.applyRosterChanges(changes);
+    // Keep the configuration's roster in step so reloading the page does not bring back the old points
+    if (currentConfig) {
+      const updatedConfig = { ...currentConfig, teams: applyRosterChanges(currentConfig.teams, changes) };
+      ConfigurationManager.saveConfiguration(updatedConfig);
+      updateCurrentConfig(updatedConfig);
+    }
+  };
+
   const handleCloseWinnerModal = () => {
     actions.clearPendingWinner();
   };
 
   const handleDataLoaded = useCallback((teams: TeamData[], configName?: string, roundSettings?: RoundConfigurationSettings) => {
     if (configName) {
-      const newConfig = ConfigurationManager.createConfiguration(configName, teams, roundSettings);
+      const newConfig = template
+        ? ConfigurationManager.createConfigurationFromTemplate(configName, teams, template)
+        : ConfigurationManager.createConfiguration(configName, teams, roundSettings);
       ConfigurationManager.saveConfiguration(newConfig);
       updateCurrentConfig(newConfig);
       
@@ -386,17 +584,23 @@ export default function Home() {
     }
     actions.loadTeamData(teams);
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [actions, router]);
+  }, [actions, router, template]);
 
 
 
   return (
     <>
       {/* Winner Confirmation Modal - Outside main container */}
-      {state.pendingWinner && computed.currentRoundData && (
+      {state.pendingWinners.length > 0 && computed.currentRoundData && (
         <WinnerConfirmation
-          winner={state.pendingWinner}
+          key={state.pendingWinners[0]}
+          winner={state.pendingWinners[0]}
           roundName={computed.currentRoundData.name}
+          slotLabel={getRoundWinnerCount(computed.currentRoundData) > 1
+            ? `Winner ${state.winners.filter(w => w.round === state.currentRound + 1).length + 1} of ${getRoundWinnerCount(computed.currentRoundData)}`
+            : undefined}
+          upNext={state.pendingWinners.slice(1)}
+          prize={computed.currentPrize}
           onConfirm={handleConfirmWinner}
           onReject={handleRejectWinner}
           onClose={handleCloseWinnerModal}
@@ -465,6 +669,35 @@ export default function Home() {
             )}
           </motion.button>
           
+          {/* Audience Screen - opens the projector view in its own window */}
+          <motion.button
+            whileHover={{ scale: 1.1 }}
+            whileTap={{ scale: 0.9 }}
+            onClick={() => window.open('/audience', 'raffle-audience')}
+            className="absolute top-0 right-20 p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors z-30"
+            title="Open Audience Screen"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+            </svg>
+          </motion.button>
+
+          {/* Audit Log Timeline - next to the gear icon */}
+          <motion.button
+            whileHover={{ scale: 1.1 }}
+            whileTap={{ scale: 0.9 }}
+            onClick={() => {
+              const path = currentConfig ? `/audit?configId=${currentConfig.id}` : '/audit';
+              router.push(path);
+            }}
+            className="absolute top-0 right-10 p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors z-30"
+            title="Audit Log"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+            </svg>
+          </motion.button>
+
           {/* Always Visible Gear Icon - Top Right */}
           <motion.button
             whileHover={{ scale: 1.1, rotate: 90 }}
@@ -515,6 +748,43 @@ export default function Home() {
               >
                 🔄 Start New Raffle
               </motion.button>
+
+              {/* Verifiable draw log */}
+              {currentConfig?.drawCommitment && (
+                <div className="mt-6 pt-6 border-t border-gray-300 dark:border-gray-600 space-y-3">
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Commitment: <span className="font-mono break-all">{currentConfig.drawCommitment.commitment}</span>
+                  </p>
+                  <div className="flex flex-wrap justify-center gap-3">
+                    {!currentConfig.drawCommitment.revealedAt && (
+                      <motion.button
+                        whileHover={{ scale: 1.05 }}
+                        whileTap={{ scale: 0.95 }}
+                        onClick={handleRevealSeed}
+                        className="px-4 py-2 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 transition-colors"
+                      >
+                        🔓 Reveal Seed
+                      </motion.button>
+                    )}
+                    <motion.button
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      onClick={handleExportDrawLog}
+                      className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+                    >
+                      📜 Export Draw Log
+                    </motion.button>
+                    <motion.button
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      onClick={() => router.push('/verify')}
+                      className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-colors"
+                    >
+                      ✅ Verify a Log
+                    </motion.button>
+                  </div>
+                </div>
+              )}
             </div>
           </motion.div>
         )}
@@ -536,11 +806,16 @@ export default function Home() {
               <motion.button
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
-                onClick={actions.startRaffle}
+                onClick={handleStartRaffle}
                 className="px-8 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white font-semibold rounded-lg shadow-lg hover:from-blue-700 hover:to-purple-700 transition-all text-lg"
               >
                 🚀 Start Raffle
               </motion.button>
+              {currentConfig?.drawCommitment && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Draw commitment: <span className="font-mono break-all">{currentConfig.drawCommitment.commitment}</span>
+                </p>
+              )}
             </div>
           </motion.div>
         )}
@@ -550,6 +825,8 @@ export default function Home() {
           <CSVUploader 
             onDataLoaded={handleDataLoaded}
             isDisabled={state.raffleStarted}
+            template={template}
+            onClearTemplate={handleClearTemplate}
           />
         )}
 
@@ -565,6 +842,10 @@ export default function Home() {
               title="Loaded Player Data" 
               showOdds={false} 
               currentRoundOdds={oddsPerRound} 
+              winProbability={winProbability}
+              ticketFormula={state.raffleModel?.ticketFormula}
+              bonusRules={state.raffleModel?.bonusRules}
+              eligibilityRules={currentEligibilityRules}
               currentRound={state.currentRound}
               storageKey="playerDataTable"
             />
@@ -587,9 +868,29 @@ export default function Home() {
                   disabled={!computed.canStartRound}
                   className="px-8 py-3 bg-gradient-to-r from-green-600 to-blue-600 text-white font-semibold rounded-lg shadow-lg hover:from-green-700 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
                 >
-                  🎲 Draw Winner - {computed.currentRoundData?.name}
+                  🎲 Draw Winner - {computed.currentRoundData?.name}{computed.currentPrize && ` • ${computed.currentPrize.name}`}
                 </motion.button>
               )}
+
+              {!state.isDrawing && state.pendingWinners.length === 0 && (
+                <div>
+                  <button
+                    onClick={() => setShowRosterUpdate(true)}
+                    className="text-sm text-blue-600 dark:text-blue-400 hover:underline cursor-pointer"
+                  >
+                    🧾 Update roster from a new export
+                  </button>
+                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">Roster v{state.rosterVersion}</span>
+                </div>
+              )}
+              
+              {!computed.roundHasPrize && computed.currentRoundData && (
+                <div className="bg-yellow-100 dark:bg-yellow-900/20 border border-yellow-400 dark:border-yellow-600 rounded-lg p-4">
+                  <p className="text-yellow-800 dark:text-yellow-200">
+                    No prizes left for {computed.currentRoundData.name}. Add prizes or assign more to this round in the configuration.
+                  </p>
+                </div>
+              )}
               
               {computed.eligibleTeamsForCurrentRound.length === 0 && computed.currentRoundData && (
                 <div className="bg-yellow-100 dark:bg-yellow-900/20 border border-yellow-400 dark:border-yellow-600 rounded-lg p-4">
@@ -610,10 +911,32 @@ export default function Home() {
             currentRound={state.currentRound}
             remainingTeams={state.remainingTeams.length}
             totalTeams={state.teams.length}
-            raffleModel={currentRaffleModel}
+            raffleModel={getRaffleModel(currentRaffleModel, currentConfig?.roundSettings?.customModels)}
           />
         )}
 
+        {/* Players the model's elimination rule dropped, with the reason for each */}
+        {state.raffleStarted && !state.isDrawing && (state.eliminatedPlayers?.length ?? 0) > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-4">
+            <details>
+              <summary className="cursor-pointer font-medium text-red-600 dark:text-red-400">
+                ❌ {state.eliminatedPlayers?.length} eliminated by {state.raffleModel?.name ?? 'the raffle model'} - who and why
+              </summary>
+              <ul className="mt-2 space-y-1 text-sm">
+                {state.eliminatedPlayers?.map(({ team, round, reason }) => (
+                  <li key={team} className="flex justify-between gap-4 text-gray-700 dark:text-gray-300">
+                    <span>
+                      <span className="font-medium">{team}</span>
+                      <span className="ml-2 text-gray-500 dark:text-gray-400">after {state.rounds[round - 1]?.name ?? `Round ${round}`}</span>
+                    </span>
+                    <span className="text-gray-500 dark:text-gray-400 text-right">{reason}</span>
+                  </li>
+                ))}
+              </ul>
+            </details>
+          </div>
+        )}
+
         {/* Prize wheel or Squid Game Animation */}
         {state.isDrawing && computed.eligibleTeamsForCurrentRound.length > 0 && (
           <motion.div
@@ -625,8 +948,11 @@ export default function Home() {
               <PrizeWheel
                 teams={computed.eligibleTeamsForCurrentRound}
                 isSpinning={state.isDrawing}
+                winner={state.currentDraw?.winner}
                 onWinner={handleWinnerSelected}
                 onSpinComplete={handleSpinComplete}
+                ticketFormula={state.raffleModel?.ticketFormula}
+                bonusRules={state.raffleModel?.bonusRules}
               />
             ) : (
               <SquidGameAnimation
@@ -635,9 +961,12 @@ export default function Home() {
                 isSpinning={state.isDrawing}
                 previousWinners={state.winners.map(w => w.team)}
                 withdrawnPlayers={state.withdrawnPlayers}
+                winner={state.currentDraw?.winner}
                 onWinner={handleWinnerSelected}
                 onSpinComplete={handleSpinComplete}
                 onClose={handleCloseSquidGame}
+                ticketFormula={state.raffleModel?.ticketFormula}
+                bonusRules={state.raffleModel?.bonusRules}
               />
             )}
           </motion.div>
@@ -651,6 +980,10 @@ export default function Home() {
             title="Live Player Status"
             showOdds={false}
             currentRoundOdds={oddsPerRound}
+            winProbability={winProbability}
+            ticketFormula={state.raffleModel?.ticketFormula}
+            bonusRules={state.raffleModel?.bonusRules}
+            eligibilityRules={currentEligibilityRules}
             currentRound={state.currentRound}
             collapsible={true}
             defaultExpanded={false}
@@ -664,7 +997,10 @@ export default function Home() {
           <WinnersDisplay 
             winners={state.winners} 
             teams={state.teams} 
+            prizes={state.prizes}
             storageKey="prizeWinners"
+            ticketFormula={state.raffleModel?.ticketFormula}
+            bonusRules={state.raffleModel?.bonusRules}
           />
         )}
 
@@ -675,6 +1011,24 @@ export default function Home() {
           </div>
         )}
 
+        {/* Mid-raffle roster update with diff preview */}
+        <RosterUpdateModal
+          isOpen={showRosterUpdate}
+          onClose={() => setShowRosterUpdate(false)}
+          teams={state.teams}
+          context={rosterContext}
+          onApply={handleApplyRosterChanges}
+        />
+
+        {/* Last action toast with undo (Ctrl+Z) / redo (Ctrl+Shift+Z) */}
+        <UndoToast
+          lastAction={computed.lastAction}
+          canUndo={computed.canUndo}
+          canRedo={computed.canRedo}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+        />
+
         {/* Back to Top Button */}
         {showBackToTop && (
           <motion.button
@@ -0,0 +1,303 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { ConfigurationManager, RaffleConfiguration, RoundConfigurationSettings } from '@/utils/configurationManager';
+import { ScenarioSummary } from '@/types/modelComparison';
+import {
+  ComparisonScenario,
+  createScenario,
+  createTally,
+  getComparisonTiers,
+  runSimulations,
+  summarizeScenario,
+  withRaffleModel
+} from '@/services/modelComparison';
+import { getRaffleModels, resolveRaffleModel } from '@/services/raffleModels';
+import { describeTicketFormula } from '@/services/ticketFormula';
+import { describeEliminationRule } from '@/services/elimination';
+import { describeThresholdStrategy } from '@/services/roundThresholds';
+import ModelComparisonResults from '../components/ModelComparisonResults';
+import BackToTopButton from '@/components/BackToTopButton';
+
+const SCENARIO_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6'];
+const ITERATION_OPTIONS = [1000, 2500, 5000, 10000];
+const CHUNK_SIZE = 50; // Raffles simulated between progress updates
+const MAX_SCENARIOS = SCENARIO_COLORS.length;
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+/**
+ * Starting scenarios - the configuration as saved, then each other model on
+ * the same rounds without the configuration's formula and threshold overrides
+ */
+const getInitialScenarios = (settings: RoundConfigurationSettings): ComparisonScenario[] => {
+  const current = resolveRaffleModel(settings);
+  const others = getRaffleModels(settings.customModels)
+    .filter(model => model.id !== current.id)
+    .slice(0, 1)
+    .map(model => createScenario(model.name, withRaffleModel(settings, model.id)));
+  return [createScenario(`${current.name} (current)`, settings), ...others];
+};
+
+export default function PlannerPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [configuration, setConfiguration] = useState<RaffleConfiguration | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [scenarios, setScenarios] = useState<ComparisonScenario[]>([]);
+  const [iterations, setIterations] = useState(ITERATION_OPTIONS[0]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [summaries, setSummaries] = useState<ScenarioSummary[]>([]);
+  const cancelRef = useRef(false);
+
+  useEffect(() => {
+    const configId = searchParams.get('configId') || localStorage.getItem('currentConfigId');
+    const config = configId ? ConfigurationManager.getConfiguration(configId) : null;
+    setConfiguration(config);
+    if (config) {
+      setScenarios(getInitialScenarios(config.roundSettings));
+    }
+    setLoading(false);
+  }, [searchParams]);
+
+  const updateScenario = (id: string, changes: Partial<ComparisonScenario>) => {
+    setScenarios(prev => prev.map(scenario => (scenario.id === id ? { ...scenario, ...changes } : scenario)));
+  };
+
+  const updateSettings = (scenario: ComparisonScenario, changes: Partial<RoundConfigurationSettings>) => {
+    updateScenario(scenario.id, { settings: { ...scenario.settings, ...changes } });
+  };
+
+  const changeModel = (scenario: ComparisonScenario, raffleModel: string) => {
+    updateScenario(scenario.id, { settings: withRaffleModel(scenario.settings, raffleModel) });
+  };
+
+  const addScenario = () => {
+    if (!configuration) return;
+    setScenarios(prev => [...prev, createScenario(`Scenario ${prev.length + 1}`, { ...configuration.roundSettings })]);
+  };
+
+  const handleRun = useCallback(async () => {
+    if (!configuration || configuration.teams.length === 0) return;
+
+    console.log(`📊 Simulating ${iterations} raffles for ${scenarios.length} scenarios`);
+    cancelRef.current = false;
+    setIsRunning(true);
+    setProgress(0);
+
+    const { teams } = configuration;
+    const tiers = getComparisonTiers(teams, configuration.rounds);
+    const totalWork = iterations * scenarios.length;
+    const results: ScenarioSummary[] = [];
+
+    for (const [index, scenario] of scenarios.entries()) {
+      const tally = createTally(teams.length);
+      while (tally.iterations < iterations && !cancelRef.current) {
+        runSimulations(teams, scenario.settings, tally, Math.min(CHUNK_SIZE, iterations - tally.iterations));
+        setProgress((index * iterations + tally.iterations) / totalWork);
+        // Yield so the progress bar and cancel button stay responsive
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+      if (cancelRef.current) break;
+      results.push(summarizeScenario(scenario, teams, tally, tiers));
+    }
+
+    if (cancelRef.current) {
+      console.log('⏹️ Simulation cancelled');
+    } else {
+      setSummaries(results);
+    }
+    setIsRunning(false);
+  }, [configuration, iterations, scenarios]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">Loading planner...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const models = getRaffleModels(configuration?.roundSettings.customModels);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => router.push(configuration ? `/configure?configId=${configuration.id}` : '/')}
+                className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </button>
+              <div>
+                <h1 className="text-xl font-bold text-gray-900 dark:text-gray-100">
+                  Model Comparison Planner
+                </h1>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {configuration ? `${configuration.name} • ${configuration.teams.length} players` : 'No configuration selected'}
+                </p>
+              </div>
+            </div>
+            {configuration && (
+              <div className="flex items-center space-x-3">
+                <select
+                  value={iterations}
+                  onChange={(e) => setIterations(parseInt(e.target.value))}
+                  disabled={isRunning}
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                >
+                  {ITERATION_OPTIONS.map(option => (
+                    <option key={option} value={option}>{option.toLocaleString()} raffles</option>
+                  ))}
+                </select>
+                {isRunning ? (
+                  <button
+                    onClick={() => { cancelRef.current = true; }}
+                    className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors cursor-pointer"
+                  >
+                    Cancel
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleRun}
+                    disabled={configuration.teams.length === 0 || scenarios.length < 2}
+                    className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors cursor-pointer"
+                  >
+                    Run Comparison
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {!configuration || configuration.teams.length === 0 ? (
+          <div className="text-center py-16 text-gray-500 dark:text-gray-400">
+            <div className="text-4xl mb-4">📊</div>
+            <p>Load a configuration with players to compare raffle models.</p>
+          </div>
+        ) : (
+          <>
+            {/* Scenarios */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {scenarios.map((scenario, i) => {
+                const model = resolveRaffleModel(scenario.settings);
+                return (
+                  <motion.div
+                    key={scenario.id}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 border-l-4 space-y-3"
+                    style={{ borderLeftColor: SCENARIO_COLORS[i % SCENARIO_COLORS.length] }}
+                  >
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={scenario.label}
+                        onChange={(e) => updateScenario(scenario.id, { label: e.target.value })}
+                        disabled={isRunning}
+                        className={`${inputClass} font-semibold`}
+                      />
+                      {scenarios.length > 2 && (
+                        <button
+                          onClick={() => setScenarios(prev => prev.filter(other => other.id !== scenario.id))}
+                          disabled={isRunning}
+                          className="text-red-600 dark:text-red-400 hover:underline text-xs cursor-pointer"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                    <div>
+                      <label className={labelClass}>Model</label>
+                      <select
+                        value={model.id}
+                        onChange={(e) => changeModel(scenario, e.target.value)}
+                        disabled={isRunning}
+                        className={inputClass}
+                      >
+                        {models.map(option => (
+                          <option key={option.id} value={option.id}>{option.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className={labelClass}>Rounds</label>
+                        <input
+                          type="number"
+                          min="1"
+                          max="10"
+                          value={scenario.settings.numberOfRounds}
+                          onChange={(e) => updateSettings(scenario, { numberOfRounds: Math.max(1, parseInt(e.target.value) || 1) })}
+                          disabled={isRunning}
+                          className={inputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className={labelClass}>Winners per round</label>
+                        <input
+                          type="number"
+                          min="1"
+                          value={scenario.settings.winnersPerRound || 1}
+                          onChange={(e) => updateSettings(scenario, { winnersPerRound: Math.max(1, parseInt(e.target.value) || 1) })}
+                          disabled={isRunning}
+                          className={inputClass}
+                        />
+                      </div>
+                    </div>
+                    <ul className="text-xs text-gray-600 dark:text-gray-400 space-y-1">
+                      <li>Tickets: {describeTicketFormula(model.ticketFormula)}</li>
+                      <li>Drop off: {describeEliminationRule(model.elimination)}</li>
+                      <li>Rounds: {describeThresholdStrategy(model.thresholdStrategy)}</li>
+                    </ul>
+                  </motion.div>
+                );
+              })}
+            </div>
+
+            {scenarios.length < MAX_SCENARIOS && (
+              <button
+                onClick={addScenario}
+                disabled={isRunning}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline cursor-pointer"
+              >
+                + Add scenario
+              </button>
+            )}
+
+            {isRunning && (
+              <div>
+                <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-1">
+                  <span>Simulating raffles...</span>
+                  <span>{Math.round(progress * 100)}%</span>
+                </div>
+                <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                  <div className="h-full bg-blue-500 transition-all" style={{ width: `${progress * 100}%` }} />
+                </div>
+              </div>
+            )}
+
+            <ModelComparisonResults summaries={summaries} colors={SCENARIO_COLORS} />
+          </>
+        )}
+      </div>
+      <BackToTopButton threshold={500} />
+    </div>
+  );
+}
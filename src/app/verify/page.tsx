@@ -0,0 +1,230 @@
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { DrawLog, DrawLogVerification } from '@/types/fairDraw';
+import { verifyDrawLog } from '@/services/fairDraw';
+import { FairnessAuditReport, FairnessReportVerification } from '@/types/fairnessAudit';
+import { isFairnessReport, verifyFairnessReport } from '@/services/fairnessAudit';
+
+export default function VerifyPage() {
+  const router = useRouter();
+  const [log, setLog] = useState<DrawLog | null>(null);
+  const [verification, setVerification] = useState<DrawLogVerification | null>(null);
+  const [seedInput, setSeedInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<FairnessAuditReport | null>(null);
+  const [reportVerification, setReportVerification] = useState<FairnessReportVerification | null>(null);
+
+  const runVerification = useCallback((drawLog: DrawLog, seed: string) => {
+    const logWithSeed = seed ? { ...drawLog, seed } : drawLog;
+    setVerification(verifyDrawLog(logWithSeed));
+  }, []);
+
+  const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const parsed = JSON.parse(e.target?.result as string) as DrawLog;
+        setReport(null);
+        setReportVerification(null);
+
+        // Fairness audit reports are replayed from their own seed
+        if (isFairnessReport(parsed)) {
+          setLog(null);
+          setVerification(null);
+          setError(null);
+          setReport(parsed);
+          setReportVerification(verifyFairnessReport(parsed));
+          return;
+        }
+
+        if (!parsed || typeof parsed.commitment !== 'string' || !Array.isArray(parsed.draws)) {
+          throw new Error('File is not a draw log');
+        }
+        setLog(parsed);
+        setError(null);
+        setSeedInput(parsed.seed || '');
+        runVerification(parsed, parsed.seed || '');
+      } catch (err) {
+        console.error('Failed to read draw log:', err);
+        setLog(null);
+        setVerification(null);
+        setError(err instanceof Error ? err.message : 'Could not parse the draw log');
+      }
+    };
+    reader.readAsText(file);
+  }, [runVerification]);
+
+  const handleSeedVerify = useCallback(() => {
+    if (log) {
+      runVerification(log, seedInput.trim());
+    }
+  }, [log, seedInput, runVerification]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16 space-x-4">
+            <button
+              onClick={() => router.push('/')}
+              className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </button>
+            <div>
+              <h1 className="text-xl font-bold text-gray-900 dark:text-gray-100">
+                Verify Draw Log
+              </h1>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Re-derive every winner from the published commitment and revealed seed
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-md space-y-4"
+        >
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Draw log or fairness audit report (.json)
+          </label>
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={handleFileUpload}
+            className="block w-full text-sm text-gray-700 dark:text-gray-300"
+          />
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400">❌ {error}</p>
+          )}
+
+          {log && (
+            <div className="space-y-2">
+              <div className="text-xs font-medium text-gray-500 dark:text-gray-400">Commitment</div>
+              <code className="block px-3 py-2 bg-gray-100 dark:bg-gray-700 rounded-md text-xs font-mono break-all text-gray-900 dark:text-gray-100">
+                {log.commitment}
+              </code>
+              <div className="text-xs font-medium text-gray-500 dark:text-gray-400">Seed</div>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={seedInput}
+                  onChange={(e) => setSeedInput(e.target.value)}
+                  placeholder="Paste the revealed seed if the log does not include it"
+                  className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-xs font-mono bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                />
+                <button
+                  onClick={handleSeedVerify}
+                  className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors cursor-pointer"
+                >
+                  Verify
+                </button>
+              </div>
+            </div>
+          )}
+        </motion.div>
+
+        {report && reportVerification && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-md space-y-4"
+          >
+            <div className={`p-4 rounded-lg ${
+              reportVerification.allValid
+                ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200'
+                : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
+            }`}>
+              <div className="font-semibold">
+                {reportVerification.allValid
+                  ? `✅ Fairness audit verified - all ${report.iterations.toLocaleString()} draws replayed`
+                  : !reportVerification.digestValid
+                    ? '❌ Checksum does not match - the report file was changed or damaged'
+                    : !reportVerification.rosterHashValid
+                      ? '❌ Roster does not match its hash'
+                      : !reportVerification.drawsValid
+                        ? '❌ Replaying the draws gives different counts'
+                        : '❌ The recorded statistics do not follow from the draw counts'}
+              </div>
+              <div className="text-sm mt-1">
+                {report.configurationName}{report.roundName && ` • ${report.roundName}`} • generated {new Date(report.generatedAt).toLocaleString()}
+              </div>
+            </div>
+            <div className="text-sm text-gray-700 dark:text-gray-300">
+              χ² = {report.chiSquared.toFixed(2)} with {report.degreesOfFreedom} degrees of freedom • p = {report.pValue.toFixed(4)} •
+              {report.passed ? ' no evidence of bias' : ` significant at ${report.significanceLevel}`} • {report.entries.length} players
+            </div>
+          </motion.div>
+        )}
+
+        {log && verification && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-md space-y-4"
+          >
+            <div className={`p-4 rounded-lg ${
+              verification.allValid
+                ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200'
+                : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
+            }`}>
+              <div className="font-semibold">
+                {verification.allValid
+                  ? `✅ All ${verification.draws.length} draws verified`
+                  : !verification.seedRevealed
+                    ? '⏳ Seed not revealed yet - draws cannot be verified'
+                    : !verification.commitmentValid
+                      ? '❌ Seed does not match the published commitment'
+                      : '❌ One or more draws do not match'}
+              </div>
+              {log.configurationName && (
+                <div className="text-sm mt-1">{log.configurationName} • exported {new Date(log.exportedAt).toLocaleString()}</div>
+              )}
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="py-2">Round</th>
+                  <th className="py-2">Recorded Winner</th>
+                  <th className="py-2">Re-derived Winner</th>
+                  <th className="py-2">Outcome</th>
+                  <th className="py-2">Roster</th>
+                  <th className="py-2">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {verification.draws.map(result => {
+                  const draw = log.draws[result.index];
+                  return (
+                    <tr key={result.index} className="border-b border-gray-100 dark:border-gray-700 text-gray-900 dark:text-gray-100">
+                      <td className="py-2">{draw.roundName || `Round ${result.round}`}</td>
+                      <td className="py-2">{result.recordedWinner}</td>
+                      <td className="py-2">{result.expectedWinner ?? '—'}</td>
+                      <td className="py-2 capitalize">{draw.outcome || 'pending'}</td>
+                      <td className="py-2">{result.rosterHashValid ? `${draw.entries.length} players` : '❌ tampered'}</td>
+                      <td className="py-2">{result.winnerValid && result.rosterHashValid ? '✅' : '❌'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </motion.div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,27 @@
-import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
-import { TeamData, RaffleRound, Winner, RaffleState } from '@/types/raffle';
-import { RaffleModelType } from '@/types/raffleModels';
+import { useState, useCallback, useMemo, useEffect, useRef, MutableRefObject } from 'react';
+import { TeamData, RaffleRound, Winner, RaffleState, Prize, RaffleHistoryEntry, RaffleLastAction, EliminatedPlayer } from '@/types/raffle';
+import { RaffleModel } from '@/types/raffleModels';
+import { EligibilitySettings } from '@/types/eligibility';
+import { DrawRecord } from '@/types/fairDraw';
+import {
+  DrawEligibilityOptions,
+  buildDrawEntries,
+  getEligibleTeams,
+  getRoundWinnerCount,
+  performFairDraw
+} from '@/services/drawService';
+import { generateDrawSeed } from '@/services/fairDraw';
+import { AuditEvent, AuditEventType } from '@/types/audit';
+import { AuditEventInput, appendAuditEvent, createAuditEvent } from '@/services/auditLog';
 import { ConfigurationManager, RoundConfigurationSettings } from '@/utils/configurationManager';
+import { getNextPrizeForRound, getRemainingPrizeCount, roundHasPrizeAvailable } from '@/utils/prizeCatalog';
+import { RosterChange } from '@/types/roster';
+import { applyRosterChanges as mergeRosterChanges } from '@/services/rosterMerge';
+import { getRaffleModel } from '@/services/raffleModels';
+import { resolveRoundRules } from '@/services/eligibilityRules';
+import { eliminateAfterRound } from '@/services/elimination';
+import { getTeamTickets } from '@/services/bonusTickets';
+import { clearStoredRaffleState, loadStoredRaffleState, saveStoredRaffleState } from '@/services/raffleStorage';
 
 const DEFAULT_ROUNDS: RaffleRound[] = [
   {
@@ -36,10 +56,10 @@ const DEFAULT_ROUNDS: RaffleRound[] = [
   }
 ];
 
-// Persistence utilities
-const RAFFLE_STATE_KEY = 'raffleState';
+// Persistence utilities - see raffleStorage for where the state is kept.
+// Each configuration has its own saved state; null is the raffle run without a configuration.
 
-const saveStateToStorage = (state: RaffleState) => {
+const saveStateToStorage = (configurationId: string | null, state: RaffleState) => {
   try {
     if (typeof window === 'undefined') {
       console.log('❌ SAVE: window is undefined (SSR)');
@@ -52,7 +72,7 @@ const saveStateToStorage = (state: RaffleState) => {
       teamsLength: state.teams.length,
       currentRound: state.currentRound,
       winnersLength: state.winners.length,
-      pendingWinner: !!state.pendingWinner,
+      pendingWinners: state.pendingWinners?.length || 0,
       withdrawnPlayersLength: state.withdrawnPlayers?.length || 0
     });
     
@@ -61,33 +81,8 @@ const saveStateToStorage = (state: RaffleState) => {
     console.log(`💾 SAVE: shouldSave = ${shouldSave} (raffleStarted: ${state.raffleStarted}, teams.length: ${state.teams.length})`);
     
     if (shouldSave) {
-      const stateToSave = JSON.stringify(state);
-      console.log(`💾 SAVE: About to save ${stateToSave.length} characters to localStorage`);
-      
-      // Check localStorage availability
-      if (!localStorage) {
-        console.error('❌ SAVE: localStorage is not available!');
-        return;
-      }
-      
-      localStorage.setItem(RAFFLE_STATE_KEY, stateToSave);
-      console.log('✅ SAVE: localStorage.setItem completed');
-      
-      // Verify it was actually saved
-      const verification = localStorage.getItem(RAFFLE_STATE_KEY);
-      if (verification) {
-        console.log(`✅ SAVE: Verification successful - ${verification.length} characters saved`);
-        
-        // Parse and verify structure
-        try {
-          const parsed = JSON.parse(verification);
-          console.log('✅ SAVE: JSON parse successful, teams:', parsed.teams?.length || 0);
-        } catch (parseError) {
-          console.error('❌ SAVE: Verification parse failed:', parseError);
-        }
-      } else {
-        console.error('❌ SAVE: Verification failed - localStorage.getItem returned null');
-      }
+      saveStoredRaffleState(configurationId, state);
+      console.log(`✅ SAVE: Raffle state saved for ${configurationId ?? 'the unsaved raffle'}`);
     } else {
       console.log('❌ SAVE: Skipping save - no active raffle or teams');
     }
@@ -101,30 +96,22 @@ const saveStateToStorage = (state: RaffleState) => {
   }
 };
 
-// Throttled save function to prevent excessive localStorage writes (removed unused function)
-
-const loadStateFromStorage = (): RaffleState | null => {
+const loadStateFromStorage = (configurationId: string | null): RaffleState | null => {
   try {
     if (typeof window === 'undefined') {
       console.log('📤 LOAD: window is undefined (SSR)');
       return null;
     }
     
-    console.log('📤 LOAD: Attempting to load raffle state from localStorage');
-    
-    if (!localStorage) {
-      console.error('❌ LOAD: localStorage is not available!');
-      return null;
-    }
+    console.log(`📤 LOAD: Attempting to load saved raffle state for ${configurationId ?? 'the unsaved raffle'}`);
     
-    const saved = localStorage.getItem(RAFFLE_STATE_KEY);
-    console.log(`📤 LOAD: localStorage.getItem returned: ${saved ? `${saved.length} characters` : 'null'}`);
+    const saved = loadStoredRaffleState(configurationId);
     
     if (saved) {
-      console.log('📤 LOAD: Parsing JSON data...');
-      const state = JSON.parse(saved);
+      // Copy so validating the loaded state never edits the stored one
+      const state = { ...saved };
       
-      console.log('📤 LOAD: Successfully parsed state:', {
+      console.log('📤 LOAD: Found saved state:', {
         raffleStarted: state.raffleStarted,
         teamsLength: state.teams?.length || 0,
         currentRound: state.currentRound,
@@ -147,71 +134,212 @@ const loadStateFromStorage = (): RaffleState | null => {
   return null;
 };
 
-const clearStateFromStorage = () => {
+const clearStateFromStorage = (configurationId: string | null) => {
   try {
     if (typeof window === 'undefined') {
       console.log('🗑️ CLEAR: window is undefined (SSR)');
       return;
     }
     
-    console.log('🗑️ CLEAR: Clearing raffle state from localStorage');
-    localStorage.removeItem(RAFFLE_STATE_KEY);
-    
-    // Verify it was cleared
-    const verification = localStorage.getItem(RAFFLE_STATE_KEY);
-    if (verification === null) {
-      console.log('✅ CLEAR: Raffle state successfully cleared from localStorage');
-    } else {
-      console.error('❌ CLEAR: Failed to clear - localStorage still contains data');
-    }
+    console.log('🗑️ CLEAR: Clearing saved raffle state');
+    clearStoredRaffleState(configurationId);
+    console.log('✅ CLEAR: Raffle state cleared');
   } catch (error) {
     console.error('❌ CLEAR: Exception during clear:', error);
   }
 };
 
+// Record whether the most recent draw of a player was confirmed or rejected
+const markLastDrawOutcome = (drawLog: DrawRecord[], team: string, outcome: 'confirmed' | 'rejected'): DrawRecord[] => {
+  const lastIndex = drawLog.map(draw => draw.winner).lastIndexOf(team);
+  if (lastIndex === -1) return drawLog;
+  return drawLog.map((draw, index) => index === lastIndex ? { ...draw, outcome } : draw);
+};
+
+// Players kept out of every remaining draw - withdrawn or rejected winners and eliminated players
+const getExcludedTeams = (state: RaffleState): string[] => [
+  ...state.withdrawnPlayers,
+  ...(state.eliminatedPlayers ?? []).map(player => player.team)
+];
+
+/**
+ * Draw pool rules for a round - the threshold, the configuration's eligibility
+ * rules for that round and the active model's ticket formula and bonuses
+ */
+const getDrawOptions = (state: RaffleState, round?: RaffleRound, excludeTeams: string[] = getExcludedTeams(state)): DrawEligibilityOptions => ({
+  pointThreshold: round?.pointThreshold ?? 0,
+  excludeTeams,
+  ticketFormula: state.raffleModel?.ticketFormula,
+  bonusRules: state.raffleModel?.bonusRules,
+  eligibilityRules: resolveRoundRules(state.eligibility, round),
+  includeWinners: state.raffleModel?.winnerRemoval === 'keep'
+});
+
+// Winner slots of the current round that are neither confirmed nor waiting for confirmation,
+// capped at the prizes and the players left for the round - every drawn winner can be
+// confirmed, and a round that runs short of either completes once its winners are confirmed
+const getOpenSlots = (state: RaffleState): number => {
+  const round = state.rounds[state.currentRound];
+  if (!round) return 0;
+  const filled = state.winners.filter(winner => winner.round === state.currentRound + 1).length;
+  const pending = state.pendingWinners.length;
+  const prizesLeft = getRemainingPrizeCount(round, state.prizes, state.winners) - pending;
+  const playersLeft = buildDrawEntries(
+    state.remainingTeams,
+    getDrawOptions(state, round, [...getExcludedTeams(state), ...state.pendingWinners])
+  ).filter(entry => entry.tickets > 0).length;
+  return Math.max(0, Math.min(getRoundWinnerCount(round) - filled - pending, prizesLeft, playersLeft));
+};
+
+// Append an audit event describing the current round's eligible pool in the given state
+const withAuditEvent = (
+  state: RaffleState,
+  type: AuditEventType,
+  input: Partial<AuditEventInput> = {}
+): AuditEvent[] => {
+  const round = state.rounds[state.currentRound];
+  const entries = input.entries ?? buildDrawEntries(state.remainingTeams, getDrawOptions(state, round));
+  return appendAuditEvent(state.auditLog, createAuditEvent(type, {
+    round: round ? state.currentRound + 1 : undefined,
+    roundName: round?.name,
+    rosterVersion: state.rosterVersion,
+    ...input,
+    entries
+  }));
+};
+
+/**
+ * Players the model's elimination rule drops once the current round is complete -
+ * the same step RaffleEngine runs, so a committed seed replays the same drop-outs
+ * in both. Nobody is dropped after the last round.
+ */
+const selectRoundEliminations = (state: RaffleState, seed: string): EliminatedPlayer[] => {
+  const model = state.raffleModel;
+  if (!model) return [];
+
+  const excluded = [...getExcludedTeams(state), ...state.pendingWinners];
+  const candidates = state.remainingTeams
+    .filter(team => (team.status === undefined || team.status === 'eligible') && !excluded.includes(team.Team))
+    .map(team => ({
+      id: team.Team,
+      name: team.Team,
+      points: team.Points,
+      tickets: getTeamTickets(team, model.ticketFormula, model.bonusRules)
+    }));
+
+  const round = state.currentRound + 1;
+  return eliminateAfterRound(candidates, model.elimination, {
+    round,
+    totalParticipants: state.teams.length,
+    totalRounds: state.rounds.length,
+    seed
+  }).map(({ participantId, reason }) => ({ team: participantId, round, reason }));
+};
+
+// Undo/redo history - bounded so long raffles don't keep every snapshot in memory
+const MAX_HISTORY_ENTRIES = 20;
+
+interface RaffleHistory {
+  past: RaffleHistoryEntry[];
+  future: RaffleHistoryEntry[];
+  lastAction?: RaffleLastAction;
+}
+
+// Record the state before an undoable action. Called from inside state updaters,
+// which StrictMode runs twice with the same prev - the second call is ignored.
+const recordHistory = (history: MutableRefObject<RaffleHistory>, prev: RaffleState, label: string) => {
+  const { past } = history.current;
+  if (past[past.length - 1]?.state === prev) return;
+
+  const timestamp = Date.now();
+  history.current = {
+    past: [...past, { label, state: prev, timestamp }].slice(-MAX_HISTORY_ENTRIES),
+    future: [],
+    lastAction: { label, kind: 'done', timestamp }
+  };
+};
+
+// Bring back a snapshot without rewinding the audit log or the prize catalog,
+// and never into the middle of an animation
+const restoreSnapshot = (
+  snapshot: RaffleState,
+  current: RaffleState,
+  type: 'action_undone' | 'action_redone',
+  label: string
+): RaffleState => {
+  const restored: RaffleState = {
+    ...snapshot,
+    isDrawing: false,
+    currentDraw: undefined,
+    batchDraws: undefined,
+    prizes: current.prizes,
+    auditLog: current.auditLog
+  };
+  return {
+    ...restored,
+    auditLog: withAuditEvent(restored, type, { details: { action: label } })
+  };
+};
+
+// Configuration open on the main page, as remembered between visits
+const getActiveConfigurationId = (): string | null =>
+  typeof window === 'undefined' ? null : localStorage.getItem('currentConfigId');
+
+// Saved state of a configuration, or a fresh one when it has never been run
+const loadInitialState = (configurationId: string | null): RaffleState => {
+  // Try to load saved state on initialization
+  const savedState = loadStateFromStorage(configurationId);
+  if (savedState) {
+    console.log('🔄 INIT: RESTORING SAVED RAFFLE STATE:');
+    console.log('- raffleStarted:', savedState.raffleStarted);
+    console.log('- currentRound:', savedState.currentRound);
+    console.log('- teams:', savedState.teams?.length || 0);
+    console.log('- winners:', savedState.winners?.length || 0);
+    console.log('- rounds:', savedState.rounds?.length || 0);
+    console.log('- withdrawnPlayers:', savedState.withdrawnPlayers?.length || 0);
+    
+    // Older saved states are upgraded by storageMigrations - only rounds fall back here
+    if (!savedState.rounds) savedState.rounds = DEFAULT_ROUNDS;
+    
+    console.log('🔄 INIT: State validation completed');
+    return savedState;
+  }
+  // Default state if no saved state
+  console.log('🆕 INIT: NO SAVED STATE FOUND - USING DEFAULT STATE');
+  const defaultState = {
+    teams: [],
+    currentRound: 0,
+    rounds: DEFAULT_ROUNDS,
+    winners: [],
+    remainingTeams: [],
+    isDrawing: false,
+    raffleStarted: false,
+    pendingWinners: [],
+    withdrawnPlayers: [],
+    prizes: [],
+    drawLog: [],
+    auditLog: [],
+    rosterVersion: 0
+  };
+  console.log('🆕 INIT: Default state created');
+  return defaultState;
+};
+
 export const useRaffleState = () => {
+  // Configuration whose raffle this hook is running - saves go to its state
+  const configurationIdRef = useRef<string | null>(null);
   const [state, setState] = useState<RaffleState>(() => {
     console.log('🚀 INIT: useRaffleState initializing...');
-    
-    // Try to load saved state on initialization
-    const savedState = loadStateFromStorage();
-    if (savedState) {
-      console.log('🔄 INIT: RESTORING RAFFLE STATE FROM LOCALSTORAGE:');
-      console.log('- raffleStarted:', savedState.raffleStarted);
-      console.log('- currentRound:', savedState.currentRound);
-      console.log('- teams:', savedState.teams?.length || 0);
-      console.log('- winners:', savedState.winners?.length || 0);
-      console.log('- rounds:', savedState.rounds?.length || 0);
-      console.log('- withdrawnPlayers:', savedState.withdrawnPlayers?.length || 0);
-      
-      // Validate the loaded state
-      if (!savedState.teams) savedState.teams = [];
-      if (!savedState.winners) savedState.winners = [];
-      if (!savedState.rounds) savedState.rounds = DEFAULT_ROUNDS;
-      if (!savedState.remainingTeams) savedState.remainingTeams = [];
-      if (!savedState.withdrawnPlayers) savedState.withdrawnPlayers = [];
-      
-      console.log('🔄 INIT: State validation completed');
-      return savedState;
-    }
-    // Default state if no saved state
-    console.log('🆕 INIT: NO SAVED STATE FOUND - USING DEFAULT STATE');
-    const defaultState = {
-      teams: [],
-      currentRound: 0,
-      rounds: DEFAULT_ROUNDS,
-      winners: [],
-      remainingTeams: [],
-      isDrawing: false,
-      raffleStarted: false,
-      pendingWinner: undefined,
-      withdrawnPlayers: []
-    };
-    console.log('🆕 INIT: Default state created');
-    return defaultState;
+    configurationIdRef.current = getActiveConfigurationId();
+    return loadInitialState(configurationIdRef.current);
   });
 
-  // Save state to localStorage whenever it changes (throttled)
+  const historyRef = useRef<RaffleHistory>({ past: [], future: [] });
+  // Latest rendered state, for undo/redo which must not run inside an updater
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // Save state whenever it changes (throttled)
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const saveCountRef = useRef(0);
   
@@ -233,11 +361,13 @@ export const useRaffleState = () => {
       clearTimeout(saveTimeoutRef.current);
     }
     
-    // Set new timeout for saving
+    // Set new timeout for saving - to the configuration the state belongs to, even if it is switched before the timeout
+    const configurationId = configurationIdRef.current;
     console.log(`⏰ EFFECT ${saveNumber}: Setting new save timeout (1 second)`);
     saveTimeoutRef.current = setTimeout(() => {
       console.log(`⏰ TIMEOUT ${saveNumber}: Save timeout fired - calling saveStateToStorage`);
-      saveStateToStorage(state);
+      saveTimeoutRef.current = null;
+      saveStateToStorage(configurationId, state);
     }, 1000); // Save at most once per second
     
     // Cleanup on unmount
@@ -293,7 +423,7 @@ export const useRaffleState = () => {
         const newState = {
           ...prev,
           teams: mergedTeams,
-          // Keep all existing raffle state: remainingTeams, currentRound, winners, raffleStarted, pendingWinner
+          // Keep all existing raffle state: remainingTeams, currentRound, winners, raffleStarted, pendingWinners
         };
         console.log('📥 LOAD_TEAMS: Returning preserved state');
         return newState;
@@ -307,9 +437,13 @@ export const useRaffleState = () => {
           currentRound: 0,
           winners: [],
           raffleStarted: false,
-          pendingWinner: undefined
+          pendingWinners: [],
+          eliminatedPlayers: [],
+          drawLog: [],
+          rosterVersion: 1
         };
         console.log('📥 LOAD_TEAMS: Returning reset state');
+        recordHistory(historyRef, prev, `Loaded ${teamsWithStatus.length} players`);
         return newState;
       }
     });
@@ -318,81 +452,154 @@ export const useRaffleState = () => {
   const startRaffle = useCallback(() => {
     if (state.teams.length === 0) return;
     
-    setState(prev => ({
-      ...prev,
-      raffleStarted: true,
-      currentRound: 0,
-      remainingTeams: prev.teams.filter(team => team.status === 'eligible'),
-      winners: [],
-      pendingWinner: undefined
-    }));
+    setState(prev => {
+      const started: RaffleState = {
+        ...prev,
+        raffleStarted: true,
+        currentRound: 0,
+        remainingTeams: prev.teams.filter(team => team.status === 'eligible'),
+        winners: [],
+        pendingWinners: [],
+        eliminatedPlayers: [],
+        drawLog: []
+      };
+      return {
+        ...started,
+        auditLog: withAuditEvent(started, 'raffle_started', { details: { rounds: prev.rounds.length } })
+      };
+    });
   }, [state.teams.length]);
 
-  const filterTeamsForRound = useCallback((teams: TeamData[], round: RaffleRound) => {
-    return teams.filter(team => team.Points >= round.pointThreshold);
-  }, []);
-
   const selectWinner = useCallback((selectedWinner: string) => {
-    setState(prev => ({
-      ...prev,
-      pendingWinner: selectedWinner,
-      isDrawing: false
-    }));
+    setState(prev => {
+      // Only log the draws if the animation reported the winner the draw service chose;
+      // an all-at-once draw brings the rest of the round's winners along with it
+      const draws = prev.currentDraw && prev.currentDraw.winner === selectedWinner
+        ? [prev.currentDraw, ...(prev.batchDraws || [])]
+        : [];
+
+      const auditLog = draws.length > 0
+        ? draws.reduce((log, draw) => withAuditEvent({ ...prev, auditLog: log }, 'winner_selected', {
+            team: draw.winner,
+            details: { ticket: draw.ticketIndex + 1, totalTickets: draw.totalTickets }
+          }), prev.auditLog)
+        : withAuditEvent(prev, 'winner_selected', { team: selectedWinner, details: { manual: true } });
+
+      const selected = draws.length > 0 ? draws.map(draw => draw.winner) : [selectedWinner];
+      return {
+        ...prev,
+        pendingWinners: [...prev.pendingWinners, ...selected.filter(team => !prev.pendingWinners.includes(team))],
+        currentDraw: undefined,
+        batchDraws: undefined,
+        drawLog: [...prev.drawLog, ...draws],
+        auditLog,
+        isDrawing: false
+      };
+    });
   }, []);
 
-  const confirmWinner = useCallback(() => {
+  /**
+   * Confirm one pending winner (the first one by default). The round only
+   * advances once all of its winner slots are confirmed, and then the model's
+   * elimination rule drops its players for the next round.
+   *
+   * @param seed Committed draw seed, so random drop-outs are verifiable - a throwaway seed is used without one
+   */
+  const confirmWinner = useCallback((team?: string, seed?: string) => {
     setState(prev => {
-      if (!prev.pendingWinner) return prev;
+      const pendingWinner = team ?? prev.pendingWinners[0];
+      if (!pendingWinner || !prev.pendingWinners.includes(pendingWinner)) return prev;
 
       const currentRoundData = prev.rounds[prev.currentRound];
+      const prize = getNextPrizeForRound(currentRoundData, prev.prizes, prev.winners);
+
+      // Draws are capped at the prizes left, so this only guards against a state that is out of step -
+      // numbered prizes are for configurations without a catalog
+      if (prev.prizes.length > 0 && !prize) return prev;
+
       const newWinner: Winner = {
-        team: prev.pendingWinner,
+        team: pendingWinner,
         round: prev.currentRound + 1,
         roundName: currentRoundData.name,
-        prize: `Prize ${prev.winners.length + 1}`
+        prize: prize ? prize.name : `Prize ${prev.winners.length + 1}`,
+        prizeId: prize?.id
       };
 
       // Update team status to winner but KEEP them in remainingTeams for visual display
       // They will be filtered out of draws by the eligibleTeamsForCurrentRound logic
       const updatedRemainingTeams = prev.remainingTeams.map(team => 
-        team.Team === prev.pendingWinner 
+        team.Team === pendingWinner 
           ? { ...team, status: 'winner' as const }
           : team
       );
 
       const updatedAllTeams = prev.teams.map(team => 
-        team.Team === prev.pendingWinner 
+        team.Team === pendingWinner 
           ? { ...team, status: 'winner' as const }
           : team
       );
 
-      console.log(`CONFIRM WINNER DEBUG: Winner selected: ${prev.pendingWinner}`);
+      const roundWinners = prev.winners.filter(winner => winner.round === prev.currentRound + 1).length + 1;
+
+      console.log(`CONFIRM WINNER DEBUG: Winner selected: ${pendingWinner} (${roundWinners}/${getRoundWinnerCount(currentRoundData)} for ${currentRoundData.name})`);
       console.log(`Remaining teams after winner: ${updatedRemainingTeams.length}`);
       console.log(`All teams after winner: ${updatedAllTeams.length}`);
+      recordHistory(historyRef, prev, `Confirmed ${pendingWinner} as winner`);
 
-      return {
+      const confirmed: RaffleState = {
         ...prev,
         winners: [...prev.winners, newWinner],
         remainingTeams: updatedRemainingTeams, // Keep winner in here for display
         teams: updatedAllTeams,
-        currentRound: prev.currentRound + 1,
-        pendingWinner: undefined,
+        pendingWinners: prev.pendingWinners.filter(pending => pending !== pendingWinner),
+        drawLog: markLastDrawOutcome(prev.drawLog, pendingWinner, 'confirmed'),
+        auditLog: withAuditEvent(prev, 'winner_confirmed', {
+          team: pendingWinner,
+          details: { prize: newWinner.prize || '' }
+        }),
         isDrawing: false
       };
+
+      // Complete against the same capped slot count the draw uses, so a round short of prizes or players still ends
+      const roundComplete = confirmed.pendingWinners.length === 0 && getOpenSlots(confirmed) === 0;
+      if (!roundComplete) return confirmed;
+
+      const eliminated = selectRoundEliminations(confirmed, seed ?? generateDrawSeed());
+      eliminated.forEach(player => {
+        console.log(`❌ ELIMINATED after ${currentRoundData.name}: ${player.team} - ${player.reason}`);
+      });
+
+      return {
+        ...confirmed,
+        currentRound: prev.currentRound + 1,
+        eliminatedPlayers: [...(prev.eliminatedPlayers ?? []), ...eliminated],
+        auditLog: eliminated.reduce(
+          (auditLog, player) => withAuditEvent({ ...confirmed, auditLog }, 'player_eliminated', {
+            team: player.team,
+            details: { reason: player.reason, rule: confirmed.raffleModel?.elimination.type ?? 'none' }
+          }),
+          confirmed.auditLog
+        )
+      };
     });
   }, []);
 
-  const rejectWinner = useCallback(() => {
+  // Reject one pending winner (the first one by default) - their slot is drawn again
+  const rejectWinner = useCallback((team?: string) => {
     setState(prev => {
-      if (!prev.pendingWinner) return prev;
+      const pendingWinner = team ?? prev.pendingWinners[0];
+      if (!pendingWinner || !prev.pendingWinners.includes(pendingWinner)) return prev;
       
-      console.log(`🚫 REJECTING WINNER: ${prev.pendingWinner}`);
+      console.log(`🚫 REJECTING WINNER: ${pendingWinner}`);
       console.log(`Adding to withdrawn players list`);
-      
+      recordHistory(historyRef, prev, `Rejected ${pendingWinner}`);
+
       return {
         ...prev,
-        withdrawnPlayers: [...prev.withdrawnPlayers, prev.pendingWinner],
-        pendingWinner: undefined,
+        withdrawnPlayers: [...prev.withdrawnPlayers, pendingWinner],
+        pendingWinners: prev.pendingWinners.filter(pending => pending !== pendingWinner),
+        drawLog: markLastDrawOutcome(prev.drawLog, pendingWinner, 'rejected'),
+        auditLog: withAuditEvent(prev, 'winner_rejected', { team: pendingWinner }),
         isDrawing: false
       };
     });
@@ -403,16 +610,64 @@ export const useRaffleState = () => {
     selectWinner(roundWinner);
   }, [selectWinner]);
 
-  const startDraw = useCallback(() => {
-    setState(prev => ({
-      ...prev,
-      isDrawing: true
-    }));
+  /**
+   * Pick the winners up front through the draw service; the animation only visualises them.
+   * A committed seed makes the draw verifiable - without one a throwaway seed is used.
+   *
+   * @param count Winners to draw at once, capped at the round's open slots. Each
+   *              winner leaves the pool before the next pick, so every draw has its
+   *              own roster hash and stays verifiable on its own.
+   */
+  const startDraw = useCallback((seed?: string, count: number = 1) => {
+    setState(prev => {
+      const currentRoundData = prev.rounds[prev.currentRound];
+      if (!currentRoundData) return prev;
+
+      const slots = Math.min(count, getOpenSlots(prev));
+      if (slots === 0) {
+        console.warn(`🎲 DRAW: All winner slots for ${currentRoundData.name} are already drawn`);
+        return prev;
+      }
+
+      const entries = buildDrawEntries(
+        prev.remainingTeams,
+        getDrawOptions(prev, currentRoundData, [...getExcludedTeams(prev), ...prev.pendingWinners])
+      );
+      const drawSeed = seed ?? generateDrawSeed();
+
+      const draws: DrawRecord[] = [];
+      let pool = entries;
+      while (draws.length < slots) {
+        const draw = performFairDraw(drawSeed, prev.currentRound + 1, pool, currentRoundData.name);
+        if (!draw) break;
+        console.log(`🎲 DRAW: ${currentRoundData.name} - ticket ${draw.ticketIndex + 1}/${draw.totalTickets} → ${draw.winner}`);
+        draws.push(draw);
+        pool = pool.filter(entry => entry.team !== draw.winner);
+      }
+
+      if (draws.length === 0) {
+        console.warn(`🎲 DRAW: No eligible tickets for ${currentRoundData.name}`);
+        return prev;
+      }
+
+      return {
+        ...prev,
+        currentDraw: draws[0],
+        batchDraws: draws.length > 1 ? draws.slice(1) : undefined,
+        auditLog: withAuditEvent(prev, 'draw_started', {
+          entries,
+          details: { committedSeed: seed !== undefined, winners: draws.length }
+        }),
+        isDrawing: true
+      };
+    });
   }, []);
 
   const stopDraw = useCallback(() => {
     setState(prev => ({
       ...prev,
+      currentDraw: undefined,
+      batchDraws: undefined,
       isDrawing: false
     }));
   }, []);
@@ -420,7 +675,7 @@ export const useRaffleState = () => {
   const clearPendingWinner = useCallback(() => {
     setState(prev => ({
       ...prev,
-      pendingWinner: undefined
+      pendingWinners: []
     }));
   }, []);
 
@@ -436,25 +691,118 @@ export const useRaffleState = () => {
         remainingTeams: resetTeams,
         isDrawing: false,
         raffleStarted: false,
-        pendingWinner: undefined,
-        withdrawnPlayers: []
+        pendingWinners: [],
+        currentDraw: undefined,
+        batchDraws: undefined,
+        withdrawnPlayers: [],
+        eliminatedPlayers: [],
+        drawLog: [],
+        // The audit log survives resets - it records them instead
+        auditLog: withAuditEvent(prev, 'raffle_reset', { details: { winnersCleared: prev.winners.length } })
       };
       console.log('🔄 RESET: New state created');
+      recordHistory(historyRef, prev, 'Reset raffle');
       return newState;
     });
-    // Clear persisted state when resetting
+    // Clear persisted state when resetting - an undo restores it through the save effect
     console.log('🔄 RESET: Clearing persisted raffle state');
-    clearStateFromStorage();
+    clearStateFromStorage(configurationIdRef.current);
+  }, []);
+
+  /**
+   * Put the current raffle away and pick up another configuration's where it stopped.
+   * Undo history belongs to the raffle it was recorded in, so it starts empty.
+   */
+  const switchConfiguration = useCallback((configurationId: string | null) => {
+    if (configurationIdRef.current === configurationId) return;
+
+    console.log(`🔀 SWITCH: ${configurationIdRef.current ?? 'unsaved raffle'} -> ${configurationId ?? 'unsaved raffle'}`);
+    // Save a change still waiting for the throttled save before leaving its configuration
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = null;
+      saveStateToStorage(configurationIdRef.current, stateRef.current);
+    }
+
+    configurationIdRef.current = configurationId;
+    historyRef.current = { past: [], future: [] };
+    setState(loadInitialState(configurationId));
   }, []);
 
   const updateRounds = useCallback((newRounds: RaffleRound[]) => {
+    setState(prev => {
+      // Reloading the same rounds from the configuration is not an operator action
+      if (JSON.stringify(prev.rounds) === JSON.stringify(newRounds)) return prev;
+      recordHistory(historyRef, prev, 'Updated rounds');
+      return {
+        ...prev,
+        rounds: newRounds
+      };
+    });
+  }, []);
+
+  // Apply the changes the operator accepted from a roster diff, mid-raffle included
+  const applyRosterChanges = useCallback((changes: RosterChange[]) => {
+    if (changes.length === 0) return;
+    setState(prev => {
+      const removed = changes.filter(change => change.type === 'removed').map(change => change.team);
+      const teams = mergeRosterChanges(prev.teams, changes);
+      // Winners stay in remainingTeams for display; newly eligible players join the pool
+      const remainingNames = new Set(prev.remainingTeams.map(team => team.Team));
+      const remainingTeams = prev.raffleStarted
+        ? teams.filter(team => remainingNames.has(team.Team) || team.status === 'eligible')
+        : teams;
+      const rosterVersion = prev.rosterVersion + 1;
+
+      console.log(`🧾 ROSTER: Applying ${changes.length} changes as roster v${rosterVersion}`);
+      recordHistory(historyRef, prev, `Updated roster (${changes.length} changes)`);
+
+      const updated: RaffleState = {
+        ...prev,
+        teams,
+        remainingTeams,
+        pendingWinners: prev.pendingWinners.filter(team => !removed.includes(team)),
+        rosterVersion
+      };
+      return {
+        ...updated,
+        auditLog: withAuditEvent(updated, 'roster_updated', {
+          details: {
+            added: changes.filter(change => change.type === 'added').length,
+            removed: removed.length,
+            updated: changes.filter(change => change.type === 'updated').length
+          }
+        })
+      };
+    });
+  }, []);
+
+  const updatePrizes = useCallback((newPrizes: Prize[]) => {
     setState(prev => ({
       ...prev,
-      rounds: newRounds
+      prizes: newPrizes
     }));
   }, []);
 
-  const updateRaffleModel = useCallback((modelType: RaffleModelType, numberOfRounds?: number) => {
+  // Replace the in-memory audit log with the one stored on the active configuration
+  const loadAuditLog = useCallback((events: AuditEvent[]) => {
+    setState(prev => ({
+      ...prev,
+      auditLog: events
+    }));
+  }, []);
+
+  // Use a configuration's model definition for live draws (loading a configuration, not an operator change)
+  const setRaffleModel = useCallback((model?: RaffleModel) => {
+    setState(prev => (JSON.stringify(prev.raffleModel) === JSON.stringify(model) ? prev : { ...prev, raffleModel: model }));
+  }, []);
+
+  // Use a configuration's eligibility rules for live draws
+  const setEligibility = useCallback((eligibility?: EligibilitySettings) => {
+    setState(prev => (JSON.stringify(prev.eligibility) === JSON.stringify(eligibility) ? prev : { ...prev, eligibility }));
+  }, []);
+
+  const updateRaffleModel = useCallback((modelId: string, numberOfRounds?: number, customModels: RaffleModel[] = []) => {
     setState(prev => {
       // Only allow updates if raffle hasn't started or is at the beginning
       if (prev.raffleStarted && prev.currentRound > 0) {
@@ -462,44 +810,97 @@ export const useRaffleState = () => {
         return prev; // Return unchanged state
       }
 
+      const model = getRaffleModel(modelId, customModels);
       const settings: RoundConfigurationSettings = {
         numberOfRounds: numberOfRounds || prev.rounds.length,
-        raffleModel: modelType,
-        winnersPerRound: 1
+        raffleModel: model.id,
+        customModels,
+        winnersPerRound: getRoundWinnerCount(prev.rounds[0])
       };
 
       const newRounds = ConfigurationManager.generateOptimalRounds(prev.teams, settings);
-      
-      return {
+      const updated: RaffleState = {
         ...prev,
+        raffleModel: model,
         rounds: newRounds,
         // Reset round progress if we're changing mid-setup
         currentRound: 0,
         winners: [],
         remainingTeams: prev.teams.filter(team => team.status === 'eligible'),
-        pendingWinner: undefined
+        pendingWinners: [],
+        eliminatedPlayers: []
+      };
+      
+      return {
+        ...updated,
+        auditLog: withAuditEvent(updated, 'model_changed', {
+          details: { model: model.name, rounds: newRounds.length }
+        })
       };
     });
   }, []); // Empty dependency array to prevent re-creation
 
+  const undo = useCallback(() => {
+    const { past, future } = historyRef.current;
+    const entry = past[past.length - 1];
+    if (!entry) return;
+
+    const current = stateRef.current;
+    console.log(`↩️ UNDO: ${entry.label}`);
+    historyRef.current = {
+      past: past.slice(0, -1),
+      future: [...future, { ...entry, state: current }],
+      lastAction: { label: entry.label, kind: 'undone', timestamp: Date.now() }
+    };
+    setState(restoreSnapshot(entry.state, current, 'action_undone', entry.label));
+  }, []);
+
+  const redo = useCallback(() => {
+    const { past, future } = historyRef.current;
+    const entry = future[future.length - 1];
+    if (!entry) return;
+
+    const current = stateRef.current;
+    console.log(`↪️ REDO: ${entry.label}`);
+    historyRef.current = {
+      past: [...past, { ...entry, state: current }],
+      future: future.slice(0, -1),
+      lastAction: { label: entry.label, kind: 'redone', timestamp: Date.now() }
+    };
+    setState(restoreSnapshot(entry.state, current, 'action_redone', entry.label));
+  }, []);
+
   // Computed values
+  const currentRoundData = useMemo(() => {
+    return state.currentRound < state.rounds.length ? state.rounds[state.currentRound] : null;
+  }, [state.currentRound, state.rounds]);
+
+  // Prize the next confirmed winner will receive (null when the catalog is empty or exhausted)
+  const currentPrize = useMemo(() => {
+    if (!currentRoundData) return null;
+    return getNextPrizeForRound(currentRoundData, state.prizes, state.winners);
+  }, [currentRoundData, state.prizes, state.winners]);
+
+  const roundHasPrize = useMemo(() => {
+    if (!currentRoundData) return false;
+    return roundHasPrizeAvailable(currentRoundData, state.prizes, state.winners);
+  }, [currentRoundData, state.prizes, state.winners]);
+
+  // Winner slots of the current round still to be drawn
+  const openSlots = useMemo(() => getOpenSlots(state), [state]);
+
   const canStartRound = useMemo(() => {
-    return !state.isDrawing && state.raffleStarted && state.currentRound < state.rounds.length;
-  }, [state.isDrawing, state.raffleStarted, state.currentRound, state.rounds.length]);
+    return !state.isDrawing && state.raffleStarted && state.currentRound < state.rounds.length && roundHasPrize && openSlots > 0;
+  }, [state.isDrawing, state.raffleStarted, state.currentRound, state.rounds.length, roundHasPrize, openSlots]);
 
   const isRaffleComplete = useMemo(() => {
     return state.currentRound >= state.rounds.length || state.remainingTeams.length === 0;
   }, [state.currentRound, state.rounds.length, state.remainingTeams.length]);
 
-  const currentRoundData = useMemo(() => {
-    return state.currentRound < state.rounds.length ? state.rounds[state.currentRound] : null;
-  }, [state.currentRound, state.rounds]);
-
   const eligibleTeamsForCurrentRound = useMemo(() => {
     if (!currentRoundData) return [];
-    const eligibleTeams = state.remainingTeams.filter(team => team.status === 'eligible');
-    return filterTeamsForRound(eligibleTeams, currentRoundData);
-  }, [state.remainingTeams, currentRoundData, filterTeamsForRound]);
+    return getEligibleTeams(state.remainingTeams, getDrawOptions(state, currentRoundData));
+  }, [state, currentRoundData]);
 
   return {
     state,
@@ -514,14 +915,28 @@ export const useRaffleState = () => {
       rejectWinner,
       clearPendingWinner,
       resetRaffle,
+      switchConfiguration,
       updateRounds,
-      updateRaffleModel
+      applyRosterChanges,
+      updatePrizes,
+      loadAuditLog,
+      setRaffleModel,
+      setEligibility,
+      updateRaffleModel,
+      undo,
+      redo
     },
     computed: {
       canStartRound,
       isRaffleComplete,
       currentRoundData,
-      eligibleTeamsForCurrentRound
+      currentPrize,
+      roundHasPrize,
+      eligibleTeamsForCurrentRound,
+      openSlots,
+      canUndo: historyRef.current.past.length > 0,
+      canRedo: historyRef.current.future.length > 0,
+      lastAction: historyRef.current.lastAction
     }
   };
 };
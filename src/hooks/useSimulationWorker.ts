@@ -0,0 +1,85 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { TeamData } from '@/types/raffle';
+import { RoundConfigurationSettings } from '@/utils/configurationManager';
+import { SimulationCommand, SimulationMessage } from '@/services/simulationJob';
+
+export type SimulationStatus = 'idle' | 'running' | 'done' | 'cancelled' | 'error';
+
+export interface SimulationWorkerState {
+  status: SimulationStatus;
+  completed: number;
+  total: number;
+  wins: number[]; // Indexed like the roster the run was started with
+  winningRuns: number[];
+  expected: number[]; // % chance of winning at least once, from ticket odds
+  error?: string;
+}
+
+const INITIAL_STATE: SimulationWorkerState = {
+  status: 'idle',
+  completed: 0,
+  total: 0,
+  wins: [],
+  winningRuns: [],
+  expected: []
+};
+
+/**
+ * Batch raffle simulations in a Web Worker. The worker is created on the
+ * first run and reused; messages from a superseded run are ignored.
+ */
+export const useSimulationWorker = () => {
+  const [state, setState] = useState<SimulationWorkerState>(INITIAL_STATE);
+  const workerRef = useRef<Worker | null>(null);
+  const jobIdRef = useRef(0);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const handleMessage = useCallback((event: MessageEvent<SimulationMessage>) => {
+    const message = event.data;
+    if (message.jobId !== jobIdRef.current) return;
+
+    switch (message.type) {
+      case 'expected':
+        setState(prev => ({ ...prev, expected: message.probabilities }));
+        break;
+      case 'error':
+        console.error('❌ Simulation failed:', message.message);
+        setState(prev => ({ ...prev, status: 'error', error: message.message }));
+        break;
+      default: {
+        const { completed, total, wins, winningRuns } = message;
+        const status: SimulationStatus = message.type === 'progress' ? 'running' : message.type;
+        if (status !== 'running') {
+          console.log(`🎲 Simulation ${status} after ${completed}/${total} raffles`);
+        }
+        setState(prev => ({ ...prev, status, completed, total, wins, winningRuns }));
+      }
+    }
+  }, []);
+
+  const start = useCallback((teams: TeamData[], settings: RoundConfigurationSettings, iterations: number) => {
+    if (!workerRef.current) {
+      workerRef.current = new Worker(new URL('../workers/raffleSimulator.worker.ts', import.meta.url));
+      workerRef.current.onmessage = handleMessage;
+    }
+
+    const jobId = ++jobIdRef.current;
+    setState({ ...INITIAL_STATE, status: 'running', total: iterations });
+    const command: SimulationCommand = { type: 'start', jobId, teams, settings, iterations };
+    workerRef.current.postMessage(command);
+  }, [handleMessage]);
+
+  const cancel = useCallback(() => {
+    const command: SimulationCommand = { type: 'cancel', jobId: jobIdRef.current };
+    workerRef.current?.postMessage(command);
+  }, []);
+
+  const reset = useCallback(() => {
+    cancel();
+    jobIdRef.current++;
+    setState(INITIAL_STATE);
+  }, [cancel]);
+
+  return { state, actions: { start, cancel, reset } };
+};
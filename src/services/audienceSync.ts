@@ -0,0 +1,68 @@
+import { RaffleState, TeamData } from '@/types/raffle';
+import { AudienceMessage, AudienceSnapshot } from '@/types/audience';
+
+/**
+ * Operator console ↔ audience window sync
+ *
+ * The console publishes a snapshot after every state change; the audience
+ * window only renders what it receives. BroadcastChannel is used where
+ * available, otherwise messages go through localStorage "storage" events,
+ * which other tabs of the same origin receive.
+ */
+
+export const AUDIENCE_CHANNEL_NAME = 'raffle-audience';
+const AUDIENCE_STORAGE_KEY = 'raffleAudienceMessage';
+
+export interface AudienceSync {
+  publish: (message: AudienceMessage) => void;
+  close: () => void;
+}
+
+export const createAudienceSnapshot = (
+  state: RaffleState,
+  eligibleTeams: TeamData[],
+  options: { animationType: 'wheel' | 'squidgame'; configName?: string }
+): AudienceSnapshot => ({
+  configName: options.configName,
+  animationType: options.animationType,
+  raffleStarted: state.raffleStarted,
+  currentRound: state.currentRound,
+  rounds: state.rounds,
+  teams: state.teams,
+  eligibleTeams,
+  withdrawnPlayers: state.withdrawnPlayers,
+  winners: state.winners,
+  prizes: state.prizes,
+  ticketFormula: state.raffleModel?.ticketFormula,
+  bonusRules: state.raffleModel?.bonusRules,
+  isDrawing: state.isDrawing,
+  drawWinner: state.isDrawing ? state.currentDraw?.winner : undefined,
+  sentAt: Date.now()
+});
+
+export const openAudienceSync = (onMessage: (message: AudienceMessage) => void): AudienceSync => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(AUDIENCE_CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<AudienceMessage>) => onMessage(event.data);
+    return {
+      publish: (message) => channel.postMessage(message),
+      close: () => channel.close()
+    };
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== AUDIENCE_STORAGE_KEY || !event.newValue) return;
+    try {
+      onMessage(JSON.parse(event.newValue).message);
+    } catch (error) {
+      console.error('❌ AUDIENCE: Could not parse sync message:', error);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+
+  return {
+    // The nonce makes repeated identical messages still count as a change
+    publish: (message) => localStorage.setItem(AUDIENCE_STORAGE_KEY, JSON.stringify({ message, nonce: Math.random() })),
+    close: () => window.removeEventListener('storage', handleStorage)
+  };
+};
@@ -0,0 +1,126 @@
+import { AuditEvent, AuditEventType, AuditOddsEntry } from '@/types/audit';
+import { DrawEntry } from '@/types/fairDraw';
+import { getWinProbabilities, hashRoster, normalizeEntries } from './drawService';
+
+/**
+ * Append-only audit log
+ *
+ * Every raffle action is recorded with the eligible pool it applied to (as a
+ * roster hash) and the odds each player had at that moment. The log lives on the
+ * configuration; the raffle state hook appends to its own copy and the page
+ * merges it back, so merging by id must be safe in any order.
+ */
+
+export const AUDIT_EVENT_LABELS: Record<AuditEventType, string> = {
+  csv_loaded: 'Player data loaded',
+  raffle_started: 'Raffle started',
+  draw_started: 'Draw started',
+  winner_selected: 'Winner drawn',
+  winner_confirmed: 'Winner confirmed',
+  winner_rejected: 'Winner rejected',
+  player_eliminated: 'Player eliminated',
+  raffle_reset: 'Raffle reset',
+  model_changed: 'Raffle model changed',
+  rounds_edited: 'Rounds edited',
+  eligibility_changed: 'Eligibility rules changed',
+  roster_updated: 'Roster updated',
+  configuration_imported: 'Configuration imported',
+  action_undone: 'Action undone',
+  action_redone: 'Action redone'
+};
+
+export interface AuditEventInput {
+  entries: DrawEntry[]; // Eligible pool at the time of the event
+  round?: number;
+  roundName?: string;
+  team?: string;
+  rosterVersion?: number;
+  details?: Record<string, string | number | boolean>;
+}
+
+const generateEventId = (): string => {
+  return Date.now().toString(36) + Math.random().toString(36).substr(2);
+};
+
+export const createOddsSnapshot = (entries: DrawEntry[]): AuditOddsEntry[] => {
+  const probabilities = getWinProbabilities(entries);
+  return normalizeEntries(entries).map(entry => ({
+    team: entry.team,
+    tickets: entry.tickets,
+    probability: probabilities[entry.team]
+  }));
+};
+
+export const createAuditEvent = (type: AuditEventType, input: AuditEventInput): AuditEvent => {
+  const odds = createOddsSnapshot(input.entries);
+  return {
+    id: generateEventId(),
+    type,
+    timestamp: new Date().toISOString(),
+    round: input.round,
+    roundName: input.roundName,
+    team: input.team,
+    rosterHash: hashRoster(input.entries),
+    rosterVersion: input.rosterVersion,
+    eligibleCount: odds.length,
+    totalTickets: odds.reduce((sum, entry) => sum + entry.tickets, 0),
+    odds,
+    details: input.details
+  };
+};
+
+/**
+ * Append without mutating - the existing entries are never touched
+ */
+export const appendAuditEvent = (log: AuditEvent[], event: AuditEvent): AuditEvent[] => [...log, event];
+
+/**
+ * Union of two copies of the same log, keyed by event id, in timestamp order
+ */
+export const mergeAuditLogs = (base: AuditEvent[], incoming: AuditEvent[]): AuditEvent[] => {
+  const seen = new Set(base.map(event => event.id));
+  const merged = [...base, ...incoming.filter(event => !seen.has(event.id))];
+  // Stable sort keeps insertion order for events recorded in the same millisecond
+  return merged.sort((a, b) => (a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0));
+};
+
+export const auditLogToJSON = (
+  events: AuditEvent[],
+  configuration?: { id: string; name: string }
+): string => {
+  return JSON.stringify({
+    configurationId: configuration?.id,
+    configurationName: configuration?.name,
+    exportedAt: new Date().toISOString(),
+    events
+  }, null, 2);
+};
+
+const escapeCSV = (value: string | number | undefined): string => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Flatten the log to CSV. Odds are written as "team:tickets:probability" pairs
+ * separated by semicolons so each event stays on one row.
+ */
+export const auditLogToCSV = (events: AuditEvent[]): string => {
+  const header = ['timestamp', 'event', 'round', 'round_name', 'team', 'roster_hash', 'roster_version', 'eligible_count', 'total_tickets', 'details', 'odds'];
+  const rows = events.map(event => [
+    event.timestamp,
+    event.type,
+    event.round,
+    event.roundName,
+    event.team,
+    event.rosterHash,
+    event.rosterVersion,
+    event.eligibleCount,
+    event.totalTickets,
+    event.details ? Object.entries(event.details).map(([key, value]) => `${key}=${value}`).join('; ') : undefined,
+    event.odds.map(entry => `${entry.team}:${entry.tickets}:${entry.probability.toFixed(6)}`).join('; ')
+  ].map(escapeCSV).join(','));
+
+  return [header.join(','), ...rows].join('\n');
+};
@@ -0,0 +1,109 @@
+import { TeamData } from '@/types/raffle';
+import { BonusRule, BonusTicketLine, TicketBreakdown, TicketFormula } from '@/types/raffleModels';
+import { DEFAULT_TICKET_FORMULA, getFormulaTickets } from './ticketFormula';
+
+/**
+ * Bonus tickets
+ *
+ * Engagement rewards added on top of the ticket formula, using the
+ * Submissions and Last Submission columns from the import. Every rule is a
+ * separate line in the breakdown so tables can show base + bonus = total.
+ * The formula's min/max limits apply to the base only.
+ */
+
+type TicketTeam = Pick<TeamData, 'Points' | 'Submissions' | 'Last Submission'>;
+
+export const BONUS_RULE_LABELS: Record<BonusRule['type'], string> = {
+  per_submissions: 'Submissions - tickets per N submissions',
+  early_bird: 'Early bird - tickets for submitting before a cutoff'
+};
+
+/**
+ * Starting values for a new rule of the given type
+ */
+export const createBonusRule = (type: BonusRule['type']): BonusRule => {
+  const id = `bonus-${Date.now().toString(36)}${Math.random().toString(36).substr(2, 5)}`;
+  return type === 'early_bird'
+    ? { id, type, cutoff: '', tickets: 1 }
+    : { id, type, submissionsPerTicket: 5 };
+};
+
+// Unparseable or empty timestamps never earn a time-based bonus
+const parseTime = (value: string | undefined): number | undefined => {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+};
+
+export const describeBonusRule = (rule: BonusRule): string => {
+  if (rule.type === 'early_bird') {
+    const cutoff = rule.cutoff ? rule.cutoff.replace('T', ' ') : 'cutoff';
+    return `+${rule.tickets} for last submission by ${cutoff}`;
+  }
+  const description = `+1 per ${rule.submissionsPerTicket} submissions`;
+  return rule.maxTickets !== undefined ? `${description} (max ${rule.maxTickets})` : description;
+};
+
+/**
+ * Problems that would make a rule unusable - an empty list means it is valid
+ */
+export const validateBonusRule = (rule: BonusRule): string[] => {
+  const errors: string[] = [];
+  const isPositiveWholeNumber = (value: number) => Number.isInteger(value) && value >= 1;
+
+  if (rule.type === 'early_bird') {
+    if (parseTime(rule.cutoff) === undefined) {
+      errors.push('Pick a cutoff time');
+    }
+    if (!isPositiveWholeNumber(rule.tickets)) {
+      errors.push('Bonus tickets must be a whole number of 1 or more');
+    }
+  } else {
+    if (!isPositiveWholeNumber(rule.submissionsPerTicket)) {
+      errors.push('Submissions per ticket must be a whole number of 1 or more');
+    }
+    if (rule.maxTickets !== undefined && !isPositiveWholeNumber(rule.maxTickets)) {
+      errors.push('Maximum bonus tickets must be a whole number of 1 or more');
+    }
+  }
+
+  return errors;
+};
+
+const getBonusTickets = (rule: BonusRule, team: TicketTeam): number => {
+  // A half-edited rule adds nothing rather than guessing
+  if (validateBonusRule(rule).length > 0) return 0;
+
+  if (rule.type === 'early_bird') {
+    const submittedAt = parseTime(team['Last Submission']);
+    return submittedAt !== undefined && submittedAt <= (parseTime(rule.cutoff) as number) ? rule.tickets : 0;
+  }
+
+  const tickets = Math.floor(Math.max(0, team.Submissions || 0) / rule.submissionsPerTicket);
+  return rule.maxTickets !== undefined ? Math.min(tickets, rule.maxTickets) : tickets;
+};
+
+export const getTicketBreakdown = (
+  team: TicketTeam,
+  formula: TicketFormula = DEFAULT_TICKET_FORMULA,
+  bonusRules: BonusRule[] = []
+): TicketBreakdown => {
+  const base = getFormulaTickets(formula, team.Points);
+  const bonuses: BonusTicketLine[] = team.Points > 0
+    ? bonusRules
+        .map(rule => ({ ruleId: rule.id, label: rule.label?.trim() || describeBonusRule(rule), tickets: getBonusTickets(rule, team) }))
+        .filter(line => line.tickets > 0)
+    : [];
+  const bonus = bonuses.reduce((sum, line) => sum + line.tickets, 0);
+
+  return { base, bonuses, bonus, total: base + bonus };
+};
+
+export const getTeamTickets = (team: TicketTeam, formula?: TicketFormula, bonusRules?: BonusRule[]): number => {
+  return getTicketBreakdown(team, formula, bonusRules).total;
+};
+
+// "12" or "10 + 2 = 12"
+export const formatTicketBreakdown = (breakdown: TicketBreakdown): string => {
+  return breakdown.bonus > 0 ? `${breakdown.base} + ${breakdown.bonus} = ${breakdown.total}` : `${breakdown.total}`;
+};
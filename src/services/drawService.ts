@@ -0,0 +1,177 @@
+import seedrandom from 'seedrandom';
+import { RaffleRound, TeamData } from '@/types/raffle';
+import { DrawEntry, DrawRecord } from '@/types/fairDraw';
+import { BonusRule, TicketFormula } from '@/types/raffleModels';
+import { DEFAULT_TICKET_FORMULA, getFormulaTickets } from './ticketFormula';
+import { EligibilityRules } from '@/types/eligibility';
+import { getTeamTickets } from './bonusTickets';
+import { meetsEligibilityRules } from './eligibilityRules';
+import { sha256 } from '@/utils/sha256';
+
+/**
+ * Draw Service
+ *
+ * Single source of truth for who can be drawn, how many tickets they hold and
+ * how the winning ticket is picked. The hook, the engine and the simulator all
+ * draw through here; the animations only visualise the winner it returns.
+ *
+ * Rules:
+ * - tickets come from the active ticket formula (services/ticketFormula,
+ *   default floor(points / 100)) plus any bonus tickets (services/bonusTickets);
+ *   players with 0 tickets are never drawn
+ * - only players with status 'eligible' who meet the round threshold, pass the
+ *   configuration's eligibility rules (services/eligibilityRules) and were not
+ *   withdrawn this raffle are in the pool
+ * - every ticket has the same chance: P(team) = tickets(team) / totalTickets
+ */
+
+export interface DrawEligibilityOptions {
+  pointThreshold?: number;
+  excludeTeams?: string[]; // e.g. players withdrawn after being drawn
+  ticketFormula?: TicketFormula; // Active formula (default: points ÷ 100)
+  bonusRules?: BonusRule[]; // Engagement bonuses added on top of the formula
+  eligibilityRules?: EligibilityRules; // Rules in force for the round (overrides already applied)
+  includeWinners?: boolean; // Models that keep winners in the pool
+}
+
+export const getTicketCount = (points: number, formula: TicketFormula = DEFAULT_TICKET_FORMULA): number => {
+  return getFormulaTickets(formula, points);
+};
+
+/**
+ * Number of winners a round draws before the raffle moves on
+ */
+export const getRoundWinnerCount = (round?: RaffleRound | null): number => Math.max(1, round?.winnerCount ?? 1);
+
+export const isEligibleForDraw = (team: TeamData, options: DrawEligibilityOptions = {}): boolean => {
+  const { pointThreshold = 0, excludeTeams = [], ticketFormula, bonusRules, eligibilityRules, includeWinners = false } = options;
+  return (team.status === undefined || team.status === 'eligible' || (includeWinners && team.status === 'winner')) &&
+    team.Points >= pointThreshold &&
+    getTeamTickets(team, ticketFormula, bonusRules) > 0 &&
+    meetsEligibilityRules(team, eligibilityRules) &&
+    !excludeTeams.includes(team.Team);
+};
+
+export const getEligibleTeams = (teams: TeamData[], options: DrawEligibilityOptions = {}): TeamData[] => {
+  return teams.filter(team => isEligibleForDraw(team, options));
+};
+
+/**
+ * Ticket pool for a draw - one entry per eligible player
+ */
+export const buildDrawEntries = (teams: TeamData[], options: DrawEligibilityOptions = {}): DrawEntry[] => {
+  return getEligibleTeams(teams, options).map(team => ({
+    team: team.Team,
+    tickets: getTeamTickets(team, options.ticketFormula, options.bonusRules)
+  }));
+};
+
+/**
+ * Sort entries by team name so the roster hash and ticket order do not depend
+ * on how the caller happened to order the eligible players.
+ */
+export const normalizeEntries = (entries: DrawEntry[]): DrawEntry[] => {
+  return entries
+    .filter(entry => entry.tickets > 0)
+    .sort((a, b) => (a.team < b.team ? -1 : a.team > b.team ? 1 : 0));
+};
+
+/**
+ * Exact probability of each entry winning a single draw
+ */
+export const getWinProbabilities = (entries: DrawEntry[]): Record<string, number> => {
+  const normalized = normalizeEntries(entries);
+  const totalTickets = normalized.reduce((sum, entry) => sum + entry.tickets, 0);
+  const probabilities: Record<string, number> = {};
+  normalized.forEach(entry => {
+    probabilities[entry.team] = entry.tickets / totalTickets;
+  });
+  return probabilities;
+};
+
+/**
+ * SHA-256 over the sorted "team:tickets" lines of the eligible roster
+ */
+export const hashRoster = (entries: DrawEntry[]): string => {
+  return sha256(normalizeEntries(entries).map(entry => `${entry.team}:${entry.tickets}`).join('\n'));
+};
+
+/**
+ * Deterministic RNG for one draw
+ */
+export const createDrawRng = (seed: string, round: number, rosterHash: string): (() => number) => {
+  return seedrandom(`${seed}:${round}:${rosterHash}`);
+};
+
+/**
+ * Pick a ticket index uniformly from the cumulative ticket range and map it to its owner.
+ * Entries must already be normalized so the same RNG value always maps to the same owner.
+ */
+export const selectTicket = (
+  entries: DrawEntry[],
+  random: () => number
+): { winner: string; ticketIndex: number; totalTickets: number } | null => {
+  const totalTickets = entries.reduce((sum, entry) => sum + entry.tickets, 0);
+  if (totalTickets <= 0) return null;
+
+  const ticketIndex = Math.floor(random() * totalTickets);
+
+  let cumulative = 0;
+  for (const entry of entries) {
+    cumulative += entry.tickets;
+    if (ticketIndex < cumulative) {
+      return { winner: entry.team, ticketIndex, totalTickets };
+    }
+  }
+
+  // Unreachable for totalTickets > 0; keep the last entry as a guard against float edge cases
+  return { winner: entries[entries.length - 1].team, ticketIndex, totalTickets };
+};
+
+/**
+ * Draw several distinct winners, removing each winner's tickets before the next pick
+ */
+export const drawWinners = (entries: DrawEntry[], count: number, random: () => number): string[] => {
+  let remaining = normalizeEntries(entries);
+  const winners: string[] = [];
+
+  while (winners.length < count && remaining.length > 0) {
+    const selection = selectTicket(remaining, random);
+    if (!selection) break;
+    winners.push(selection.winner);
+    remaining = remaining.filter(entry => entry.team !== selection.winner);
+  }
+
+  return winners;
+};
+
+/**
+ * Run one committed draw over the eligible roster
+ *
+ * @param seed Secret draw seed (see DrawCommitment)
+ * @param round 1-based round number
+ * @param entries Eligible players with their ticket counts; zero-ticket entries are ignored
+ * @returns The draw record, or null when nobody holds a ticket
+ */
+export const performFairDraw = (
+  seed: string,
+  round: number,
+  entries: DrawEntry[],
+  roundName?: string
+): DrawRecord | null => {
+  const normalized = normalizeEntries(entries);
+  const rosterHash = hashRoster(normalized);
+  const selection = selectTicket(normalized, createDrawRng(seed, round, rosterHash));
+  if (!selection) return null;
+
+  return {
+    round,
+    roundName,
+    rosterHash,
+    entries: normalized,
+    totalTickets: selection.totalTickets,
+    ticketIndex: selection.ticketIndex,
+    winner: selection.winner,
+    timestamp: new Date().toISOString()
+  };
+};
@@ -0,0 +1,113 @@
+import { RaffleRound, TeamData } from '@/types/raffle';
+import { EligibilityRules, EligibilitySettings, IneligibilityReason } from '@/types/eligibility';
+
+/**
+ * Eligibility rules
+ *
+ * Configuration-level rules (minimum submissions, exclusion list, submission
+ * deadline) applied by the draw service on top of status and point threshold.
+ * Every failed rule produces a reason so the tables can say why a player is
+ * out of the pool.
+ */
+
+type EligibilityTeam = Pick<TeamData, 'Team' | 'Submissions' | 'Last Submission'>;
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+// Unparseable timestamps are treated as unknown, never as late
+const parseTime = (value: string | undefined): number | undefined => {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+};
+
+/**
+ * Rules in force for a round - the round's override wins field by field
+ */
+export const resolveRoundRules = (settings?: EligibilitySettings, round?: Pick<RaffleRound, 'id'> | null): EligibilityRules => {
+  if (!settings) return {};
+  const { roundOverrides, ...rules } = settings;
+  const override = round ? roundOverrides?.[round.id] : undefined;
+  return override ? { ...rules, ...override } : rules;
+};
+
+export const hasEligibilityRules = (rules?: EligibilityRules): boolean => {
+  return !!rules && (
+    rules.minSubmissions !== undefined ||
+    (rules.excludedPlayers?.length ?? 0) > 0 ||
+    !!rules.submissionDeadline
+  );
+};
+
+export const getIneligibilityReasons = (team: EligibilityTeam, rules: EligibilityRules = {}): IneligibilityReason[] => {
+  const reasons: IneligibilityReason[] = [];
+
+  if (rules.excludedPlayers?.some(name => normalizeName(name) === normalizeName(team.Team))) {
+    reasons.push({ rule: 'excludedPlayers', message: 'On the exclusion list' });
+  }
+
+  if (rules.minSubmissions !== undefined && (team.Submissions || 0) < rules.minSubmissions) {
+    reasons.push({
+      rule: 'minSubmissions',
+      message: `${team.Submissions || 0} of ${rules.minSubmissions} required submissions`
+    });
+  }
+
+  const deadline = parseTime(rules.submissionDeadline);
+  const lastSubmission = parseTime(team['Last Submission']);
+  if (deadline !== undefined && lastSubmission !== undefined && lastSubmission > deadline) {
+    reasons.push({
+      rule: 'submissionDeadline',
+      message: `Last submission after the ${rules.submissionDeadline!.replace('T', ' ')} deadline`
+    });
+  }
+
+  return reasons;
+};
+
+export const meetsEligibilityRules = (team: EligibilityTeam, rules?: EligibilityRules): boolean => {
+  return !hasEligibilityRules(rules) || getIneligibilityReasons(team, rules).length === 0;
+};
+
+/**
+ * Names from a pasted or uploaded exclusion list - one per line (first column
+ * of a CSV or spreadsheet paste) or a single comma-separated line. Header
+ * rows and duplicates are dropped.
+ */
+export const parseExclusionList = (text: string): string[] => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim().length > 0);
+  const names = (lines.length === 1 && !lines[0].includes('\t') ? lines[0].split(',') : lines.map(line => line.split(/[\t,]/)[0]))
+    .map(name => name.trim().replace(/^"(.*)"$/, '$1').trim())
+    .filter(name => name.length > 0 && !['team', 'name', 'player'].includes(name.toLowerCase()));
+
+  const seen = new Set<string>();
+  return names.filter(name => {
+    const key = normalizeName(name);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const describeEligibilityRules = (rules: EligibilityRules = {}): string => {
+  const parts = [
+    rules.minSubmissions !== undefined ? `${rules.minSubmissions}+ submissions` : '',
+    rules.excludedPlayers?.length ? `${rules.excludedPlayers.length} excluded` : '',
+    rules.submissionDeadline ? `submitted by ${rules.submissionDeadline.replace('T', ' ')}` : ''
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'No extra rules';
+};
+
+/**
+ * Problems that would make rules unusable - an empty list means they are valid
+ */
+export const validateEligibilityRules = (rules: EligibilityRules): string[] => {
+  const errors: string[] = [];
+  if (rules.minSubmissions !== undefined && (!Number.isInteger(rules.minSubmissions) || rules.minSubmissions < 0)) {
+    errors.push('Minimum submissions must be a whole number of 0 or more');
+  }
+  if (rules.submissionDeadline && parseTime(rules.submissionDeadline) === undefined) {
+    errors.push('Pick a valid submission deadline');
+  }
+  return errors;
+};
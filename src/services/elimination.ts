@@ -0,0 +1,209 @@
+import { EliminationRecord, EliminationRule } from '@/types/raffleModels';
+import { createDrawRng, hashRoster } from './drawService';
+
+/**
+ * Elimination policies
+ *
+ * Decides who drops out of the pool after each round and why - RaffleEngine
+ * and the live raffle both go through eliminateAfterRound, so a simulated
+ * raffle drops the same players the live one would.
+ * Random policies draw from an RNG seeded from the committed seed over a
+ * roster sorted by id, so the seed replays the same drop-outs; ordered
+ * policies break ties on points by name (then id) and say so in the reason.
+ */
+
+export interface EliminationCandidate {
+  id: string;
+  name: string;
+  points: number;
+  tickets: number;
+}
+
+export interface EliminationContext {
+  round: number; // 1-based round that just finished
+  totalParticipants: number; // Whole roster, used for the per-round count
+  totalRounds: number;
+  random: () => number;
+}
+
+/**
+ * Starting values when the operator picks a policy - survivors shrink evenly
+ * to one player after the last round
+ */
+export const createEliminationRule = (
+  type: EliminationRule['type'],
+  numberOfRounds: number = 5,
+  playerCount: number = 100
+): EliminationRule => {
+  if (type === 'fixed_survivors') {
+    const survivors = Array.from({ length: Math.max(1, numberOfRounds) }, (_, i) =>
+      Math.max(1, Math.round(playerCount * (1 - (i + 1) / numberOfRounds)))
+    );
+    return { type, survivors };
+  }
+  return { type };
+};
+
+// Plain comparison so the order never depends on the runtime's locale
+const compareText = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+const byPointsThenName = (a: EliminationCandidate, b: EliminationCandidate) =>
+  a.points - b.points || compareText(a.name, b.name) || compareText(a.id, b.id);
+
+const byId = (a: EliminationCandidate, b: EliminationCandidate) => compareText(a.id, b.id);
+
+/**
+ * Players to remove after the round - floor(roster / rounds) for the per-round
+ * policies, or whatever brings the pool down to the round's survivor count
+ */
+export const getEliminationCount = (rule: EliminationRule, activeCount: number, context: EliminationContext): number => {
+  switch (rule.type) {
+    case 'none':
+      return 0;
+    case 'fixed_survivors': {
+      if (rule.survivors.length === 0) return 0;
+      const survivors = rule.survivors[Math.min(context.round - 1, rule.survivors.length - 1)];
+      return Math.max(0, activeCount - survivors);
+    }
+    default:
+      return Math.min(activeCount, Math.floor(context.totalParticipants / Math.max(1, context.totalRounds)));
+  }
+};
+
+// Lowest points first; players sharing points with a survivor are told the tie was broken by name
+const eliminateLowest = (
+  candidates: EliminationCandidate[],
+  count: number,
+  describe: (candidate: EliminationCandidate) => string
+): EliminationRecord[] => {
+  const ordered = [...candidates].sort(byPointsThenName);
+  const survivors = ordered.slice(count);
+
+  return ordered.slice(0, count).map(candidate => ({
+    participantId: candidate.id,
+    reason: survivors.some(survivor => survivor.points === candidate.points)
+      ? `${describe(candidate)} - tied at the cutoff, dropped by name order`
+      : describe(candidate)
+  }));
+};
+
+/**
+ * Players eliminated after a round, in the order they were picked
+ *
+ * @param candidates Players still in the pool once the round's winners are out
+ * @param rule Model's elimination policy
+ * @param context Round details and the round's RNG
+ */
+export const selectEliminations = (
+  candidates: EliminationCandidate[],
+  rule: EliminationRule,
+  context: EliminationContext
+): EliminationRecord[] => {
+  const count = getEliminationCount(rule, candidates.length, context);
+  if (count === 0) return [];
+
+  switch (rule.type) {
+    case 'lowest_points':
+      return eliminateLowest(candidates, count, candidate => `Fewest points left (${candidate.points})`);
+    case 'fixed_survivors': {
+      const survivors = candidates.length - count;
+      return eliminateLowest(candidates, count, candidate => `Outside the top ${survivors} by points (${candidate.points})`);
+    }
+    case 'inverse_weighted': {
+      // Sequential weighted draws without replacement; 0-ticket players weigh the same as 1 ticket
+      const remaining = [...candidates].sort(byId);
+      const records: EliminationRecord[] = [];
+      while (records.length < count && remaining.length > 0) {
+        const weights = remaining.map(candidate => 1 / Math.max(1, candidate.tickets));
+        const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+        let target = context.random() * totalWeight;
+        let index = 0;
+        while (index < remaining.length - 1 && target >= weights[index]) {
+          target -= weights[index];
+          index++;
+        }
+        const [picked] = remaining.splice(index, 1);
+        const chance = Math.round((weights[index] / totalWeight) * 1000) / 10;
+        records.push({
+          participantId: picked.id,
+          reason: `Drawn to drop out - ${picked.tickets} ticket${picked.tickets === 1 ? '' : 's'}, ${chance}% chance`
+        });
+      }
+      return records;
+    }
+    default: {
+      // Fisher-Yates - every order is equally likely, unlike sorting on random()
+      const shuffled = [...candidates].sort(byId);
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(context.random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      return shuffled.slice(0, count).map(candidate => ({
+        participantId: candidate.id,
+        reason: 'Drawn at random to drop out'
+      }));
+    }
+  }
+};
+
+export interface RoundEliminationContext {
+  round: number; // 1-based round that just finished
+  totalParticipants: number; // Whole roster, used for the per-round count
+  totalRounds: number;
+  seed?: string; // Committed draw seed - drop-outs replay from it
+  random?: () => number; // RNG for unseeded raffles (defaults to Math.random)
+}
+
+/**
+ * Players eliminated once a round is complete - nobody after the last round,
+ * since there is no later draw to keep them out of
+ *
+ * With a seed the RNG comes from the seed, round and candidate roster, under
+ * its own ':elimination' label so it never replays the round's winner draws.
+ *
+ * @param candidates Players still in the pool - winners, pending winners and
+ *   players already out are left out by the caller
+ */
+export const eliminateAfterRound = (
+  candidates: EliminationCandidate[],
+  rule: EliminationRule,
+  context: RoundEliminationContext
+): EliminationRecord[] => {
+  const { round, totalParticipants, totalRounds, seed } = context;
+  if (rule.type === 'none' || round >= totalRounds) return [];
+
+  const random = seed
+    ? createDrawRng(`${seed}:elimination`, round, hashRoster(candidates.map(candidate => ({ team: candidate.id, tickets: candidate.tickets }))))
+    : context.random ?? Math.random;
+  return selectEliminations(candidates, rule, { round, totalParticipants, totalRounds, random });
+};
+
+export const describeEliminationRule = (rule: EliminationRule): string => {
+  switch (rule.type) {
+    case 'players_per_round':
+      return 'Random drop-outs each round';
+    case 'lowest_points':
+      return 'Lowest points drop out each round';
+    case 'inverse_weighted':
+      return 'Random drop-outs, fewer tickets more likely';
+    case 'fixed_survivors':
+      return `Survivors ${rule.survivors.join(' → ')}`;
+    default:
+      return 'No elimination';
+  }
+};
+
+/**
+ * Problems that would make a policy unusable - an empty list means it is valid
+ */
+export const validateEliminationRule = (rule: EliminationRule): string[] => {
+  const errors: string[] = [];
+  if (rule.type === 'fixed_survivors') {
+    if (rule.survivors.length === 0) {
+      errors.push('Add at least one survivor count');
+    } else if (rule.survivors.some(value => !Number.isInteger(value) || value < 0)) {
+      errors.push('Survivor counts must be whole numbers of 0 or more');
+    }
+  }
+  return errors;
+};
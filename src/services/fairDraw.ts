@@ -0,0 +1,99 @@
+import { sha256 } from '@/utils/sha256';
+import {
+  DrawCommitment,
+  DrawLog,
+  DrawLogVerification,
+  DrawRecord
+} from '@/types/fairDraw';
+import { createDrawRng, hashRoster, normalizeEntries, selectTicket } from './drawService';
+
+/**
+ * Commit-reveal draw protocol
+ *
+ * 1. Before the event a secret seed is generated and SHA-256(seed) is published.
+ * 2. Each draw derives its RNG from seed + round number + hash of the eligible roster,
+ *    so the outcome is fixed by the committed seed and the roster at draw time
+ *    (see performFairDraw in drawService).
+ * 3. After the event the seed is revealed and anyone can re-derive every winner
+ *    from the exported draw log.
+ */
+
+/**
+ * Generate a 256-bit secret seed as hex
+ */
+export const generateDrawSeed = (): string => {
+  const bytes = new Uint8Array(32);
+  if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+    crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = Math.floor(Math.random() * 256);
+    }
+  }
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const createCommitment = (seed: string): string => sha256(seed);
+
+export const createDrawCommitment = (seed: string = generateDrawSeed()): DrawCommitment => ({
+  seed,
+  commitment: createCommitment(seed),
+  createdAt: new Date().toISOString()
+});
+
+/**
+ * Mark the seed as revealed so it is included in exported draw logs
+ */
+export const revealDrawCommitment = (commitment: DrawCommitment): DrawCommitment => ({
+  ...commitment,
+  revealedAt: commitment.revealedAt || new Date().toISOString()
+});
+
+/**
+ * Build the exportable draw log. The seed is only included once it has been revealed.
+ */
+export const buildDrawLog = (
+  commitment: DrawCommitment,
+  draws: DrawRecord[],
+  configuration?: { id: string; name: string }
+): DrawLog => ({
+  version: 1,
+  configurationId: configuration?.id,
+  configurationName: configuration?.name,
+  commitment: commitment.commitment,
+  seed: commitment.revealedAt ? commitment.seed : undefined,
+  exportedAt: new Date().toISOString(),
+  draws
+});
+
+/**
+ * Re-derive every draw in an exported log from its revealed seed
+ */
+export const verifyDrawLog = (log: DrawLog): DrawLogVerification => {
+  const seedRevealed = typeof log.seed === 'string' && log.seed.length > 0;
+  const commitmentValid = seedRevealed && createCommitment(log.seed as string) === log.commitment;
+
+  const draws = log.draws.map((draw, index) => {
+    const normalized = normalizeEntries(draw.entries);
+    const rosterHashValid = hashRoster(normalized) === draw.rosterHash;
+    const expectedWinner = seedRevealed
+      ? selectTicket(normalized, createDrawRng(log.seed as string, draw.round, draw.rosterHash))?.winner ?? null
+      : null;
+
+    return {
+      index,
+      round: draw.round,
+      recordedWinner: draw.winner,
+      expectedWinner,
+      rosterHashValid,
+      winnerValid: expectedWinner === draw.winner
+    };
+  });
+
+  return {
+    commitmentValid,
+    seedRevealed,
+    draws,
+    allValid: commitmentValid && draws.every(draw => draw.rosterHashValid && draw.winnerValid)
+  };
+};
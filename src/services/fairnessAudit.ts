@@ -0,0 +1,167 @@
+import { sha256 } from '@/utils/sha256';
+import { chiSquaredPValue } from '@/utils/statistics';
+import { DrawEntry } from '@/types/fairDraw';
+import {
+  FairnessAuditPlayer,
+  FairnessAuditReport,
+  FairnessAuditResult,
+  FairnessReportVerification
+} from '@/types/fairnessAudit';
+import { createDrawRng, hashRoster, normalizeEntries, selectTicket } from './drawService';
+
+/**
+ * Statistical fairness audit
+ *
+ * Runs the production draw (selectTicket over the normalized roster with the
+ * seeded per-draw RNG, exactly as performFairDraw does) many times against
+ * one round's ticket pool and tests the win counts against the ticket shares
+ * with a chi-squared goodness-of-fit test. Draw i uses the audit seed with
+ * i as the round number, so the whole audit can be replayed from the report.
+ */
+
+export const DEFAULT_SIGNIFICANCE_LEVEL = 0.01;
+const MIN_EXPECTED = 5; // Usual rule of thumb for the chi-squared approximation
+const LARGEST_DEVIATIONS = 10;
+
+/**
+ * Run draws first..first+count-1 and add the winners to counts (indexed like
+ * the normalized entries). Split a long audit into calls to keep the UI responsive.
+ */
+export const runAuditDraws = (
+  entries: DrawEntry[],
+  seed: string,
+  first: number,
+  count: number,
+  counts: number[]
+): number[] => {
+  const normalized = normalizeEntries(entries);
+  const rosterHash = hashRoster(normalized);
+  const indexByTeam = new Map(normalized.map((entry, index) => [entry.team, index]));
+
+  for (let draw = first; draw < first + count; draw++) {
+    const selection = selectTicket(normalized, createDrawRng(seed, draw, rosterHash));
+    if (selection) {
+      counts[indexByTeam.get(selection.winner) as number]++;
+    }
+  }
+  return counts;
+};
+
+/**
+ * Chi-squared goodness-of-fit of the win counts against ticket shares
+ */
+export const summarizeFairnessAudit = (entries: DrawEntry[], counts: number[]): FairnessAuditResult => {
+  const normalized = normalizeEntries(entries);
+  const totalTickets = normalized.reduce((sum, entry) => sum + entry.tickets, 0);
+  const iterations = counts.reduce((sum, count) => sum + count, 0);
+
+  const players: FairnessAuditPlayer[] = normalized.map((entry, index) => {
+    const expectedShare = totalTickets > 0 ? entry.tickets / totalTickets : 0;
+    const expected = expectedShare * iterations;
+    const observed = counts[index] ?? 0;
+    return {
+      team: entry.team,
+      tickets: entry.tickets,
+      expectedShare,
+      expected,
+      observed,
+      residual: expected > 0 ? (observed - expected) / Math.sqrt(expected) : 0
+    };
+  });
+
+  const chiSquared = players.reduce((sum, player) => sum + player.residual ** 2, 0);
+  const degreesOfFreedom = Math.max(0, players.length - 1);
+
+  return {
+    iterations,
+    rosterHash: hashRoster(normalized),
+    players,
+    chiSquared,
+    degreesOfFreedom,
+    pValue: iterations > 0 ? chiSquaredPValue(chiSquared, degreesOfFreedom) : 1,
+    lowExpectedCount: players.filter(player => player.expected < MIN_EXPECTED).length
+  };
+};
+
+/**
+ * Players furthest from their expected wins, largest first
+ */
+export const getLargestDeviations = (result: FairnessAuditResult, limit: number = LARGEST_DEVIATIONS): FairnessAuditPlayer[] => {
+  return [...result.players]
+    .sort((a, b) => Math.abs(b.residual) - Math.abs(a.residual) || (a.team < b.team ? -1 : 1))
+    .slice(0, limit);
+};
+
+// JSON with object keys sorted, so the digest does not depend on the order fields were written in
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const fields = Object.entries(value as Record<string, unknown>)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, field]) => `${JSON.stringify(key)}:${canonicalJson(field)}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// Integrity checksum only - it detects damage, but whoever edits the report can recompute it
+const digestReport = (report: Omit<FairnessAuditReport, 'digest'>): string => sha256(canonicalJson(report));
+
+export const buildFairnessReport = (
+  entries: DrawEntry[],
+  seed: string,
+  result: FairnessAuditResult,
+  context: { configurationId?: string; configurationName?: string; roundName?: string } = {},
+  significanceLevel: number = DEFAULT_SIGNIFICANCE_LEVEL
+): FairnessAuditReport => {
+  const body: Omit<FairnessAuditReport, 'digest'> = {
+    version: 1,
+    kind: 'fairness_audit',
+    ...context,
+    generatedAt: new Date().toISOString(),
+    seed,
+    rosterHash: result.rosterHash,
+    entries: normalizeEntries(entries),
+    iterations: result.iterations,
+    observed: result.players.map(player => player.observed),
+    chiSquared: result.chiSquared,
+    degreesOfFreedom: result.degreesOfFreedom,
+    pValue: result.pValue,
+    significanceLevel,
+    passed: result.pValue >= significanceLevel,
+    largestDeviations: getLargestDeviations(result)
+  };
+  return { ...body, digest: digestReport(body) };
+};
+
+export const isFairnessReport = (value: unknown): value is FairnessAuditReport => {
+  const report = value as FairnessAuditReport | null;
+  return !!report && report.kind === 'fairness_audit' && Array.isArray(report.entries) && Array.isArray(report.observed);
+};
+
+/**
+ * Replay every draw from the report's seed and recompute its statistics. The
+ * replay is what proves the numbers - the digest only catches a damaged file.
+ */
+export const verifyFairnessReport = (report: FairnessAuditReport): FairnessReportVerification => {
+  const { digest, ...body } = report;
+  const digestValid = digestReport(body) === digest;
+  const rosterHashValid = hashRoster(report.entries) === report.rosterHash;
+
+  const replayed = runAuditDraws(report.entries, report.seed, 1, report.iterations, new Array(report.entries.length).fill(0));
+  const drawsValid = replayed.length === report.observed.length && replayed.every((count, index) => count === report.observed[index]);
+
+  const recomputed = summarizeFairnessAudit(report.entries, report.observed);
+  const resultsValid = Math.abs(recomputed.chiSquared - report.chiSquared) < 1e-9
+    && Math.abs(recomputed.pValue - report.pValue) < 1e-9
+    && report.passed === recomputed.pValue >= report.significanceLevel;
+
+  return {
+    digestValid,
+    rosterHashValid,
+    drawsValid,
+    resultsValid,
+    allValid: digestValid && rosterHashValid && drawsValid && resultsValid
+  };
+};
@@ -0,0 +1,185 @@
+import { TeamData, RaffleRound } from '@/types/raffle';
+import { RaffleParticipant } from '@/types/raffleModels';
+import { DecileStat, ScenarioSummary, ScenarioTally, TierStat } from '@/types/modelComparison';
+import { ConfigurationManager, RoundConfigurationSettings } from '@/utils/configurationManager';
+import { RaffleEngine } from './raffleEngine';
+import { resolveRaffleModel } from './raffleModels';
+import { getTicketBreakdown } from './bonusTickets';
+import { getRoundWinnerCount } from './drawService';
+import { getRoundThresholds } from './roundThresholds';
+
+/**
+ * Model comparison
+ *
+ * Runs many simulated raffles with RaffleEngine for each scenario (a model and
+ * round settings) over the same roster, then summarises who wins: chance of
+ * winning by points decile, expected winners per point tier and a Gini
+ * coefficient over every player's chance of winning. Tallies are indexed like
+ * the roster so simulations can run in chunks between UI updates.
+ */
+
+export interface ComparisonScenario {
+  id: string;
+  label: string;
+  settings: RoundConfigurationSettings;
+}
+
+export const createScenario = (label: string, settings: RoundConfigurationSettings): ComparisonScenario => ({
+  id: `scenario-${Date.now().toString(36)}${Math.random().toString(36).substr(2, 5)}`,
+  label,
+  settings
+});
+
+/**
+ * Settings for trying another model on the same rounds - the formula and
+ * threshold overrides are dropped so the model is compared as defined
+ */
+export const withRaffleModel = (settings: RoundConfigurationSettings, raffleModel: string): RoundConfigurationSettings => {
+  const shared = { ...settings, raffleModel };
+  delete shared.ticketFormula;
+  delete shared.thresholdStrategy;
+  return shared;
+};
+
+export const createTally = (playerCount: number): ScenarioTally => ({
+  iterations: 0,
+  wins: new Array(playerCount).fill(0),
+  winningRuns: new Array(playerCount).fill(0)
+});
+
+/**
+ * Simulate whole raffles under a scenario's settings and add the results to
+ * the tally (which is updated in place and returned)
+ *
+ * @param teams Roster - the tally is indexed in this order
+ * @param settings Scenario settings, resolved like the live raffle's
+ * @param tally Totals to add to
+ * @param iterations Raffles to simulate
+ * @param random RNG for the draws - pass a seeded one for reproducible runs
+ */
+export const runSimulations = (
+  teams: TeamData[],
+  settings: RoundConfigurationSettings,
+  tally: ScenarioTally,
+  iterations: number,
+  random: () => number = Math.random
+): ScenarioTally => {
+  const model = resolveRaffleModel(settings);
+  const rounds = ConfigurationManager.generateOptimalRounds(teams, settings);
+  const pointThresholds = rounds.map(round => round.pointThreshold);
+
+  const baseParticipants: RaffleParticipant[] = teams.map((team, index) => {
+    const { bonus, total } = getTicketBreakdown(team, model.ticketFormula, model.bonusRules);
+    return {
+      id: String(index),
+      name: team.Team,
+      email: '',
+      points: team.Points,
+      tickets: total,
+      bonusTickets: bonus,
+      isActive: true,
+      isWinner: false
+    };
+  });
+
+  for (let i = 0; i < iterations; i++) {
+    const participants = baseParticipants.map(participant => ({ ...participant }));
+    const engine = new RaffleEngine(participants, {
+      totalRounds: rounds.length,
+      winnersPerRound: settings.winnersPerRound || 1,
+      model,
+      participants,
+      pointThresholds,
+      random
+    });
+
+    const winnersThisRun = new Set<number>();
+    rounds.forEach(round => {
+      engine.runRound(getRoundWinnerCount(round)).winners.forEach(id => {
+        const index = Number(id);
+        tally.wins[index]++;
+        winnersThisRun.add(index);
+      });
+    });
+    winnersThisRun.forEach(index => tally.winningRuns[index]++);
+    tally.iterations++;
+  }
+
+  return tally;
+};
+
+/**
+ * Gini coefficient of non-negative values - 0 when all are equal, approaching
+ * 1 when one value holds everything
+ */
+export const calculateGini = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const n = sorted.length;
+  const total = sorted.reduce((sum, value) => sum + value, 0);
+  if (n === 0 || total === 0) return 0;
+
+  const weighted = sorted.reduce((sum, value, i) => sum + (2 * (i + 1) - n - 1) * value, 0);
+  return weighted / (n * total);
+};
+
+/**
+ * Point tiers to report on - the distinct thresholds of the configuration's
+ * rounds, or four equal-size brackets when every round is open to everyone
+ */
+export const getComparisonTiers = (teams: TeamData[], rounds: RaffleRound[]): number[] => {
+  const thresholds = [...new Set([0, ...rounds.map(round => round.pointThreshold)])].sort((a, b) => a - b);
+  if (thresholds.length > 1 || teams.length === 0) return thresholds;
+
+  return [...new Set(getRoundThresholds({ type: 'equal_buckets' }, teams.map(team => team.Points), 4))];
+};
+
+export const summarizeScenario = (
+  scenario: ComparisonScenario,
+  teams: TeamData[],
+  tally: ScenarioTally,
+  tierThresholds: number[]
+): ScenarioSummary => {
+  const runs = Math.max(1, tally.iterations);
+  const chances = tally.winningRuns.map(count => (count / runs) * 100);
+
+  // Lowest points first, ties by name so deciles never depend on roster order
+  const ranked = teams
+    .map((team, index) => ({ team, index }))
+    .sort((a, b) => a.team.Points - b.team.Points || a.team.Team.localeCompare(b.team.Team));
+
+  const deciles: DecileStat[] = [];
+  for (let decile = 1; decile <= 10; decile++) {
+    const members = ranked.filter((_, rank) => Math.floor((rank * 10) / ranked.length) + 1 === decile);
+    if (members.length === 0) continue;
+    deciles.push({
+      decile,
+      minPoints: members[0].team.Points,
+      maxPoints: members[members.length - 1].team.Points,
+      players: members.length,
+      winProbability: members.reduce((sum, member) => sum + chances[member.index], 0) / members.length
+    });
+  }
+
+  const tiers: TierStat[] = tierThresholds.map((minPoints, i) => {
+    const maxPoints = tierThresholds[i + 1];
+    const members = teams
+      .map((team, index) => ({ team, index }))
+      .filter(({ team }) => team.Points >= minPoints && (maxPoints === undefined || team.Points < maxPoints));
+    return {
+      label: maxPoints === undefined ? `${minPoints}+` : `${minPoints}–${maxPoints - 1}`,
+      minPoints,
+      players: members.length,
+      expectedWinners: members.reduce((sum, { index }) => sum + tally.wins[index], 0) / runs
+    };
+  });
+
+  return {
+    scenarioId: scenario.id,
+    label: scenario.label,
+    iterations: tally.iterations,
+    deciles,
+    tiers,
+    expectedWinners: tally.wins.reduce((sum, wins) => sum + wins, 0) / runs,
+    gini: calculateGini(chances)
+  };
+};
@@ -0,0 +1,218 @@
+import { Prize, RaffleState, TeamData } from '@/types/raffle';
+import { BundleImportMode, RafflePhotoReference } from '@/types/raffleBundle';
+import { ConfigurationManager, RaffleConfiguration } from '@/utils/configurationManager';
+import { getUserPhotoPaths } from '@/utils/photoUtils';
+import { createAuditEvent } from './auditLog';
+import { buildDrawEntries } from './drawService';
+import { saveStoredRaffleState } from './raffleStorage';
+import { CURRENT_SCHEMA_VERSION, migrateSnapshot } from './storageMigrations';
+
+/**
+ * Raffle bundles
+ *
+ * A `.raffle` file carries one prepared raffle from the organizer's laptop to
+ * the venue machine: the configuration (roster, round settings and rounds,
+ * prizes, draw commitment and audit log), the raffle progress saved for it, and
+ * a manifest of the images it shows. The configuration and state are stored at
+ * the storage schema version they were exported with, so importing runs the
+ * same migrations as opening older saved data.
+ */
+
+export const RAFFLE_BUNDLE_FORMAT = 'm365-raffle-bundle';
+export const RAFFLE_BUNDLE_VERSION = 1; // Layout of the bundle itself - the data inside follows schemaVersion
+export const RAFFLE_BUNDLE_EXTENSION = '.raffle';
+
+export interface RaffleBundle {
+  format: typeof RAFFLE_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  schemaVersion: number; // Storage schema the configuration and raffle state were saved with
+  configuration: RaffleConfiguration;
+  raffleState: RaffleState | null; // Draw progress - null when the raffle has not been run
+  photos: RafflePhotoReference[];
+}
+
+/**
+ * Images to copy along with the bundle - every player's photo sizes and the prize images
+ */
+export const getPhotoManifest = (teams: TeamData[], prizes: Prize[] = []): RafflePhotoReference[] => [
+  ...teams.map((team): RafflePhotoReference => ({ kind: 'player', name: team.Team, paths: getUserPhotoPaths(team.Team) })),
+  ...prizes
+    .filter(prize => prize.image)
+    .map((prize): RafflePhotoReference => ({ kind: 'prize', name: prize.name, paths: [prize.image as string] }))
+];
+
+export const createRaffleBundle = (configuration: RaffleConfiguration, raffleState: RaffleState | null): RaffleBundle => ({
+  format: RAFFLE_BUNDLE_FORMAT,
+  version: RAFFLE_BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  configuration,
+  raffleState,
+  photos: getPhotoManifest(configuration.teams, configuration.prizes)
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Problems with each item of a list, reported against its path (e.g. "configuration.teams[3]")
+const checkList = (
+  value: unknown,
+  path: string,
+  checkItem: (item: Record<string, unknown>) => string | null,
+  problems: string[]
+): void => {
+  if (!Array.isArray(value)) {
+    problems.push(`${path} must be a list`);
+    return;
+  }
+  value.forEach((item, index) => {
+    const problem = isRecord(item) ? checkItem(item) : 'must be an object';
+    if (problem) problems.push(`${path}[${index}] ${problem}`);
+  });
+};
+
+const checkTeam = (team: Record<string, unknown>): string | null => {
+  if (typeof team.Team !== 'string' || !team.Team.trim()) return 'has no player name';
+  if (!isNumber(team.Points) || team.Points < 0) return `(${team.Team}) needs Points of 0 or more`;
+  return null;
+};
+
+const checkRound = (round: Record<string, unknown>): string | null => {
+  if (!isNumber(round.id) || typeof round.name !== 'string') return 'needs a numeric id and a name';
+  if (!isNumber(round.pointThreshold)) return `(${round.name}) needs a numeric pointThreshold`;
+  return null;
+};
+
+const checkPrize = (prize: Record<string, unknown>): string | null => {
+  if (typeof prize.id !== 'string' || typeof prize.name !== 'string') return 'needs an id and a name';
+  if (!isNumber(prize.quantity) || prize.quantity < 0) return `(${prize.name}) needs a quantity of 0 or more`;
+  return null;
+};
+
+const checkPhoto = (photo: Record<string, unknown>): string | null => {
+  if (typeof photo.name !== 'string' || !Array.isArray(photo.paths)) return 'needs a name and a list of paths';
+  return null;
+};
+
+/**
+ * Everything wrong with a parsed bundle file - empty when it can be imported
+ */
+export const validateRaffleBundle = (value: unknown): string[] => {
+  if (!isRecord(value) || value.format !== RAFFLE_BUNDLE_FORMAT) {
+    return ['File is not a raffle bundle'];
+  }
+
+  const problems: string[] = [];
+  if (!isNumber(value.version) || value.version > RAFFLE_BUNDLE_VERSION) {
+    problems.push(`Bundle version ${value.version} is newer than this app supports (${RAFFLE_BUNDLE_VERSION})`);
+  }
+  if (!isNumber(value.schemaVersion) || value.schemaVersion < 0) {
+    problems.push('schemaVersion must be a number');
+  }
+
+  const configuration = value.configuration;
+  if (!isRecord(configuration)) {
+    problems.push('configuration is missing');
+  } else {
+    if (typeof configuration.id !== 'string' || !configuration.id) problems.push('configuration.id is missing');
+    if (typeof configuration.name !== 'string' || !configuration.name.trim()) problems.push('configuration.name is missing');
+    checkList(configuration.teams, 'configuration.teams', checkTeam, problems);
+    if (!isRecord(configuration.roundSettings) || !isNumber(configuration.roundSettings.numberOfRounds)) {
+      problems.push('configuration.roundSettings.numberOfRounds must be a number');
+    }
+    checkList(configuration.rounds, 'configuration.rounds', checkRound, problems);
+    if (configuration.prizes !== undefined) checkList(configuration.prizes, 'configuration.prizes', checkPrize, problems);
+    if (configuration.auditLog !== undefined && !Array.isArray(configuration.auditLog)) problems.push('configuration.auditLog must be a list');
+  }
+
+  const raffleState = value.raffleState;
+  if (raffleState !== null && raffleState !== undefined) {
+    if (!isRecord(raffleState)) {
+      problems.push('raffleState must be an object or null');
+    } else {
+      checkList(raffleState.teams, 'raffleState.teams', checkTeam, problems);
+      checkList(raffleState.rounds, 'raffleState.rounds', checkRound, problems);
+      if (!Array.isArray(raffleState.winners)) problems.push('raffleState.winners must be a list');
+      if (!isNumber(raffleState.currentRound)) problems.push('raffleState.currentRound must be a number');
+    }
+  }
+
+  checkList(value.photos, 'photos', checkPhoto, problems);
+  return problems;
+};
+
+/**
+ * Read a `.raffle` file and bring its data up to the current schema
+ *
+ * @throws When the file is not valid JSON, fails validation, or comes from a newer app
+ */
+export const parseRaffleBundle = (text: string): RaffleBundle => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`File is not a raffle bundle (${error instanceof Error ? error.message : 'invalid JSON'})`);
+  }
+
+  const problems = validateRaffleBundle(value);
+  if (problems.length > 0) {
+    const shown = problems.slice(0, 5).join('; ');
+    throw new Error(`Invalid raffle bundle: ${shown}${problems.length > 5 ? ` (and ${problems.length - 5} more)` : ''}`);
+  }
+
+  const bundle = value as RaffleBundle;
+  const { id } = bundle.configuration;
+  const { snapshot } = migrateSnapshot({
+    schemaVersion: bundle.schemaVersion,
+    configurations: [bundle.configuration],
+    raffleStates: bundle.raffleState ? { [id]: bundle.raffleState } : {},
+    templates: []
+  });
+  return {
+    ...bundle,
+    schemaVersion: snapshot.schemaVersion,
+    configuration: snapshot.configurations[0],
+    raffleState: snapshot.raffleStates[id] ?? null
+  };
+};
+
+/**
+ * Saved configuration the bundle would replace, if any
+ */
+export const findBundleCollision = (bundle: RaffleBundle): RaffleConfiguration | null =>
+  ConfigurationManager.getAllConfigurations().find(config => config.id === bundle.configuration.id) || null;
+
+/**
+ * Save a bundle's configuration and raffle progress
+ *
+ * @param mode Replace a saved configuration with the same id, or save the bundle as a new copy
+ * @returns The configuration as saved
+ */
+export const importRaffleBundle = (bundle: RaffleBundle, mode: BundleImportMode = 'overwrite'): RaffleConfiguration => {
+  const source = bundle.configuration;
+  const duplicate = mode === 'duplicate' && findBundleCollision(bundle) !== null;
+  const id = duplicate ? ConfigurationManager.generateId() : source.id;
+
+  const imported = createAuditEvent('configuration_imported', {
+    entries: buildDrawEntries(source.teams),
+    details: { mode: duplicate ? 'duplicate' : 'overwrite', sourceId: source.id, exportedAt: bundle.exportedAt }
+  });
+  const configuration: RaffleConfiguration = {
+    ...source,
+    id,
+    name: duplicate ? `${source.name} (copy)` : source.name,
+    auditLog: [...(source.auditLog || []), imported],
+    createdAt: duplicate ? new Date() : new Date(source.createdAt),
+    lastModified: new Date(),
+    drawCommitment: duplicate ? undefined : source.drawCommitment // A commitment belongs to one raffle - the copy commits to its own seed
+  };
+
+  ConfigurationManager.saveConfiguration(configuration);
+  // An overwrite takes the bundle's progress too - a bundle exported before the raffle ran clears it
+  saveStoredRaffleState(id, bundle.raffleState);
+  console.log(`📦 BUNDLE: Imported "${configuration.name}" (${duplicate ? 'as a copy' : 'overwrite'})`);
+  return configuration;
+};
@@ -1,12 +1,14 @@
 import { 
+  EliminationRecord,
   RaffleModel, 
-  RaffleModelType, 
   RaffleParticipant, 
   RaffleRound, 
   RaffleResult,
   RaffleConfiguration 
 } from '../types/raffleModels';
-import { RAFFLE_MODELS } from './raffleModels';
+import { getFormulaTickets } from './ticketFormula';
+import { createDrawRng, drawWinners, hashRoster } from './drawService';
+import { eliminateAfterRound } from './elimination';
 
 export class RaffleEngine {
   private participants: RaffleParticipant[] = [];
@@ -17,150 +19,107 @@ export class RaffleEngine {
   constructor(participants: RaffleParticipant[], configuration: RaffleConfiguration) {
     this.participants = [...participants];
     this.configuration = configuration;
+    this.currentRound = configuration.roundsPlayed ?? 0;
     this.calculateTickets();
   }
 
+  private get model(): RaffleModel {
+    return this.configuration.model;
+  }
+
   private calculateTickets(): void {
     this.participants.forEach(participant => {
-      // Universal ticket calculation: points ÷ 100
-      participant.tickets = Math.max(1, Math.floor(participant.points / 100));
+      // Tickets come from the model's formula plus any bonus (0-ticket players are never drawn)
+      participant.tickets = getFormulaTickets(this.model.ticketFormula, participant.points) + (participant.bonusTickets ?? 0);
     });
   }
 
   private getActiveParticipants(): RaffleParticipant[] {
-    return this.participants.filter(p => p.isActive && !p.isWinner);
-  }
-
-  private selectWinners(model: RaffleModel, count: number): RaffleParticipant[] {
-    const activeParticipants = this.getActiveParticipants();
-    const winners: RaffleParticipant[] = [];
-
-    if (activeParticipants.length === 0) return winners;
-
-    if (model.properties.weightedSystem) {
-      // Weighted selection based on tickets
-      winners.push(...this.selectWeightedWinners(activeParticipants, count));
-    } else {
-      // Uniform selection (equal chances)
-      winners.push(...this.selectUniformWinners(activeParticipants, count));
-    }
-
-    return winners;
+    // Winners stay drawable only when the model keeps them in the pool
+    return this.participants.filter(p => p.isActive && (!p.isWinner || this.model.winnerRemoval === 'keep'));
   }
 
-  private selectWeightedWinners(participants: RaffleParticipant[], count: number): RaffleParticipant[] {
-    const winners: RaffleParticipant[] = [];
-    const availableParticipants = [...participants];
-
-    for (let i = 0; i < count && availableParticipants.length > 0; i++) {
-      // Create weighted pool
-      const weightedPool: RaffleParticipant[] = [];
-      
-      availableParticipants.forEach(participant => {
-        // Add participant multiple times based on ticket count
-        for (let j = 0; j < participant.tickets; j++) {
-          weightedPool.push(participant);
-        }
-      });
-
-      if (weightedPool.length === 0) break;
-
-      // Random selection from weighted pool
-      const randomIndex = Math.floor(Math.random() * weightedPool.length);
-      const winner = weightedPool[randomIndex];
-      
-      winners.push(winner);
-      
-      // Remove winner from available participants
-      const winnerIndex = availableParticipants.findIndex(p => p.id === winner.id);
-      if (winnerIndex > -1) {
-        availableParticipants.splice(winnerIndex, 1);
-      }
+  /**
+   * RNG for the current round. With a committed seed the round is reproducible
+   * from the seed, round number and active roster; otherwise the configuration's
+   * RNG (or Math.random) is used.
+   */
+  private createRoundRng(): () => number {
+    if (!this.configuration.drawSeed) {
+      return this.configuration.random ?? Math.random;
     }
-
-    return winners;
+    const rosterHash = hashRoster(
+      this.getActiveParticipants().map(p => ({ team: p.id, tickets: p.tickets }))
+    );
+    return createDrawRng(this.configuration.drawSeed, this.currentRound, rosterHash);
   }
 
-  private selectUniformWinners(participants: RaffleParticipant[], count: number): RaffleParticipant[] {
-    const winners: RaffleParticipant[] = [];
-    const availableParticipants = [...participants];
-
-    // Even though it's "uniform", we still calculate tickets
-    // The difference is that uniform doesn't use weighted probability
-    for (let i = 0; i < count && availableParticipants.length > 0; i++) {
-      const randomIndex = Math.floor(Math.random() * availableParticipants.length);
-      const winner = availableParticipants[randomIndex];
-      
-      winners.push(winner);
-      availableParticipants.splice(randomIndex, 1);
-    }
-
-    return winners;
+  private selectWinners(count: number, random: () => number): RaffleParticipant[] {
+    // Players under the round's point threshold sit the round out but stay in the pool
+    const threshold = this.configuration.pointThresholds?.[this.currentRound - 1] ?? 0;
+    const excluded = this.configuration.excludedByRound?.[this.currentRound - 1] ?? [];
+    const activeParticipants = this.getActiveParticipants().filter(p => p.points >= threshold && !excluded.includes(p.id));
+    if (activeParticipants.length === 0) return [];
+
+    // Ticket counts already encode the model's weighting (a flat formula gives everyone one entry)
+    const entries = activeParticipants.map(p => ({ team: p.id, tickets: p.tickets }));
+    return drawWinners(entries, count, random)
+      .map(id => activeParticipants.find(p => p.id === id) as RaffleParticipant);
   }
 
-  private eliminateParticipants(model: RaffleModel): RaffleParticipant[] {
-    if (!model.properties.dropOffAfterRound) {
-      return [];
-    }
-
-    const activeParticipants = this.getActiveParticipants();
-    let eliminationCount = 0;
-
-    if (model.properties.eliminationCalculation === 'players_per_round') {
-      // totalPlayers / numberOfRounds = playersEliminatedPerRound
-      const totalPlayers = this.participants.length;
-      eliminationCount = Math.floor(totalPlayers / this.configuration.totalRounds);
-    }
-
-    if (eliminationCount === 0 || activeParticipants.length === 0) return [];
-
-    // Don't eliminate more players than are available
-    eliminationCount = Math.min(eliminationCount, activeParticipants.length);
+  private eliminateParticipants(): EliminationRecord[] {
+    // Winners are never eliminated, even when the model keeps them drawable
+    const candidates = this.getActiveParticipants().filter(p => !p.isWinner);
 
-    // Random elimination for uniform system
-    const shuffled = [...activeParticipants].sort(() => Math.random() - 0.5);
-    const eliminated = shuffled.slice(0, eliminationCount);
+    // Same step as the live raffle: the model's policy picks who drops out and records why
+    const eliminations = eliminateAfterRound(candidates, this.model.elimination, {
+      round: this.currentRound,
+      totalParticipants: this.participants.length,
+      totalRounds: this.configuration.totalRounds,
+      seed: this.configuration.drawSeed,
+      random: this.configuration.random
+    });
 
-    eliminated.forEach(participant => {
+    eliminations.forEach(({ participantId }) => {
+      const participant = candidates.find(p => p.id === participantId) as RaffleParticipant;
       participant.isActive = false;
       participant.eliminatedInRound = this.currentRound;
     });
 
-    return eliminated;
+    return eliminations;
   }
 
-  public runRound(modelType: RaffleModelType, winnerCount: number = 1): RaffleRound {
+  public runRound(winnerCount: number = this.configuration.winnersPerRound): RaffleRound {
     this.currentRound++;
-    const model = RAFFLE_MODELS[modelType];
     const participantsBefore = this.getActiveParticipants().length;
+    const random = this.createRoundRng();
 
     // Select winners
-    const winners = this.selectWinners(model, winnerCount);
+    const winners = this.selectWinners(winnerCount, random);
     
-    // Mark winners
+    // Mark winners - getActiveParticipants decides whether they can be drawn again
     winners.forEach(winner => {
-      if (model.properties.removeWinners) {
-        winner.isWinner = true;
-        winner.wonInRound = this.currentRound;
-        // Keep them active if it's continuous model, remove if elimination model
-        if (model.properties.dropOffAfterRound) {
-          winner.isActive = false;
-        }
+      winner.isWinner = true;
+      winner.wonInRound = this.currentRound;
+      // Winners leave the field entirely in elimination models
+      if (this.model.winnerRemoval === 'remove' && this.model.elimination.type !== 'none') {
+        winner.isActive = false;
       }
     });
 
     // Eliminate participants (if applicable)
-    const eliminated = this.eliminateParticipants(model);
+    const eliminations = this.eliminateParticipants();
 
     const participantsAfter = this.getActiveParticipants().length;
 
     const round: RaffleRound = {
       roundNumber: this.currentRound,
-      modelType,
+      modelId: this.model.id,
       participantsBefore,
       participantsAfter,
       winners: winners.map(w => w.id),
-      eliminated: eliminated.map(e => e.id),
+      eliminated: eliminations.map(e => e.participantId),
+      eliminations,
       timestamp: new Date()
     };
 
@@ -173,9 +132,7 @@ export class RaffleEngine {
       rounds: this.rounds,
       finalWinners: this.participants.filter(p => p.isWinner),
       totalParticipants: this.participants.length,
-      modelUsed: this.rounds.length > 0 ? 
-        RAFFLE_MODELS[this.rounds[this.rounds.length - 1].modelType] : 
-        RAFFLE_MODELS[RaffleModelType.UNIFORM_ELIMINATION]
+      modelUsed: this.model
     };
   }
 
@@ -191,7 +148,7 @@ export class RaffleEngine {
       p.wonInRound = undefined;
     });
     this.rounds = [];
-    this.currentRound = 0;
+    this.currentRound = this.configuration.roundsPlayed ?? 0;
     this.calculateTickets();
   }
 }
@@ -1,32 +1,139 @@
-import { RaffleModel, RaffleModelType } from '../types/raffleModels';
+import {
+  BonusRule,
+  EliminationRule,
+  RaffleModel,
+  RaffleModelType,
+  RoundThresholdStrategy,
+  TicketFormula,
+  WinnerRemoval
+} from '../types/raffleModels';
+import { DEFAULT_TICKET_FORMULA, validateTicketFormula } from './ticketFormula';
+import { validateThresholdStrategy } from './roundThresholds';
+import { validateEliminationRule } from './elimination';
 
-export const RAFFLE_MODELS: Record<RaffleModelType, RaffleModel> = {
+/**
+ * Raffle model registry
+ *
+ * A model is a plain definition (ticket formula, winner removal, elimination
+ * rule, round threshold strategy). Code asks the registry for the definition
+ * and reads its fields - nothing should switch on model ids. Custom models are
+ * stored on the configuration's round settings and passed in where needed.
+ */
+
+export const RAFFLE_MODELS: Record<string, RaffleModel> = {
   [RaffleModelType.UNIFORM_ELIMINATION]: {
-    type: RaffleModelType.UNIFORM_ELIMINATION,
+    id: RaffleModelType.UNIFORM_ELIMINATION,
     name: 'Uniform Elimination Round',
     description: 'Equal chances for all participants with progressive elimination',
-    properties: {
-      removeWinners: true,
-      weightedSystem: false,
-      dropOffAfterRound: true,
-      ticketCalculation: 'points_divided_100',
-      eliminationCalculation: 'players_per_round'
-    }
+    builtIn: true,
+    ticketFormula: { type: 'flat', minimumPoints: 100 },
+    winnerRemoval: 'remove',
+    elimination: { type: 'players_per_round' },
+    thresholdStrategy: { type: 'equal_buckets' }
   },
   [RaffleModelType.WEIGHTED_CONTINUOUS]: {
-    type: RaffleModelType.WEIGHTED_CONTINUOUS,
+    id: RaffleModelType.WEIGHTED_CONTINUOUS,
     name: 'Weighted Continuous Round',
     description: 'Ticket-weighted system with continuous participation',
-    properties: {
-      removeWinners: true,
-      weightedSystem: true,
-      dropOffAfterRound: false,
-      ticketCalculation: 'points_divided_100',
-      eliminationCalculation: 'none'
-    }
+    builtIn: true,
+    ticketFormula: DEFAULT_TICKET_FORMULA,
+    winnerRemoval: 'remove',
+    elimination: { type: 'none' },
+    thresholdStrategy: { type: 'none' }
   }
 };
 
-export const getRaffleModel = (type: RaffleModelType): RaffleModel => {
-  return RAFFLE_MODELS[type];
+export const DEFAULT_RAFFLE_MODEL_ID = RaffleModelType.WEIGHTED_CONTINUOUS;
+
+/**
+ * Built-in models followed by the configuration's custom models
+ */
+export const getRaffleModels = (customModels: RaffleModel[] = []): RaffleModel[] => {
+  return [...Object.values(RAFFLE_MODELS), ...customModels];
+};
+
+/**
+ * Look up a model by id. Unknown ids (e.g. a custom model that was deleted)
+ * fall back to the default model so a configuration always has one.
+ */
+export const getRaffleModel = (id?: string, customModels: RaffleModel[] = []): RaffleModel => {
+  if (!id) return RAFFLE_MODELS[DEFAULT_RAFFLE_MODEL_ID];
+  return RAFFLE_MODELS[id] ?? customModels.find(model => model.id === id) ?? RAFFLE_MODELS[DEFAULT_RAFFLE_MODEL_ID];
+};
+
+/**
+ * Model selected by a configuration's round settings, with the configuration's
+ * own ticket formula and threshold strategy (if it set them) in place of the
+ * model's and its bonus rules (if any) added on top
+ */
+export const resolveRaffleModel = (settings?: {
+  raffleModel?: string;
+  customModels?: RaffleModel[];
+  ticketFormula?: TicketFormula;
+  thresholdStrategy?: RoundThresholdStrategy;
+  bonusRules?: BonusRule[];
+}): RaffleModel => {
+  const model = getRaffleModel(settings?.raffleModel, settings?.customModels);
+  return {
+    ...model,
+    ...(settings?.ticketFormula && { ticketFormula: settings.ticketFormula }),
+    ...(settings?.thresholdStrategy && { thresholdStrategy: settings.thresholdStrategy }),
+    ...(settings?.bonusRules?.length && { bonusRules: settings.bonusRules })
+  };
+};
+
+export const WINNER_REMOVAL_LABELS: Record<WinnerRemoval, string> = {
+  remove: 'Winners leave the pool',
+  keep: 'Winners can win again'
+};
+
+export const ELIMINATION_LABELS: Record<EliminationRule['type'], string> = {
+  none: 'No elimination',
+  players_per_round: 'Random drop-outs (players ÷ rounds)',
+  lowest_points: 'Lowest points drop out (players ÷ rounds)',
+  inverse_weighted: 'Ticket-weighted drop-outs - fewer tickets drop first (players ÷ rounds)',
+  fixed_survivors: 'Fixed survivors per round (lowest points drop out)'
 };
+
+export const THRESHOLD_STRATEGY_LABELS: Record<RoundThresholdStrategy['type'], string> = {
+  none: 'All players every round',
+  equal_buckets: 'Equal-size point brackets',
+  std_dev: 'Bell curve - mean ± standard deviations',
+  percentiles: 'Percentile cutoffs',
+  target_survivors: 'Target survivors per round',
+  manual: 'Manual thresholds'
+};
+
+/**
+ * Models whose pool never shrinks between rounds (no thresholds, no drop-outs)
+ */
+export const isContinuousModel = (model: RaffleModel): boolean => {
+  return model.thresholdStrategy.type === 'none' && model.elimination.type === 'none';
+};
+
+/**
+ * Problems that would make a model unusable - an empty list means it can be saved
+ */
+export const validateRaffleModel = (model: RaffleModel, existing: RaffleModel[] = []): string[] => {
+  const errors: string[] = [];
+
+  if (!model.name.trim()) {
+    errors.push('Name is required');
+  } else if (existing.some(other => other.id !== model.id && other.name.trim().toLowerCase() === model.name.trim().toLowerCase())) {
+    errors.push(`A model named "${model.name.trim()}" already exists`);
+  }
+
+  return [
+    ...errors,
+    ...validateTicketFormula(model.ticketFormula),
+    ...validateEliminationRule(model.elimination),
+    ...validateThresholdStrategy(model.thresholdStrategy)
+  ];
+};
+
+export const createCustomModel = (base: RaffleModel = RAFFLE_MODELS[DEFAULT_RAFFLE_MODEL_ID]): RaffleModel => ({
+  ...base,
+  id: `custom-${Date.now().toString(36)}${Math.random().toString(36).substr(2, 5)}`,
+  name: `${base.name} (custom)`,
+  builtIn: false
+});
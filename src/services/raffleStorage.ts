@@ -0,0 +1,712 @@
+import { RaffleState } from '@/types/raffle';
+import { ServerCollection, ServerWriteOutcome, StorageBackendName, StorageErrorEvent, StorageMode, StorageStatus } from '@/types/storage';
+import type { RaffleConfiguration, RaffleTemplate } from '@/utils/configurationManager';
+import { deleteServerRecord, fetchServerCollection, putServerRecord } from './serverStorage';
+import { StorageSnapshot, UNSAVED_RAFFLE_ID, migrateSnapshot } from './storageMigrations';
+
+/**
+ * Raffle storage
+ *
+ * Configurations and the live raffle state live in IndexedDB, which has room
+ * for large rosters, with localStorage as the fallback where IndexedDB is
+ * unavailable (some private modes, server rendering, tests). Reads stay
+ * synchronous: the IndexedDB backend loads everything into memory when the
+ * app starts (initializeStorage, awaited by StorageGate) and writes reach the
+ * database in the background, one after another. The first IndexedDB start
+ * imports the old `raffle-configurations` and `raffleState` keys once.
+ *
+ * Every configuration keeps its own raffle state, so switching between two
+ * events resumes each where it stopped; a raffle run without a saved
+ * configuration is kept under UNSAVED_RAFFLE_ID. Templates (round settings
+ * and prizes without a roster) are stored next to the configurations.
+ *
+ * Hosts can opt into server storage (setStorageMode), which saves everything
+ * through the /api route handlers to a file on the machine running the app, so
+ * a wiped browser profile loses nothing. The browser keeps its own copy: while
+ * the server is unreachable the app works from it, and the changes made
+ * meanwhile are sent once the server answers again.
+ */
+
+export const LEGACY_CONFIGURATIONS_KEY = 'raffle-configurations';
+export const LEGACY_RAFFLE_STATE_KEY = 'raffleState';
+export const RAFFLE_STATES_KEY = 'raffle-states';
+export const TEMPLATES_KEY = 'raffle-templates';
+const LOCAL_SCHEMA_VERSION_KEY = 'raffle-schema-version';
+const CURRENT_CONFIG_KEY = 'currentConfigId';
+const STORAGE_MODE_KEY = 'raffle-storage-mode';
+const SERVER_REVISIONS_KEY = 'raffle-server-revisions';
+const SERVER_PENDING_KEY = 'raffle-server-pending';
+const PER_CONFIGURATION_STATE_VERSION = 3; // Before this, one raffle state was shared by all configurations
+
+const DB_NAME = 'm365-raffle';
+const DB_VERSION = 2; // Object store layout only (v2 added templates) - data changes go through storageMigrations
+const CONFIGURATIONS_STORE = 'configurations';
+const STATE_STORE = 'state';
+const META_STORE = 'meta';
+const TEMPLATES_STORE = 'templates';
+const LEGACY_RAFFLE_STATE_RECORD = 'raffleState';
+const SCHEMA_VERSION_RECORD = 'schemaVersion';
+const LEGACY_IMPORT_RECORD = 'legacyImportedAt';
+
+type StorageChange =
+  | { type: 'configuration'; configuration: RaffleConfiguration }
+  | { type: 'configuration_deleted'; id: string }
+  | { type: 'raffle_state'; id: string }
+  | { type: 'template'; template: RaffleTemplate }
+  | { type: 'template_deleted'; id: string }
+  | { type: 'all' };
+
+interface StorageBackend {
+  name: StorageBackendName;
+  read: () => StorageSnapshot;
+  write: (snapshot: StorageSnapshot, change: StorageChange) => void;
+}
+
+const errorListeners = new Set<(event: StorageErrorEvent) => void>();
+
+/**
+ * Browsers name a full quota differently (Firefox used its own error name and code)
+ */
+export const isQuotaExceededError = (error: unknown): boolean => {
+  const { name, code } = (error ?? {}) as { name?: string; code?: number };
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED' || code === 22 || code === 1014;
+};
+
+/**
+ * Be told when a save fails - returns the unsubscribe function
+ */
+export const onStorageError = (listener: (event: StorageErrorEvent) => void): (() => void) => {
+  errorListeners.add(listener);
+  return () => {
+    errorListeners.delete(listener);
+  };
+};
+
+const emitStorageEvent = (event: StorageErrorEvent): void => {
+  errorListeners.forEach(listener => listener(event));
+};
+
+const reportStorageError = (error: unknown, backend: StorageBackendName): void => {
+  const event: StorageErrorEvent = isQuotaExceededError(error)
+    ? { kind: 'quota', backend, message: 'Browser storage is full - the latest changes were not saved. Delete old configurations to free space.' }
+    : { kind: 'write_failed', backend, message: `Saving failed: ${error instanceof Error ? error.message : String(error)}` };
+  console.error(`❌ STORAGE: ${event.message}`, error);
+  emitStorageEvent(event);
+};
+
+// ----- localStorage -----
+
+const parseStoredJSON = <T>(key: string, fallback: T): T => {
+  const stored = localStorage.getItem(key);
+  if (!stored) return fallback;
+  try {
+    return JSON.parse(stored) as T;
+  } catch (error) {
+    console.error(`❌ STORAGE: Could not parse ${key}:`, error);
+    return fallback;
+  }
+};
+
+/**
+ * Data as saved in localStorage - version 0 when written before schema versions existed
+ */
+export const readLocalSnapshot = (): StorageSnapshot => {
+  if (typeof localStorage === 'undefined') {
+    return { schemaVersion: 0, configurations: [], raffleStates: {}, templates: [] };
+  }
+  const schemaVersion = Number(localStorage.getItem(LOCAL_SCHEMA_VERSION_KEY)) || 0;
+  return {
+    schemaVersion,
+    configurations: parseStoredJSON<RaffleConfiguration[]>(LEGACY_CONFIGURATIONS_KEY, []),
+    raffleStates: parseStoredJSON<Record<string, RaffleState>>(RAFFLE_STATES_KEY, {}),
+    templates: parseStoredJSON<RaffleTemplate[]>(TEMPLATES_KEY, []),
+    ...(schemaVersion < PER_CONFIGURATION_STATE_VERSION && {
+      raffleState: parseStoredJSON<RaffleState | null>(LEGACY_RAFFLE_STATE_KEY, null),
+      activeConfigurationId: localStorage.getItem(CURRENT_CONFIG_KEY)
+    })
+  };
+};
+
+const writeLocalSnapshot = (snapshot: StorageSnapshot, change: StorageChange): void => {
+  const all = change.type === 'all';
+  if (all || change.type === 'configuration' || change.type === 'configuration_deleted') {
+    localStorage.setItem(LEGACY_CONFIGURATIONS_KEY, JSON.stringify(snapshot.configurations));
+  }
+  if (all || change.type === 'raffle_state' || change.type === 'configuration_deleted') {
+    localStorage.setItem(RAFFLE_STATES_KEY, JSON.stringify(snapshot.raffleStates));
+  }
+  if (all || change.type === 'template' || change.type === 'template_deleted') {
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify(snapshot.templates));
+  }
+  if (all) {
+    localStorage.removeItem(LEGACY_RAFFLE_STATE_KEY);
+  }
+  localStorage.setItem(LOCAL_SCHEMA_VERSION_KEY, String(snapshot.schemaVersion));
+};
+
+const localStorageBackend: StorageBackend = {
+  name: 'localstorage',
+  read: () => {
+    const { snapshot, applied } = migrateSnapshot(readLocalSnapshot());
+    if (applied.length > 0 && typeof localStorage !== 'undefined') {
+      // Save the upgrade straight away so the version key always matches both keys
+      try {
+        writeLocalSnapshot(snapshot, { type: 'all' });
+      } catch (error) {
+        reportStorageError(error, 'localstorage');
+      }
+    }
+    return snapshot;
+  },
+  write: (snapshot, change) => {
+    try {
+      writeLocalSnapshot(snapshot, change);
+    } catch (error) {
+      reportStorageError(error, 'localstorage');
+      throw error;
+    }
+  }
+};
+
+// ----- IndexedDB -----
+
+// Records come back in key order - show configurations and templates in the order they were created
+const byCreation = (a: { createdAt: Date }, b: { createdAt: Date }): number =>
+  (new Date(a.createdAt).getTime() || 0) - (new Date(b.createdAt).getTime() || 0);
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error ?? new Error('Storage transaction aborted'));
+});
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(CONFIGURATIONS_STORE)) db.createObjectStore(CONFIGURATIONS_STORE, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(STATE_STORE)) db.createObjectStore(STATE_STORE);
+    if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+    if (!db.objectStoreNames.contains(TEMPLATES_STORE)) db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+  request.onblocked = () => reject(new Error('Storage is blocked by another tab running an older version of the app'));
+});
+
+/**
+ * Saved data, or null when the database has never been written (the legacy import has not run)
+ */
+const readDatabase = async (db: IDBDatabase): Promise<StorageSnapshot | null> => {
+  const transaction = db.transaction([CONFIGURATIONS_STORE, STATE_STORE, META_STORE, TEMPLATES_STORE], 'readonly');
+  const states = transaction.objectStore(STATE_STORE);
+  const [configurations, stateKeys, stateRecords, templates, schemaVersion] = await Promise.all([
+    requestToPromise(transaction.objectStore(CONFIGURATIONS_STORE).getAll() as IDBRequest<RaffleConfiguration[]>),
+    requestToPromise(states.getAllKeys()),
+    requestToPromise(states.getAll() as IDBRequest<RaffleState[]>),
+    requestToPromise(transaction.objectStore(TEMPLATES_STORE).getAll() as IDBRequest<RaffleTemplate[]>),
+    requestToPromise(transaction.objectStore(META_STORE).get(SCHEMA_VERSION_RECORD) as IDBRequest<number | undefined>)
+  ]);
+  if (schemaVersion === undefined) return null;
+
+  // Keys and values of one store come back in the same order
+  const raffleStates: Record<string, RaffleState> = {};
+  stateKeys.forEach((key, index) => {
+    raffleStates[String(key)] = stateRecords[index];
+  });
+
+  const snapshot: StorageSnapshot = {
+    schemaVersion,
+    configurations: configurations.sort(byCreation),
+    raffleStates,
+    templates: templates.sort(byCreation)
+  };
+  if (schemaVersion < PER_CONFIGURATION_STATE_VERSION) {
+    const { [LEGACY_RAFFLE_STATE_RECORD]: raffleState, ...others } = raffleStates;
+    return {
+      ...snapshot,
+      raffleStates: others,
+      raffleState: raffleState ?? null,
+      activeConfigurationId: localStorage.getItem(CURRENT_CONFIG_KEY)
+    };
+  }
+  return snapshot;
+};
+
+const writeDatabase = async (db: IDBDatabase, snapshot: StorageSnapshot, change: StorageChange): Promise<void> => {
+  const transaction = db.transaction([CONFIGURATIONS_STORE, STATE_STORE, META_STORE, TEMPLATES_STORE], 'readwrite');
+  const configurations = transaction.objectStore(CONFIGURATIONS_STORE);
+  const state = transaction.objectStore(STATE_STORE);
+  const templates = transaction.objectStore(TEMPLATES_STORE);
+
+  if (change.type === 'configuration') {
+    configurations.put(change.configuration);
+  } else if (change.type === 'configuration_deleted') {
+    configurations.delete(change.id);
+    state.delete(change.id);
+  } else if (change.type === 'raffle_state') {
+    const raffleState = snapshot.raffleStates[change.id];
+    if (raffleState) {
+      state.put(raffleState, change.id);
+    } else {
+      state.delete(change.id);
+    }
+  } else if (change.type === 'template') {
+    templates.put(change.template);
+  } else if (change.type === 'template_deleted') {
+    templates.delete(change.id);
+  } else {
+    configurations.clear();
+    snapshot.configurations.forEach(config => configurations.put(config));
+    state.clear();
+    Object.entries(snapshot.raffleStates).forEach(([id, raffleState]) => state.put(raffleState, id));
+    templates.clear();
+    snapshot.templates.forEach(template => templates.put(template));
+  }
+
+  if (change.type === 'all') {
+    transaction.objectStore(META_STORE).put(snapshot.schemaVersion, SCHEMA_VERSION_RECORD);
+  }
+  await transactionDone(transaction);
+};
+
+let writeQueue: Promise<void> = Promise.resolve();
+
+const createIndexedDBBackend = (db: IDBDatabase, initial: StorageSnapshot): StorageBackend => {
+  let current = initial;
+  return {
+    name: 'indexeddb',
+    read: () => current,
+    write: (snapshot, change) => {
+      current = snapshot;
+      writeQueue = writeQueue
+        .then(() => writeDatabase(db, snapshot, change))
+        .catch(error => reportStorageError(error, 'indexeddb'));
+    }
+  };
+};
+
+// ----- Server -----
+
+interface ServerRecordKey {
+  collection: ServerCollection;
+  id: string;
+}
+
+interface ServerSync {
+  revisions: Record<ServerCollection, Record<string, number>>; // Last revision seen of every server record
+  pending: ServerRecordKey[]; // Changed while the server was unreachable, not sent yet
+  offline: boolean;
+}
+
+const OFFLINE_MESSAGE = 'The raffle server cannot be reached - changes are kept in this browser and sent when it is back.';
+
+const RECORD_LABELS: Record<ServerCollection, string> = {
+  configurations: 'A configuration',
+  raffleStates: 'The raffle progress',
+  templates: 'A template'
+};
+
+const readServerSync = (): ServerSync => ({
+  revisions: { configurations: {}, raffleStates: {}, templates: {}, ...parseStoredJSON(SERVER_REVISIONS_KEY, {}) },
+  pending: parseStoredJSON<ServerRecordKey[]>(SERVER_PENDING_KEY, []),
+  offline: false
+});
+
+const writeServerSync = (sync: ServerSync): void => {
+  localStorage.setItem(SERVER_REVISIONS_KEY, JSON.stringify(sync.revisions));
+  localStorage.setItem(SERVER_PENDING_KEY, JSON.stringify(sync.pending));
+};
+
+// Data of one record - undefined when it does not exist, so the server copy is deleted
+const getSnapshotRecord = (snapshot: StorageSnapshot, { collection, id }: ServerRecordKey): unknown => {
+  if (collection === 'configurations') return snapshot.configurations.find(config => config.id === id);
+  if (collection === 'templates') return snapshot.templates.find(template => template.id === id);
+  return snapshot.raffleStates[id];
+};
+
+const setSnapshotRecord = (snapshot: StorageSnapshot, { collection, id }: ServerRecordKey, data: unknown): StorageSnapshot => {
+  if (collection === 'raffleStates') {
+    const raffleStates = { ...snapshot.raffleStates };
+    if (data === undefined) {
+      delete raffleStates[id];
+    } else {
+      raffleStates[id] = data as RaffleState;
+    }
+    return { ...snapshot, raffleStates };
+  }
+
+  const replace = <T extends { id: string }>(records: T[]): T[] => {
+    if (data === undefined) return records.filter(record => record.id !== id);
+    return records.some(record => record.id === id)
+      ? records.map(record => (record.id === id ? data as T : record))
+      : [...records, data as T];
+  };
+  return collection === 'configurations'
+    ? { ...snapshot, configurations: replace(snapshot.configurations) }
+    : { ...snapshot, templates: replace(snapshot.templates) };
+};
+
+const listSnapshotRecords = (snapshot: StorageSnapshot): ServerRecordKey[] => [
+  ...snapshot.configurations.map((config): ServerRecordKey => ({ collection: 'configurations', id: config.id })),
+  ...Object.keys(snapshot.raffleStates).map((id): ServerRecordKey => ({ collection: 'raffleStates', id })),
+  ...snapshot.templates.map((template): ServerRecordKey => ({ collection: 'templates', id: template.id }))
+];
+
+// Server records a change touches - a deleted configuration takes its raffle state with it
+const getServerChanges = (snapshot: StorageSnapshot, change: StorageChange): ServerRecordKey[] => {
+  switch (change.type) {
+    case 'configuration':
+      return [{ collection: 'configurations', id: change.configuration.id }];
+    case 'configuration_deleted':
+      return [{ collection: 'configurations', id: change.id }, { collection: 'raffleStates', id: change.id }];
+    case 'raffle_state':
+      return [{ collection: 'raffleStates', id: change.id }];
+    case 'template':
+      return [{ collection: 'templates', id: change.template.id }];
+    case 'template_deleted':
+      return [{ collection: 'templates', id: change.id }];
+    default:
+      return listSnapshotRecords(snapshot);
+  }
+};
+
+const pushServerChange = async (sync: ServerSync, snapshot: StorageSnapshot, key: ServerRecordKey): Promise<ServerWriteOutcome> => {
+  const data = getSnapshotRecord(snapshot, key);
+  const baseRevision = sync.revisions[key.collection][key.id] ?? 0;
+  const outcome = data === undefined
+    ? await deleteServerRecord(key.collection, key.id, baseRevision)
+    : await putServerRecord(key.collection, key.id, data, baseRevision, snapshot.schemaVersion);
+
+  if (outcome.status === 'saved') {
+    if (outcome.record) {
+      sync.revisions[key.collection][key.id] = outcome.record.revision;
+    } else {
+      delete sync.revisions[key.collection][key.id];
+    }
+  } else if (outcome.status === 'conflict') {
+    const message = `${RECORD_LABELS[key.collection]} was changed in another browser, so this change was not saved to the server. Reload to get the latest version.`;
+    console.warn(`⚠️ STORAGE: Conflict saving ${key.collection}/${key.id} at revision ${baseRevision}`, outcome.current);
+    emitStorageEvent({ kind: 'conflict', backend: 'server', message });
+  } else if (outcome.status === 'failed') {
+    reportStorageError(new Error(outcome.message), 'server');
+  }
+  return outcome;
+};
+
+/**
+ * Send changes to the server after any still waiting from an offline spell.
+ * Stops at the first request that cannot reach the server and keeps the rest for later.
+ */
+const syncWithServer = async (sync: ServerSync, snapshot: StorageSnapshot, changes: ServerRecordKey[]): Promise<void> => {
+  const queue = [...sync.pending, ...changes].filter((key, index, all) =>
+    all.findIndex(other => other.collection === key.collection && other.id === key.id) === index
+  );
+
+  let waiting: ServerRecordKey[] = [];
+  for (let index = 0; index < queue.length; index++) {
+    const outcome = await pushServerChange(sync, snapshot, queue[index]);
+    if (outcome.status === 'offline') {
+      if (!sync.offline) emitStorageEvent({ kind: 'offline', backend: 'server', message: OFFLINE_MESSAGE });
+      sync.offline = true;
+      waiting = queue.slice(index);
+      break;
+    }
+    if (sync.offline) {
+      console.log('✅ STORAGE: The raffle server is reachable again');
+      sync.offline = false;
+    }
+  }
+
+  sync.pending = waiting;
+  writeServerSync(sync);
+};
+
+/**
+ * Everything saved on the server - schema version 0 when nothing has been saved there yet
+ *
+ * @throws When the server cannot be reached
+ */
+const fetchServerSnapshot = async (sync: ServerSync): Promise<StorageSnapshot> => {
+  const [configurations, raffleStates, templates] = await Promise.all([
+    fetchServerCollection<RaffleConfiguration>('configurations'),
+    fetchServerCollection<RaffleState>('raffleStates'),
+    fetchServerCollection<RaffleTemplate>('templates')
+  ]);
+  const schemaVersion = Math.max(configurations.schemaVersion, raffleStates.schemaVersion, templates.schemaVersion);
+
+  // Offline changes keep the revision they were based on, so a record saved elsewhere meanwhile is a conflict
+  const previous = sync.revisions;
+  sync.revisions = {
+    configurations: Object.fromEntries(configurations.records.map(record => [record.id, record.revision])),
+    raffleStates: Object.fromEntries(raffleStates.records.map(record => [record.id, record.revision])),
+    templates: Object.fromEntries(templates.records.map(record => [record.id, record.revision]))
+  };
+  sync.pending.forEach(({ collection, id }) => {
+    if (previous[collection][id] === undefined) {
+      delete sync.revisions[collection][id];
+    } else {
+      sync.revisions[collection][id] = previous[collection][id];
+    }
+  });
+
+  return {
+    schemaVersion,
+    configurations: configurations.records.map(record => record.data).sort(byCreation),
+    raffleStates: Object.fromEntries(raffleStates.records.map(record => [record.id, record.data])),
+    templates: templates.records.map(record => record.data).sort(byCreation)
+  };
+};
+
+const createServerBackend = (local: StorageBackend, initial: StorageSnapshot, sync: ServerSync): StorageBackend => {
+  let current = initial;
+  return {
+    name: 'server',
+    read: () => current,
+    write: (snapshot, change) => {
+      current = snapshot;
+      try {
+        local.write(snapshot, change);
+      } catch (error) {
+        // Already reported by the browser backend - the server still gets the change
+        console.warn('⚠️ STORAGE: Could not update the browser copy:', error);
+      }
+      writeQueue = writeQueue
+        .then(() => syncWithServer(sync, snapshot, getServerChanges(snapshot, change)))
+        .catch(error => reportStorageError(error, 'server'));
+    }
+  };
+};
+
+/**
+ * Where this browser keeps its raffles - takes effect on the next page load
+ */
+export const getStorageMode = (): StorageMode =>
+  typeof localStorage !== 'undefined' && localStorage.getItem(STORAGE_MODE_KEY) === 'server' ? 'server' : 'browser';
+
+export const setStorageMode = (mode: StorageMode): void => {
+  if (mode === 'server') {
+    localStorage.setItem(STORAGE_MODE_KEY, mode);
+  } else {
+    localStorage.removeItem(STORAGE_MODE_KEY);
+  }
+};
+
+// ----- Startup -----
+
+let activeBackend: StorageBackend | null = null;
+let initialization: Promise<StorageStatus> | null = null;
+
+const getBackend = (): StorageBackend => activeBackend ?? localStorageBackend;
+
+const fallBackToLocalStorage = (): StorageStatus => {
+  const { schemaVersion } = localStorageBackend.read();
+  return { backend: 'localstorage', schemaVersion, importedLegacyData: false, migrationsApplied: [] };
+};
+
+const openIndexedDBStorage = async (): Promise<StorageStatus> => {
+  if (typeof indexedDB === 'undefined') {
+    console.log('💾 STORAGE: IndexedDB is not available - using localStorage');
+    return fallBackToLocalStorage();
+  }
+
+  let db: IDBDatabase;
+  let stored: StorageSnapshot | null;
+  try {
+    db = await openDatabase();
+    stored = await readDatabase(db);
+  } catch (error) {
+    console.warn('⚠️ STORAGE: Could not open IndexedDB - using localStorage:', error);
+    return fallBackToLocalStorage();
+  }
+
+  // First start on IndexedDB - bring over whatever localStorage holds
+  const importing = stored === null;
+  const { snapshot, applied } = migrateSnapshot(stored ?? readLocalSnapshot());
+
+  if (importing || applied.length > 0) {
+    try {
+      await writeDatabase(db, snapshot, { type: 'all' });
+    } catch (error) {
+      // The legacy keys are untouched, so keep using them until IndexedDB has room
+      reportStorageError(error, 'indexeddb');
+      return fallBackToLocalStorage();
+    }
+  }
+  applied.forEach(migration => console.log(`💾 STORAGE: Migrated saved data to schema v${migration.version} - ${migration.description}`));
+
+  const importedStates = Object.keys(snapshot.raffleStates).length;
+  const importedLegacyData = importing && (snapshot.configurations.length > 0 || importedStates > 0);
+  if (importing) {
+    const meta = db.transaction(META_STORE, 'readwrite');
+    meta.objectStore(META_STORE).put(new Date().toISOString(), LEGACY_IMPORT_RECORD);
+    await transactionDone(meta).catch(error => console.warn('⚠️ STORAGE: Could not record the localStorage import:', error));
+
+    // Free the localStorage quota - the data now lives in IndexedDB
+    [LEGACY_CONFIGURATIONS_KEY, LEGACY_RAFFLE_STATE_KEY, RAFFLE_STATES_KEY, TEMPLATES_KEY, LOCAL_SCHEMA_VERSION_KEY].forEach(key => localStorage.removeItem(key));
+    if (importedLegacyData) {
+      console.log(`💾 STORAGE: Imported ${snapshot.configurations.length} configurations and ${importedStates} raffle states from localStorage`);
+    }
+  }
+
+  activeBackend = createIndexedDBBackend(db, snapshot);
+  console.log(`✅ STORAGE: Using IndexedDB (schema v${snapshot.schemaVersion})`);
+  return {
+    backend: 'indexeddb',
+    schemaVersion: snapshot.schemaVersion,
+    importedLegacyData,
+    migrationsApplied: applied.map(migration => migration.version)
+  };
+};
+
+/**
+ * Server storage on top of the browser's own storage, which keeps a copy for when the server is unreachable
+ */
+const openServerStorage = async (): Promise<StorageStatus> => {
+  const browserStatus = await openIndexedDBStorage();
+  const local = getBackend();
+  const sync = readServerSync();
+  const firstStart = localStorage.getItem(SERVER_REVISIONS_KEY) === null;
+
+  let remote: StorageSnapshot;
+  try {
+    remote = await fetchServerSnapshot(sync);
+  } catch (error) {
+    console.warn('⚠️ STORAGE: The raffle server cannot be reached - working from the browser copy:', error);
+    sync.offline = true;
+    activeBackend = createServerBackend(local, local.read(), sync);
+    emitStorageEvent({ kind: 'offline', backend: 'server', message: OFFLINE_MESSAGE });
+    return { ...browserStatus, backend: 'server', offline: true };
+  }
+
+  // The first time this browser uses the server - or when the server's data file is new - it adds
+  // everything the server does not have yet. Changes made offline replace the server copy, unless it was saved elsewhere meanwhile (reported as a conflict).
+  const { snapshot: migrated, applied: migrations } = migrateSnapshot(remote);
+  const applied = remote.schemaVersion > 0 ? migrations : []; // An empty server has nothing to migrate
+  const browserCopy = local.read();
+  const uploads = firstStart || remote.schemaVersion === 0
+    ? listSnapshotRecords(browserCopy).filter(key => getSnapshotRecord(migrated, key) === undefined)
+    : [];
+  const snapshot = [...sync.pending, ...uploads].reduce(
+    (current, key) => setSnapshotRecord(current, key, getSnapshotRecord(browserCopy, key)),
+    migrated
+  );
+  try {
+    local.write(snapshot, { type: 'all' });
+  } catch (error) {
+    console.warn('⚠️ STORAGE: Could not update the browser copy:', error);
+  }
+
+  activeBackend = createServerBackend(local, snapshot, sync);
+  await syncWithServer(sync, snapshot, applied.length > 0 ? listSnapshotRecords(snapshot) : uploads);
+  if (uploads.length > 0) {
+    console.log(`💾 STORAGE: Uploaded ${uploads.length} configurations, raffle states and templates from this browser to the raffle server`);
+  }
+  applied.forEach(migration => console.log(`💾 STORAGE: Migrated server data to schema v${migration.version} - ${migration.description}`));
+  console.log(`✅ STORAGE: Using the raffle server (schema v${snapshot.schemaVersion})`);
+  return {
+    backend: 'server',
+    schemaVersion: snapshot.schemaVersion,
+    importedLegacyData: browserStatus.importedLegacyData,
+    migrationsApplied: applied.map(migration => migration.version)
+  };
+};
+
+/**
+ * Open storage once per page load - later calls share the first result.
+ * Until it resolves (or where it never runs) reads and writes use localStorage.
+ *
+ * @throws When saved data comes from a newer version of the app
+ */
+export const initializeStorage = (): Promise<StorageStatus> => {
+  if (!initialization) {
+    initialization = getStorageMode() === 'server' ? openServerStorage() : openIndexedDBStorage();
+  }
+  return initialization;
+};
+
+/**
+ * Resolves once every queued IndexedDB or server write has finished
+ */
+export const flushStorage = (): Promise<void> => writeQueue;
+
+// ----- Data -----
+
+export const loadStoredConfigurations = (): RaffleConfiguration[] => getBackend().read().configurations;
+
+export const saveStoredConfiguration = (configuration: RaffleConfiguration): void => {
+  const backend = getBackend();
+  const snapshot = backend.read();
+  const exists = snapshot.configurations.some(config => config.id === configuration.id);
+  const configurations = exists
+    ? snapshot.configurations.map(config => (config.id === configuration.id ? configuration : config))
+    : [...snapshot.configurations, configuration];
+  backend.write({ ...snapshot, configurations }, { type: 'configuration', configuration });
+};
+
+export const deleteStoredConfiguration = (id: string): void => {
+  const backend = getBackend();
+  const snapshot = backend.read();
+  const raffleStates = { ...snapshot.raffleStates };
+  delete raffleStates[id];
+  backend.write(
+    { ...snapshot, configurations: snapshot.configurations.filter(config => config.id !== id), raffleStates },
+    { type: 'configuration_deleted', id }
+  );
+};
+
+/**
+ * Raffle state saved for a configuration, or for the unsaved session when configurationId is null
+ */
+export const loadStoredRaffleState = (configurationId: string | null): RaffleState | null =>
+  getBackend().read().raffleStates[configurationId ?? UNSAVED_RAFFLE_ID] ?? null;
+
+/**
+ * Save (or with null, clear) the raffle state of a configuration or the unsaved session.
+ * States for configurations that no longer exist are dropped, so a late save cannot bring one back.
+ */
+export const saveStoredRaffleState = (configurationId: string | null, raffleState: RaffleState | null): void => {
+  const backend = getBackend();
+  const snapshot = backend.read();
+  if (configurationId !== null && !snapshot.configurations.some(config => config.id === configurationId)) {
+    console.warn(`⚠️ STORAGE: Not saving raffle state for deleted configuration ${configurationId}`);
+    return;
+  }
+
+  const id = configurationId ?? UNSAVED_RAFFLE_ID;
+  const raffleStates = { ...snapshot.raffleStates };
+  if (raffleState) {
+    raffleStates[id] = raffleState;
+  } else {
+    delete raffleStates[id];
+  }
+  backend.write({ ...snapshot, raffleStates }, { type: 'raffle_state', id });
+};
+
+export const clearStoredRaffleState = (configurationId: string | null): void => saveStoredRaffleState(configurationId, null);
+
+export const loadStoredTemplates = (): RaffleTemplate[] => getBackend().read().templates;
+
+export const saveStoredTemplate = (template: RaffleTemplate): void => {
+  const backend = getBackend();
+  const snapshot = backend.read();
+  const exists = snapshot.templates.some(saved => saved.id === template.id);
+  const templates = exists
+    ? snapshot.templates.map(saved => (saved.id === template.id ? template : saved))
+    : [...snapshot.templates, template];
+  backend.write({ ...snapshot, templates }, { type: 'template', template });
+};
+
+export const deleteStoredTemplate = (id: string): void => {
+  const backend = getBackend();
+  const snapshot = backend.read();
+  backend.write(
+    { ...snapshot, templates: snapshot.templates.filter(template => template.id !== id) },
+    { type: 'template_deleted', id }
+  );
+};
@@ -0,0 +1,107 @@
+import { TeamData } from '@/types/raffle';
+import { RosterChange, RosterDiff, RosterDiffContext, RosterField } from '@/types/roster';
+
+/**
+ * Roster merge
+ *
+ * Compares the running roster with a fresh export (late submissions, corrected
+ * points) so the operator can review every difference before it is applied.
+ * Teams are matched by `Team` name, exactly as the original upload keyed them.
+ */
+
+const ROSTER_FIELDS: RosterField[] = ['Points', 'Submissions', 'Last Submission'];
+
+const changeId = (type: RosterChange['type'], team: string): string => `${type}:${team}`;
+
+const statusConflict = (team: string, context: RosterDiffContext): string | undefined => {
+  if (context.winners.includes(team)) return 'Already won a prize';
+  if (context.pendingWinners.includes(team)) return 'Drawn and waiting for confirmation';
+  if (context.withdrawnPlayers.includes(team)) return 'Withdrawn after being drawn';
+  return undefined;
+};
+
+export const diffRoster = (
+  current: TeamData[],
+  incoming: TeamData[],
+  context: RosterDiffContext
+): RosterDiff => {
+  const currentByName = new Map(current.map(team => [team.Team, team]));
+  const incomingByName = new Map(incoming.map(team => [team.Team, team]));
+  const changes: RosterChange[] = [];
+  let unchangedCount = 0;
+
+  incoming.forEach(after => {
+    const before = currentByName.get(after.Team);
+    if (!before) {
+      changes.push({ id: changeId('added', after.Team), type: 'added', team: after.Team, after });
+      return;
+    }
+
+    const fields = ROSTER_FIELDS.filter(field => before[field] !== after[field]);
+    if (fields.length === 0) {
+      unchangedCount++;
+      return;
+    }
+    const conflict = statusConflict(after.Team, context)
+      ?? (fields.includes('Points') && after.Points === 0 ? 'Drops to 0 points and will be withdrawn' : undefined);
+    changes.push({ id: changeId('updated', after.Team), type: 'updated', team: after.Team, before, after, fields, conflict });
+  });
+
+  current.forEach(before => {
+    if (incomingByName.has(before.Team)) return;
+    changes.push({
+      id: changeId('removed', before.Team),
+      type: 'removed',
+      team: before.Team,
+      before,
+      conflict: statusConflict(before.Team, context)
+    });
+  });
+
+  return { changes, unchangedCount };
+};
+
+// 0 points means no tickets - same rule loadTeamData applies on upload
+const statusForPoints = (team: TeamData, points: number): TeamData['status'] => {
+  if (points === 0 && (team.status === undefined || team.status === 'eligible')) return 'withdrawn';
+  if (points > 0 && team.status === 'withdrawn') return 'eligible';
+  return team.status;
+};
+
+/**
+ * Apply accepted changes and re-rank player numbers by points.
+ * Winner / withdrawn statuses of existing teams are never reset.
+ */
+export const applyRosterChanges = (teams: TeamData[], changes: RosterChange[]): TeamData[] => {
+  const removed = new Set(changes.filter(change => change.type === 'removed').map(change => change.team));
+  const updated = new Map(
+    changes
+      .filter(change => change.type === 'updated' && change.after)
+      .map(change => [change.team, change.after as TeamData])
+  );
+
+  const merged = teams
+    .filter(team => !removed.has(team.Team))
+    .map(team => {
+      const after = updated.get(team.Team);
+      if (!after) return team;
+      return {
+        ...team,
+        Points: after.Points,
+        Submissions: after.Submissions,
+        'Last Submission': after['Last Submission'],
+        status: statusForPoints(team, after.Points)
+      };
+    });
+
+  changes
+    .filter(change => change.type === 'added' && change.after)
+    .forEach(change => {
+      const team = change.after as TeamData;
+      merged.push({ ...team, status: team.Points === 0 ? 'withdrawn' : 'eligible' });
+    });
+
+  return merged
+    .sort((a, b) => b.Points - a.Points)
+    .map((team, index) => ({ ...team, playerNumber: index + 1 }));
+};
@@ -0,0 +1,155 @@
+import { RoundThresholdStrategy } from '@/types/raffleModels';
+
+/**
+ * Round thresholds
+ *
+ * Turns a threshold strategy and the roster's points into one minimum-points
+ * cutoff per round. ConfigurationManager builds rounds from these cutoffs and
+ * the configuration screen uses them to compare strategies before one is
+ * applied. Round 1 is always open to everyone (cutoff 0).
+ */
+
+/**
+ * Starting values when the operator picks a strategy, spread evenly over the
+ * rounds after the first
+ */
+export const createThresholdStrategy = (
+  type: RoundThresholdStrategy['type'],
+  numberOfRounds: number = 5,
+  playerCount: number = 100
+): RoundThresholdStrategy => {
+  const cutoffRounds = Math.max(1, numberOfRounds - 1);
+  const steps = Array.from({ length: cutoffRounds }, (_, i) => (i + 1) / numberOfRounds);
+
+  switch (type) {
+    case 'std_dev':
+      return { type, firstCutoff: -1, step: 0.5 };
+    case 'percentiles':
+      return { type, percentiles: steps.map(step => Math.round(step * 100)) };
+    case 'target_survivors':
+      return { type, survivors: steps.map(step => Math.max(1, Math.round(playerCount * (1 - step)))) };
+    case 'manual':
+      return { type, thresholds: steps.map(step => Math.round(step * 1000)) };
+    default:
+      return { type };
+  }
+};
+
+// List entry for a round (2 = first cutoff); rounds past the end reuse the last entry
+const listValue = (values: number[], roundIndex: number): number | undefined => {
+  if (values.length === 0) return undefined;
+  return values[Math.min(roundIndex - 1, values.length - 1)];
+};
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const standardDeviation = (values: number[]) => {
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / values.length);
+};
+
+/**
+ * Minimum points for each round, in round order
+ *
+ * @param strategy Threshold strategy to apply
+ * @param points Every player's points (any order)
+ * @param numberOfRounds Rounds to generate
+ */
+export const getRoundThresholds = (strategy: RoundThresholdStrategy, points: number[], numberOfRounds: number): number[] => {
+  const sorted = [...points].sort((a, b) => a - b);
+  const highest = sorted.length > 0 ? sorted[sorted.length - 1] : 0;
+
+  const cutoff = (roundIndex: number): number => {
+    if (sorted.length === 0) return 0;
+
+    switch (strategy.type) {
+      case 'equal_buckets': {
+        const playersPerRound = Math.ceil(sorted.length / numberOfRounds);
+        return sorted[Math.min(roundIndex * playersPerRound, sorted.length - 1)];
+      }
+      case 'std_dev': {
+        const zScore = strategy.firstCutoff + strategy.step * (roundIndex - 1);
+        return Math.ceil(mean(sorted) + zScore * standardDeviation(sorted));
+      }
+      case 'percentiles': {
+        const percentile = listValue(strategy.percentiles, roundIndex) ?? 0;
+        return sorted[Math.min(Math.floor((percentile / 100) * sorted.length), sorted.length - 1)];
+      }
+      case 'target_survivors': {
+        const survivors = listValue(strategy.survivors, roundIndex) ?? sorted.length;
+        return sorted[Math.max(0, sorted.length - survivors)];
+      }
+      case 'manual':
+        return listValue(strategy.thresholds, roundIndex) ?? 0;
+      default:
+        return 0;
+    }
+  };
+
+  // A calculated cutoff above the top score would leave a round with nobody to
+  // draw; manual thresholds are used exactly as entered
+  return Array.from({ length: numberOfRounds }, (_, roundIndex) => {
+    if (roundIndex === 0) return 0;
+    const threshold = Math.max(0, cutoff(roundIndex));
+    return strategy.type === 'manual' ? threshold : Math.min(highest, threshold);
+  });
+};
+
+/**
+ * Players still in each round under the given cutoffs
+ */
+export const countSurvivors = (points: number[], thresholds: number[]): number[] => {
+  return thresholds.map(threshold => points.filter(value => value >= threshold).length);
+};
+
+export const describeThresholdStrategy = (strategy: RoundThresholdStrategy): string => {
+  const signed = (value: number) => `${value >= 0 ? '+' : '−'}${Math.abs(value)}σ`;
+
+  switch (strategy.type) {
+    case 'equal_buckets':
+      return 'Equal-size point brackets';
+    case 'std_dev':
+      return `Mean ${signed(strategy.firstCutoff)}, then ${signed(strategy.step)} per round`;
+    case 'percentiles':
+      return `Percentiles ${strategy.percentiles.join(', ')}`;
+    case 'target_survivors':
+      return `Survivors ${strategy.survivors.join(' → ')}`;
+    case 'manual':
+      return `Thresholds ${strategy.thresholds.join(', ')} points`;
+    default:
+      return 'All players every round';
+  }
+};
+
+/**
+ * Problems that would make a strategy unusable - an empty list means it is valid
+ */
+export const validateThresholdStrategy = (strategy: RoundThresholdStrategy): string[] => {
+  const errors: string[] = [];
+
+  if (strategy.type === 'std_dev') {
+    if (!Number.isFinite(strategy.firstCutoff) || !Number.isFinite(strategy.step)) {
+      errors.push('Standard deviation cutoffs must be numbers');
+    }
+  } else if (strategy.type === 'percentiles') {
+    if (strategy.percentiles.length === 0) {
+      errors.push('Add at least one percentile');
+    } else if (strategy.percentiles.some(value => !Number.isFinite(value) || value < 0 || value > 100)) {
+      errors.push('Percentiles must be between 0 and 100');
+    }
+  } else if (strategy.type === 'target_survivors') {
+    if (strategy.survivors.length === 0) {
+      errors.push('Add at least one survivor count');
+    } else if (strategy.survivors.some(value => !Number.isInteger(value) || value < 1)) {
+      errors.push('Survivor counts must be whole numbers of 1 or more');
+    }
+  } else if (strategy.type === 'manual') {
+    if (strategy.thresholds.length === 0) {
+      errors.push('Add at least one threshold');
+    } else if (strategy.thresholds.some(value => !Number.isFinite(value) || value < 0)) {
+      errors.push('Thresholds cannot be negative');
+    }
+  }
+
+  return errors;
+};
@@ -0,0 +1,62 @@
+import { ServerCollection, ServerCollectionResponse, ServerRecord, ServerSaveRequest, ServerWriteOutcome } from '@/types/storage';
+
+/**
+ * Browser side of server storage - requests to the route handlers in
+ * src/app/api. Saves never throw: an unreachable server comes back as
+ * 'offline' so the change can wait in the browser and be sent later.
+ */
+
+export const SERVER_ENDPOINTS: Record<ServerCollection, string> = {
+  configurations: '/api/configurations',
+  raffleStates: '/api/raffle-state',
+  templates: '/api/templates'
+};
+
+/**
+ * Every record of a collection
+ *
+ * @throws When the server cannot be reached or answers with an error
+ */
+export const fetchServerCollection = async <T>(collection: ServerCollection): Promise<ServerCollectionResponse<T>> => {
+  const response = await fetch(SERVER_ENDPOINTS[collection], { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Loading ${collection} from the server failed (${response.status})`);
+  }
+  return response.json() as Promise<ServerCollectionResponse<T>>;
+};
+
+const sendServerWrite = async (url: string, init: RequestInit): Promise<ServerWriteOutcome> => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    // fetch only rejects when no response arrived at all
+    console.warn('⚠️ SERVER STORAGE: Server unreachable:', error);
+    return { status: 'offline' };
+  }
+
+  const body = await response.json().catch(() => ({})) as { record?: ServerRecord | null; current?: ServerRecord | null; error?: string };
+  if (response.status === 409) return { status: 'conflict', current: body.current ?? null };
+  if (!response.ok) return { status: 'failed', message: body.error || `Server answered ${response.status}` };
+  return { status: 'saved', record: body.record ?? null };
+};
+
+export const putServerRecord = (
+  collection: ServerCollection,
+  id: string,
+  data: unknown,
+  baseRevision: number,
+  schemaVersion: number
+): Promise<ServerWriteOutcome> => {
+  const request: ServerSaveRequest = { id, baseRevision, schemaVersion, data };
+  return sendServerWrite(SERVER_ENDPOINTS[collection], {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request)
+  });
+};
+
+export const deleteServerRecord = (collection: ServerCollection, id: string, baseRevision: number): Promise<ServerWriteOutcome> => {
+  const query = new URLSearchParams({ id, baseRevision: String(baseRevision) });
+  return sendServerWrite(`${SERVER_ENDPOINTS[collection]}?${query}`, { method: 'DELETE' });
+};
@@ -0,0 +1,119 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { ServerCollection, ServerCollectionResponse, ServerRecord, ServerWriteOutcome } from '@/types/storage';
+
+/**
+ * Server raffle store
+ *
+ * Backs the storage route handlers when a browser opts into server storage, so
+ * an event's history survives a wiped browser profile. Everything is kept in
+ * one JSON file under RAFFLE_DATA_DIR (default `.raffle-data` in the folder the
+ * app runs from), which is easy to back up or copy to another machine.
+ *
+ * Saves use optimistic concurrency: the browser sends the revision it last
+ * saw, and a save or delete is refused with the current record when another
+ * browser changed it since.
+ */
+
+interface ServerStoreFile {
+  schemaVersion: number;
+  collections: Record<ServerCollection, Record<string, ServerRecord>>;
+}
+
+export const getServerDataFile = (): string =>
+  join(resolve(process.env.RAFFLE_DATA_DIR || '.raffle-data'), 'raffle-data.json');
+
+// Records are keyed by browser-chosen ids, so collections have no prototype an id like "__proto__" could reach
+const recordMap = (records: Record<string, ServerRecord> = {}): Record<string, ServerRecord> =>
+  Object.assign(Object.create(null) as Record<string, ServerRecord>, records);
+
+const emptyStore = (): ServerStoreFile => ({
+  schemaVersion: 0,
+  collections: { configurations: recordMap(), raffleStates: recordMap(), templates: recordMap() }
+});
+
+const readStore = async (): Promise<ServerStoreFile> => {
+  let text: string;
+  try {
+    text = await readFile(getServerDataFile(), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return emptyStore();
+    throw error;
+  }
+  const stored = JSON.parse(text) as ServerStoreFile;
+  return {
+    schemaVersion: stored.schemaVersion,
+    collections: {
+      configurations: recordMap(stored.collections?.configurations),
+      raffleStates: recordMap(stored.collections?.raffleStates),
+      templates: recordMap(stored.collections?.templates)
+    }
+  };
+};
+
+// Write a temporary file and rename it, so a crash mid-save never leaves half a file
+const writeStore = async (store: ServerStoreFile): Promise<void> => {
+  const file = getServerDataFile();
+  await mkdir(dirname(file), { recursive: true });
+  const temporary = `${file}.${process.pid}.tmp`;
+  await writeFile(temporary, JSON.stringify(store, null, 2));
+  await rename(temporary, file);
+};
+
+// Changes run one at a time, so two saves can never both pass the revision check
+let updates: Promise<unknown> = Promise.resolve();
+
+const updateStore = <T>(change: (store: ServerStoreFile) => { outcome: T; changed: boolean }): Promise<T> => {
+  const next = updates.then(async () => {
+    const store = await readStore();
+    const { outcome, changed } = change(store);
+    if (changed) await writeStore(store);
+    return outcome;
+  });
+  updates = next.catch(() => undefined);
+  return next;
+};
+
+export const readServerCollection = async (collection: ServerCollection): Promise<ServerCollectionResponse> => {
+  const store = await readStore();
+  return { schemaVersion: store.schemaVersion, records: Object.values(store.collections[collection]) };
+};
+
+/**
+ * Save a record when baseRevision matches the stored one (0 when it does not exist yet)
+ */
+export const saveServerRecord = (
+  collection: ServerCollection,
+  id: string,
+  data: unknown,
+  baseRevision: number,
+  schemaVersion: number
+): Promise<ServerWriteOutcome> => updateStore<ServerWriteOutcome>(store => {
+  const current = store.collections[collection][id] ?? null;
+  if ((current?.revision ?? 0) !== baseRevision) {
+    return { outcome: { status: 'conflict', current }, changed: false };
+  }
+
+  const record: ServerRecord = { id, revision: baseRevision + 1, updatedAt: new Date().toISOString(), data };
+  store.collections[collection][id] = record;
+  store.schemaVersion = Math.max(store.schemaVersion, schemaVersion);
+  return { outcome: { status: 'saved', record }, changed: true };
+});
+
+/**
+ * Delete a record when baseRevision matches - deleting one that is already gone succeeds
+ */
+export const deleteServerRecord = (
+  collection: ServerCollection,
+  id: string,
+  baseRevision: number
+): Promise<ServerWriteOutcome> => updateStore<ServerWriteOutcome>(store => {
+  const current = store.collections[collection][id] ?? null;
+  if (!current) return { outcome: { status: 'saved', record: null }, changed: false };
+  if (current.revision !== baseRevision) {
+    return { outcome: { status: 'conflict', current }, changed: false };
+  }
+
+  delete store.collections[collection][id];
+  return { outcome: { status: 'saved', record: null }, changed: true };
+});
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { ServerCollection, ServerSaveRequest, ServerWriteOutcome } from '@/types/storage';
+import { deleteServerRecord, readServerCollection, saveServerRecord } from './serverStore';
+import { UNSAVED_RAFFLE_ID } from './storageMigrations';
+
+/**
+ * Route handlers for one server store collection
+ *
+ * GET lists every record with its revision. PUT saves `{ id, baseRevision,
+ * schemaVersion, data }` and DELETE takes `?id=...&baseRevision=...`; both
+ * answer 409 with the current record when baseRevision is out of date.
+ */
+
+const isRevision = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+// Ids the app generates - letters, digits, "-" and "_"
+const RECORD_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+// Raffle progress without a configuration is stored under UNSAVED_RAFFLE_ID, so no configuration may take that id
+const isRecordId = (collection: ServerCollection, value: unknown): value is string =>
+  typeof value === 'string' && RECORD_ID_PATTERN.test(value) && !(collection === 'configurations' && value === UNSAVED_RAFFLE_ID);
+
+const respond = (outcome: ServerWriteOutcome): NextResponse =>
+  outcome.status === 'conflict'
+    ? NextResponse.json({ error: 'The record was changed by another browser', current: outcome.current }, { status: 409 })
+    : NextResponse.json(outcome);
+
+// Storage failures on the server become a 500 the browser can report, instead of an HTML error page
+const handleFailure = (collection: ServerCollection, error: unknown): NextResponse => {
+  console.error(`❌ SERVER STORAGE: ${collection} request failed:`, error);
+  return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+};
+
+export const createRecordRouteHandlers = (collection: ServerCollection) => ({
+  GET: async (): Promise<NextResponse> => {
+    try {
+      return NextResponse.json(await readServerCollection(collection));
+    } catch (error) {
+      return handleFailure(collection, error);
+    }
+  },
+
+  PUT: async (request: Request): Promise<NextResponse> => {
+    const body = await request.json().catch(() => null) as Partial<ServerSaveRequest> | null;
+    if (!body || !isRecordId(collection, body.id) || !isRevision(body.baseRevision) || !isRevision(body.schemaVersion) || body.data === undefined) {
+      return NextResponse.json({ error: 'Expected { id, baseRevision, schemaVersion, data }' }, { status: 400 });
+    }
+    try {
+      return respond(await saveServerRecord(collection, body.id, body.data, body.baseRevision, body.schemaVersion));
+    } catch (error) {
+      return handleFailure(collection, error);
+    }
+  },
+
+  DELETE: async (request: Request): Promise<NextResponse> => {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    // A missing or empty parameter is rejected rather than read as revision 0
+    const revisionParam = searchParams.get('baseRevision')?.trim();
+    const baseRevision = revisionParam ? Number(revisionParam) : null;
+    if (!isRecordId(collection, id) || !isRevision(baseRevision)) {
+      return NextResponse.json({ error: 'Expected ?id=...&baseRevision=...' }, { status: 400 });
+    }
+    try {
+      return respond(await deleteServerRecord(collection, id, baseRevision));
+    } catch (error) {
+      return handleFailure(collection, error);
+    }
+  }
+});
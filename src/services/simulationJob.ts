@@ -0,0 +1,98 @@
+import seedrandom from 'seedrandom';
+import { TeamData } from '@/types/raffle';
+import { ConfigurationManager, RoundConfigurationSettings } from '@/utils/configurationManager';
+import { calculateWinProbabilities, getRemainingDraws } from '@/utils/winProbability';
+import { createTally, runSimulations } from './modelComparison';
+import { resolveRaffleModel } from './raffleModels';
+import { getTeamTickets } from './bonusTickets';
+
+/**
+ * Simulation jobs
+ *
+ * The long-running loop behind RaffleSimulator's batch runs. It lives here
+ * rather than in the worker so it can be tested without one: the worker only
+ * wires postMessage and cancellation into runSimulationJob. Results are
+ * indexed like the roster and sent as running totals, so the page can redraw
+ * from any message without keeping history.
+ */
+
+export interface SimulationRequest {
+  type: 'start';
+  jobId: number;
+  teams: TeamData[];
+  settings: RoundConfigurationSettings;
+  iterations: number;
+  seed?: string; // Reproducible runs; Math.random otherwise
+}
+
+export type SimulationCommand = SimulationRequest | { type: 'cancel'; jobId: number };
+
+export type SimulationMessage =
+  | { type: 'expected'; jobId: number; probabilities: number[] } // % chance of winning at least once, from ticket odds
+  | { type: 'progress' | 'done' | 'cancelled'; jobId: number; completed: number; total: number; wins: number[]; winningRuns: number[] }
+  | { type: 'error'; jobId: number; message: string };
+
+export interface SimulationJobHooks {
+  post: (message: SimulationMessage) => void;
+  isCancelled: () => boolean;
+  pause: () => Promise<void>; // Lets cancel messages through between chunks
+}
+
+const CHUNK_SIZE = 25; // Raffles between pauses
+const PROGRESS_INTERVAL_MS = 150; // Longest gap between progress messages
+
+/**
+ * Each player's chance of winning at least once if every round drew on ticket
+ * odds alone - the baseline the simulated counts are compared against
+ */
+export const getExpectedWinChances = (teams: TeamData[], settings: RoundConfigurationSettings): number[] => {
+  const model = resolveRaffleModel(settings);
+  const rounds = ConfigurationManager.generateOptimalRounds(teams, settings);
+  const { probabilities } = calculateWinProbabilities(teams, getRemainingDraws(rounds, 0, []), {
+    getTickets: (_points, team) => getTeamTickets(team, model.ticketFormula, model.bonusRules)
+  });
+  return teams.map(team => probabilities[team.Team] ?? 0);
+};
+
+export const runSimulationJob = async (
+  request: SimulationRequest,
+  hooks: SimulationJobHooks,
+  now: () => number = Date.now
+): Promise<void> => {
+  const { jobId, teams, settings, iterations } = request;
+
+  try {
+    hooks.post({ type: 'expected', jobId, probabilities: getExpectedWinChances(teams, settings) });
+
+    const random = request.seed ? seedrandom(request.seed) : Math.random;
+    const tally = createTally(teams.length);
+    const snapshot = (type: 'progress' | 'done' | 'cancelled'): SimulationMessage => ({
+      type,
+      jobId,
+      completed: tally.iterations,
+      total: iterations,
+      wins: [...tally.wins],
+      winningRuns: [...tally.winningRuns]
+    });
+
+    let lastProgress = now();
+    while (tally.iterations < iterations) {
+      await hooks.pause();
+      if (hooks.isCancelled()) {
+        hooks.post(snapshot('cancelled'));
+        return;
+      }
+
+      runSimulations(teams, settings, tally, Math.min(CHUNK_SIZE, iterations - tally.iterations), random);
+
+      if (now() - lastProgress >= PROGRESS_INTERVAL_MS) {
+        hooks.post(snapshot('progress'));
+        lastProgress = now();
+      }
+    }
+
+    hooks.post(snapshot('done'));
+  } catch (error) {
+    hooks.post({ type: 'error', jobId, message: error instanceof Error ? error.message : String(error) });
+  }
+};
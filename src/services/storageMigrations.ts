@@ -0,0 +1,117 @@
+import { RaffleState } from '@/types/raffle';
+import { RaffleModelType } from '@/types/raffleModels';
+import type { RaffleConfiguration, RaffleTemplate } from '@/utils/configurationManager';
+
+/**
+ * Storage schema migrations
+ *
+ * Saved data carries a schema version; data from before versioning (the old
+ * localStorage keys) is version 0. When storage opens, every migration newer
+ * than the saved version runs once, in order, and the result is saved at the
+ * latest version. Add new migrations at the end and never edit a released one.
+ */
+
+export interface StorageSnapshot {
+  schemaVersion: number;
+  configurations: RaffleConfiguration[];
+  raffleStates: Record<string, RaffleState>; // Keyed by configuration id, or UNSAVED_RAFFLE_ID for a raffle run without one
+  templates: RaffleTemplate[]; // Saved round settings and prizes to start new configurations from
+  raffleState?: RaffleState | null; // The single shared state saved before v3
+  activeConfigurationId?: string | null; // Configuration that single state belonged to
+}
+
+export interface StorageMigration {
+  version: number; // Schema version the migration upgrades to
+  description: string;
+  migrate: (snapshot: StorageSnapshot) => StorageSnapshot;
+}
+
+// Raffle state of the session that has not been saved as a configuration
+export const UNSAVED_RAFFLE_ID = 'unsaved';
+
+// Saved before multi-winner rounds - at most one pending winner
+type LegacyRaffleState = RaffleState & { pendingWinner?: string };
+
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Default round settings, prizes and audit log for configurations saved without them',
+    migrate: (snapshot) => ({
+      ...snapshot,
+      configurations: snapshot.configurations.map((config): RaffleConfiguration => ({
+        ...config,
+        roundSettings: config.roundSettings || {
+          numberOfRounds: 5,
+          raffleModel: RaffleModelType.WEIGHTED_CONTINUOUS,
+          winnersPerRound: 1,
+          showOdds: false,
+          animationType: 'squidgame'
+        },
+        rounds: config.rounds || [],
+        prizes: config.prizes || [],
+        auditLog: config.auditLog || []
+      }))
+    })
+  },
+  {
+    version: 2,
+    description: 'Default raffle state lists and move the single pending winner into pendingWinners',
+    migrate: (snapshot) => {
+      if (!snapshot.raffleState) return snapshot;
+
+      const { pendingWinner, ...state } = snapshot.raffleState as LegacyRaffleState;
+      const teams = state.teams || [];
+      return {
+        ...snapshot,
+        raffleState: {
+          ...state,
+          teams,
+          winners: state.winners || [],
+          remainingTeams: state.remainingTeams || [],
+          withdrawnPlayers: state.withdrawnPlayers || [],
+          prizes: state.prizes || [],
+          drawLog: state.drawLog || [],
+          auditLog: state.auditLog || [],
+          rosterVersion: state.rosterVersion || (teams.length > 0 ? 1 : 0),
+          pendingWinners: state.pendingWinners || (pendingWinner ? [pendingWinner] : [])
+        }
+      };
+    }
+  },
+  {
+    version: 3,
+    description: 'Give each configuration its own raffle state, starting with the configuration that was open',
+    migrate: ({ raffleState, activeConfigurationId, ...snapshot }) => {
+      if (!raffleState) return snapshot;
+
+      const owner = snapshot.configurations.some(config => config.id === activeConfigurationId)
+        ? activeConfigurationId as string
+        : UNSAVED_RAFFLE_ID;
+      return { ...snapshot, raffleStates: { ...snapshot.raffleStates, [owner]: raffleState } };
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = STORAGE_MIGRATIONS[STORAGE_MIGRATIONS.length - 1].version;
+
+/**
+ * Bring saved data up to the current schema
+ *
+ * @returns The migrated snapshot and the migrations that ran (empty when it was already current)
+ * @throws When the data was saved by a newer version of the app
+ */
+export const migrateSnapshot = (snapshot: StorageSnapshot): { snapshot: StorageSnapshot; applied: StorageMigration[] } => {
+  if (snapshot.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Saved data uses schema version ${snapshot.schemaVersion}, but this app only understands up to ${CURRENT_SCHEMA_VERSION}. Update the app to open it.`);
+  }
+
+  const applied = STORAGE_MIGRATIONS
+    .filter(migration => migration.version > snapshot.schemaVersion)
+    .sort((a, b) => a.version - b.version);
+
+  const migrated = applied.reduce(
+    (current, migration) => ({ ...migration.migrate(current), schemaVersion: migration.version }),
+    snapshot
+  );
+  return { snapshot: migrated, applied };
+};
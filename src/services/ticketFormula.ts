@@ -0,0 +1,131 @@
+import { TicketFormula } from '@/types/raffleModels';
+
+/**
+ * Ticket formulas
+ *
+ * The one place points become tickets. The draw, the odds, the tables, the
+ * animations and the distribution chart all call getFormulaTickets with the
+ * active formula, so what the operator sees is what the draw uses.
+ */
+
+// Points ÷ 100 - the rule every raffle used before formulas were configurable
+export const DEFAULT_TICKET_FORMULA: TicketFormula = { type: 'points_divided', divisor: 100 };
+
+export const TICKET_FORMULA_LABELS: Record<TicketFormula['type'], string> = {
+  points_divided: 'Linear - one ticket per N points',
+  flat: 'Equal - one ticket per player',
+  tiered: 'Tiered - tickets per points bracket',
+  sqrt: 'Square root - damps large totals',
+  log: 'Logarithmic - damps large totals hardest'
+};
+
+/**
+ * Starting values when the operator switches formula type (limits are kept)
+ */
+export const createTicketFormula = (type: TicketFormula['type'], limits: Pick<TicketFormula, 'minTickets' | 'maxTickets'> = {}): TicketFormula => {
+  switch (type) {
+    case 'flat':
+      return { type, minimumPoints: 100, ...limits };
+    case 'tiered':
+      return {
+        type,
+        tiers: [
+          { minPoints: 100, tickets: 1 },
+          { minPoints: 500, tickets: 3 },
+          { minPoints: 1000, tickets: 5 }
+        ],
+        ...limits
+      };
+    default:
+      return { type, divisor: 100, ...limits };
+  }
+};
+
+const getBaseTickets = (formula: TicketFormula, points: number): number => {
+  switch (formula.type) {
+    case 'flat':
+      return points >= formula.minimumPoints ? 1 : 0;
+    case 'tiered':
+      return formula.tiers.reduce((tickets, tier) => (points >= tier.minPoints ? Math.max(tickets, tier.tickets) : tickets), 0);
+    case 'sqrt':
+      return Math.floor(Math.sqrt(points / formula.divisor));
+    case 'log':
+      return Math.floor(Math.log2(1 + points / formula.divisor));
+    default:
+      return Math.floor(points / formula.divisor);
+  }
+};
+
+export const getFormulaTickets = (formula: TicketFormula, points: number): number => {
+  if (points <= 0) return 0;
+
+  let tickets = Math.max(0, getBaseTickets(formula, points));
+  if (formula.minTickets !== undefined) tickets = Math.max(tickets, formula.minTickets);
+  if (formula.maxTickets !== undefined) tickets = Math.min(tickets, formula.maxTickets);
+  return tickets;
+};
+
+export const describeTicketFormula = (formula: TicketFormula): string => {
+  let description: string;
+  switch (formula.type) {
+    case 'flat':
+      description = `One ticket each (${formula.minimumPoints}+ points)`;
+      break;
+    case 'tiered':
+      description = [...formula.tiers]
+        .sort((a, b) => a.minPoints - b.minPoints)
+        .map(tier => `${tier.minPoints}+ → ${tier.tickets}`)
+        .join(', ');
+      break;
+    case 'sqrt':
+      description = `√(Points ÷ ${formula.divisor})`;
+      break;
+    case 'log':
+      description = `log₂(1 + Points ÷ ${formula.divisor})`;
+      break;
+    default:
+      description = `Points ÷ ${formula.divisor}`;
+  }
+
+  const limits = [
+    formula.minTickets !== undefined ? `min ${formula.minTickets}` : '',
+    formula.maxTickets !== undefined ? `max ${formula.maxTickets}` : ''
+  ].filter(Boolean);
+  return limits.length > 0 ? `${description} (${limits.join(', ')})` : description;
+};
+
+/**
+ * Problems that would make a formula unusable - an empty list means it is valid
+ */
+export const validateTicketFormula = (formula: TicketFormula): string[] => {
+  const errors: string[] = [];
+  const isWholeNumber = (value: number) => Number.isInteger(value) && value >= 0;
+
+  if (formula.type === 'flat') {
+    if (!Number.isFinite(formula.minimumPoints) || formula.minimumPoints < 0) {
+      errors.push('Minimum points cannot be negative');
+    }
+  } else if (formula.type === 'tiered') {
+    if (formula.tiers.length === 0) {
+      errors.push('Add at least one tier');
+    } else if (formula.tiers.some(tier => !isWholeNumber(tier.minPoints) || !isWholeNumber(tier.tickets))) {
+      errors.push('Tier points and tickets must be whole numbers of 0 or more');
+    } else if (new Set(formula.tiers.map(tier => tier.minPoints)).size !== formula.tiers.length) {
+      errors.push('Each tier needs different minimum points');
+    }
+  } else if (!Number.isFinite(formula.divisor) || formula.divisor <= 0) {
+    errors.push('Points per ticket must be greater than 0');
+  }
+
+  if (formula.minTickets !== undefined && !isWholeNumber(formula.minTickets)) {
+    errors.push('Minimum tickets must be a whole number of 0 or more');
+  }
+  if (formula.maxTickets !== undefined && (!isWholeNumber(formula.maxTickets) || formula.maxTickets < 1)) {
+    errors.push('Maximum tickets must be a whole number of 1 or more');
+  }
+  if (formula.minTickets !== undefined && formula.maxTickets !== undefined && formula.minTickets > formula.maxTickets) {
+    errors.push('Minimum tickets cannot be more than maximum tickets');
+  }
+
+  return errors;
+};
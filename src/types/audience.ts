@@ -0,0 +1,27 @@
+import { Prize, RaffleRound, TeamData, Winner } from './raffle';
+import { BonusRule, TicketFormula } from './raffleModels';
+
+/**
+ * What the projector needs to render - no controls, odds or unconfirmed winners
+ */
+export interface AudienceSnapshot {
+  configName?: string;
+  animationType: 'wheel' | 'squidgame';
+  raffleStarted: boolean;
+  currentRound: number;
+  rounds: RaffleRound[];
+  teams: TeamData[];
+  eligibleTeams: TeamData[]; // Pool for the draw that is (or is about to be) animated
+  withdrawnPlayers: string[];
+  winners: Winner[];
+  prizes: Prize[];
+  ticketFormula?: TicketFormula; // Active formula, so the screen shows the tickets the draw uses
+  bonusRules?: BonusRule[]; // Active bonus rules, for the same reason
+  isDrawing: boolean;
+  drawWinner?: string; // Winner the animation lands on - the draw is already decided
+  sentAt: number;
+}
+
+export type AudienceMessage =
+  | { type: 'snapshot'; snapshot: AudienceSnapshot }
+  | { type: 'request-snapshot' }; // Sent by a newly opened audience window
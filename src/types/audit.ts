@@ -0,0 +1,44 @@
+export type AuditEventType =
+  | 'csv_loaded'
+  | 'raffle_started'
+  | 'draw_started'
+  | 'winner_selected'
+  | 'winner_confirmed'
+  | 'winner_rejected'
+  | 'player_eliminated'
+  | 'raffle_reset'
+  | 'model_changed'
+  | 'rounds_edited'
+  | 'eligibility_changed'
+  | 'roster_updated'
+  | 'configuration_imported'
+  | 'action_undone'
+  | 'action_redone';
+
+/**
+ * One player's odds at the moment an event was recorded
+ */
+export interface AuditOddsEntry {
+  team: string;
+  tickets: number;
+  probability: number; // 0-1 chance of winning a single draw from this pool
+}
+
+/**
+ * A single entry in the append-only audit log.
+ * Entries are never edited or removed - corrections are new events.
+ */
+export interface AuditEvent {
+  id: string;
+  type: AuditEventType;
+  timestamp: string;
+  round?: number; // 1-based round the event applies to
+  roundName?: string;
+  team?: string; // Player the event is about (winner selected / confirmed / rejected)
+  rosterHash: string; // SHA-256 of the eligible pool (see drawService.hashRoster)
+  rosterVersion?: number; // Roster the event was recorded against (absent on events logged before roster updates)
+  eligibleCount: number;
+  totalTickets: number;
+  odds: AuditOddsEntry[];
+  details?: Record<string, string | number | boolean>;
+}
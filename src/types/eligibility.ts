@@ -0,0 +1,25 @@
+/**
+ * Declarative eligibility rules, checked on top of player status and the
+ * round's point threshold. Unset fields do not restrict anyone.
+ */
+export interface EligibilityRules {
+  minSubmissions?: number;
+  excludedPlayers?: string[]; // Staff, sponsors, organizers - matched by name, ignoring case
+  submissionDeadline?: string; // Players whose Last Submission is after this are ineligible
+}
+
+/**
+ * Rules stored on a configuration. A round override replaces only the fields
+ * it sets, e.g. a final round that needs more submissions.
+ */
+export interface EligibilitySettings extends EligibilityRules {
+  roundOverrides?: Record<number, EligibilityRules>; // Keyed by round id
+}
+
+export type EligibilityRule = keyof EligibilityRules;
+
+// Why a player cannot be drawn under the rules
+export interface IneligibilityReason {
+  rule: EligibilityRule;
+  message: string;
+}
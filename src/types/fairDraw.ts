@@ -0,0 +1,63 @@
+/**
+ * Commitment to a secret draw seed.
+ * The commitment (SHA-256 of the seed) is published before the event; the seed
+ * itself stays on the operator machine until it is revealed afterwards.
+ */
+export interface DrawCommitment {
+  seed: string;
+  commitment: string;
+  createdAt: string;
+  revealedAt?: string;
+}
+
+/**
+ * One eligible player in a draw and the tickets they held at that moment
+ */
+export interface DrawEntry {
+  team: string;
+  tickets: number;
+}
+
+/**
+ * Everything needed to re-derive a single draw from the revealed seed
+ */
+export interface DrawRecord {
+  round: number; // 1-based round number
+  roundName?: string;
+  rosterHash: string; // SHA-256 of the sorted eligible roster
+  entries: DrawEntry[];
+  totalTickets: number;
+  ticketIndex: number; // Winning ticket position in the cumulative ticket range
+  winner: string;
+  timestamp: string;
+  outcome?: 'confirmed' | 'rejected';
+}
+
+/**
+ * Exported draw log - published after the event together with the seed
+ */
+export interface DrawLog {
+  version: 1;
+  configurationId?: string;
+  configurationName?: string;
+  commitment: string;
+  seed?: string; // Only present once the seed has been revealed
+  exportedAt: string;
+  draws: DrawRecord[];
+}
+
+export interface DrawVerificationResult {
+  index: number;
+  round: number;
+  recordedWinner: string;
+  expectedWinner: string | null;
+  rosterHashValid: boolean;
+  winnerValid: boolean;
+}
+
+export interface DrawLogVerification {
+  commitmentValid: boolean;
+  seedRevealed: boolean;
+  draws: DrawVerificationResult[];
+  allValid: boolean;
+}
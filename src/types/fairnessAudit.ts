@@ -0,0 +1,59 @@
+import { DrawEntry } from './fairDraw';
+
+/**
+ * One player's row in a fairness audit - how often the production draw picked
+ * them against their ticket share
+ */
+export interface FairnessAuditPlayer {
+  team: string;
+  tickets: number;
+  expectedShare: number; // tickets / total tickets
+  expected: number; // Expected wins over the audit's draws
+  observed: number;
+  residual: number; // (observed - expected) / √expected - beyond ±3 is unusual
+}
+
+export interface FairnessAuditResult {
+  iterations: number;
+  rosterHash: string;
+  players: FairnessAuditPlayer[]; // Roster order (sorted by team name)
+  chiSquared: number;
+  degreesOfFreedom: number;
+  pValue: number;
+  lowExpectedCount: number; // Players expected to win fewer than 5 times - the test is unreliable for them
+}
+
+/**
+ * Exportable audit report. Every draw is reproducible from the seed and the
+ * roster, so a sponsor can re-run the draws and recompute the statistics. The
+ * digest is a SHA-256 checksum of the rest of the report - it catches a damaged
+ * or carelessly edited file, not a deliberate forgery (anyone can recompute it).
+ */
+export interface FairnessAuditReport {
+  version: 1;
+  kind: 'fairness_audit';
+  configurationId?: string;
+  configurationName?: string;
+  roundName?: string;
+  generatedAt: string;
+  seed: string;
+  rosterHash: string;
+  entries: DrawEntry[];
+  iterations: number;
+  observed: number[]; // Wins per entry, in entry order
+  chiSquared: number;
+  degreesOfFreedom: number;
+  pValue: number;
+  significanceLevel: number;
+  passed: boolean; // pValue >= significanceLevel - no evidence the draw departs from ticket shares
+  largestDeviations: FairnessAuditPlayer[];
+  digest: string;
+}
+
+export interface FairnessReportVerification {
+  digestValid: boolean;
+  rosterHashValid: boolean;
+  drawsValid: boolean; // Re-running the draws from the seed gives the recorded counts
+  resultsValid: boolean; // The recorded counts give the recorded χ², p-value and verdict
+  allValid: boolean;
+}
@@ -0,0 +1,36 @@
+/**
+ * Running totals for a scenario, indexed like the roster. Kept separate from
+ * the summary so simulations can run in chunks and be added together.
+ */
+export interface ScenarioTally {
+  iterations: number;
+  wins: number[]; // Prizes won across all simulated raffles
+  winningRuns: number[]; // Simulated raffles in which the player won at least once
+}
+
+// Players grouped by points rank - decile 1 holds the lowest scores
+export interface DecileStat {
+  decile: number;
+  minPoints: number;
+  maxPoints: number;
+  players: number;
+  winProbability: number; // Average % chance of winning at least once
+}
+
+// Players grouped by the configuration's point thresholds
+export interface TierStat {
+  label: string;
+  minPoints: number;
+  players: number;
+  expectedWinners: number; // Average prizes won by the tier per raffle
+}
+
+export interface ScenarioSummary {
+  scenarioId: string;
+  label: string;
+  iterations: number;
+  deciles: DecileStat[];
+  tiers: TierStat[];
+  expectedWinners: number; // Average prizes handed out per raffle
+  gini: number; // 0 = every player equally likely to win, 1 = one player wins everything
+}
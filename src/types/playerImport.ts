@@ -0,0 +1,33 @@
+import { TeamData } from './raffle';
+
+/**
+ * Raw rows read from an imported file, before any column mapping
+ */
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+  rowNumbers: number[]; // Source row of each entry in rows, counting blank rows (1-based)
+}
+
+export type ImportField = 'Team' | 'Points' | 'Submissions' | 'Last Submission';
+
+// Source column header mapped onto each TeamData field (null = not mapped)
+export type ColumnMapping = Record<ImportField, string | null>;
+
+export interface RejectedRow {
+  rowNumber: number; // Row in the source file, numbered the way a spreadsheet shows it
+  reason: string;
+  values: string[];
+}
+
+export interface DuplicateTeam {
+  team: string;
+  rowNumbers: number[]; // First row is kept, the rest are rejected
+}
+
+export interface ImportReport {
+  teams: TeamData[];
+  rejected: RejectedRow[];
+  duplicates: DuplicateTeam[];
+  totalRows: number;
+}
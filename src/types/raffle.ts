@@ -1,3 +1,8 @@
+import { DrawRecord } from './fairDraw';
+import { AuditEvent } from './audit';
+import { RaffleModel } from './raffleModels';
+import { EligibilitySettings } from './eligibility';
+
 export interface TeamData {
   Team: string;
   Points: number;
@@ -7,11 +12,25 @@ export interface TeamData {
   status?: 'eligible' | 'winner' | 'removed' | 'withdrawn';
 }
 
+export type PrizeTier = 'grand' | 'premium' | 'standard';
+
+export interface Prize {
+  id: string;
+  name: string;
+  sponsor?: string;
+  quantity: number; // How many of this prize can be awarded
+  value?: number; // Retail value in USD
+  image?: string; // Path or URL to a prize image
+  tier?: PrizeTier;
+}
+
 export interface RaffleRound {
   id: number;
   name: string;
   pointThreshold: number;
   description: string;
+  prizeIds?: string[]; // Prizes this round draws from (in order); empty means the whole catalog
+  winnerCount?: number; // Winners drawn before the round advances (default 1)
 }
 
 export interface Winner {
@@ -19,6 +38,14 @@ export interface Winner {
   round: number;
   roundName: string;
   prize?: string;
+  prizeId?: string; // Catalog prize awarded to this winner
+}
+
+// A player the raffle model's elimination rule dropped from the pool after a round
+export interface EliminatedPlayer {
+  team: string;
+  round: number; // 1-based round after which they dropped out
+  reason: string;
 }
 
 export interface RaffleState {
@@ -29,6 +56,30 @@ export interface RaffleState {
   remainingTeams: TeamData[];
   isDrawing: boolean;
   raffleStarted: boolean;
-  pendingWinner?: string; // Winner waiting for confirmation
+  pendingWinners: string[]; // Drawn winners waiting for the operator to confirm or reject, in draw order
+  currentDraw?: DrawRecord; // Draw chosen by the draw service, being visualised by the animation
+  batchDraws?: DrawRecord[]; // Further winners drawn together with currentDraw (all-at-once rounds)
   withdrawnPlayers: string[]; // Players who were withdrawn after being selected as winners
+  eliminatedPlayers?: EliminatedPlayer[]; // Dropped by the model's elimination rule as rounds complete
+  prizes: Prize[]; // Prize catalog from the active configuration
+  drawLog: DrawRecord[]; // Every committed draw, including rejected ones
+  auditLog: AuditEvent[]; // Append-only event log, synced into the configuration
+  rosterVersion: number; // Bumped every time a roster update is applied (1 = original upload)
+  raffleModel?: RaffleModel; // Active model definition - ticket formula and winner removal for live draws
+  eligibility?: EligibilitySettings; // Active configuration's eligibility rules
+}
+
+/**
+ * Snapshot taken before an undoable operator action
+ */
+export interface RaffleHistoryEntry {
+  label: string; // e.g. "Confirmed Alice as winner"
+  state: RaffleState;
+  timestamp: number;
+}
+
+export interface RaffleLastAction {
+  label: string;
+  kind: 'done' | 'undone' | 'redone';
+  timestamp: number;
 }
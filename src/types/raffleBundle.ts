@@ -0,0 +1,13 @@
+/**
+ * Images a configuration shows - player photos served from public/users and
+ * prize images. They are listed rather than embedded, so copy the files to the
+ * other machine too.
+ */
+export interface RafflePhotoReference {
+  kind: 'player' | 'prize';
+  name: string; // Player (Team) or prize name
+  paths: string[]; // Public paths or URLs, e.g. /users/jane_doe/thumbnail.webp
+}
+
+// What to do when an imported configuration has the id of one already saved
+export type BundleImportMode = 'overwrite' | 'duplicate';
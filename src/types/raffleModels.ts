@@ -1,21 +1,110 @@
+// Ids of the built-in models; custom models get generated ids
 export enum RaffleModelType {
   UNIFORM_ELIMINATION = 'uniform_elimination',
   WEIGHTED_CONTINUOUS = 'weighted_continuous'
 }
 
-export interface RaffleModelProperties {
-  removeWinners: boolean;
-  weightedSystem: boolean;
-  dropOffAfterRound: boolean;
-  ticketCalculation: 'points_divided_100';
-  eliminationCalculation: 'players_per_round' | 'none';
+export interface TicketTier {
+  minPoints: number; // Lowest points in this bracket
+  tickets: number;
+}
+
+/**
+ * Clamp applied after the formula. The minimum only lifts players who have
+ * points - 0 points always means 0 tickets.
+ */
+export interface TicketLimits {
+  minTickets?: number;
+  maxTickets?: number;
+}
+
+/**
+ * How a player's points become draw tickets
+ */
+export type TicketFormula = (
+  | { type: 'points_divided'; divisor: number } // floor(points / divisor)
+  | { type: 'flat'; minimumPoints: number } // One ticket for everyone with at least minimumPoints
+  | { type: 'tiered'; tiers: TicketTier[] } // Tickets of the highest bracket reached
+  | { type: 'sqrt'; divisor: number } // floor(sqrt(points / divisor)) - damps large totals
+  | { type: 'log'; divisor: number } // floor(log2(1 + points / divisor)) - damps large totals hardest
+) & TicketLimits;
+
+/**
+ * Extra tickets on top of the ticket formula, rewarding engagement. Bonuses
+ * only go to players with points - 0 points still means 0 tickets.
+ */
+export type BonusRule = { id: string; label?: string } & (
+  | { type: 'per_submissions'; submissionsPerTicket: number; maxTickets?: number } // floor(submissions / N), capped at maxTickets
+  | { type: 'early_bird'; cutoff: string; tickets: number } // Flat bonus when Last Submission is at or before cutoff
+);
+
+// One bonus rule's contribution to a player's tickets
+export interface BonusTicketLine {
+  ruleId: string;
+  label: string;
+  tickets: number;
 }
 
+/**
+ * A player's tickets itemised - base (formula) + bonus = total
+ */
+export interface TicketBreakdown {
+  base: number;
+  bonuses: BonusTicketLine[];
+  bonus: number;
+  total: number;
+}
+
+// 'keep' leaves winners in the pool so they can win again
+export type WinnerRemoval = 'remove' | 'keep';
+
+/**
+ * Who drops out after each round (services/elimination). The per-round
+ * policies remove floor(total players / rounds) players; fixed survivors
+ * lists the players left after rounds 1, 2, ... and later rounds keep the
+ * last entry. Ties are broken by points, then name.
+ */
+export type EliminationRule =
+  | { type: 'none' }
+  | { type: 'players_per_round' } // Uniformly at random
+  | { type: 'lowest_points' } // Fewest points first
+  | { type: 'inverse_weighted' } // At random, weighted by 1 / tickets - fewer tickets means more likely to drop out
+  | { type: 'fixed_survivors'; survivors: number[] }; // Lowest points drop out until this many remain
+
+// One player's elimination and the reason shown to the operator
+export interface EliminationRecord {
+  participantId: string;
+  reason: string;
+}
+
+/**
+ * How elimination rounds pick their point thresholds. Round 1 is always open
+ * to everyone; the lists below give the cutoffs for rounds 2, 3, ... and
+ * rounds past the end of a list keep its last cutoff.
+ */
+export type RoundThresholdStrategy =
+  | { type: 'none' } // Every round is open to every player
+  | { type: 'equal_buckets' } // Thresholds split the sorted points into equal-size groups
+  | { type: 'std_dev'; firstCutoff: number; step: number } // Bell curve: mean + (firstCutoff + step × (round - 2)) standard deviations
+  | { type: 'percentiles'; percentiles: number[] } // Players at or above the Nth percentile of points
+  | { type: 'target_survivors'; survivors: number[] } // Top N players by points (ties at the cutoff stay in)
+  | { type: 'manual'; thresholds: number[] }; // Fixed minimum points
+
+/**
+ * Declarative raffle model - everything that differs between raffle styles.
+ * Built-in models live in services/raffleModels; custom ones are saved with
+ * the configuration that uses them.
+ */
 export interface RaffleModel {
-  type: RaffleModelType;
+  id: string;
   name: string;
   description: string;
-  properties: RaffleModelProperties;
+  builtIn?: boolean;
+  ticketFormula: TicketFormula;
+  bonusRules?: BonusRule[]; // Added on top of the formula (services/bonusTickets)
+  winnerRemoval: WinnerRemoval;
+  elimination: EliminationRule;
+  thresholdStrategy: RoundThresholdStrategy;
 }
 
 export interface RaffleParticipant {
@@ -24,6 +113,7 @@ export interface RaffleParticipant {
   email: string;
   points: number;
   tickets: number;
+  bonusTickets?: number; // From bonus rules, added to the formula's tickets
   isActive: boolean;
   isWinner: boolean;
   eliminatedInRound?: number;
@@ -32,19 +122,25 @@ export interface RaffleParticipant {
 
 export interface RaffleRound {
   roundNumber: number;
-  modelType: RaffleModelType;
+  modelId: string;
   participantsBefore: number;
   participantsAfter: number;
   winners: string[];
   eliminated: string[];
+  eliminations: EliminationRecord[]; // Same players as eliminated, with reasons
   timestamp: Date;
 }
 
 export interface RaffleConfiguration {
   totalRounds: number;
   winnersPerRound: number;
-  modelType: RaffleModelType;
+  model: RaffleModel;
   participants: RaffleParticipant[];
+  drawSeed?: string; // Committed seed - makes every round reproducible (see services/fairDraw)
+  pointThresholds?: number[]; // Minimum points to be drawn in each round, in round order (from the round threshold strategy)
+  excludedByRound?: string[][]; // Participant ids each round's eligibility rules keep out of its draw, in round order
+  roundsPlayed?: number; // Rounds already drawn before the engine takes over - it carries on from the next one
+  random?: () => number; // RNG for unseeded rounds - simulations pass a seeded one, otherwise Math.random
 }
 
 export interface RaffleResult {
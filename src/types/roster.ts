@@ -0,0 +1,34 @@
+import { TeamData } from './raffle';
+
+export type RosterChangeType = 'added' | 'removed' | 'updated';
+
+// Imported fields a roster update compares - eligibility rules and bonus tickets read all of them
+export type RosterField = 'Points' | 'Submissions' | 'Last Submission';
+
+/**
+ * One difference between the running roster and a freshly uploaded export.
+ * Changes are accepted or skipped individually before they are applied.
+ */
+export interface RosterChange {
+  id: string; // `${type}:${team}` - stable across re-diffs of the same files
+  type: RosterChangeType;
+  team: string;
+  before?: TeamData; // Current roster entry (removed / updated)
+  after?: TeamData; // Uploaded entry (added / updated)
+  fields?: RosterField[]; // Fields that differ (updated)
+  conflict?: string; // Why this change needs a closer look, e.g. the player already won
+}
+
+export interface RosterDiff {
+  changes: RosterChange[];
+  unchangedCount: number;
+}
+
+/**
+ * Where each player currently stands in the raffle, used to flag conflicts
+ */
+export interface RosterDiffContext {
+  winners: string[];
+  pendingWinners: string[];
+  withdrawnPlayers: string[];
+}
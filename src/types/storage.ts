@@ -0,0 +1,62 @@
+export type StorageBackendName = 'indexeddb' | 'localstorage' | 'server';
+
+// Where the host chose to keep raffles - the browser's own storage, or the machine running the app
+export type StorageMode = 'browser' | 'server';
+
+/**
+ * Where saved data lives once storage has started
+ */
+export interface StorageStatus {
+  backend: StorageBackendName;
+  schemaVersion: number;
+  importedLegacyData: boolean; // This start moved the old localStorage keys into IndexedDB
+  migrationsApplied: number[]; // Schema versions migrated to during this start, in order
+  offline?: boolean; // Server storage was chosen but could not be reached - working from the browser's copy
+}
+
+/**
+ * A save that did not reach the browser's storage - the data is still in
+ * memory for this session but will be lost on reload. With server storage,
+ * 'offline' saves are kept in the browser and sent later, while a 'conflict'
+ * means another browser saved the same record first.
+ */
+export interface StorageErrorEvent {
+  kind: 'quota' | 'write_failed' | 'offline' | 'conflict';
+  backend: StorageBackendName;
+  message: string;
+}
+
+// ----- Server storage API (/api/configurations, /api/raffle-state, /api/templates) -----
+
+export type ServerCollection = 'configurations' | 'raffleStates' | 'templates';
+
+/**
+ * One saved record - revision goes up by one with every save
+ */
+export interface ServerRecord<T = unknown> {
+  id: string;
+  revision: number;
+  updatedAt: string;
+  data: T;
+}
+
+export interface ServerCollectionResponse<T = unknown> {
+  schemaVersion: number; // 0 until the first save
+  records: ServerRecord<T>[];
+}
+
+/**
+ * Body of a PUT - baseRevision is the revision the browser last saw (0 for a new record)
+ */
+export interface ServerSaveRequest<T = unknown> {
+  id: string;
+  baseRevision: number;
+  schemaVersion: number;
+  data: T;
+}
+
+export type ServerWriteOutcome =
+  | { status: 'saved'; record: ServerRecord | null } // null after a delete
+  | { status: 'conflict'; current: ServerRecord | null } // Saved elsewhere since baseRevision
+  | { status: 'offline' }
+  | { status: 'failed'; message: string };
@@ -0,0 +1,16 @@
+/**
+ * One winner slot still to be drawn, in draw order
+ */
+export interface WinProbabilityDraw {
+  pointThreshold: number; // Minimum points to be in the pool for this draw
+  excludeTeams?: string[]; // Players the round's eligibility rules keep out of this draw
+  round?: number; // 1-based round the slot belongs to - a round's slots are drawn together
+}
+
+export type WinProbabilityMethod = 'exact' | 'monte_carlo';
+
+export interface WinProbabilityResult {
+  probabilities: Record<string, number>; // Team name -> % chance of winning at least one prize
+  method: WinProbabilityMethod;
+  simulations?: number; // Monte Carlo only
+}
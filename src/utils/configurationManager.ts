@@ -1,11 +1,33 @@
-import { TeamData, RaffleRound } from '@/types/raffle';
-import { RaffleModelType } from '@/types/raffleModels';
+import { TeamData, RaffleRound, Prize } from '@/types/raffle';
+import { BonusRule, RaffleModel, RaffleModelType, RoundThresholdStrategy, TicketFormula } from '@/types/raffleModels';
+import { DrawCommitment } from '@/types/fairDraw';
+import { EligibilityRules, EligibilitySettings } from '@/types/eligibility';
+import { AuditEvent } from '@/types/audit';
+import { createAuditEvent, mergeAuditLogs } from '@/services/auditLog';
+import { buildDrawEntries } from '@/services/drawService';
+import { resolveRaffleModel } from '@/services/raffleModels';
+import {
+  deleteStoredConfiguration,
+  deleteStoredTemplate,
+  loadStoredConfigurations,
+  loadStoredTemplates,
+  saveStoredConfiguration,
+  saveStoredTemplate
+} from '@/services/raffleStorage';
+import { getRoundThresholds } from '@/services/roundThresholds';
+import { carryOverPrizeAssignments } from '@/utils/prizeCatalog';
 
 export interface RoundConfigurationSettings {
   numberOfRounds: number;
   showOdds?: boolean;
-  raffleModel?: RaffleModelType;
+  raffleModel?: string; // Model id - a built-in RaffleModelType or one of customModels
+  customModels?: RaffleModel[]; // Model definitions created for this configuration
+  ticketFormula?: TicketFormula; // Replaces the selected model's formula when set
+  thresholdStrategy?: RoundThresholdStrategy; // Replaces the selected model's round thresholds when set
+  bonusRules?: BonusRule[]; // Bonus tickets on top of the formula
+  eligibility?: EligibilitySettings; // Who can be drawn, with optional per-round overrides
   winnersPerRound?: number;
+  multiWinnerDraw?: 'sequence' | 'all'; // Draw a round's winners one at a time or in a single draw
   animationType?: 'wheel' | 'squidgame';
 }
 
@@ -15,11 +37,55 @@ export interface RaffleConfiguration {
   teams: TeamData[];
   roundSettings: RoundConfigurationSettings;
   rounds: RaffleRound[];
+  prizes?: Prize[];
+  drawCommitment?: DrawCommitment; // Commit-reveal seed for verifiable draws
+  auditLog?: AuditEvent[]; // Append-only - saving never drops existing events
   createdAt: Date;
   lastModified: Date;
 }
 
-const STORAGE_KEY = 'raffle-configurations';
+/**
+ * A configuration without its roster - round settings, prizes and the rounds'
+ * prize assignments, reused for the next event with a new CSV
+ */
+export interface RaffleTemplate {
+  id: string;
+  name: string;
+  roundSettings: RoundConfigurationSettings;
+  rounds: RaffleRound[]; // Thresholds are regenerated for each roster - the per-round prizes carry over
+  prizes: Prize[];
+  createdAt: Date;
+  lastModified: Date;
+}
+
+// Rules tied to one event's dates - submission deadlines and early-bird cutoffs
+// would shut out or short-change the next event's roster, so templates drop them
+const isUndatedBonus = (rule: BonusRule): boolean => rule.type !== 'early_bird';
+
+const withoutDateBoundRules = (settings: RoundConfigurationSettings): RoundConfigurationSettings => {
+  const { eligibility, bonusRules, customModels } = settings;
+  const undated: RoundConfigurationSettings = { ...settings };
+
+  if (eligibility) {
+    const rules: EligibilitySettings = { ...eligibility };
+    delete rules.submissionDeadline;
+    const overrides = Object.entries(eligibility.roundOverrides || {}).flatMap(([roundId, override]) => {
+      const rest: EligibilityRules = { ...override };
+      delete rest.submissionDeadline;
+      return Object.keys(rest).length > 0 ? [[roundId, rest] as const] : [];
+    });
+    if (overrides.length > 0) rules.roundOverrides = Object.fromEntries(overrides);
+    else delete rules.roundOverrides;
+    undated.eligibility = rules;
+  }
+  if (bonusRules) undated.bonusRules = bonusRules.filter(isUndatedBonus);
+  if (customModels) {
+    undated.customModels = customModels.map(model => (
+      model.bonusRules ? { ...model, bonusRules: model.bonusRules.filter(isUndatedBonus) } : model
+    ));
+  }
+  return undated;
+};
 
 export class ConfigurationManager {
   static saveConfiguration(config: RaffleConfiguration): void {
@@ -35,30 +101,22 @@ export class ConfigurationManager {
       const configs = this.getAllConfigurations();
       console.log('🔧 Found existing configurations:', configs.length);
       
-      const existingIndex = configs.findIndex(c => c.id === config.id);
+      const existing = configs.find(c => c.id === config.id);
       
-      if (existingIndex >= 0) {
-        console.log(`🔧 Updating existing configuration at index ${existingIndex}`);
-        configs[existingIndex] = { ...config, lastModified: new Date() };
+      if (existing) {
+        console.log('🔧 Updating existing configuration');
+        saveStoredConfiguration({
+          ...config,
+          auditLog: mergeAuditLogs(existing.auditLog || [], config.auditLog || []),
+          lastModified: new Date()
+        });
       } else {
         console.log('🔧 Adding new configuration');
-        configs.push(config);
+        saveStoredConfiguration(config);
       }
       
-      const configsToSave = JSON.stringify(configs);
-      console.log('🔧 About to save configs to localStorage, size:', configsToSave.length);
-      
-      localStorage.setItem(STORAGE_KEY, configsToSave);
-      
-      // Verify the save worked
-      const verification = localStorage.getItem(STORAGE_KEY);
-      if (verification) {
-        const parsedVerification = JSON.parse(verification);
-        console.log('✅ Configuration saved successfully. Total configs in storage:', parsedVerification.length);
-        console.log('✅ Saved config ID:', config.id);
-      } else {
-        console.error('❌ Save verification failed - localStorage.getItem returned null');
-      }
+      console.log('✅ Configuration saved successfully. Total configs in storage:', loadStoredConfigurations().length);
+      console.log('✅ Saved config ID:', config.id);
     } catch (error) {
       console.error('❌ Failed to save configuration:', error);
       throw error;
@@ -69,16 +127,8 @@ export class ConfigurationManager {
     console.log('🔧 ConfigurationManager.getAllConfigurations called');
     
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      console.log('🔧 Raw localStorage data:', stored ? `${stored.length} characters` : 'null');
-      
-      if (!stored) {
-        console.log('🔧 No configurations found in localStorage');
-        return [];
-      }
-      
-      const configs = JSON.parse(stored) as RaffleConfiguration[];
-      console.log('🔧 Parsed configurations:', configs.length);
+      const configs = loadStoredConfigurations();
+      console.log('🔧 Stored configurations:', configs.length);
       
       const processedConfigs = configs.map((config, index) => {
         console.log(`🔧 Processing config ${index + 1}:`, {
@@ -89,18 +139,11 @@ export class ConfigurationManager {
           roundsLength: config.rounds?.length || 0
         });
         
-        // Backward compatibility: add default round settings if missing
+        // Stored dates may be strings (older localStorage data) - defaults for old data come from storageMigrations
         const updatedConfig = {
           ...config,
           createdAt: new Date(config.createdAt),
-          lastModified: new Date(config.lastModified),
-          roundSettings: config.roundSettings || {
-            numberOfRounds: 5,
-            raffleModel: RaffleModelType.WEIGHTED_CONTINUOUS,
-            winnersPerRound: 1,
-            showOdds: false,
-            animationType: 'squidgame'
-          }
+          lastModified: new Date(config.lastModified)
         };
         
         // Generate rounds if missing
@@ -143,9 +186,105 @@ export class ConfigurationManager {
   }
 
   static deleteConfiguration(id: string): void {
-    const configs = this.getAllConfigurations();
-    const filtered = configs.filter(c => c.id !== id);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
+    deleteStoredConfiguration(id);
+  }
+
+  /**
+   * Merge new audit events into a stored configuration without touching anything else
+   */
+  static appendAuditEvents(id: string, events: AuditEvent[]): RaffleConfiguration | null {
+    const config = this.getConfiguration(id);
+    if (!config) return null;
+
+    const existingIds = new Set((config.auditLog || []).map(event => event.id));
+    if (events.every(event => existingIds.has(event.id))) return config;
+
+    const updatedConfig = { ...config, auditLog: mergeAuditLogs(config.auditLog || [], events) };
+    this.saveConfiguration(updatedConfig);
+    return updatedConfig;
+  }
+
+  /**
+   * Copy a configuration under a new id - the copy starts without raffle progress,
+   * draw commitment or audit history of its own
+   */
+  static duplicateConfiguration(id: string, name?: string): RaffleConfiguration | null {
+    const config = this.getConfiguration(id);
+    if (!config) return null;
+
+    const copyName = name?.trim() || `${config.name} (copy)`;
+    const copy: RaffleConfiguration = {
+      ...config,
+      id: this.generateId(),
+      name: copyName,
+      teams: config.teams.map(team => ({ ...team })),
+      rounds: config.rounds.map(round => ({ ...round })),
+      prizes: (config.prizes || []).map(prize => ({ ...prize })),
+      drawCommitment: undefined, // A commitment belongs to one raffle - the copy commits to its own seed
+      auditLog: [
+        createAuditEvent('csv_loaded', {
+          entries: buildDrawEntries(config.teams),
+          details: { players: config.teams.length, configuration: copyName, duplicatedFrom: config.name }
+        })
+      ],
+      createdAt: new Date(),
+      lastModified: new Date()
+    };
+    this.saveConfiguration(copy);
+    return copy;
+  }
+
+  /**
+   * Save a configuration's settings, rounds and prizes as a template, leaving out
+   * the roster and any rule tied to this event's dates
+   */
+  static saveAsTemplate(id: string, name: string): RaffleTemplate | null {
+    const config = this.getConfiguration(id);
+    if (!config) return null;
+
+    const template: RaffleTemplate = {
+      id: this.generateId(),
+      name: name.trim() || config.name,
+      roundSettings: withoutDateBoundRules(config.roundSettings),
+      rounds: config.rounds.map(round => ({ ...round })),
+      prizes: (config.prizes || []).map(prize => ({ ...prize })),
+      createdAt: new Date(),
+      lastModified: new Date()
+    };
+    saveStoredTemplate(template);
+    console.log(`✅ Saved template "${template.name}" from configuration ${config.id}`);
+    return template;
+  }
+
+  static getAllTemplates(): RaffleTemplate[] {
+    return loadStoredTemplates().map(template => ({
+      ...template,
+      createdAt: new Date(template.createdAt),
+      lastModified: new Date(template.lastModified)
+    }));
+  }
+
+  static getTemplate(id: string): RaffleTemplate | null {
+    return this.getAllTemplates().find(template => template.id === id) || null;
+  }
+
+  static deleteTemplate(id: string): void {
+    deleteStoredTemplate(id);
+  }
+
+  /**
+   * New configuration for a freshly uploaded roster, set up like the template
+   * (date-bound rules are dropped again for templates saved before they were)
+   */
+  static createConfigurationFromTemplate(name: string, teams: TeamData[], template: RaffleTemplate): RaffleConfiguration {
+    const config = this.createConfiguration(name, teams, withoutDateBoundRules(template.roundSettings));
+    const prizes = template.prizes.map(prize => ({ ...prize }));
+
+    return {
+      ...config,
+      rounds: carryOverPrizeAssignments(config.rounds, template.rounds, prizes),
+      prizes
+    };
   }
 
   static generateId(): string {
@@ -169,36 +308,48 @@ export class ConfigurationManager {
       teams,
       roundSettings: settings,
       rounds,
+      prizes: [],
+      auditLog: [
+        createAuditEvent('csv_loaded', {
+          entries: buildDrawEntries(teams),
+          details: { players: teams.length, configuration: name }
+        })
+      ],
       createdAt: new Date(),
       lastModified: new Date()
     };
   }
 
   static generateOptimalRounds(teams: TeamData[], settings: RoundConfigurationSettings): RaffleRound[] {
-    if (teams.length === 0) {
-      return this.getDefaultRounds(settings.numberOfRounds, settings.raffleModel);
-    }
+    const rounds = this.generateRoundThresholds(teams, settings);
+    const winnersPerRound = settings.winnersPerRound || 1;
 
-    const raffleModel = settings.raffleModel || RaffleModelType.UNIFORM_ELIMINATION;
-    
-    if (raffleModel === RaffleModelType.WEIGHTED_CONTINUOUS) {
-      // For weighted continuous: all players stay active, no elimination
+    // Single-winner rounds leave winnerCount unset so existing configurations keep their shape
+    return winnersPerRound > 1 ? rounds.map(round => ({ ...round, winnerCount: winnersPerRound })) : rounds;
+  }
+
+  private static generateRoundThresholds(teams: TeamData[], settings: RoundConfigurationSettings): RaffleRound[] {
+    // Settings saved before models were definitions default to uniform elimination here
+    const model = resolveRaffleModel({ ...settings, raffleModel: settings.raffleModel || RaffleModelType.UNIFORM_ELIMINATION });
+
+    if (model.thresholdStrategy.type === 'none') {
+      // All players stay active, no elimination
       return this.createWeightedContinuousRounds(settings.numberOfRounds);
-    } else {
-      // For uniform elimination: players are eliminated progressively
-      const points = teams.map(team => team.Points).sort((a, b) => a - b);
-      return this.createSimpleDivisionRounds(points, settings.numberOfRounds);
     }
+
+    if (teams.length === 0) {
+      return this.getDefaultRounds(settings.numberOfRounds);
+    }
+
+    // Players are eliminated progressively
+    const points = teams.map(team => team.Points).sort((a, b) => a - b);
+    return this.createThresholdRounds(points, getRoundThresholds(model.thresholdStrategy, points, settings.numberOfRounds));
   }
 
-  private static getDefaultRounds(numberOfRounds: number, raffleModel?: RaffleModelType): RaffleRound[] {
+  private static getDefaultRounds(numberOfRounds: number): RaffleRound[] {
     const rounds: RaffleRound[] = [];
     const baseThreshold = 1000 / numberOfRounds;
     
-    if (raffleModel === RaffleModelType.WEIGHTED_CONTINUOUS) {
-      return this.createWeightedContinuousRounds(numberOfRounds);
-    }
-    
     for (let i = 0; i < numberOfRounds; i++) {
       rounds.push({
         id: i + 1,
@@ -226,25 +377,13 @@ export class ConfigurationManager {
     return rounds;
   }
 
-  private static createSimpleDivisionRounds(sortedPoints: number[], numberOfRounds: number): RaffleRound[] {
-    const rounds: RaffleRound[] = [];
-    const totalPlayers = sortedPoints.length;
-    const playersPerRound = Math.ceil(totalPlayers / numberOfRounds);
-    
-    for (let i = 0; i < numberOfRounds; i++) {
-      // Calculate the index for this round's threshold
-      const playerIndex = i * playersPerRound;
-      const threshold = playerIndex < sortedPoints.length ? sortedPoints[playerIndex] : sortedPoints[sortedPoints.length - 1];
-      
-      rounds.push({
-        id: i + 1,
-        name: i === numberOfRounds - 1 ? "Final Round" : `Round ${i + 1}`,
-        pointThreshold: i === 0 ? 0 : Math.max(0, threshold),
-        description: i === 0 ? "All players eligible" : `Players with ${threshold}+ points (${this.getExpectedPlayerCount(sortedPoints, threshold)} eligible)`
-      });
-    }
-    
-    return rounds;
+  private static createThresholdRounds(sortedPoints: number[], thresholds: number[]): RaffleRound[] {
+    return thresholds.map((threshold, i) => ({
+      id: i + 1,
+      name: i === thresholds.length - 1 ? "Final Round" : `Round ${i + 1}`,
+      pointThreshold: threshold,
+      description: i === 0 ? "All players eligible" : `Players with ${threshold}+ points (${this.getExpectedPlayerCount(sortedPoints, threshold)} eligible)`
+    }));
   }
 
   private static getExpectedPlayerCount(sortedPoints: number[], threshold: number): number {
@@ -0,0 +1,27 @@
+/**
+ * Trigger a browser download for generated content (JSON, CSV, reports)
+ *
+ * @param filename Name offered in the save dialog
+ * @param content File contents
+ * @param mimeType MIME type of the content
+ */
+export const downloadFile = (filename: string, content: string, mimeType: string = 'application/json'): void => {
+  if (typeof window === 'undefined') return;
+
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Turn a configuration name into a safe file name stem, e.g. "NYC Q3 2025" → "nyc-q3-2025"
+ */
+export const toFileStem = (name: string): string => {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'raffle';
+};
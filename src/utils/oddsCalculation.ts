@@ -10,14 +10,19 @@
  * 3. The odds array structure is: odds[teamIndex][roundIndex]
  */
 
+import { DEFAULT_TICKET_FORMULA, getFormulaTickets } from '@/services/ticketFormula';
+
 /**
  * Calculate the odds of winning for each participant in a round
  * 
  * @param participants Array of participants with points
+ * @param getTickets Tickets under the active raffle model, given the points and the participant
+ *                   (for bonus tickets) - defaults to Points / 100
  * @returns Array of participants with calculated tickets and odds
  */
 export function calculateOdds<T extends { Points?: number } | { points?: number }>(
-  participants: T[]
+  participants: T[],
+  getTickets: (points: number, participant: T) => number = calculateTickets
 ): (T & { tickets: number, odds: number })[] {
   // Skip calculation if no participants
   if (participants.length === 0) {
@@ -25,7 +30,7 @@ export function calculateOdds<T extends { Points?: number } | { points?: number
     return [];
   }
 
-  // Calculate tickets for each participant (Points / 100, rounded down)
+  // Calculate tickets for each participant (Points / 100, rounded down, unless the model says otherwise)
   const participantsWithTickets = participants.map(p => {
     // Handle both Points (TeamData) and points (generic) properties
     const points = (p as any).Points ?? (p as any).points ?? 0;
@@ -34,7 +39,7 @@ export function calculateOdds<T extends { Points?: number } | { points?: number
     }
     return {
       ...p,
-      tickets: calculateTickets(points)
+      tickets: getTickets(points, p)
     };
   });
 
@@ -63,7 +68,7 @@ export function calculateOdds<T extends { Points?: number } | { points?: number
  * @returns The number of tickets
  */
 export function calculateTickets(points: number): number {
-  return Math.floor(points / 100);
+  return getFormulaTickets(DEFAULT_TICKET_FORMULA, points);
 }
 
 /**
@@ -76,6 +76,17 @@ export const getUserThumbnailPath = (name: string): string | null => {
   }
 };
 
+/**
+ * Get every photo size the app may show for a user
+ * @param name - The user's full name
+ * @returns The public paths of the user's photos, smallest first
+ */
+export const getUserPhotoPaths = (name: string): string[] => {
+  return [getUserThumbnailPath, getUserSmallPhotoPath, getUserAvatarPath, getUserLargePhotoPath]
+    .map(getPath => getPath(name))
+    .filter((path): path is string => path !== null);
+};
+
 /**
  * @deprecated Use getUserAvatarPath or getUserThumbnailPath instead
  * Legacy function for backwards compatibility
@@ -0,0 +1,169 @@
+import Papa from 'papaparse';
+import { TeamData } from '@/types/raffle';
+import { ColumnMapping, DuplicateTeam, ImportField, ImportReport, ImportTable, RejectedRow } from '@/types/playerImport';
+import { readXlsxSheet } from './xlsxReader';
+
+/**
+ * Player list import
+ *
+ * Files are read into a plain table of strings, the operator maps source
+ * columns onto TeamData fields, and every row that cannot be imported is
+ * reported with a reason instead of being dropped silently.
+ */
+
+export const IMPORT_FIELDS: ImportField[] = ['Team', 'Points', 'Submissions', 'Last Submission'];
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['Team', 'Points'];
+
+export type ImportFormat = 'csv' | 'tsv' | 'xlsx';
+
+// Header spellings seen in Goosechase exports and HR lists, compared without case or punctuation
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  Team: ['team', 'teamname', 'name', 'player', 'playername', 'participant', 'fullname', 'displayname'],
+  Points: ['points', 'score', 'totalpoints', 'totalscore', 'pts'],
+  Submissions: ['submissions', 'submissioncount', 'missions', 'missionscompleted', 'completed'],
+  'Last Submission': ['lastsubmission', 'lastsubmitted', 'lastactivity', 'lastupdated', 'updated', 'date']
+};
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const getImportFormat = (fileName: string): ImportFormat | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv' || extension === 'txt') return 'csv';
+  if (extension === 'tsv' || extension === 'tab') return 'tsv';
+  if (extension === 'xlsx') return 'xlsx';
+  return null;
+};
+
+/**
+ * First non-empty row becomes the header; cells are trimmed and short rows padded.
+ * Blank rows are skipped but still counted, so row numbers match the source file.
+ * Throws when two columns share a header name - a mapping could not tell them apart.
+ */
+export const toImportTable = (cells: string[][]): ImportTable => {
+  const nonEmpty = cells
+    .map((row, index) => ({ row, rowNumber: index + 1 }))
+    .filter(({ row }) => row.some(cell => cell.trim() !== ''));
+  if (nonEmpty.length === 0) return { headers: [], rows: [], rowNumbers: [] };
+
+  const headers = nonEmpty[0].row.map(cell => cell.trim());
+  const seen = new Set<string>();
+  headers.filter(header => header !== '').forEach(header => {
+    const key = header.toLowerCase();
+    if (seen.has(key)) {
+      throw new Error(`The header row has more than one "${header}" column. Rename or remove the extra column and upload the file again.`);
+    }
+    seen.add(key);
+  });
+
+  const dataRows = nonEmpty.slice(1);
+  return {
+    headers,
+    rows: dataRows.map(({ row }) => headers.map((_, index) => (row[index] ?? '').trim())),
+    rowNumbers: dataRows.map(({ rowNumber }) => rowNumber)
+  };
+};
+
+export const parseDelimitedText = (text: string, delimiter?: string): ImportTable => {
+  // Blank lines are kept here and skipped by toImportTable, which counts them for row numbers
+  const result = Papa.parse<string[]>(text, { delimiter, skipEmptyLines: false });
+  return toImportTable(result.data);
+};
+
+export const readImportFile = async (file: File): Promise<ImportTable> => {
+  const format = getImportFormat(file.name);
+  if (!format) {
+    throw new Error(`Unsupported file type "${file.name}". Use a CSV, TSV or XLSX file.`);
+  }
+  if (format === 'xlsx') {
+    return toImportTable(await readXlsxSheet(await file.arrayBuffer()));
+  }
+  return parseDelimitedText(await file.text(), format === 'tsv' ? '\t' : undefined);
+};
+
+/**
+ * Guess the mapping from header names - exact alias matches win over partial ones
+ */
+export const suggestColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping = {} as ColumnMapping;
+  const used = new Set<string>();
+
+  IMPORT_FIELDS.forEach(field => {
+    const aliases = FIELD_ALIASES[field];
+    const exact = headers.find(header => !used.has(header) && aliases.includes(normalizeHeader(header)));
+    const partial = headers.find(header => !used.has(header) && aliases.some(alias => normalizeHeader(header).includes(alias)));
+    const match = exact ?? partial ?? null;
+    if (match) used.add(match);
+    mapping[field] = match;
+  });
+
+  return mapping;
+};
+
+export const getMissingImportFields = (mapping: ColumnMapping): ImportField[] => {
+  return REQUIRED_IMPORT_FIELDS.filter(field => !mapping[field]);
+};
+
+/**
+ * Parse a spreadsheet number, allowing thousands separators ("1,250") and surrounding spaces
+ */
+export const parseImportNumber = (value: string): number | null => {
+  const cleaned = value.replace(/[\s,]/g, '');
+  if (cleaned === '') return null;
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export const buildImportReport = (table: ImportTable, mapping: ColumnMapping): ImportReport => {
+  const columnIndex = (field: ImportField): number => (mapping[field] ? table.headers.indexOf(mapping[field] as string) : -1);
+  const teamColumn = columnIndex('Team');
+  const pointsColumn = columnIndex('Points');
+  const submissionsColumn = columnIndex('Submissions');
+  const lastSubmissionColumn = columnIndex('Last Submission');
+
+  const teams: TeamData[] = [];
+  const rejected: RejectedRow[] = [];
+  const firstRowByName = new Map<string, number>();
+  const duplicateRows = new Map<string, DuplicateTeam>();
+
+  table.rows.forEach((values, index) => {
+    const rowNumber = table.rowNumbers[index];
+    const reject = (reason: string) => rejected.push({ rowNumber, reason, values });
+
+    const team = teamColumn >= 0 ? values[teamColumn] : '';
+    if (!team) return reject('Missing team name');
+
+    const rawPoints = pointsColumn >= 0 ? values[pointsColumn] : '';
+    const points = parseImportNumber(rawPoints);
+    if (rawPoints === '') return reject('Missing points');
+    if (points === null) return reject(`Points "${rawPoints}" is not a number`);
+    if (points < 0) return reject('Points cannot be negative');
+
+    const rawSubmissions = submissionsColumn >= 0 ? values[submissionsColumn] : '';
+    const submissions = rawSubmissions === '' ? 0 : parseImportNumber(rawSubmissions);
+    if (submissions === null) return reject(`Submissions "${rawSubmissions}" is not a number`);
+
+    const key = team.toLowerCase();
+    const firstRow = firstRowByName.get(key);
+    if (firstRow !== undefined) {
+      const duplicate = duplicateRows.get(key) ?? { team, rowNumbers: [firstRow] };
+      duplicate.rowNumbers.push(rowNumber);
+      duplicateRows.set(key, duplicate);
+      return reject(`Duplicate of row ${firstRow}`);
+    }
+    firstRowByName.set(key, rowNumber);
+
+    teams.push({
+      Team: team,
+      Points: points,
+      Submissions: submissions,
+      'Last Submission': lastSubmissionColumn >= 0 ? values[lastSubmissionColumn] : ''
+    });
+  });
+
+  return {
+    teams,
+    rejected,
+    duplicates: Array.from(duplicateRows.values()),
+    totalRows: table.rows.length
+  };
+};
@@ -0,0 +1,105 @@
+import { Prize, PrizeTier, RaffleRound, Winner } from '@/types/raffle';
+
+/**
+ * Prize catalog utilities
+ *
+ * Prizes live on the RaffleConfiguration. Each round may list the prize IDs it
+ * draws from (in priority order); a round without an explicit list draws from
+ * the whole catalog. A configuration with an empty catalog keeps the legacy
+ * behaviour of numbered "Prize N" labels.
+ */
+
+export const PRIZE_TIERS: { value: PrizeTier; label: string }[] = [
+  { value: 'grand', label: 'Grand Prize' },
+  { value: 'premium', label: 'Premium' },
+  { value: 'standard', label: 'Standard' }
+];
+
+export const createPrize = (overrides: Partial<Prize> = {}): Prize => ({
+  id: Date.now().toString(36) + Math.random().toString(36).substr(2),
+  name: 'New Prize',
+  quantity: 1,
+  tier: 'standard',
+  ...overrides
+});
+
+/**
+ * Number of times a prize has already been awarded
+ */
+export const getAwardedCount = (prizeId: string, winners: Winner[]): number => {
+  return winners.filter(winner => winner.prizeId === prizeId).length;
+};
+
+/**
+ * Units of a prize that can still be awarded
+ */
+export const getRemainingQuantity = (prize: Prize, winners: Winner[]): number => {
+  return Math.max(0, prize.quantity - getAwardedCount(prize.id, winners));
+};
+
+/**
+ * Resolve the prizes a round draws from, in priority order
+ */
+export const getPrizesForRound = (round: RaffleRound, prizes: Prize[]): Prize[] => {
+  if (!round.prizeIds || round.prizeIds.length === 0) {
+    return prizes;
+  }
+
+  return round.prizeIds
+    .map(prizeId => prizes.find(prize => prize.id === prizeId))
+    .filter((prize): prize is Prize => prize !== undefined);
+};
+
+/**
+ * The prize the next winner of a round will receive, or null when the round has run out
+ */
+export const getNextPrizeForRound = (round: RaffleRound, prizes: Prize[], winners: Winner[]): Prize | null => {
+  return getPrizesForRound(round, prizes).find(prize => getRemainingQuantity(prize, winners) > 0) || null;
+};
+
+/**
+ * Prizes a round can still hand out across all of its prizes (unlimited when the catalog is empty)
+ */
+export const getRemainingPrizeCount = (round: RaffleRound, prizes: Prize[], winners: Winner[]): number => {
+  if (prizes.length === 0) return Infinity;
+  return getPrizesForRound(round, prizes).reduce((total, prize) => total + getRemainingQuantity(prize, winners), 0);
+};
+
+/**
+ * Whether a round can be drawn with the current catalog.
+ * An empty catalog never blocks a draw (legacy configurations have no prizes).
+ */
+export const roundHasPrizeAvailable = (round: RaffleRound, prizes: Prize[], winners: Winner[]): boolean => {
+  if (prizes.length === 0) return true;
+  return getNextPrizeForRound(round, prizes, winners) !== null;
+};
+
+/**
+ * Keep per-round prize assignments when rounds are regenerated from new settings.
+ * Rounds are matched by ID; assignments pointing at deleted prizes are dropped.
+ */
+export const carryOverPrizeAssignments = (
+  newRounds: RaffleRound[],
+  previousRounds: RaffleRound[],
+  prizes: Prize[]
+): RaffleRound[] => {
+  const prizeIds = new Set(prizes.map(prize => prize.id));
+
+  return newRounds.map(round => {
+    const previous = previousRounds.find(r => r.id === round.id);
+    if (!previous?.prizeIds || previous.prizeIds.length === 0) {
+      return round;
+    }
+    return {
+      ...round,
+      prizeIds: previous.prizeIds.filter(id => prizeIds.has(id))
+    };
+  });
+};
+
+/**
+ * Format a prize for display, e.g. "AirPods Pro (Contoso)"
+ */
+export const formatPrizeLabel = (prize: Prize): string => {
+  return prize.sponsor ? `${prize.name} (${prize.sponsor})` : prize.name;
+};
@@ -0,0 +1,80 @@
+/**
+ * Statistics helpers
+ *
+ * Just enough distribution maths for the fairness audit's chi-squared test,
+ * so the p-value can be computed in the browser without a stats library.
+ */
+
+// Lanczos approximation (g = 7, n = 9) - accurate to ~15 digits for x > 0
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7
+];
+
+export const logGamma = (x: number): number => {
+  if (x < 0.5) {
+    // Reflection formula
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) {
+    sum += LANCZOS[i] / (z + i);
+  }
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+const MAX_ITERATIONS = 1000;
+const EPSILON = 1e-14;
+
+/**
+ * Regularized upper incomplete gamma Q(a, x) - series below a + 1, continued
+ * fraction above (Numerical Recipes gammq)
+ */
+export const upperRegularizedGamma = (a: number, x: number): number => {
+  if (x <= 0) return 1;
+
+  const logPrefix = -x + a * Math.log(x) - logGamma(a);
+
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < MAX_ITERATIONS; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * EPSILON) break;
+    }
+    return Math.max(0, 1 - sum * Math.exp(logPrefix));
+  }
+
+  // Lentz's method
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < MAX_ITERATIONS; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return Math.min(1, Math.exp(logPrefix) * h);
+};
+
+/**
+ * Probability of a chi-squared statistic at least this large if the null
+ * hypothesis holds
+ */
+export const chiSquaredPValue = (statistic: number, degreesOfFreedom: number): number => {
+  if (degreesOfFreedom <= 0) return 1;
+  return upperRegularizedGamma(degreesOfFreedom / 2, statistic / 2);
+};
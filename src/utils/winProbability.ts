@@ -0,0 +1,327 @@
+/**
+ * Whole-raffle win probability
+ *
+ * calculateOdds only gives a player's share of the current round's tickets.
+ * This works out each player's chance of winning at least one prize over all
+ * remaining draws: winners leave the pool (draws are without replacement) and
+ * every draw only includes players at or above its round's point threshold.
+ *
+ * Small rosters are solved exactly by tracking the probability of every
+ * possible set of winners; large ones fall back to a Monte Carlo estimate.
+ * Models that eliminate players or keep winners in the pool change the pool
+ * between rounds in ways a set of winners can't capture, so those are always
+ * estimated by running the remaining rounds through RaffleEngine.
+ */
+
+import { RaffleRound, TeamData, Winner } from '@/types/raffle';
+import { RaffleModel, RaffleParticipant } from '@/types/raffleModels';
+import { WinProbabilityDraw, WinProbabilityResult } from '@/types/winProbability';
+import { getTicketBreakdown } from '@/services/bonusTickets';
+import { RaffleEngine } from '@/services/raffleEngine';
+import { calculateTickets } from './oddsCalculation';
+
+// Winner sets to track before the exact calculation gets too slow for the UI
+export const MAX_EXACT_STATES = 50000;
+export const DEFAULT_SIMULATIONS = 5000;
+
+// Players x rounds to run through RaffleEngine per estimate - whole-round simulations
+// cost far more than single draws, so big rosters get fewer runs (but never below the minimum)
+export const ROUND_SIMULATION_BUDGET = 200000;
+export const MIN_ROUND_SIMULATIONS = 100;
+
+// Bitmask limit for the exact calculation
+const MAX_EXACT_PLAYERS = 30;
+
+export interface WinProbabilityOptions {
+  getTickets?: (points: number, team: TeamData) => number; // Active model's tickets incl. bonuses (defaults to Points / 100)
+  alreadyWon?: string[]; // Drawn players no longer in the pool (e.g. pending confirmation)
+  withdrawn?: string[]; // Withdrawn or rejected players kept out of every remaining draw
+  model?: RaffleModel; // Active model - elimination or kept winners switch to simulating whole rounds
+  currentRound?: number; // 1-based round in progress (defaults to the first draw's round)
+  totalRounds?: number; // Rounds in the raffle, for the model's elimination schedule (defaults to the last draw's round)
+  maxExactStates?: number;
+  simulations?: number;
+  random?: () => number;
+}
+
+interface PoolEntry {
+  team: string;
+  points: number;
+  tickets: number;
+}
+
+/**
+ * Winner slots still to be drawn, from the current round to the last one
+ *
+ * @param rounds Configured rounds
+ * @param currentRound 0-based index of the round in progress
+ * @param winners Confirmed winners (their round is 1-based)
+ * @param pendingCount Drawn winners of the current round still waiting for confirmation
+ * @param getExcludedTeams Players a round's eligibility rules keep out of its draws
+ */
+export function getRemainingDraws(
+  rounds: RaffleRound[],
+  currentRound: number,
+  winners: Winner[],
+  pendingCount: number = 0,
+  getExcludedTeams?: (round: RaffleRound) => string[]
+): WinProbabilityDraw[] {
+  return rounds.slice(currentRound).flatMap((round, offset) => {
+    let slots = round.winnerCount ?? 1;
+    if (offset === 0) {
+      slots -= winners.filter(winner => winner.round === currentRound + 1).length + pendingCount;
+    }
+    const excludeTeams = getExcludedTeams?.(round);
+    const roundNumber = currentRound + offset + 1;
+    const draw: WinProbabilityDraw = excludeTeams?.length
+      ? { pointThreshold: round.pointThreshold, excludeTeams, round: roundNumber }
+      : { pointThreshold: round.pointThreshold, round: roundNumber };
+    return Array.from({ length: Math.max(0, slots) }, () => draw);
+  });
+}
+
+const isInDraw = (entry: PoolEntry, draw: WinProbabilityDraw): boolean => {
+  return entry.points >= draw.pointThreshold && !draw.excludeTeams?.includes(entry.team);
+};
+
+/**
+ * Number of winner sets the exact calculation may have to track: every subset
+ * of the pool with at most one member per draw
+ */
+function countReachableStates(players: number, draws: number, limit: number): number {
+  let total = 1;
+  let combinations = 1;
+  for (let k = 1; k <= Math.min(players, draws); k++) {
+    combinations = (combinations * (players - k + 1)) / k;
+    total += combinations;
+    if (total > limit) break;
+  }
+  return total;
+}
+
+function calculateExact(pool: PoolEntry[], draws: WinProbabilityDraw[]): number[] {
+  let states = new Map<number, number>([[0, 1]]);
+
+  draws.forEach(draw => {
+    const next = new Map<number, number>();
+    const add = (mask: number, probability: number) => next.set(mask, (next.get(mask) ?? 0) + probability);
+
+    states.forEach((probability, mask) => {
+      let totalTickets = 0;
+      pool.forEach((entry, i) => {
+        if (!(mask & (1 << i)) && isInDraw(entry, draw)) totalTickets += entry.tickets;
+      });
+
+      // Nobody left to draw - the slot stays empty
+      if (totalTickets === 0) {
+        add(mask, probability);
+        return;
+      }
+
+      pool.forEach((entry, i) => {
+        if (!(mask & (1 << i)) && isInDraw(entry, draw)) {
+          add(mask | (1 << i), probability * (entry.tickets / totalTickets));
+        }
+      });
+    });
+
+    states = next;
+  });
+
+  const winChances = new Array<number>(pool.length).fill(0);
+  states.forEach((probability, mask) => {
+    pool.forEach((_, i) => {
+      if (mask & (1 << i)) winChances[i] += probability;
+    });
+  });
+  return winChances;
+}
+
+function calculateMonteCarlo(
+  pool: PoolEntry[],
+  draws: WinProbabilityDraw[],
+  simulations: number,
+  random: () => number
+): number[] {
+  const winCounts = new Array<number>(pool.length).fill(0);
+  const won = new Uint8Array(pool.length);
+
+  for (let s = 0; s < simulations; s++) {
+    won.fill(0);
+
+    draws.forEach(draw => {
+      let totalTickets = 0;
+      pool.forEach((entry, i) => {
+        if (!won[i] && isInDraw(entry, draw)) totalTickets += entry.tickets;
+      });
+      if (totalTickets === 0) return;
+
+      let ticket = random() * totalTickets;
+      for (let i = 0; i < pool.length; i++) {
+        if (won[i] || !isInDraw(pool[i], draw)) continue;
+        ticket -= pool[i].tickets;
+        if (ticket < 0) {
+          won[i] = 1;
+          break;
+        }
+      }
+    });
+
+    won.forEach((value, i) => {
+      winCounts[i] += value;
+    });
+  }
+
+  return winCounts.map(count => count / simulations);
+}
+
+// Model rules the winner-set calculation can't represent
+const needsRoundSimulation = (model?: RaffleModel): model is RaffleModel => {
+  return !!model && (model.elimination.type !== 'none' || model.winnerRemoval === 'keep');
+};
+
+/**
+ * Runs the remaining rounds through RaffleEngine, so eliminations and kept
+ * winners follow the model exactly as a simulated raffle would. Draws without
+ * a round count toward the round in progress.
+ *
+ * @returns Number of runs each player won at least one prize in
+ */
+function simulateRounds(
+  teams: TeamData[],
+  draws: WinProbabilityDraw[],
+  model: RaffleModel,
+  options: Required<Pick<WinProbabilityOptions, 'alreadyWon' | 'withdrawn' | 'simulations' | 'random'>>
+    & Pick<WinProbabilityOptions, 'currentRound' | 'totalRounds'>
+): Map<string, number> {
+  const { alreadyWon, withdrawn, simulations, random } = options;
+  const firstRound = options.currentRound ?? draws[0]?.round ?? 1;
+  const lastRound = Math.max(firstRound, options.totalRounds ?? 0, ...draws.map(draw => draw.round ?? firstRound));
+
+  // Per-round settings, indexed by 0-based round like the engine's thresholds
+  const winnerCounts: number[] = [];
+  const pointThresholds: number[] = [];
+  const excludedByRound: string[][] = [];
+  draws.forEach(draw => {
+    const index = (draw.round ?? firstRound) - 1;
+    winnerCounts[index] = (winnerCounts[index] ?? 0) + 1;
+    pointThresholds[index] = draw.pointThreshold;
+    excludedByRound[index] = draw.excludeTeams ?? [];
+  });
+  // Drawn winners waiting for confirmation can't be drawn again in their own round
+  excludedByRound[firstRound - 1] = [...(excludedByRound[firstRound - 1] ?? []), ...alreadyWon];
+
+  const baseParticipants: RaffleParticipant[] = teams.map(team => {
+    const won = team.status === 'winner' || alreadyWon.includes(team.Team);
+    const inRaffle = (won || team.status === undefined || team.status === 'eligible') && !withdrawn.includes(team.Team);
+    const { bonus, total } = getTicketBreakdown(team, model.ticketFormula, model.bonusRules);
+    return {
+      id: team.Team,
+      name: team.Team,
+      email: '',
+      points: team.Points,
+      tickets: total,
+      bonusTickets: bonus,
+      // Winners leave the field entirely in elimination models, as they do in the engine
+      isActive: inRaffle && !(won && model.winnerRemoval === 'remove' && model.elimination.type !== 'none'),
+      isWinner: won
+    };
+  });
+
+  const winningRuns = new Map<string, number>();
+  for (let s = 0; s < simulations; s++) {
+    const participants = baseParticipants.map(participant => ({ ...participant }));
+    const engine = new RaffleEngine(participants, {
+      totalRounds: lastRound,
+      winnersPerRound: 1,
+      model,
+      participants,
+      pointThresholds,
+      excludedByRound,
+      roundsPlayed: firstRound - 1,
+      random
+    });
+
+    const winnersThisRun = new Set<string>();
+    for (let round = firstRound; round <= lastRound; round++) {
+      engine.runRound(winnerCounts[round - 1] ?? 0).winners.forEach(id => winnersThisRun.add(id));
+    }
+    winnersThisRun.forEach(id => winningRuns.set(id, (winningRuns.get(id) ?? 0) + 1));
+  }
+
+  return winningRuns;
+}
+
+/**
+ * Chance (in %) of each team winning at least one prize in the remaining draws
+ *
+ * Teams who already won score 100%; withdrawn, removed and zero-ticket teams score 0%.
+ */
+export function calculateWinProbabilities(
+  teams: TeamData[],
+  draws: WinProbabilityDraw[],
+  options: WinProbabilityOptions = {}
+): WinProbabilityResult {
+  const {
+    getTickets = calculateTickets,
+    alreadyWon = [],
+    withdrawn = [],
+    model,
+    currentRound,
+    totalRounds,
+    maxExactStates = MAX_EXACT_STATES,
+    simulations = DEFAULT_SIMULATIONS,
+    random = Math.random
+  } = options;
+
+  const probabilities: Record<string, number> = {};
+  const pool: PoolEntry[] = [];
+
+  teams.forEach(team => {
+    if (team.status === 'winner' || alreadyWon.includes(team.Team)) {
+      probabilities[team.Team] = 100;
+      return;
+    }
+    probabilities[team.Team] = 0;
+    const tickets = getTickets(team.Points, team);
+    const inPool = (team.status === undefined || team.status === 'eligible') && !withdrawn.includes(team.Team);
+    if (inPool && tickets > 0) {
+      pool.push({ team: team.Team, points: team.Points, tickets });
+    }
+  });
+
+  if (needsRoundSimulation(model)) {
+    const roundCount = new Set(draws.map(draw => draw.round)).size;
+    const runs = Math.min(
+      simulations,
+      Math.max(MIN_ROUND_SIMULATIONS, Math.floor(ROUND_SIMULATION_BUDGET / Math.max(1, teams.length * roundCount)))
+    );
+    const winningRuns = simulateRounds(teams, draws, model, { alreadyWon, withdrawn, simulations: runs, random, currentRound, totalRounds });
+    pool.forEach(entry => {
+      probabilities[entry.team] = ((winningRuns.get(entry.team) ?? 0) / runs) * 100;
+    });
+    return { probabilities, method: 'monte_carlo', simulations: runs };
+  }
+
+  const useExact = pool.length <= MAX_EXACT_PLAYERS
+    && countReachableStates(pool.length, draws.length, maxExactStates) <= maxExactStates;
+
+  const winChances = useExact
+    ? calculateExact(pool, draws)
+    : calculateMonteCarlo(pool, draws, simulations, random);
+
+  pool.forEach((entry, i) => {
+    probabilities[entry.team] = winChances[i] * 100;
+  });
+
+  return useExact
+    ? { probabilities, method: 'exact' }
+    : { probabilities, method: 'monte_carlo', simulations };
+}
+
+/**
+ * Short label for the method, e.g. for a column header
+ */
+export function formatWinProbabilityMethod(result: WinProbabilityResult): string {
+  return result.method === 'exact' ? 'exact' : `≈ ${result.simulations?.toLocaleString()} simulations`;
+}
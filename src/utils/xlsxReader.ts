@@ -0,0 +1,229 @@
+/**
+ * Minimal XLSX reader
+ *
+ * An .xlsx file is a zip archive of XML parts. This reads the first worksheet
+ * as text cells - enough for player lists - without pulling in a spreadsheet
+ * library. Stored and deflated zip entries are supported, which covers files
+ * saved by Excel, Google Sheets and Numbers.
+ */
+
+export type Inflate = (data: Uint8Array) => Promise<Uint8Array>;
+
+// Browsers ship raw deflate support through the Compression Streams API
+export const inflateRaw: Inflate = async (data) => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const decodeUtf8 = (bytes: Uint8Array): string => {
+  let result = '';
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    let codePoint: number;
+    if (byte < 0x80) {
+      codePoint = byte;
+    } else if (byte < 0xe0) {
+      codePoint = ((byte & 0x1f) << 6) | (bytes[++i] & 0x3f);
+    } else if (byte < 0xf0) {
+      codePoint = ((byte & 0x0f) << 12) | ((bytes[++i] & 0x3f) << 6) | (bytes[++i] & 0x3f);
+    } else {
+      codePoint = ((byte & 0x07) << 18) | ((bytes[++i] & 0x3f) << 12) | ((bytes[++i] & 0x3f) << 6) | (bytes[++i] & 0x3f);
+    }
+    result += String.fromCodePoint(codePoint);
+  }
+  return result;
+};
+
+const readZipEntries = (bytes: Uint8Array): Map<string, ZipEntry> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // End of central directory record, searched from the back (it may be followed by a comment)
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= 0; i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('File is not a valid XLSX workbook');
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Corrupt XLSX central directory');
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decodeUtf8(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+const readZipText = async (
+  bytes: Uint8Array,
+  entries: Map<string, ZipEntry>,
+  name: string,
+  inflate: Inflate
+): Promise<string | null> => {
+  const entry = entries.get(name);
+  if (!entry) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const header = entry.localHeaderOffset;
+  const dataStart = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = bytes.subarray(dataStart, dataStart + entry.compressedSize);
+
+  if (entry.method === 0) return decodeUtf8(data);
+  if (entry.method === 8) return decodeUtf8(await inflate(data));
+  throw new Error(`Unsupported XLSX compression method ${entry.method}`);
+};
+
+const parseXml = (text: string): Document => new DOMParser().parseFromString(text, 'application/xml');
+
+// Text of a shared string or inline string, joining rich-text runs
+const elementText = (element: Element): string => {
+  return Array.from(element.getElementsByTagName('t')).map(node => node.textContent ?? '').join('');
+};
+
+// "C12" → 2
+const columnIndex = (reference: string): number => {
+  const letters = reference.replace(/[0-9]/g, '');
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+// Built-in number formats that display dates
+const BUILT_IN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+// Custom format codes are dates when a d/m/y token remains once colours, locales,
+// quoted literals, escaped characters and padding are stripped - "#,##0;[Red]-#,##0" is not
+const isDateFormatCode = (code: string): boolean => {
+  const tokens = code.replace(/\[[^\]]*\]|"[^"]*"|\\.|[_*]./g, '');
+  return /[dmy]/i.test(tokens);
+};
+
+/**
+ * Style indexes whose number format is a date, so serial numbers can be shown as dates
+ */
+const readDateStyles = (stylesXml: string | null): Set<number> => {
+  const dateStyles = new Set<number>();
+  if (!stylesXml) return dateStyles;
+
+  const styles = parseXml(stylesXml);
+  const customDateFormats = new Set<number>();
+  Array.from(styles.getElementsByTagName('numFmt')).forEach(format => {
+    if (isDateFormatCode(format.getAttribute('formatCode') ?? '')) {
+      customDateFormats.add(Number(format.getAttribute('numFmtId')));
+    }
+  });
+
+  const cellXfs = styles.getElementsByTagName('cellXfs')[0];
+  if (!cellXfs) return dateStyles;
+  Array.from(cellXfs.getElementsByTagName('xf')).forEach((xf, index) => {
+    const formatId = Number(xf.getAttribute('numFmtId') ?? 0);
+    if (BUILT_IN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) dateStyles.add(index);
+  });
+  return dateStyles;
+};
+
+// Excel serial day (1900 date system) → YYYY-MM-DD, or YYYY-MM-DDTHH:mm:ss when the serial carries a time of day.
+// Serials have no timezone, so the time is left without an offset and reads as local time like the cutoffs do
+const serialToDate = (serial: number): string => {
+  const seconds = Math.round((serial - 25569) * 86400);
+  const wallClock = new Date(seconds * 1000).toISOString();
+  return Number.isInteger(serial) ? wallClock.slice(0, 10) : wallClock.slice(0, 19);
+};
+
+// Worksheet the workbook lists first, falling back to sheet1
+const firstSheetPath = async (
+  bytes: Uint8Array,
+  entries: Map<string, ZipEntry>,
+  inflate: Inflate
+): Promise<string> => {
+  const workbookXml = await readZipText(bytes, entries, 'xl/workbook.xml', inflate);
+  const relsXml = await readZipText(bytes, entries, 'xl/_rels/workbook.xml.rels', inflate);
+  if (workbookXml && relsXml) {
+    const sheet = parseXml(workbookXml).getElementsByTagName('sheet')[0];
+    const relationId = sheet?.getAttribute('r:id');
+    const relation = Array.from(parseXml(relsXml).getElementsByTagName('Relationship'))
+      .find(rel => rel.getAttribute('Id') === relationId);
+    const target = relation?.getAttribute('Target');
+    if (target) {
+      return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+  return 'xl/worksheets/sheet1.xml';
+};
+
+/**
+ * Read every cell of the first worksheet as text, row by row
+ *
+ * @param data Contents of the .xlsx file
+ * @param inflate Raw deflate decoder (injectable for environments without DecompressionStream)
+ */
+export const readXlsxSheet = async (data: ArrayBuffer, inflate: Inflate = inflateRaw): Promise<string[][]> => {
+  const bytes = new Uint8Array(data);
+  const entries = readZipEntries(bytes);
+
+  const sheetXml = await readZipText(bytes, entries, await firstSheetPath(bytes, entries, inflate), inflate);
+  if (!sheetXml) throw new Error('The workbook has no worksheets');
+
+  const sharedStringsXml = await readZipText(bytes, entries, 'xl/sharedStrings.xml', inflate);
+  const sharedStrings = sharedStringsXml
+    ? Array.from(parseXml(sharedStringsXml).getElementsByTagName('si')).map(elementText)
+    : [];
+  const dateStyles = readDateStyles(await readZipText(bytes, entries, 'xl/styles.xml', inflate));
+
+  // Empty rows are left out of the sheet XML - pad them back so row positions match the sheet
+  const rows: string[][] = [];
+  Array.from(parseXml(sheetXml).getElementsByTagName('row')).forEach(row => {
+    const rowNumber = Number(row.getAttribute('r'));
+    while (rowNumber > 0 && rows.length < rowNumber - 1) rows.push([]);
+
+    const cells: string[] = [];
+    Array.from(row.getElementsByTagName('c')).forEach((cell, position) => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : position;
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+
+      let text: string;
+      if (type === 's') {
+        text = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        text = elementText(cell);
+      } else if (type === 'b') {
+        text = value === '1' ? 'TRUE' : 'FALSE';
+      } else if (!type || type === 'n') {
+        const style = Number(cell.getAttribute('s') ?? -1);
+        text = value !== '' && dateStyles.has(style) ? serialToDate(Number(value)) : value;
+      } else {
+        text = value; // str (formula result) and e (error) are already text
+      }
+
+      while (cells.length < index) cells.push('');
+      cells[index] = text;
+    });
+    rows.push(cells);
+  });
+  return rows;
+};
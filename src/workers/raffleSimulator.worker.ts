@@ -0,0 +1,23 @@
+import { SimulationCommand, runSimulationJob } from '@/services/simulationJob';
+
+/**
+ * Runs RaffleSimulator's batch simulations off the main thread. Cancel
+ * commands are picked up between chunks, so partial results still come back.
+ */
+const ctx = self as unknown as Worker;
+const cancelledJobs = new Set<number>();
+
+ctx.onmessage = (event: MessageEvent<SimulationCommand>) => {
+  const command = event.data;
+
+  if (command.type === 'cancel') {
+    cancelledJobs.add(command.jobId);
+    return;
+  }
+
+  runSimulationJob(command, {
+    post: message => ctx.postMessage(message),
+    isCancelled: () => cancelledJobs.has(command.jobId),
+    pause: () => new Promise(resolve => setTimeout(resolve, 0))
+  }).finally(() => cancelledJobs.delete(command.jobId));
+};